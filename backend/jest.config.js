@@ -0,0 +1,16 @@
+/**
+ * Unit tests under tests/, mirroring src/
+ * Sources are compiled to CommonJS for Jest; `.js` import suffixes map back to the .ts files
+ */
+/** @type {import('jest').Config} */
+export default {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    setupFiles: ['<rootDir>/tests/setup.ts'],
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+    },
+};
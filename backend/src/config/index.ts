@@ -1,9 +1,36 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import type { VehicleType } from '../types/index.js';
 
 // Load environment variables
 dotenv.config();
 
+const VEHICLE_TYPES: readonly VehicleType[] = ['motorcycle', 'tuk_tuk', 'car', 'van', 'pickup', 'truck'];
+
+// Comma-separated "<vehicle type>:<min>-<max>" ranges in km/h
+const speedLimitsSchema = z.string().optional().transform((value, ctx) => {
+    const limits: Partial<Record<VehicleType, { minSpeedKmh: number; maxSpeedKmh: number }>> = {};
+
+    for (const pair of (value ?? '').split(',').map(p => p.trim()).filter(Boolean)) {
+        const match = /^([a-z_]+):(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(pair);
+        const type = VEHICLE_TYPES.find(t => t === match?.[1]);
+        const minSpeedKmh = Number(match?.[2]);
+        const maxSpeedKmh = Number(match?.[3]);
+
+        if (!type) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${pair}" must look like "<vehicle type>:<min>-<max>"` });
+            return z.NEVER;
+        }
+        if (minSpeedKmh >= maxSpeedKmh) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Speed range for ${type} must have min below max` });
+            return z.NEVER;
+        }
+        limits[type] = { minSpeedKmh, maxSpeedKmh };
+    }
+
+    return limits;
+});
+
 // Configuration schema with validation
 const configSchema = z.object({
     // Server
@@ -14,6 +41,8 @@ const configSchema = z.object({
     // Security Keys
     jwtSecret: z.string().min(32),
     encryptionKey: z.string().min(32),
+    encryptionKeys: z.string().optional(),
+    encryptionActiveKeyVersion: z.coerce.number().int().min(1).optional(),
     hmacSecret: z.string().min(32),
 
     // Database
@@ -26,12 +55,22 @@ const configSchema = z.object({
     locationGridSizeMeters: z.coerce.number().int().min(50).max(5000).default(500),
     privacyZoneDefaultRadiusMeters: z.coerce.number().int().min(50).max(2000).default(200),
     maxLocationHistoryHours: z.coerce.number().int().min(1).max(168).default(24),
+    heatmapMinDrivers: z.coerce.number().int().min(2).max(100).default(5),
 
     // Delivery Codes
     codeTtlMinutes: z.coerce.number().int().min(5).max(1440).default(30),
     codeMaxAttempts: z.coerce.number().int().min(1).max(10).default(5),
     codeTheme: z.enum(['adventure', 'nature', 'tech', 'kenyan']).default('kenyan'),
 
+    // Pricing
+    quoteTtlMinutes: z.coerce.number().int().min(5).max(1440).default(30),
+
+    // Route Planning (GeoJSON road network, optional)
+    roadGraphPath: z.string().optional(),
+
+    // Cargo Security
+    speedLimitsKmh: speedLimitsSchema,
+
     // OTP
     otpTtlSeconds: z.coerce.number().int().min(60).max(900).default(300),
     otpLength: z.coerce.number().int().min(4).max(8).default(6),
@@ -59,6 +98,8 @@ const configSchema = z.object({
     retentionDaysLocation: z.coerce.number().int().min(7).max(90).default(30),
     retentionDaysDelivery: z.coerce.number().int().min(30).max(730).default(365),
     retentionDaysAudit: z.coerce.number().int().min(365).max(3650).default(2555),
+    retentionDaysPhotoWithoutConsent: z.coerce.number().int().min(7).max(730).default(30),
+    retentionPurgeIntervalMinutes: z.coerce.number().int().min(5).max(1440).default(360),
 
     // Rate Limiting
     rateLimitWindowMs: z.coerce.number().int().min(1000).max(3600000).default(60000),
@@ -82,15 +123,21 @@ function loadConfig(): Config {
         host: process.env['HOST'],
         jwtSecret: process.env['JWT_SECRET'] ?? 'CHANGE_ME_jwt_secret_key_minimum_32_characters_long',
         encryptionKey: process.env['ENCRYPTION_KEY'] ?? 'CHANGE_ME_aes256_encryption_key_32_bytes_hex',
+        encryptionKeys: process.env['ENCRYPTION_KEYS'] || undefined,
+        encryptionActiveKeyVersion: process.env['ENCRYPTION_ACTIVE_KEY_VERSION'] || undefined,
         hmacSecret: process.env['HMAC_SECRET'] ?? 'CHANGE_ME_hmac_secret_key_for_code_generation',
         databaseUrl: process.env['DATABASE_URL'],
         redisUrl: process.env['REDIS_URL'] || undefined,
         locationGridSizeMeters: process.env['LOCATION_GRID_SIZE_METERS'],
         privacyZoneDefaultRadiusMeters: process.env['PRIVACY_ZONE_DEFAULT_RADIUS_METERS'],
         maxLocationHistoryHours: process.env['MAX_LOCATION_HISTORY_HOURS'],
+        heatmapMinDrivers: process.env['HEATMAP_MIN_DRIVERS'],
         codeTtlMinutes: process.env['CODE_TTL_MINUTES'],
         codeMaxAttempts: process.env['CODE_MAX_ATTEMPTS'],
         codeTheme: process.env['CODE_THEME'],
+        quoteTtlMinutes: process.env['QUOTE_TTL_MINUTES'],
+        roadGraphPath: process.env['ROAD_GRAPH_PATH'] || undefined,
+        speedLimitsKmh: process.env['SPEED_LIMITS_KMH'] || undefined,
         otpTtlSeconds: process.env['OTP_TTL_SECONDS'],
         otpLength: process.env['OTP_LENGTH'],
         atApiKey: process.env['AT_API_KEY'] || undefined,
@@ -107,6 +154,8 @@ function loadConfig(): Config {
         retentionDaysLocation: process.env['RETENTION_DAYS_LOCATION'],
         retentionDaysDelivery: process.env['RETENTION_DAYS_DELIVERY'],
         retentionDaysAudit: process.env['RETENTION_DAYS_AUDIT'],
+        retentionDaysPhotoWithoutConsent: process.env['RETENTION_DAYS_PHOTO_WITHOUT_CONSENT'],
+        retentionPurgeIntervalMinutes: process.env['RETENTION_PURGE_INTERVAL_MINUTES'],
         rateLimitWindowMs: process.env['RATE_LIMIT_WINDOW_MS'],
         rateLimitMaxRequests: process.env['RATE_LIMIT_MAX_REQUESTS'],
         logLevel: process.env['LOG_LEVEL'],
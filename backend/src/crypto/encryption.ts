@@ -1,59 +1,84 @@
 import crypto from 'crypto';
-import { config } from '../config/index.js';
+import { decryptWithMasterKey, isMasterKeyCiphertext } from './master-key.js';
+import { getActiveSubjectKey, getSubjectKey } from './subject-keys.js';
 
 const ALGORITHM = 'aes-256-gcm';
 
+// Subject-key ciphertexts: s:<keyId>:iv:authTag:encrypted
+const SUBJECT_PREFIX = 's';
+
+export type DecryptResult =
+    | { status: 'ok'; plaintext: string }
+    | { status: 'erased'; erasedAt: string | null };
+
 /**
  * Encrypts text using AES-256-GCM
- * Derives unique key per context (e.g. deliveryId) using HMAC-SHA256
+ * Uses the data key of the subject named by contextId (e.g. deliveryId, recipientId),
+ * and binds the ciphertext to that context as additional authenticated data
  */
 export function encrypt(text: string, contextId: string): string {
-    // Derive a unique key for this context from the master encryption key
-    // This ensures that even if one delivery's key is compromised (unlikely in memory), others are safe
-    // HKDF would be better but simple HMAC KDF is sufficient for this scope
-    const derivedKey = crypto.createHmac('sha256', config.encryptionKey)
-        .update(contextId)
-        .digest(); // 32 bytes for AES-256
+    const { keyId, key } = getActiveSubjectKey(contextId);
 
     const iv = crypto.randomBytes(12);
-    const cipher = crypto.createCipheriv(ALGORITHM, derivedKey, iv);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(contextId, 'utf8'));
 
     let encrypted = cipher.update(text, 'utf8', 'base64');
     encrypted += cipher.final('base64');
 
     const authTag = cipher.getAuthTag().toString('base64');
 
-    // Format: iv:authTag:encrypted
-    return `${iv.toString('base64')}:${authTag}:${encrypted}`;
+    return `${SUBJECT_PREFIX}:${keyId}:${iv.toString('base64')}:${authTag}:${encrypted}`;
 }
 
 /**
- * Decrypts text using AES-256-GCM
+ * Decrypts text, reporting erased subjects instead of throwing
  */
-export function decrypt(encryptedText: string, contextId: string): string {
-    const parts = encryptedText.split(':');
-    if (parts.length !== 3) {
-        throw new Error('Invalid encryption format');
+export function decryptWithStatus(encryptedText: string, contextId: string): DecryptResult {
+    // Written before subject keys existed: still readable through the master keyring
+    if (isMasterKeyCiphertext(encryptedText)) {
+        return { status: 'ok', plaintext: decryptWithMasterKey(encryptedText, contextId) };
     }
 
-    const [ivBase64, authTagBase64, encryptedBase64] = parts;
+    const parts = encryptedText.split(':');
+    const [prefix, keyId, ivBase64, authTagBase64, encryptedBase64] = parts;
 
-    if (!ivBase64 || !authTagBase64 || !encryptedBase64) {
+    if (parts.length !== 5 || prefix !== SUBJECT_PREFIX || !keyId || !ivBase64 || !authTagBase64 || !encryptedBase64) {
         throw new Error('Invalid encryption format');
     }
 
-    const iv = Buffer.from(ivBase64, 'base64');
-    const authTag = Buffer.from(authTagBase64, 'base64');
-
-    const derivedKey = crypto.createHmac('sha256', config.encryptionKey)
-        .update(contextId)
-        .digest();
+    const lookup = getSubjectKey(keyId, contextId);
+    if (lookup.status === 'erased') {
+        return lookup;
+    }
 
-    const decipher = crypto.createDecipheriv(ALGORITHM, derivedKey, iv);
-    decipher.setAuthTag(authTag);
+    const decipher = crypto.createDecipheriv(ALGORITHM, lookup.key, Buffer.from(ivBase64, 'base64'));
+    decipher.setAAD(Buffer.from(contextId, 'utf8'));
+    decipher.setAuthTag(Buffer.from(authTagBase64, 'base64'));
 
     let decrypted = decipher.update(encryptedBase64, 'base64', 'utf8');
     decrypted += decipher.final('utf8');
 
-    return decrypted;
+    return { status: 'ok', plaintext: decrypted };
+}
+
+/**
+ * Decrypts text using AES-256-GCM
+ * Throws if the subject's key has been shredded; use decryptWithStatus to handle that case
+ */
+export function decrypt(encryptedText: string, contextId: string): string {
+    const result = decryptWithStatus(encryptedText, contextId);
+    if (result.status === 'erased') {
+        throw new Error('Data subject has been erased');
+    }
+    return result.plaintext;
+}
+
+/**
+ * Move a ciphertext onto the subject's current key
+ * Returns null when the subject has been erased
+ */
+export function reencrypt(encryptedText: string, contextId: string): string | null {
+    const result = decryptWithStatus(encryptedText, contextId);
+    return result.status === 'ok' ? encrypt(result.plaintext, contextId) : null;
 }
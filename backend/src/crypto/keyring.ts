@@ -0,0 +1,62 @@
+import { config } from '../config/index.js';
+
+/**
+ * Master Key Ring
+ *
+ * Version 1 is always ENCRYPTION_KEY, so ciphertexts written before key
+ * versioning keep decrypting. Further versions come from ENCRYPTION_KEYS
+ * ("2:key,3:key"); ENCRYPTION_ACTIVE_KEY_VERSION picks the key used for new
+ * ciphertexts and defaults to the highest version.
+ */
+
+export interface Keyring {
+    activeVersion: number;
+    keys: Map<number, string>;
+}
+
+function loadKeyring(): Keyring {
+    const keys = new Map<number, string>([[1, config.encryptionKey]]);
+
+    for (const pair of (config.encryptionKeys ?? '').split(',').map(p => p.trim()).filter(Boolean)) {
+        const separator = pair.indexOf(':');
+        const version = Number(pair.substring(0, separator));
+        const key = pair.substring(separator + 1);
+
+        if (separator < 1 || !Number.isInteger(version) || version < 2) {
+            throw new Error('ENCRYPTION_KEYS entries must look like "<version>:<key>" with version >= 2');
+        }
+        if (key.length < 32) {
+            throw new Error(`Encryption key version ${version} must be at least 32 characters`);
+        }
+        if (keys.has(version)) {
+            throw new Error(`Duplicate encryption key version ${version}`);
+        }
+        keys.set(version, key);
+    }
+
+    const activeVersion = config.encryptionActiveKeyVersion ?? Math.max(...keys.keys());
+
+    if (!keys.has(activeVersion)) {
+        throw new Error(`Active encryption key version ${activeVersion} is not in the keyring`);
+    }
+
+    return { activeVersion, keys };
+}
+
+const keyring = loadKeyring();
+
+export function getActiveKeyVersion(): number {
+    return keyring.activeVersion;
+}
+
+export function getMasterKey(version: number): string {
+    const key = keyring.keys.get(version);
+    if (!key) {
+        throw new Error(`Unknown encryption key version ${version}`);
+    }
+    return key;
+}
+
+export function getKeyVersions(): number[] {
+    return Array.from(keyring.keys.keys()).sort((a, b) => a - b);
+}
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { getActiveKeyVersion, getMasterKey } from './keyring.js';
+
+/**
+ * Master-Key Ciphertexts
+ * Format: k<version>:iv:authTag:encrypted (legacy, unversioned: iv:authTag:encrypted)
+ * Used to wrap subject keys, and for data written before subject keys existed
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+
+// Version 1 ciphertexts written before key versioning have no prefix
+const LEGACY_KEY_VERSION = 1;
+const VERSION_PREFIX = 'k';
+
+/**
+ * Derives the per-context key from a versioned master key using HMAC-SHA256
+ */
+function deriveKey(keyVersion: number, contextId: string): Buffer {
+    // This ensures that even if one delivery's key is compromised (unlikely in memory), others are safe
+    // HKDF would be better but simple HMAC KDF is sufficient for this scope
+    return crypto.createHmac('sha256', getMasterKey(keyVersion))
+        .update(contextId)
+        .digest(); // 32 bytes for AES-256
+}
+
+export function isMasterKeyCiphertext(encryptedText: string): boolean {
+    const parts = encryptedText.split(':');
+    return parts.length === 3 || (parts.length === 4 && parts[0]?.startsWith(VERSION_PREFIX) === true);
+}
+
+function parseCiphertext(encryptedText: string): {
+    keyVersion: number;
+    ivBase64: string;
+    authTagBase64: string;
+    encryptedBase64: string;
+} {
+    const parts = encryptedText.split(':');
+
+    let keyVersion = LEGACY_KEY_VERSION;
+    if (parts.length === 4) {
+        const versionPart = parts.shift() ?? '';
+        keyVersion = Number(versionPart.substring(VERSION_PREFIX.length));
+        if (!versionPart.startsWith(VERSION_PREFIX) || !Number.isInteger(keyVersion)) {
+            throw new Error('Invalid encryption format');
+        }
+    }
+
+    if (parts.length !== 3) {
+        throw new Error('Invalid encryption format');
+    }
+
+    const [ivBase64, authTagBase64, encryptedBase64] = parts;
+
+    if (!ivBase64 || !authTagBase64 || !encryptedBase64) {
+        throw new Error('Invalid encryption format');
+    }
+
+    return { keyVersion, ivBase64, authTagBase64, encryptedBase64 };
+}
+
+/**
+ * Encrypts text using AES-256-GCM with the active master key
+ */
+export function encryptWithMasterKey(text: string, contextId: string): string {
+    const keyVersion = getActiveKeyVersion();
+    const derivedKey = deriveKey(keyVersion, contextId);
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, derivedKey, iv);
+
+    let encrypted = cipher.update(text, 'utf8', 'base64');
+    encrypted += cipher.final('base64');
+
+    const authTag = cipher.getAuthTag().toString('base64');
+
+    return `${VERSION_PREFIX}${keyVersion}:${iv.toString('base64')}:${authTag}:${encrypted}`;
+}
+
+/**
+ * Decrypts text using AES-256-GCM with the master key version it was written with
+ */
+export function decryptWithMasterKey(encryptedText: string, contextId: string): string {
+    const { keyVersion, ivBase64, authTagBase64, encryptedBase64 } = parseCiphertext(encryptedText);
+
+    const iv = Buffer.from(ivBase64, 'base64');
+    const authTag = Buffer.from(authTagBase64, 'base64');
+
+    const derivedKey = deriveKey(keyVersion, contextId);
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, derivedKey, iv);
+    decipher.setAuthTag(authTag);
+
+    let decrypted = decipher.update(encryptedBase64, 'base64', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+}
+
+/**
+ * Decrypt with the original master key and encrypt again with the active one
+ */
+export function rewrapWithMasterKey(encryptedText: string, contextId: string): string {
+    return encryptWithMasterKey(decryptWithMasterKey(encryptedText, contextId), contextId);
+}
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { UUID } from '../types/index.js';
+import { encryptWithMasterKey, decryptWithMasterKey } from './master-key.js';
+import {
+    insertSubjectKey,
+    findSubjectKey,
+    findActiveSubjectKey,
+    findOwnedSubjectIds,
+    saveSubjectLink,
+    shredSubjectKeys,
+} from '../database/repositories/subject-key.repository.js';
+
+/**
+ * Per-Data-Subject Key Registry (crypto-shredding)
+ *
+ * Each subject (customer, driver, or a delivery linked to its recipient) gets a
+ * random data key, stored wrapped by the master keyring. Destroying the wrapped
+ * key makes every ciphertext written for that subject permanently unreadable.
+ */
+
+const MAX_CACHED_KEYS = 1000;
+
+export type SubjectKeyLookup =
+    | { status: 'ok'; key: Buffer }
+    | { status: 'erased'; erasedAt: string | null };
+
+// keyId -> unwrapped data key and the subject it belongs to
+const keyCache = new Map<string, { subjectId: string; key: Buffer }>();
+
+function cacheKey(keyId: string, subjectId: string, key: Buffer): void {
+    if (keyCache.size >= MAX_CACHED_KEYS) {
+        const oldest = keyCache.keys().next().value;
+        if (oldest !== undefined) keyCache.delete(oldest);
+    }
+    keyCache.set(keyId, { subjectId, key });
+}
+
+/**
+ * Key used for new ciphertexts of a subject, created on first use
+ */
+export function getActiveSubjectKey(subjectId: string): { keyId: string; key: Buffer } {
+    const existing = findActiveSubjectKey(subjectId);
+
+    if (existing?.keyEncrypted) {
+        const cached = keyCache.get(existing.keyId);
+        if (cached) return { keyId: existing.keyId, key: cached.key };
+
+        const key = Buffer.from(decryptWithMasterKey(existing.keyEncrypted, existing.keyId), 'base64');
+        cacheKey(existing.keyId, subjectId, key);
+        return { keyId: existing.keyId, key };
+    }
+
+    const keyId = uuidv4();
+    const key = crypto.randomBytes(32);
+    insertSubjectKey(keyId, subjectId, encryptWithMasterKey(key.toString('base64'), keyId));
+    cacheKey(keyId, subjectId, key);
+
+    return { keyId, key };
+}
+
+/**
+ * Resolve the key a ciphertext was written with
+ * A missing or shredded key means the subject's data has been erased
+ */
+export function getSubjectKey(keyId: string, subjectId: string): SubjectKeyLookup {
+    const cached = keyCache.get(keyId);
+    if (cached) {
+        if (cached.subjectId !== subjectId) {
+            throw new Error('Ciphertext does not belong to this context');
+        }
+        return { status: 'ok', key: cached.key };
+    }
+
+    const stored = findSubjectKey(keyId);
+
+    if (!stored) {
+        return { status: 'erased', erasedAt: null };
+    }
+
+    if (stored.subjectId !== subjectId) {
+        throw new Error('Ciphertext does not belong to this context');
+    }
+
+    if (!stored.keyEncrypted) {
+        return { status: 'erased', erasedAt: stored.shreddedAt };
+    }
+
+    const key = Buffer.from(decryptWithMasterKey(stored.keyEncrypted, stored.keyId), 'base64');
+    cacheKey(keyId, subjectId, key);
+    return { status: 'ok', key };
+}
+
+/**
+ * Record that a subject's data belongs to an owner (e.g. a delivery to its recipient)
+ * so erasing the owner also shreds it
+ */
+export function linkSubject(subjectId: string, ownerId: UUID): void {
+    if (subjectId !== ownerId) {
+        saveSubjectLink(subjectId, ownerId);
+    }
+}
+
+/**
+ * Crypto-shred an owner and every subject linked to it
+ * Subjects listed in `retain` (e.g. under legal hold) keep their keys
+ */
+export function shredSubject(
+    ownerId: UUID,
+    retain: string[] = []
+): { subjectIds: string[]; shreddedKeyIds: string[] } {
+    const subjectIds = findOwnedSubjectIds(ownerId).filter(id => !retain.includes(id));
+    const shreddedKeyIds = shredSubjectKeys(subjectIds);
+
+    for (const keyId of shreddedKeyIds) {
+        keyCache.delete(keyId);
+    }
+
+    return { subjectIds, shreddedKeyIds };
+}
@@ -0,0 +1,55 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { runMigrations } from './migrator.js';
+import { MIGRATIONS } from './migrations/index.js';
+
+/**
+ * SQLite Connection
+ * Single synchronous connection shared by all repositories
+ */
+
+let db: Database.Database | null = null;
+
+export function getDatabase(): Database.Database {
+    if (db) {
+        return db;
+    }
+
+    const databaseUrl = config.databaseUrl;
+
+    if (/^[a-z]+:\/\//i.test(databaseUrl)) {
+        throw new Error(`Unsupported DATABASE_URL: only SQLite file paths are supported`);
+    }
+
+    if (databaseUrl !== ':memory:') {
+        fs.mkdirSync(path.dirname(path.resolve(databaseUrl)), { recursive: true });
+    }
+
+    db = new Database(databaseUrl);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+
+    logger.info('Database connected', { databaseUrl });
+
+    return db;
+}
+
+/**
+ * Open the database and bring the schema up to date
+ */
+export function initializeDatabase(): Database.Database {
+    const database = getDatabase();
+    runMigrations(database, MIGRATIONS);
+    return database;
+}
+
+export function closeDatabase(): void {
+    if (db) {
+        db.close();
+        db = null;
+        logger.info('Database closed');
+    }
+}
@@ -0,0 +1,66 @@
+import { getDatabase, closeDatabase } from './connection.js';
+import { runMigrations, rollbackMigrations, getMigrationStatus } from './migrator.js';
+import { MIGRATIONS } from './migrations/index.js';
+
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run db:migrate                 Apply all pending migrations
+ *   npm run db:migrate -- up [version] Apply pending migrations up to version
+ *   npm run db:migrate -- down [steps] Revert the last N migrations (default 1)
+ *   npm run db:migrate -- status       List migrations and their state
+ */
+
+function parseNumberArg(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+}
+
+function main(): void {
+    const [command = 'up', arg] = process.argv.slice(2);
+    const db = getDatabase();
+
+    try {
+        switch (command) {
+            case 'up': {
+                const ran = runMigrations(db, MIGRATIONS, parseNumberArg(arg, 'version'));
+                console.log(ran.length > 0
+                    ? `Applied ${ran.length} migration(s): ${ran.map(m => `${m.version}_${m.name}`).join(', ')}`
+                    : 'Database is up to date');
+                break;
+            }
+            case 'down': {
+                const reverted = rollbackMigrations(db, MIGRATIONS, parseNumberArg(arg, 'steps') ?? 1);
+                console.log(reverted.length > 0
+                    ? `Reverted ${reverted.length} migration(s): ${reverted.map(m => `${m.version}_${m.name}`).join(', ')}`
+                    : 'Nothing to revert');
+                break;
+            }
+            case 'status': {
+                for (const status of getMigrationStatus(db, MIGRATIONS)) {
+                    const state = status.appliedAt
+                        ? `applied ${status.appliedAt}${status.checksumMatches ? '' : ' (CHECKSUM MISMATCH)'}`
+                        : 'pending';
+                    console.log(`${String(status.version).padStart(3, '0')}_${status.name}: ${state}`);
+                }
+                break;
+            }
+            default:
+                throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+        }
+    } finally {
+        closeDatabase();
+    }
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(`❌ Migration failed: ${(error as Error).message}`);
+    process.exit(1);
+}
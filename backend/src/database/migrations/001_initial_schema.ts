@@ -0,0 +1,162 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Initial schema: one table per service store
+ */
+export const migration: Migration = {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+        -- Delivery verification
+        CREATE TABLE IF NOT EXISTS delivery_secrets (
+            delivery_id TEXT PRIMARY KEY,
+            secret_encrypted TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS otp_records (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL,
+            recipient_id TEXT NOT NULL,
+            otp_encrypted TEXT NOT NULL,
+            expires_at TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            attempt_count INTEGER NOT NULL DEFAULT 0,
+            is_verified INTEGER NOT NULL DEFAULT 0,
+            verified_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_otp_records_delivery ON otp_records (delivery_id);
+        CREATE TABLE IF NOT EXISTS delivery_photos (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL,
+            photo_encrypted TEXT NOT NULL,
+            width INTEGER NOT NULL,
+            height INTEGER NOT NULL,
+            mime_type TEXT NOT NULL,
+            size_bytes INTEGER NOT NULL,
+            captured_at TEXT NOT NULL,
+            zone_id TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_delivery_photos_delivery ON delivery_photos (delivery_id);
+        CREATE TABLE IF NOT EXISTS delivery_signatures (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL,
+            signature_encrypted TEXT NOT NULL,
+            signature_hash TEXT NOT NULL,
+            signer_name TEXT,
+            captured_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_delivery_signatures_delivery ON delivery_signatures (delivery_id);
+        CREATE TABLE IF NOT EXISTS delivery_verifications (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL UNIQUE,
+            methods_required TEXT NOT NULL,
+            methods_completed TEXT NOT NULL,
+            is_complete INTEGER NOT NULL DEFAULT 0,
+            completed_at TEXT
+        );
+
+        -- Cargo security
+        CREATE TABLE IF NOT EXISTS security_alerts (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL,
+            driver_id TEXT NOT NULL,
+            vehicle_id TEXT,
+            anomaly_type TEXT NOT NULL,
+            severity TEXT NOT NULL,
+            zone_id TEXT NOT NULL,
+            detected_at TEXT NOT NULL,
+            description TEXT NOT NULL,
+            is_acknowledged INTEGER NOT NULL DEFAULT 0,
+            acknowledged_at TEXT,
+            acknowledged_by TEXT,
+            resolution_status TEXT,
+            resolution_notes TEXT,
+            resolved_at TEXT,
+            resolved_by TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_security_alerts_delivery ON security_alerts (delivery_id);
+        CREATE INDEX IF NOT EXISTS idx_security_alerts_severity ON security_alerts (severity);
+        CREATE TABLE IF NOT EXISTS driver_location_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            driver_id TEXT NOT NULL,
+            delivery_id TEXT NOT NULL,
+            zone_id TEXT NOT NULL,
+            recorded_at TEXT NOT NULL,
+            is_moving INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS idx_driver_location_history_driver ON driver_location_history (driver_id);
+        CREATE TABLE IF NOT EXISTS expected_routes (
+            delivery_id TEXT PRIMARY KEY,
+            zone_sequence TEXT NOT NULL,
+            estimated_duration INTEGER NOT NULL
+        );
+
+        -- Emergency response (PRIVACY EXCEPTION: raw coordinates)
+        CREATE TABLE IF NOT EXISTS emergencies (
+            id TEXT PRIMARY KEY,
+            driver_id TEXT NOT NULL,
+            delivery_id TEXT,
+            emergency_type TEXT NOT NULL,
+            latitude REAL NOT NULL,
+            longitude REAL NOT NULL,
+            triggered_at TEXT NOT NULL,
+            status TEXT NOT NULL,
+            notifications_sent TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_emergencies_driver ON emergencies (driver_id);
+        CREATE TABLE IF NOT EXISTS emergency_contacts (
+            driver_id TEXT PRIMARY KEY,
+            contacts_encrypted TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+
+        -- Notifications
+        CREATE TABLE IF NOT EXISTS notifications (
+            id TEXT PRIMARY KEY,
+            recipient_id TEXT NOT NULL,
+            channel TEXT NOT NULL,
+            priority TEXT NOT NULL,
+            template_id TEXT NOT NULL,
+            content_encrypted TEXT NOT NULL,
+            scheduled_at TEXT NOT NULL,
+            sent_at TEXT,
+            delivered_at TEXT,
+            read_at TEXT,
+            status TEXT NOT NULL,
+            retry_count INTEGER NOT NULL DEFAULT 0,
+            max_retries INTEGER NOT NULL,
+            failure_reason TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications (recipient_id);
+        CREATE TABLE IF NOT EXISTS notification_preferences (
+            user_id TEXT PRIMARY KEY,
+            channels TEXT NOT NULL,
+            quiet_start TEXT,
+            quiet_end TEXT
+        );
+
+        -- Real-time offline queue
+        CREATE TABLE IF NOT EXISTS offline_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            event TEXT NOT NULL,
+            queued_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_offline_events_user ON offline_events (user_id);
+    `,
+    down: `
+        DROP TABLE IF EXISTS offline_events;
+        DROP TABLE IF EXISTS notification_preferences;
+        DROP TABLE IF EXISTS notifications;
+        DROP TABLE IF EXISTS emergency_contacts;
+        DROP TABLE IF EXISTS emergencies;
+        DROP TABLE IF EXISTS expected_routes;
+        DROP TABLE IF EXISTS driver_location_history;
+        DROP TABLE IF EXISTS security_alerts;
+        DROP TABLE IF EXISTS delivery_verifications;
+        DROP TABLE IF EXISTS delivery_signatures;
+        DROP TABLE IF EXISTS delivery_photos;
+        DROP TABLE IF EXISTS otp_records;
+        DROP TABLE IF EXISTS delivery_secrets;
+    `,
+};
@@ -0,0 +1,19 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Track when an emergency's raw coordinates were coarsened by the retention job
+ */
+export const migration: Migration = {
+    version: 2,
+    name: 'emergency_location_anonymisation',
+    up: `
+        ALTER TABLE emergencies ADD COLUMN location_anonymised_at TEXT;
+        CREATE INDEX IF NOT EXISTS idx_driver_location_history_recorded ON driver_location_history (recorded_at);
+        CREATE INDEX IF NOT EXISTS idx_notifications_scheduled ON notifications (scheduled_at);
+    `,
+    down: `
+        DROP INDEX IF EXISTS idx_notifications_scheduled;
+        DROP INDEX IF EXISTS idx_driver_location_history_recorded;
+        ALTER TABLE emergencies DROP COLUMN location_anonymised_at;
+    `,
+};
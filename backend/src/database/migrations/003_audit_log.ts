@@ -0,0 +1,47 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Append-only, hash-chained audit log
+ * Entries can never be updated; the oldest entries may only be truncated by
+ * the retention job, which records an anchor so the chain stays verifiable
+ */
+export const migration: Migration = {
+    version: 3,
+    name: 'audit_log',
+    up: `
+        CREATE TABLE audit_log (
+            sequence INTEGER PRIMARY KEY,
+            id TEXT NOT NULL UNIQUE,
+            timestamp TEXT NOT NULL,
+            actor_id TEXT NOT NULL,
+            actor_role TEXT NOT NULL,
+            action TEXT NOT NULL,
+            resource_type TEXT NOT NULL,
+            resource_id TEXT,
+            result TEXT NOT NULL,
+            metadata TEXT NOT NULL,
+            previous_hash TEXT NOT NULL,
+            entry_hash TEXT NOT NULL
+        );
+        CREATE INDEX idx_audit_log_actor ON audit_log (actor_id);
+        CREATE INDEX idx_audit_log_resource ON audit_log (resource_type, resource_id);
+        CREATE INDEX idx_audit_log_timestamp ON audit_log (timestamp);
+
+        CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN
+            SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TABLE audit_log_anchors (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            sequence INTEGER NOT NULL,
+            entry_hash TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+    `,
+    down: `
+        DROP TABLE IF EXISTS audit_log_anchors;
+        DROP TRIGGER IF EXISTS audit_log_no_update;
+        DROP TABLE IF EXISTS audit_log;
+    `,
+};
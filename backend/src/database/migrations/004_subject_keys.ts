@@ -0,0 +1,31 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Per-data-subject encryption keys for crypto-shredding
+ * A shredded key keeps its row (key_encrypted NULL) so reads can report "erased"
+ */
+export const migration: Migration = {
+    version: 4,
+    name: 'subject_keys',
+    up: `
+        CREATE TABLE subject_keys (
+            key_id TEXT PRIMARY KEY,
+            subject_id TEXT NOT NULL,
+            key_encrypted TEXT,
+            created_at TEXT NOT NULL,
+            shredded_at TEXT
+        );
+        CREATE INDEX idx_subject_keys_subject ON subject_keys (subject_id);
+
+        CREATE TABLE subject_links (
+            subject_id TEXT PRIMARY KEY,
+            owner_id TEXT NOT NULL,
+            linked_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_subject_links_owner ON subject_links (owner_id);
+    `,
+    down: `
+        DROP TABLE IF EXISTS subject_links;
+        DROP TABLE IF EXISTS subject_keys;
+    `,
+};
@@ -0,0 +1,45 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Right-to-erasure requests and the legal holds they leave behind
+ */
+export const migration: Migration = {
+    version: 5,
+    name: 'erasure_requests',
+    up: `
+        CREATE TABLE erasure_requests (
+            id TEXT PRIMARY KEY,
+            subject_id TEXT NOT NULL,
+            requested_by TEXT NOT NULL,
+            requested_by_role TEXT NOT NULL,
+            reason TEXT,
+            status TEXT NOT NULL,
+            requested_at TEXT NOT NULL,
+            reviewed_by TEXT,
+            reviewed_at TEXT,
+            review_notes TEXT,
+            completed_at TEXT,
+            outcome TEXT
+        );
+        CREATE INDEX idx_erasure_requests_subject ON erasure_requests (subject_id);
+        CREATE INDEX idx_erasure_requests_status ON erasure_requests (status);
+
+        CREATE TABLE legal_holds (
+            id TEXT PRIMARY KEY,
+            request_id TEXT NOT NULL REFERENCES erasure_requests (id),
+            subject_id TEXT NOT NULL,
+            resource_type TEXT NOT NULL,
+            resource_id TEXT NOT NULL,
+            delivery_id TEXT,
+            reason TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            released_at TEXT
+        );
+        CREATE INDEX idx_legal_holds_subject ON legal_holds (subject_id);
+        CREATE INDEX idx_legal_holds_delivery ON legal_holds (delivery_id);
+    `,
+    down: `
+        DROP TABLE IF EXISTS legal_holds;
+        DROP TABLE IF EXISTS erasure_requests;
+    `,
+};
@@ -0,0 +1,24 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Consent grant/withdraw history, one row per change
+ */
+export const migration: Migration = {
+    version: 6,
+    name: 'consents',
+    up: `
+        CREATE TABLE consent_records (
+            id TEXT PRIMARY KEY,
+            subject_id TEXT NOT NULL,
+            purpose TEXT NOT NULL,
+            purpose_version INTEGER NOT NULL,
+            action TEXT NOT NULL,
+            recorded_at TEXT NOT NULL,
+            recorded_by TEXT NOT NULL
+        );
+        CREATE INDEX idx_consent_records_subject ON consent_records (subject_id, purpose);
+    `,
+    down: `
+        DROP TABLE IF EXISTS consent_records;
+    `,
+};
@@ -0,0 +1,32 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Private zones (homes, clinics) where location is suppressed
+ * Zone details are encrypted; lookups go through keyed hashes of covering H3 cells
+ */
+export const migration: Migration = {
+    version: 7,
+    name: 'privacy_zones',
+    up: `
+        CREATE TABLE privacy_zones (
+            id TEXT PRIMARY KEY,
+            owner_id TEXT NOT NULL,
+            details_encrypted TEXT NOT NULL,
+            radius_meters INTEGER NOT NULL,
+            disclosure TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_privacy_zones_owner ON privacy_zones (owner_id);
+
+        CREATE TABLE privacy_zone_cells (
+            zone_id TEXT NOT NULL REFERENCES privacy_zones (id) ON DELETE CASCADE,
+            cell_hash TEXT NOT NULL,
+            PRIMARY KEY (zone_id, cell_hash)
+        );
+        CREATE INDEX idx_privacy_zone_cells_hash ON privacy_zone_cells (cell_hash);
+    `,
+    down: `
+        DROP TABLE IF EXISTS privacy_zone_cells;
+        DROP TABLE IF EXISTS privacy_zones;
+    `,
+};
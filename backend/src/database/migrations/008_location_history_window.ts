@@ -0,0 +1,17 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Time-windowed queries over driver zone history, per driver and per delivery
+ */
+export const migration: Migration = {
+    version: 8,
+    name: 'location_history_window',
+    up: `
+        CREATE INDEX idx_driver_location_history_driver_time ON driver_location_history (driver_id, recorded_at);
+        CREATE INDEX idx_driver_location_history_delivery_time ON driver_location_history (delivery_id, recorded_at);
+    `,
+    down: `
+        DROP INDEX IF EXISTS idx_driver_location_history_delivery_time;
+        DROP INDEX IF EXISTS idx_driver_location_history_driver_time;
+    `,
+};
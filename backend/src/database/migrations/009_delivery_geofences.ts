@@ -0,0 +1,23 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Named polygon / multipolygon geofences per delivery address
+ * Geometry is encrypted under the delivery's subject key
+ */
+export const migration: Migration = {
+    version: 9,
+    name: 'delivery_geofences',
+    up: `
+        CREATE TABLE delivery_geofences (
+            delivery_id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            geometry_encrypted TEXT NOT NULL,
+            buffer_meters INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+    `,
+    down: `
+        DROP TABLE IF EXISTS delivery_geofences;
+    `,
+};
@@ -0,0 +1,43 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Deliveries and their status timeline
+ * Sender and recipient contact details are encrypted under the delivery's key
+ */
+export const migration: Migration = {
+    version: 10,
+    name: 'deliveries',
+    up: `
+        CREATE TABLE deliveries (
+            id TEXT PRIMARY KEY,
+            sender_id TEXT NOT NULL,
+            recipient_id TEXT NOT NULL,
+            parties_encrypted TEXT NOT NULL,
+            parcel_details TEXT NOT NULL,
+            driver_id TEXT,
+            vehicle_id TEXT,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_deliveries_status ON deliveries (status);
+        CREATE INDEX idx_deliveries_driver ON deliveries (driver_id);
+        CREATE INDEX idx_deliveries_recipient ON deliveries (recipient_id);
+        CREATE INDEX idx_deliveries_sender ON deliveries (sender_id);
+
+        CREATE TABLE delivery_status_events (
+            id TEXT PRIMARY KEY,
+            delivery_id TEXT NOT NULL REFERENCES deliveries (id) ON DELETE CASCADE,
+            from_status TEXT,
+            to_status TEXT NOT NULL,
+            actor_id TEXT NOT NULL,
+            reason TEXT,
+            occurred_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_delivery_status_events_delivery ON delivery_status_events (delivery_id, occurred_at);
+    `,
+    down: `
+        DROP TABLE IF EXISTS delivery_status_events;
+        DROP TABLE IF EXISTS deliveries;
+    `,
+};
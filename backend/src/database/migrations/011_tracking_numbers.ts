@@ -0,0 +1,17 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Public tracking numbers, issued when a delivery is created
+ */
+export const migration: Migration = {
+    version: 11,
+    name: 'tracking_numbers',
+    up: `
+        ALTER TABLE deliveries ADD COLUMN tracking_number TEXT;
+        CREATE UNIQUE INDEX idx_deliveries_tracking_number ON deliveries (tracking_number);
+    `,
+    down: `
+        DROP INDEX IF EXISTS idx_deliveries_tracking_number;
+        ALTER TABLE deliveries DROP COLUMN tracking_number;
+    `,
+};
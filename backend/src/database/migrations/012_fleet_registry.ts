@@ -0,0 +1,38 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Driver and vehicle registry
+ * Driver name, phone and document numbers are encrypted under the driver's key
+ */
+export const migration: Migration = {
+    version: 12,
+    name: 'fleet_registry',
+    up: `
+        CREATE TABLE drivers (
+            id TEXT PRIMARY KEY,
+            details_encrypted TEXT NOT NULL,
+            licence_expires_at TEXT NOT NULL,
+            psv_badge_expires_at TEXT NOT NULL,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_drivers_status ON drivers (status);
+
+        CREATE TABLE vehicles (
+            id TEXT PRIMARY KEY,
+            plate TEXT NOT NULL UNIQUE,
+            vehicle_type TEXT NOT NULL,
+            capacity_kg REAL NOT NULL,
+            insurance_expires_at TEXT NOT NULL,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_vehicles_status ON vehicles (status);
+    `,
+    down: `
+        DROP TABLE IF EXISTS vehicles;
+        DROP TABLE IF EXISTS drivers;
+    `,
+};
@@ -0,0 +1,21 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Current shift status and vehicle per driver, used by dispatch
+ */
+export const migration: Migration = {
+    version: 13,
+    name: 'driver_shifts',
+    up: `
+        CREATE TABLE driver_shifts (
+            driver_id TEXT PRIMARY KEY REFERENCES drivers (id) ON DELETE CASCADE,
+            status TEXT NOT NULL,
+            vehicle_id TEXT REFERENCES vehicles (id) ON DELETE SET NULL,
+            updated_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_driver_shifts_status ON driver_shifts (status);
+    `,
+    down: `
+        DROP TABLE IF EXISTS driver_shifts;
+    `,
+};
@@ -0,0 +1,22 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Progress along the expected route and the open deviation episode, per delivery
+ */
+export const migration: Migration = {
+    version: 14,
+    name: 'route_progress',
+    up: `
+        CREATE TABLE route_progress (
+            delivery_id TEXT PRIMARY KEY,
+            furthest_index INTEGER NOT NULL DEFAULT -1,
+            furthest_zone TEXT,
+            backtracking INTEGER NOT NULL DEFAULT 0,
+            deviation_started_at TEXT,
+            deviation_severity TEXT
+        );
+    `,
+    down: `
+        DROP TABLE IF EXISTS route_progress;
+    `,
+};
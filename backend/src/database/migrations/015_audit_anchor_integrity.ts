@@ -0,0 +1,36 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Keyed anchors and delete protection for the audit log
+ * Entries may only be deleted up to the latest anchor, which the truncation
+ * path writes in the same transaction; anchors themselves are append-only
+ */
+export const migration: Migration = {
+    version: 15,
+    name: 'audit_anchor_integrity',
+    up: `
+        ALTER TABLE audit_log_anchors ADD COLUMN anchor_hmac TEXT;
+
+        CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+        WHEN OLD.sequence > COALESCE((SELECT MAX(sequence) FROM audit_log_anchors), 0)
+        BEGIN
+            SELECT RAISE(ABORT, 'audit_log entries can only be removed by anchored truncation');
+        END;
+
+        CREATE TRIGGER audit_log_anchors_no_update BEFORE UPDATE ON audit_log_anchors
+        BEGIN
+            SELECT RAISE(ABORT, 'audit_log_anchors is append-only');
+        END;
+
+        CREATE TRIGGER audit_log_anchors_no_delete BEFORE DELETE ON audit_log_anchors
+        BEGIN
+            SELECT RAISE(ABORT, 'audit_log_anchors is append-only');
+        END;
+    `,
+    down: `
+        DROP TRIGGER IF EXISTS audit_log_anchors_no_delete;
+        DROP TRIGGER IF EXISTS audit_log_anchors_no_update;
+        DROP TRIGGER IF EXISTS audit_log_no_delete;
+        ALTER TABLE audit_log_anchors DROP COLUMN anchor_hmac;
+    `,
+};
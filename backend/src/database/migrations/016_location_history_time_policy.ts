@@ -0,0 +1,16 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Time obfuscation use case of each zone history entry, so detectors can
+ * allow for how coarse its time is; NULL for entries recorded before this
+ */
+export const migration: Migration = {
+    version: 16,
+    name: 'location_history_time_policy',
+    up: `
+        ALTER TABLE driver_location_history ADD COLUMN time_use_case TEXT;
+    `,
+    down: `
+        ALTER TABLE driver_location_history DROP COLUMN time_use_case;
+    `,
+};
@@ -0,0 +1,29 @@
+import type { Migration } from '../migrator.js';
+
+/**
+ * Keyed record of the newest audit entry, updated with every append, so
+ * entries removed from the tail of the chain are detected too
+ * Logs written before this have no head until their next append
+ */
+export const migration: Migration = {
+    version: 17,
+    name: 'audit_log_head',
+    up: `
+        CREATE TABLE audit_log_head (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            sequence INTEGER NOT NULL,
+            entry_hash TEXT NOT NULL,
+            head_hmac TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+
+        CREATE TRIGGER audit_log_head_no_delete BEFORE DELETE ON audit_log_head
+        BEGIN
+            SELECT RAISE(ABORT, 'audit_log_head cannot be removed');
+        END;
+    `,
+    down: `
+        DROP TRIGGER IF EXISTS audit_log_head_no_delete;
+        DROP TABLE IF EXISTS audit_log_head;
+    `,
+};
@@ -0,0 +1,42 @@
+import type { Migration } from '../migrator.js';
+import { migration as initialSchema } from './001_initial_schema.js';
+import { migration as emergencyLocationAnonymisation } from './002_emergency_location_anonymisation.js';
+import { migration as auditLog } from './003_audit_log.js';
+import { migration as subjectKeys } from './004_subject_keys.js';
+import { migration as erasureRequests } from './005_erasure_requests.js';
+import { migration as consents } from './006_consents.js';
+import { migration as privacyZones } from './007_privacy_zones.js';
+import { migration as locationHistoryWindow } from './008_location_history_window.js';
+import { migration as deliveryGeofences } from './009_delivery_geofences.js';
+import { migration as deliveries } from './010_deliveries.js';
+import { migration as trackingNumbers } from './011_tracking_numbers.js';
+import { migration as fleetRegistry } from './012_fleet_registry.js';
+import { migration as driverShifts } from './013_driver_shifts.js';
+import { migration as routeProgress } from './014_route_progress.js';
+import { migration as auditAnchorIntegrity } from './015_audit_anchor_integrity.js';
+import { migration as locationHistoryTimePolicy } from './016_location_history_time_policy.js';
+import { migration as auditLogHead } from './017_audit_log_head.js';
+
+/**
+ * Registered migrations, in version order
+ * Never edit a migration once it has shipped; add a new one instead
+ */
+export const MIGRATIONS: Migration[] = [
+    initialSchema,
+    emergencyLocationAnonymisation,
+    auditLog,
+    subjectKeys,
+    erasureRequests,
+    consents,
+    privacyZones,
+    locationHistoryWindow,
+    deliveryGeofences,
+    deliveries,
+    trackingNumbers,
+    fleetRegistry,
+    driverShifts,
+    routeProgress,
+    auditAnchorIntegrity,
+    locationHistoryTimePolicy,
+    auditLogHead,
+];
@@ -0,0 +1,161 @@
+import type Database from 'better-sqlite3';
+import { sha256 } from '../crypto/hashing.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Versioned Migration Runner
+ *
+ * - Applies pending migrations in version order, each in its own transaction
+ * - Records version, name and checksum in schema_migrations
+ * - Refuses to run if an applied migration has been edited since
+ */
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+    down: string;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    appliedAt: string | null;
+    checksumMatches: boolean | null;
+}
+
+interface AppliedMigrationRow {
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: string;
+}
+
+export function migrationChecksum(migration: Migration): string {
+    return sha256(`${migration.version}:${migration.name}\n${migration.up}\n--\n${migration.down}`);
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+}
+
+function getAppliedMigrations(db: Database.Database): Map<number, AppliedMigrationRow> {
+    ensureMigrationsTable(db);
+    const rows = db.prepare('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version')
+        .all() as AppliedMigrationRow[];
+    return new Map(rows.map(row => [row.version, row]));
+}
+
+function sortMigrations(migrations: Migration[]): Migration[] {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i]?.version === sorted[i - 1]?.version) {
+            throw new Error(`Duplicate migration version ${sorted[i]?.version}`);
+        }
+    }
+
+    return sorted;
+}
+
+/**
+ * Check applied migrations against their source
+ */
+export function verifyMigrations(db: Database.Database, migrations: Migration[]): void {
+    const applied = getAppliedMigrations(db);
+    const known = new Map(migrations.map(m => [m.version, m]));
+
+    for (const row of applied.values()) {
+        const migration = known.get(row.version);
+
+        if (!migration) {
+            throw new Error(`Applied migration ${row.version} (${row.name}) is missing from the codebase`);
+        }
+
+        if (migrationChecksum(migration) !== row.checksum) {
+            throw new Error(`Checksum mismatch for applied migration ${row.version} (${row.name})`);
+        }
+    }
+}
+
+/**
+ * Apply all pending migrations up to targetVersion (default: latest)
+ */
+export function runMigrations(
+    db: Database.Database,
+    migrations: Migration[],
+    targetVersion?: number
+): Migration[] {
+    const sorted = sortMigrations(migrations);
+    verifyMigrations(db, sorted);
+
+    const applied = getAppliedMigrations(db);
+    const insert = db.prepare('INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)');
+    const ran: Migration[] = [];
+
+    for (const migration of sorted) {
+        if (applied.has(migration.version)) continue;
+        if (targetVersion !== undefined && migration.version > targetVersion) break;
+
+        db.transaction(() => {
+            db.exec(migration.up);
+            insert.run(migration.version, migration.name, migrationChecksum(migration), new Date().toISOString());
+        })();
+
+        ran.push(migration);
+        logger.info('Migration applied', { version: migration.version, name: migration.name });
+    }
+
+    return ran;
+}
+
+/**
+ * Revert the most recent `steps` applied migrations
+ */
+export function rollbackMigrations(
+    db: Database.Database,
+    migrations: Migration[],
+    steps: number = 1
+): Migration[] {
+    const sorted = sortMigrations(migrations);
+    verifyMigrations(db, sorted);
+
+    const applied = getAppliedMigrations(db);
+    const remove = db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+    const reverted: Migration[] = [];
+
+    const toRevert = sorted.filter(m => applied.has(m.version)).reverse().slice(0, steps);
+
+    for (const migration of toRevert) {
+        db.transaction(() => {
+            db.exec(migration.down);
+            remove.run(migration.version);
+        })();
+
+        reverted.push(migration);
+        logger.info('Migration reverted', { version: migration.version, name: migration.name });
+    }
+
+    return reverted;
+}
+
+export function getMigrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus[] {
+    const applied = getAppliedMigrations(db);
+
+    return sortMigrations(migrations).map(migration => {
+        const row = applied.get(migration.version);
+        return {
+            version: migration.version,
+            name: migration.name,
+            appliedAt: row?.applied_at ?? null,
+            checksumMatches: row ? row.checksum === migrationChecksum(migration) : null,
+        };
+    });
+}
@@ -0,0 +1,238 @@
+import type { AuditEntry, AuditResult, UserRole } from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Audit Log Repository
+ * Append-only storage; hashing and chain rules live in the audit-log service
+ */
+
+interface AuditRow {
+    sequence: number;
+    id: string;
+    timestamp: string;
+    actor_id: string;
+    actor_role: string;
+    action: string;
+    resource_type: string;
+    resource_id: string | null;
+    result: string;
+    metadata: string;
+    previous_hash: string;
+    entry_hash: string;
+}
+
+/**
+ * Stored form of an entry: metadata is kept as the exact JSON string that was hashed
+ */
+export interface StoredAuditEntry extends Omit<AuditEntry, 'metadata'> {
+    metadata: string;
+}
+
+export interface AuditAnchor {
+    sequence: number;
+    entryHash: string;
+    createdAt: string;
+    // Keyed by the audit service; null only for anchors written before it was
+    anchorHmac: string | null;
+}
+
+// Newest entry of the chain, keyed by the audit service
+export interface AuditHead {
+    sequence: number;
+    entryHash: string;
+    headHmac: string;
+}
+
+export interface AuditQuery {
+    actorId?: string;
+    actorRole?: UserRole;
+    action?: string;
+    resourceType?: string;
+    resourceId?: string;
+    result?: AuditResult;
+    from?: string;
+    to?: string;
+}
+
+function toStoredEntry(row: AuditRow): StoredAuditEntry {
+    return {
+        sequence: row.sequence,
+        id: row.id,
+        timestamp: row.timestamp,
+        actorId: row.actor_id,
+        actorRole: row.actor_role as UserRole,
+        action: row.action,
+        resourceType: row.resource_type,
+        resourceId: row.resource_id ?? undefined,
+        result: row.result as AuditResult,
+        metadata: row.metadata,
+        previousHash: row.previous_hash,
+        entryHash: row.entry_hash,
+    };
+}
+
+/**
+ * Match LIKE wildcards literally, for use with ESCAPE '\\'
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function buildWhere(query: AuditQuery): { clause: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (query.actorId) { conditions.push('actor_id = ?'); params.push(query.actorId); }
+    if (query.actorRole) { conditions.push('actor_role = ?'); params.push(query.actorRole); }
+    if (query.action) { conditions.push(`action LIKE ? ESCAPE '\\'`); params.push(`%${escapeLike(query.action)}%`); }
+    if (query.resourceType) { conditions.push('resource_type = ?'); params.push(query.resourceType); }
+    if (query.resourceId) { conditions.push('resource_id = ?'); params.push(query.resourceId); }
+    if (query.result) { conditions.push('result = ?'); params.push(query.result); }
+    if (query.from) { conditions.push('timestamp >= ?'); params.push(query.from); }
+    if (query.to) { conditions.push('timestamp <= ?'); params.push(query.to); }
+
+    return {
+        clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+        params,
+    };
+}
+
+/**
+ * Insert an entry built from the current chain head and move the keyed head
+ * record to it, atomically
+ */
+export function appendAuditRow(
+    build: (head: StoredAuditEntry | AuditAnchor | null) => StoredAuditEntry,
+    signHead: (head: Omit<AuditHead, 'headHmac'>) => string
+): StoredAuditEntry {
+    const db = getDatabase();
+    return db.transaction(() => {
+        const entry = build(findLastAuditEntry() ?? findLatestAuditAnchor());
+
+        db.prepare(
+            `INSERT INTO audit_log (sequence, id, timestamp, actor_id, actor_role, action, resource_type, resource_id, result, metadata, previous_hash, entry_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            entry.sequence,
+            entry.id,
+            entry.timestamp,
+            entry.actorId,
+            entry.actorRole,
+            entry.action,
+            entry.resourceType,
+            entry.resourceId ?? null,
+            entry.result,
+            entry.metadata,
+            entry.previousHash,
+            entry.entryHash
+        );
+
+        const head = { sequence: entry.sequence, entryHash: entry.entryHash };
+        db.prepare(
+            `INSERT INTO audit_log_head (id, sequence, entry_hash, head_hmac, updated_at)
+             VALUES (1, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+                sequence = excluded.sequence,
+                entry_hash = excluded.entry_hash,
+                head_hmac = excluded.head_hmac,
+                updated_at = excluded.updated_at`
+        ).run(head.sequence, head.entryHash, signHead(head), entry.timestamp);
+
+        return entry;
+    })();
+}
+
+export function findLastAuditEntry(): StoredAuditEntry | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM audit_log ORDER BY sequence DESC LIMIT 1')
+        .get() as AuditRow | undefined;
+    return row ? toStoredEntry(row) : null;
+}
+
+export function findLatestAuditAnchor(): AuditAnchor | null {
+    const row = getDatabase()
+        .prepare('SELECT sequence, entry_hash, created_at, anchor_hmac FROM audit_log_anchors ORDER BY id DESC LIMIT 1')
+        .get() as { sequence: number; entry_hash: string; created_at: string; anchor_hmac: string | null } | undefined;
+    return row
+        ? { sequence: row.sequence, entryHash: row.entry_hash, createdAt: row.created_at, anchorHmac: row.anchor_hmac }
+        : null;
+}
+
+export function findAuditHead(): AuditHead | null {
+    const row = getDatabase()
+        .prepare('SELECT sequence, entry_hash, head_hmac FROM audit_log_head WHERE id = 1')
+        .get() as { sequence: number; entry_hash: string; head_hmac: string } | undefined;
+    return row ? { sequence: row.sequence, entryHash: row.entry_hash, headHmac: row.head_hmac } : null;
+}
+
+export function queryAuditEntries(query: AuditQuery, limit: number, offset: number): StoredAuditEntry[] {
+    const { clause, params } = buildWhere(query);
+    const rows = getDatabase()
+        .prepare(`SELECT * FROM audit_log ${clause} ORDER BY sequence DESC LIMIT ? OFFSET ?`)
+        .all(...params, limit, offset) as AuditRow[];
+    return rows.map(toStoredEntry);
+}
+
+export function countAuditEntries(query: AuditQuery): number {
+    const { clause, params } = buildWhere(query);
+    const row = getDatabase()
+        .prepare(`SELECT COUNT(*) AS count FROM audit_log ${clause}`)
+        .get(...params) as { count: number };
+    return row.count;
+}
+
+/**
+ * Entries where any of the given IDs is the actor or the resource, oldest first
+ */
+export function findAuditEntriesForSubjects(subjectIds: string[], limit: number): StoredAuditEntry[] {
+    if (subjectIds.length === 0) {
+        return [];
+    }
+
+    const placeholders = subjectIds.map(() => '?').join(', ');
+    const rows = getDatabase()
+        .prepare(
+            `SELECT * FROM audit_log
+             WHERE actor_id IN (${placeholders}) OR resource_id IN (${placeholders})
+             ORDER BY sequence LIMIT ?`
+        )
+        .all(...subjectIds, ...subjectIds, limit) as AuditRow[];
+    return rows.map(toStoredEntry);
+}
+
+/**
+ * Walk the whole log in sequence order without loading it into memory
+ */
+export function* iterateAuditEntries(): Generator<StoredAuditEntry> {
+    const statement = getDatabase().prepare('SELECT * FROM audit_log ORDER BY sequence');
+    for (const row of statement.iterate() as IterableIterator<AuditRow>) {
+        yield toStoredEntry(row);
+    }
+}
+
+/**
+ * Drop entries older than cutoff, anchoring the chain at the last dropped entry
+ * The anchor must be written first: the delete trigger only allows removing
+ * entries up to the latest anchor
+ */
+export function truncateAuditEntriesBefore(
+    cutoff: string,
+    sign: (anchor: Omit<AuditAnchor, 'anchorHmac'>) => string
+): number {
+    const db = getDatabase();
+    return db.transaction(() => {
+        const last = db
+            .prepare('SELECT sequence, entry_hash FROM audit_log WHERE timestamp < ? ORDER BY sequence DESC LIMIT 1')
+            .get(cutoff) as { sequence: number; entry_hash: string } | undefined;
+
+        if (!last) {
+            return 0;
+        }
+
+        const anchor = { sequence: last.sequence, entryHash: last.entry_hash, createdAt: new Date().toISOString() };
+        db.prepare('INSERT INTO audit_log_anchors (sequence, entry_hash, created_at, anchor_hmac) VALUES (?, ?, ?, ?)')
+            .run(anchor.sequence, anchor.entryHash, anchor.createdAt, sign(anchor));
+
+        return db.prepare('DELETE FROM audit_log WHERE sequence <= ?').run(last.sequence).changes;
+    })();
+}
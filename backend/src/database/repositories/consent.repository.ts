@@ -0,0 +1,67 @@
+import type {
+    ConsentAction,
+    ConsentPurpose,
+    ConsentRecord,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Consent Repository
+ * Append-only grant/withdraw history per subject and purpose
+ */
+
+interface ConsentRow {
+    id: string;
+    subject_id: string;
+    purpose: string;
+    purpose_version: number;
+    action: string;
+    recorded_at: string;
+    recorded_by: string;
+}
+
+function toConsentRecord(row: ConsentRow): ConsentRecord {
+    return {
+        id: row.id,
+        subjectId: row.subject_id,
+        purpose: row.purpose as ConsentPurpose,
+        purposeVersion: row.purpose_version,
+        action: row.action as ConsentAction,
+        recordedAt: row.recorded_at,
+        recordedBy: row.recorded_by,
+    };
+}
+
+export function insertConsentRecord(record: ConsentRecord): void {
+    getDatabase().prepare(
+        `INSERT INTO consent_records (id, subject_id, purpose, purpose_version, action, recorded_at, recorded_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        record.id,
+        record.subjectId,
+        record.purpose,
+        record.purposeVersion,
+        record.action,
+        record.recordedAt,
+        record.recordedBy
+    );
+}
+
+export function findConsentHistory(subjectId: UUID): ConsentRecord[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM consent_records WHERE subject_id = ? ORDER BY recorded_at, rowid')
+        .all(subjectId) as ConsentRow[];
+    return rows.map(toConsentRecord);
+}
+
+export function findLatestConsent(subjectId: UUID, purpose: ConsentPurpose): ConsentRecord | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM consent_records WHERE subject_id = ? AND purpose = ? ORDER BY recorded_at DESC, rowid DESC LIMIT 1')
+        .get(subjectId, purpose) as ConsentRow | undefined;
+    return row ? toConsentRecord(row) : null;
+}
+
+export function deleteConsentHistory(subjectId: UUID): number {
+    return getDatabase().prepare('DELETE FROM consent_records WHERE subject_id = ?').run(subjectId).changes;
+}
@@ -0,0 +1,243 @@
+import type {
+    DeliveryStatus,
+    DeliveryStatusEvent,
+    ParcelDetails,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Delivery Repository
+ * Deliveries (contact details encrypted) and their status timeline
+ */
+
+interface DeliveryRow {
+    id: string;
+    tracking_number: string | null;
+    sender_id: string;
+    recipient_id: string;
+    parties_encrypted: string;
+    parcel_details: string;
+    driver_id: string | null;
+    vehicle_id: string | null;
+    status: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface StatusEventRow {
+    id: string;
+    delivery_id: string;
+    from_status: string | null;
+    to_status: string;
+    actor_id: string;
+    reason: string | null;
+    occurred_at: string;
+}
+
+// Delivery as stored: sender/recipient details stay encrypted
+export interface StoredDelivery {
+    id: UUID;
+    trackingNumber?: string;
+    senderId: UUID;
+    recipientId: UUID;
+    partiesEncrypted: string;
+    parcel: ParcelDetails;
+    driverId?: UUID;
+    vehicleId?: UUID;
+    status: DeliveryStatus;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DeliveryFilter {
+    status?: DeliveryStatus;
+    driverId?: UUID;
+}
+
+function toStoredDelivery(row: DeliveryRow): StoredDelivery {
+    return {
+        id: row.id,
+        trackingNumber: row.tracking_number ?? undefined,
+        senderId: row.sender_id,
+        recipientId: row.recipient_id,
+        partiesEncrypted: row.parties_encrypted,
+        parcel: JSON.parse(row.parcel_details) as ParcelDetails,
+        driverId: row.driver_id ?? undefined,
+        vehicleId: row.vehicle_id ?? undefined,
+        status: row.status as DeliveryStatus,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toStatusEvent(row: StatusEventRow): DeliveryStatusEvent {
+    return {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        fromStatus: row.from_status as DeliveryStatus | null,
+        toStatus: row.to_status as DeliveryStatus,
+        actorId: row.actor_id,
+        reason: row.reason ?? undefined,
+        occurredAt: row.occurred_at,
+    };
+}
+
+function insertStatusEvent(event: DeliveryStatusEvent): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_status_events (id, delivery_id, from_status, to_status, actor_id, reason, occurred_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        event.id,
+        event.deliveryId,
+        event.fromStatus,
+        event.toStatus,
+        event.actorId,
+        event.reason ?? null,
+        event.occurredAt
+    );
+}
+
+export function insertDelivery(delivery: StoredDelivery, initialEvent: DeliveryStatusEvent): void {
+    const db = getDatabase();
+    db.transaction(() => {
+        db.prepare(
+            `INSERT INTO deliveries
+                (id, tracking_number, sender_id, recipient_id, parties_encrypted, parcel_details, driver_id, vehicle_id, status, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            delivery.id,
+            delivery.trackingNumber ?? null,
+            delivery.senderId,
+            delivery.recipientId,
+            delivery.partiesEncrypted,
+            JSON.stringify(delivery.parcel),
+            delivery.driverId ?? null,
+            delivery.vehicleId ?? null,
+            delivery.status,
+            delivery.createdAt,
+            delivery.updatedAt
+        );
+        insertStatusEvent(initialEvent);
+    })();
+}
+
+export function findDeliveryById(deliveryId: UUID): StoredDelivery | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM deliveries WHERE id = ?')
+        .get(deliveryId) as DeliveryRow | undefined;
+    return row ? toStoredDelivery(row) : null;
+}
+
+export function findDeliveryByTrackingNumber(trackingNumber: string): StoredDelivery | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM deliveries WHERE tracking_number = ?')
+        .get(trackingNumber) as DeliveryRow | undefined;
+    return row ? toStoredDelivery(row) : null;
+}
+
+export function deliveryExists(deliveryId: UUID): boolean {
+    return getDatabase().prepare('SELECT 1 FROM deliveries WHERE id = ?').get(deliveryId) !== undefined;
+}
+
+export function findDeliveries(filter: DeliveryFilter, limit: number): StoredDelivery[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.status) { conditions.push('status = ?'); params.push(filter.status); }
+    if (filter.driverId) { conditions.push('driver_id = ?'); params.push(filter.driverId); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = getDatabase()
+        .prepare(`SELECT * FROM deliveries ${where} ORDER BY created_at DESC LIMIT ?`)
+        .all(...params, limit) as DeliveryRow[];
+    return rows.map(toStoredDelivery);
+}
+
+/**
+ * Deliveries awaiting pickup with no driver yet, oldest first
+ */
+export function findUnassignedDeliveries(limit: number): StoredDelivery[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT * FROM deliveries
+             WHERE status = 'created' AND driver_id IS NULL
+             ORDER BY created_at ASC LIMIT ?`
+        )
+        .all(limit) as DeliveryRow[];
+    return rows.map(toStoredDelivery);
+}
+
+/**
+ * Deliveries a person sent, receives or drives
+ */
+export function findDeliveriesByParticipant(subjectId: UUID): StoredDelivery[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM deliveries WHERE sender_id = ? OR recipient_id = ? OR driver_id = ?')
+        .all(subjectId, subjectId, subjectId) as DeliveryRow[];
+    return rows.map(toStoredDelivery);
+}
+
+/**
+ * Deliveries assigned to a driver that are not yet finished
+ */
+export function findOpenDeliveriesByDriver(driverId: UUID): StoredDelivery[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT * FROM deliveries
+             WHERE driver_id = ? AND status IN ('created', 'picked_up', 'in_transit', 'out_for_delivery')`
+        )
+        .all(driverId) as DeliveryRow[];
+    return rows.map(toStoredDelivery);
+}
+
+export function countDeliveriesByDriverSince(driverId: UUID, since: string): number {
+    const row = getDatabase()
+        .prepare('SELECT COUNT(*) AS count FROM deliveries WHERE driver_id = ? AND created_at >= ?')
+        .get(driverId, since) as { count: number };
+    return row.count;
+}
+
+/**
+ * Move a delivery from one status to another and record the event
+ * Returns false if the delivery is no longer in `fromStatus` (concurrent change)
+ */
+export function updateDeliveryStatus(event: DeliveryStatusEvent & { fromStatus: DeliveryStatus }): boolean {
+    const db = getDatabase();
+    return db.transaction(() => {
+        const changes = db
+            .prepare('UPDATE deliveries SET status = ?, updated_at = ? WHERE id = ? AND status = ?')
+            .run(event.toStatus, event.occurredAt, event.deliveryId, event.fromStatus).changes;
+        if (changes === 0) return false;
+
+        insertStatusEvent(event);
+        return true;
+    })();
+}
+
+export function updateDeliveryAssignment(
+    deliveryId: UUID,
+    driverId: UUID | null,
+    vehicleId: UUID | null,
+    updatedAt: string
+): void {
+    getDatabase()
+        .prepare('UPDATE deliveries SET driver_id = ?, vehicle_id = ?, updated_at = ? WHERE id = ?')
+        .run(driverId, vehicleId, updatedAt, deliveryId);
+}
+
+export function updateDeliveryParties(deliveryId: UUID, partiesEncrypted: string, updatedAt: string): void {
+    getDatabase()
+        .prepare('UPDATE deliveries SET parties_encrypted = ?, updated_at = ? WHERE id = ?')
+        .run(partiesEncrypted, updatedAt, deliveryId);
+}
+
+/**
+ * Status timeline, oldest first
+ */
+export function findStatusEvents(deliveryId: UUID): DeliveryStatusEvent[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM delivery_status_events WHERE delivery_id = ? ORDER BY occurred_at, rowid')
+        .all(deliveryId) as StatusEventRow[];
+    return rows.map(toStatusEvent);
+}
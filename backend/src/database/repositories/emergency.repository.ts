@@ -0,0 +1,130 @@
+import type {
+    EmergencyRecord,
+    EmergencyType,
+    RawCoordinates,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Emergency Response Repository
+ * PRIVACY EXCEPTION: raw coordinates are persisted for emergencies
+ */
+
+interface EmergencyRow {
+    id: string;
+    driver_id: string;
+    delivery_id: string | null;
+    emergency_type: string;
+    latitude: number;
+    longitude: number;
+    triggered_at: string;
+    status: string;
+    notifications_sent: string;
+}
+
+function toEmergency(row: EmergencyRow): EmergencyRecord {
+    return {
+        id: row.id,
+        driverId: row.driver_id,
+        deliveryId: row.delivery_id ?? undefined,
+        emergencyType: row.emergency_type as EmergencyType,
+        location: { latitude: row.latitude, longitude: row.longitude },
+        triggeredAt: row.triggered_at,
+        status: row.status as EmergencyRecord['status'],
+        notificationsent: JSON.parse(row.notifications_sent) as string[],
+    };
+}
+
+export function insertEmergency(emergency: EmergencyRecord): void {
+    getDatabase().prepare(
+        `INSERT INTO emergencies (id, driver_id, delivery_id, emergency_type, latitude, longitude, triggered_at, status, notifications_sent)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        emergency.id,
+        emergency.driverId,
+        emergency.deliveryId ?? null,
+        emergency.emergencyType,
+        emergency.location.latitude,
+        emergency.location.longitude,
+        emergency.triggeredAt,
+        emergency.status,
+        JSON.stringify(emergency.notificationsent)
+    );
+}
+
+export function updateEmergency(emergency: EmergencyRecord): void {
+    getDatabase().prepare(
+        'UPDATE emergencies SET status = ?, notifications_sent = ? WHERE id = ?'
+    ).run(emergency.status, JSON.stringify(emergency.notificationsent), emergency.id);
+}
+
+export function findEmergencyById(emergencyId: UUID): EmergencyRecord | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM emergencies WHERE id = ?')
+        .get(emergencyId) as EmergencyRow | undefined;
+    return row ? toEmergency(row) : null;
+}
+
+/**
+ * Latest unresolved emergency for a driver
+ */
+export function findActiveEmergencyByDriver(driverId: UUID): EmergencyRecord | null {
+    const row = getDatabase()
+        .prepare(`SELECT * FROM emergencies WHERE driver_id = ? AND status != 'resolved' ORDER BY triggered_at DESC LIMIT 1`)
+        .get(driverId) as EmergencyRow | undefined;
+    return row ? toEmergency(row) : null;
+}
+
+export function findEmergenciesByDriver(driverId: UUID): EmergencyRecord[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM emergencies WHERE driver_id = ? ORDER BY triggered_at')
+        .all(driverId) as EmergencyRow[];
+    return rows.map(toEmergency);
+}
+
+export function findUnresolvedEmergencies(): EmergencyRecord[] {
+    const rows = getDatabase()
+        .prepare(`SELECT * FROM emergencies WHERE status != 'resolved' ORDER BY triggered_at`)
+        .all() as EmergencyRow[];
+    return rows.map(toEmergency);
+}
+
+export function saveEmergencyContacts(driverId: UUID, contactsEncrypted: string): void {
+    getDatabase().prepare(
+        `INSERT INTO emergency_contacts (driver_id, contacts_encrypted, updated_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (driver_id) DO UPDATE SET
+            contacts_encrypted = excluded.contacts_encrypted,
+            updated_at = excluded.updated_at`
+    ).run(driverId, contactsEncrypted, new Date().toISOString());
+}
+
+export function findEmergencyContacts(driverId: UUID): string | null {
+    const row = getDatabase()
+        .prepare('SELECT contacts_encrypted FROM emergency_contacts WHERE driver_id = ?')
+        .get(driverId) as { contacts_encrypted: string } | undefined;
+    return row?.contacts_encrypted ?? null;
+}
+
+export function deleteEmergencyContacts(driverId: UUID): number {
+    return getDatabase().prepare('DELETE FROM emergency_contacts WHERE driver_id = ?').run(driverId).changes;
+}
+
+/**
+ * Replace the driver with a pseudonym and snap the location to a coarse point
+ */
+export function pseudonymiseEmergency(emergencyId: UUID, pseudonym: string, coarseLocation: RawCoordinates): void {
+    getDatabase().prepare(
+        `UPDATE emergencies
+         SET driver_id = ?, latitude = ?, longitude = ?, location_anonymised_at = COALESCE(location_anonymised_at, ?)
+         WHERE id = ?`
+    ).run(pseudonym, coarseLocation.latitude, coarseLocation.longitude, new Date().toISOString(), emergencyId);
+}
+
+export function clearEmergencyTables(): void {
+    getDatabase().exec(`
+        DELETE FROM emergencies;
+        DELETE FROM emergency_contacts;
+    `);
+}
@@ -0,0 +1,161 @@
+import type {
+    ErasureOutcome,
+    ErasureRequest,
+    ErasureRequestStatus,
+    LegalHold,
+    UserRole,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Erasure Repository
+ * Right-to-erasure requests and legal holds on records that must be kept
+ */
+
+interface ErasureRequestRow {
+    id: string;
+    subject_id: string;
+    requested_by: string;
+    requested_by_role: string;
+    reason: string | null;
+    status: string;
+    requested_at: string;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    review_notes: string | null;
+    completed_at: string | null;
+    outcome: string | null;
+}
+
+interface LegalHoldRow {
+    id: string;
+    request_id: string;
+    subject_id: string;
+    resource_type: string;
+    resource_id: string;
+    delivery_id: string | null;
+    reason: string;
+    created_at: string;
+    released_at: string | null;
+}
+
+function toErasureRequest(row: ErasureRequestRow): ErasureRequest {
+    return {
+        id: row.id,
+        subjectId: row.subject_id,
+        requestedBy: row.requested_by,
+        requestedByRole: row.requested_by_role as UserRole,
+        reason: row.reason ?? undefined,
+        status: row.status as ErasureRequestStatus,
+        requestedAt: row.requested_at,
+        reviewedBy: row.reviewed_by ?? undefined,
+        reviewedAt: row.reviewed_at ?? undefined,
+        reviewNotes: row.review_notes ?? undefined,
+        completedAt: row.completed_at ?? undefined,
+        outcome: row.outcome ? JSON.parse(row.outcome) as ErasureOutcome : undefined,
+    };
+}
+
+function toLegalHold(row: LegalHoldRow): LegalHold {
+    return {
+        id: row.id,
+        requestId: row.request_id,
+        subjectId: row.subject_id,
+        resourceType: row.resource_type as LegalHold['resourceType'],
+        resourceId: row.resource_id,
+        deliveryId: row.delivery_id ?? undefined,
+        reason: row.reason,
+        createdAt: row.created_at,
+        releasedAt: row.released_at ?? undefined,
+    };
+}
+
+// Requests
+
+export function insertErasureRequest(request: ErasureRequest): void {
+    getDatabase().prepare(
+        `INSERT INTO erasure_requests (id, subject_id, requested_by, requested_by_role, reason, status, requested_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        request.id,
+        request.subjectId,
+        request.requestedBy,
+        request.requestedByRole,
+        request.reason ?? null,
+        request.status,
+        request.requestedAt
+    );
+}
+
+export function updateErasureRequest(request: ErasureRequest): void {
+    getDatabase().prepare(
+        `UPDATE erasure_requests
+         SET status = ?, reviewed_by = ?, reviewed_at = ?, review_notes = ?, completed_at = ?, outcome = ?
+         WHERE id = ?`
+    ).run(
+        request.status,
+        request.reviewedBy ?? null,
+        request.reviewedAt ?? null,
+        request.reviewNotes ?? null,
+        request.completedAt ?? null,
+        request.outcome ? JSON.stringify(request.outcome) : null,
+        request.id
+    );
+}
+
+export function findErasureRequestById(requestId: UUID): ErasureRequest | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM erasure_requests WHERE id = ?')
+        .get(requestId) as ErasureRequestRow | undefined;
+    return row ? toErasureRequest(row) : null;
+}
+
+export function findErasureRequests(status?: ErasureRequestStatus): ErasureRequest[] {
+    const rows = (status
+        ? getDatabase().prepare('SELECT * FROM erasure_requests WHERE status = ? ORDER BY requested_at').all(status)
+        : getDatabase().prepare('SELECT * FROM erasure_requests ORDER BY requested_at').all()
+    ) as ErasureRequestRow[];
+    return rows.map(toErasureRequest);
+}
+
+/**
+ * Pending or partially completed request for a subject, if any
+ */
+export function findOpenErasureRequest(subjectId: UUID): ErasureRequest | null {
+    const row = getDatabase()
+        .prepare(`SELECT * FROM erasure_requests WHERE subject_id = ? AND status IN ('pending', 'partially_completed') LIMIT 1`)
+        .get(subjectId) as ErasureRequestRow | undefined;
+    return row ? toErasureRequest(row) : null;
+}
+
+// Legal holds
+
+export function insertLegalHold(hold: LegalHold): void {
+    getDatabase().prepare(
+        `INSERT INTO legal_holds (id, request_id, subject_id, resource_type, resource_id, delivery_id, reason, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        hold.id,
+        hold.requestId,
+        hold.subjectId,
+        hold.resourceType,
+        hold.resourceId,
+        hold.deliveryId ?? null,
+        hold.reason,
+        hold.createdAt
+    );
+}
+
+export function findActiveLegalHolds(requestId: UUID): LegalHold[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM legal_holds WHERE request_id = ? AND released_at IS NULL ORDER BY created_at')
+        .all(requestId) as LegalHoldRow[];
+    return rows.map(toLegalHold);
+}
+
+export function releaseLegalHold(holdId: UUID): void {
+    getDatabase()
+        .prepare('UPDATE legal_holds SET released_at = ? WHERE id = ?')
+        .run(new Date().toISOString(), holdId);
+}
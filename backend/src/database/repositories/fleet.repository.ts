@@ -0,0 +1,209 @@
+import type {
+    DriverShift,
+    DriverStatus,
+    ShiftStatus,
+    UUID,
+    Vehicle,
+    VehicleStatus,
+    VehicleType
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Fleet Repository
+ * Drivers (personal details encrypted) and vehicles
+ */
+
+interface DriverRow {
+    id: string;
+    details_encrypted: string;
+    licence_expires_at: string;
+    psv_badge_expires_at: string;
+    status: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface VehicleRow {
+    id: string;
+    plate: string;
+    vehicle_type: string;
+    capacity_kg: number;
+    insurance_expires_at: string;
+    status: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface ShiftRow {
+    driver_id: string;
+    status: string;
+    vehicle_id: string | null;
+    updated_at: string;
+}
+
+// Driver as stored: name, phone and document numbers stay encrypted
+export interface StoredDriver {
+    id: UUID;
+    detailsEncrypted: string;
+    licenceExpiresAt: string;
+    psvBadgeExpiresAt: string;
+    status: DriverStatus;
+    createdAt: string;
+    updatedAt: string;
+}
+
+function toStoredDriver(row: DriverRow): StoredDriver {
+    return {
+        id: row.id,
+        detailsEncrypted: row.details_encrypted,
+        licenceExpiresAt: row.licence_expires_at,
+        psvBadgeExpiresAt: row.psv_badge_expires_at,
+        status: row.status as DriverStatus,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toVehicle(row: VehicleRow): Vehicle {
+    return {
+        id: row.id,
+        plate: row.plate,
+        type: row.vehicle_type as VehicleType,
+        capacityKg: row.capacity_kg,
+        insuranceExpiresAt: row.insurance_expires_at,
+        status: row.status as VehicleStatus,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toShift(row: ShiftRow): DriverShift {
+    return {
+        driverId: row.driver_id,
+        status: row.status as ShiftStatus,
+        vehicleId: row.vehicle_id ?? undefined,
+        updatedAt: row.updated_at,
+    };
+}
+
+// Drivers
+
+export function saveDriver(driver: StoredDriver): void {
+    getDatabase().prepare(
+        `INSERT INTO drivers (id, details_encrypted, licence_expires_at, psv_badge_expires_at, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+            details_encrypted = excluded.details_encrypted,
+            licence_expires_at = excluded.licence_expires_at,
+            psv_badge_expires_at = excluded.psv_badge_expires_at,
+            status = excluded.status,
+            updated_at = excluded.updated_at`
+    ).run(
+        driver.id,
+        driver.detailsEncrypted,
+        driver.licenceExpiresAt,
+        driver.psvBadgeExpiresAt,
+        driver.status,
+        driver.createdAt,
+        driver.updatedAt
+    );
+}
+
+export function findDriverById(driverId: UUID): StoredDriver | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM drivers WHERE id = ?')
+        .get(driverId) as DriverRow | undefined;
+    return row ? toStoredDriver(row) : null;
+}
+
+export function findDrivers(status?: DriverStatus): StoredDriver[] {
+    const rows = status
+        ? getDatabase().prepare('SELECT * FROM drivers WHERE status = ? ORDER BY created_at').all(status)
+        : getDatabase().prepare('SELECT * FROM drivers ORDER BY created_at').all();
+    return (rows as DriverRow[]).map(toStoredDriver);
+}
+
+export function deleteDriver(driverId: UUID): boolean {
+    return getDatabase().prepare('DELETE FROM drivers WHERE id = ?').run(driverId).changes > 0;
+}
+
+// Vehicles
+
+export function saveVehicle(vehicle: Vehicle): void {
+    getDatabase().prepare(
+        `INSERT INTO vehicles (id, plate, vehicle_type, capacity_kg, insurance_expires_at, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+            plate = excluded.plate,
+            vehicle_type = excluded.vehicle_type,
+            capacity_kg = excluded.capacity_kg,
+            insurance_expires_at = excluded.insurance_expires_at,
+            status = excluded.status,
+            updated_at = excluded.updated_at`
+    ).run(
+        vehicle.id,
+        vehicle.plate,
+        vehicle.type,
+        vehicle.capacityKg,
+        vehicle.insuranceExpiresAt,
+        vehicle.status,
+        vehicle.createdAt,
+        vehicle.updatedAt
+    );
+}
+
+export function findVehicleById(vehicleId: UUID): Vehicle | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM vehicles WHERE id = ?')
+        .get(vehicleId) as VehicleRow | undefined;
+    return row ? toVehicle(row) : null;
+}
+
+export function findVehicleByPlate(plate: string): Vehicle | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM vehicles WHERE plate = ?')
+        .get(plate) as VehicleRow | undefined;
+    return row ? toVehicle(row) : null;
+}
+
+export function findVehicles(status?: VehicleStatus): Vehicle[] {
+    const rows = status
+        ? getDatabase().prepare('SELECT * FROM vehicles WHERE status = ? ORDER BY plate').all(status)
+        : getDatabase().prepare('SELECT * FROM vehicles ORDER BY plate').all();
+    return (rows as VehicleRow[]).map(toVehicle);
+}
+
+export function deleteVehicle(vehicleId: UUID): boolean {
+    return getDatabase().prepare('DELETE FROM vehicles WHERE id = ?').run(vehicleId).changes > 0;
+}
+
+// Shifts
+
+export function saveShift(shift: DriverShift): void {
+    getDatabase().prepare(
+        `INSERT INTO driver_shifts (driver_id, status, vehicle_id, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (driver_id) DO UPDATE SET
+            status = excluded.status,
+            vehicle_id = excluded.vehicle_id,
+            updated_at = excluded.updated_at`
+    ).run(shift.driverId, shift.status, shift.vehicleId ?? null, shift.updatedAt);
+}
+
+export function findShift(driverId: UUID): DriverShift | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM driver_shifts WHERE driver_id = ?')
+        .get(driverId) as ShiftRow | undefined;
+    return row ? toShift(row) : null;
+}
+
+/**
+ * Drivers who are on shift or on a break
+ */
+export function findWorkingShifts(): DriverShift[] {
+    const rows = getDatabase()
+        .prepare("SELECT * FROM driver_shifts WHERE status != 'off_shift'")
+        .all() as ShiftRow[];
+    return rows.map(toShift);
+}
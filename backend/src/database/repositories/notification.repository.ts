@@ -0,0 +1,157 @@
+import type {
+    NotificationRecord,
+    NotificationChannel,
+    NotificationPriority,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Notification Repository
+ * Encrypted notification records and per-user channel preferences
+ */
+
+interface NotificationRow {
+    id: string;
+    recipient_id: string;
+    channel: string;
+    priority: string;
+    template_id: string;
+    content_encrypted: string;
+    scheduled_at: string;
+    sent_at: string | null;
+    delivered_at: string | null;
+    read_at: string | null;
+    status: string;
+    retry_count: number;
+    max_retries: number;
+    failure_reason: string | null;
+}
+
+interface PreferencesRow {
+    channels: string;
+    quiet_start: string | null;
+    quiet_end: string | null;
+}
+
+export interface StoredNotificationPreferences {
+    channels: NotificationChannel[];
+    quiet: { start: string; end: string } | null;
+}
+
+function toNotification(row: NotificationRow): NotificationRecord {
+    return {
+        id: row.id,
+        recipientId: row.recipient_id,
+        channel: row.channel as NotificationChannel,
+        priority: row.priority as NotificationPriority,
+        templateId: row.template_id,
+        contentEncrypted: row.content_encrypted,
+        scheduledAt: row.scheduled_at,
+        sentAt: row.sent_at ?? undefined,
+        deliveredAt: row.delivered_at ?? undefined,
+        readAt: row.read_at ?? undefined,
+        status: row.status as NotificationRecord['status'],
+        retryCount: row.retry_count,
+        maxRetries: row.max_retries,
+        failureReason: row.failure_reason ?? undefined,
+    };
+}
+
+export function insertNotification(notification: NotificationRecord): void {
+    getDatabase().prepare(
+        `INSERT INTO notifications (id, recipient_id, channel, priority, template_id, content_encrypted, scheduled_at, status, retry_count, max_retries)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        notification.id,
+        notification.recipientId,
+        notification.channel,
+        notification.priority,
+        notification.templateId,
+        notification.contentEncrypted,
+        notification.scheduledAt,
+        notification.status,
+        notification.retryCount,
+        notification.maxRetries
+    );
+}
+
+export function updateNotification(notification: NotificationRecord): void {
+    getDatabase().prepare(
+        `UPDATE notifications SET
+            sent_at = ?, delivered_at = ?, read_at = ?, status = ?,
+            retry_count = ?, failure_reason = ?
+         WHERE id = ?`
+    ).run(
+        notification.sentAt ?? null,
+        notification.deliveredAt ?? null,
+        notification.readAt ?? null,
+        notification.status,
+        notification.retryCount,
+        notification.failureReason ?? null,
+        notification.id
+    );
+}
+
+export function findNotificationById(notificationId: UUID): NotificationRecord | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM notifications WHERE id = ?')
+        .get(notificationId) as NotificationRow | undefined;
+    return row ? toNotification(row) : null;
+}
+
+export function findNotificationsByRecipient(recipientId: UUID): NotificationRecord[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM notifications WHERE recipient_id = ? ORDER BY scheduled_at')
+        .all(recipientId) as NotificationRow[];
+    return rows.map(toNotification);
+}
+
+export function savePreferences(userId: UUID, preferences: StoredNotificationPreferences): void {
+    getDatabase().prepare(
+        `INSERT INTO notification_preferences (user_id, channels, quiet_start, quiet_end)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET
+            channels = excluded.channels,
+            quiet_start = excluded.quiet_start,
+            quiet_end = excluded.quiet_end`
+    ).run(
+        userId,
+        JSON.stringify(preferences.channels),
+        preferences.quiet?.start ?? null,
+        preferences.quiet?.end ?? null
+    );
+}
+
+export function findPreferences(userId: UUID): StoredNotificationPreferences | null {
+    const row = getDatabase()
+        .prepare('SELECT channels, quiet_start, quiet_end FROM notification_preferences WHERE user_id = ?')
+        .get(userId) as PreferencesRow | undefined;
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        channels: JSON.parse(row.channels) as NotificationChannel[],
+        quiet: row.quiet_start && row.quiet_end ? { start: row.quiet_start, end: row.quiet_end } : null,
+    };
+}
+
+/**
+ * Delete every notification and the preferences of a user
+ */
+export function deleteNotificationData(userId: UUID): { notifications: number; preferences: number } {
+    const db = getDatabase();
+    return db.transaction(() => ({
+        notifications: db.prepare('DELETE FROM notifications WHERE recipient_id = ?').run(userId).changes,
+        preferences: db.prepare('DELETE FROM notification_preferences WHERE user_id = ?').run(userId).changes,
+    }))();
+}
+
+export function clearNotificationTables(): void {
+    getDatabase().exec(`
+        DELETE FROM notifications;
+        DELETE FROM notification_preferences;
+    `);
+}
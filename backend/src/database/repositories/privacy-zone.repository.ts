@@ -0,0 +1,79 @@
+import type { PrivacyZoneDisclosure, UUID } from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Privacy Zone Repository
+ * Encrypted zone details plus hashed covering cells for lookup
+ */
+
+interface PrivacyZoneRow {
+    id: string;
+    owner_id: string;
+    details_encrypted: string;
+    radius_meters: number;
+    disclosure: string;
+    created_at: string;
+}
+
+export interface StoredPrivacyZone {
+    id: UUID;
+    ownerId: UUID;
+    detailsEncrypted: string;
+    radiusMeters: number;
+    disclosure: PrivacyZoneDisclosure;
+    createdAt: string;
+}
+
+function toPrivacyZone(row: PrivacyZoneRow): StoredPrivacyZone {
+    return {
+        id: row.id,
+        ownerId: row.owner_id,
+        detailsEncrypted: row.details_encrypted,
+        radiusMeters: row.radius_meters,
+        disclosure: row.disclosure as PrivacyZoneDisclosure,
+        createdAt: row.created_at,
+    };
+}
+
+export function insertPrivacyZone(zone: StoredPrivacyZone, cellHashes: string[]): void {
+    const db = getDatabase();
+    db.transaction(() => {
+        db.prepare(
+            `INSERT INTO privacy_zones (id, owner_id, details_encrypted, radius_meters, disclosure, created_at)
+             VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(zone.id, zone.ownerId, zone.detailsEncrypted, zone.radiusMeters, zone.disclosure, zone.createdAt);
+
+        const insertCell = db.prepare('INSERT OR IGNORE INTO privacy_zone_cells (zone_id, cell_hash) VALUES (?, ?)');
+        for (const cellHash of cellHashes) {
+            insertCell.run(zone.id, cellHash);
+        }
+    })();
+}
+
+export function findPrivacyZonesByOwner(ownerId: UUID): StoredPrivacyZone[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM privacy_zones WHERE owner_id = ? ORDER BY created_at')
+        .all(ownerId) as PrivacyZoneRow[];
+    return rows.map(toPrivacyZone);
+}
+
+export function findPrivacyZonesByCellHash(cellHash: string): StoredPrivacyZone[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT z.* FROM privacy_zones z
+             JOIN privacy_zone_cells c ON c.zone_id = z.id
+             WHERE c.cell_hash = ?`
+        )
+        .all(cellHash) as PrivacyZoneRow[];
+    return rows.map(toPrivacyZone);
+}
+
+export function deletePrivacyZone(zoneId: UUID, ownerId: UUID): boolean {
+    return getDatabase()
+        .prepare('DELETE FROM privacy_zones WHERE id = ? AND owner_id = ?')
+        .run(zoneId, ownerId).changes > 0;
+}
+
+export function deletePrivacyZonesByOwner(ownerId: UUID): number {
+    return getDatabase().prepare('DELETE FROM privacy_zones WHERE owner_id = ?').run(ownerId).changes;
+}
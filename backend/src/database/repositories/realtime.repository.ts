@@ -0,0 +1,39 @@
+import type { RealtimeEvent, UUID } from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Real-Time Repository
+ * Offline event queue for users without an active socket
+ */
+
+export function enqueueOfflineEvent(userId: UUID, event: RealtimeEvent, maxQueued: number): void {
+    const db = getDatabase();
+    db.transaction(() => {
+        db.prepare('INSERT INTO offline_events (user_id, event, queued_at) VALUES (?, ?, ?)')
+            .run(userId, JSON.stringify(event), new Date().toISOString());
+
+        db.prepare(
+            `DELETE FROM offline_events
+             WHERE user_id = ? AND id NOT IN (
+                SELECT id FROM offline_events WHERE user_id = ? ORDER BY id DESC LIMIT ?
+             )`
+        ).run(userId, userId, maxQueued);
+    })();
+}
+
+export function deleteOfflineEvents(userId: UUID): number {
+    return getDatabase().prepare('DELETE FROM offline_events WHERE user_id = ?').run(userId).changes;
+}
+
+/**
+ * Returns queued events in order and removes them from the queue
+ */
+export function drainOfflineEvents(userId: UUID): RealtimeEvent[] {
+    const db = getDatabase();
+    return db.transaction(() => {
+        const rows = db.prepare('SELECT event FROM offline_events WHERE user_id = ? ORDER BY id')
+            .all(userId) as Array<{ event: string }>;
+        db.prepare('DELETE FROM offline_events WHERE user_id = ?').run(userId);
+        return rows.map(row => JSON.parse(row.event) as RealtimeEvent);
+    })();
+}
@@ -0,0 +1,71 @@
+import { getDatabase } from '../connection.js';
+
+/**
+ * Re-encryption Repository
+ * Locates ciphertexts that are not in their column's current format:
+ * - subject columns: anything still under a master key (moved onto subject keys)
+ * - master columns (wrapped subject keys): anything not under the active master key
+ */
+
+export interface EncryptedColumn {
+    table: string;
+    column: string;
+    idColumn: string;
+    contextColumn: string;
+    scheme: 'subject' | 'master';
+}
+
+// Every encrypted column and the context its key is derived from
+export const ENCRYPTED_COLUMNS: EncryptedColumn[] = [
+    { table: 'delivery_secrets', column: 'secret_encrypted', idColumn: 'delivery_id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'otp_records', column: 'otp_encrypted', idColumn: 'id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'delivery_photos', column: 'photo_encrypted', idColumn: 'id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'delivery_signatures', column: 'signature_encrypted', idColumn: 'id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'delivery_signatures', column: 'signer_name', idColumn: 'id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'deliveries', column: 'parties_encrypted', idColumn: 'id', contextColumn: 'id', scheme: 'subject' },
+    { table: 'delivery_geofences', column: 'geometry_encrypted', idColumn: 'delivery_id', contextColumn: 'delivery_id', scheme: 'subject' },
+    { table: 'drivers', column: 'details_encrypted', idColumn: 'id', contextColumn: 'id', scheme: 'subject' },
+    { table: 'emergency_contacts', column: 'contacts_encrypted', idColumn: 'driver_id', contextColumn: 'driver_id', scheme: 'subject' },
+    { table: 'notifications', column: 'content_encrypted', idColumn: 'id', contextColumn: 'recipient_id', scheme: 'subject' },
+    { table: 'subject_keys', column: 'key_encrypted', idColumn: 'key_id', contextColumn: 'key_id', scheme: 'master' },
+];
+
+export interface StaleCiphertext {
+    id: string;
+    contextId: string;
+    value: string;
+}
+
+function currentPattern(target: EncryptedColumn, activeKeyVersion: number): string {
+    return target.scheme === 'subject' ? 's:%' : `k${activeKeyVersion}:%`;
+}
+
+export function findStaleCiphertexts(target: EncryptedColumn, activeKeyVersion: number, limit: number): StaleCiphertext[] {
+    return getDatabase()
+        .prepare(
+            `SELECT ${target.idColumn} AS id, ${target.contextColumn} AS contextId, ${target.column} AS value
+             FROM ${target.table}
+             WHERE ${target.column} IS NOT NULL AND ${target.column} NOT LIKE ?
+             LIMIT ?`
+        )
+        .all(currentPattern(target, activeKeyVersion), limit) as StaleCiphertext[];
+}
+
+export function countStaleCiphertexts(target: EncryptedColumn, activeKeyVersion: number): number {
+    const row = getDatabase()
+        .prepare(
+            `SELECT COUNT(*) AS count FROM ${target.table}
+             WHERE ${target.column} IS NOT NULL AND ${target.column} NOT LIKE ?`
+        )
+        .get(currentPattern(target, activeKeyVersion)) as { count: number };
+    return row.count;
+}
+
+/**
+ * Swap in the new ciphertext only if the row still holds the one we read
+ */
+export function replaceCiphertext(target: EncryptedColumn, id: string, previous: string, next: string): boolean {
+    return getDatabase()
+        .prepare(`UPDATE ${target.table} SET ${target.column} = ? WHERE ${target.idColumn} = ? AND ${target.column} = ?`)
+        .run(next, id, previous).changes > 0;
+}
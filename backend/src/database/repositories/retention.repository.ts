@@ -0,0 +1,150 @@
+import type { RawCoordinates, UUID } from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Retention Repository
+ * Generic expiry queries over timestamped tables, used by the retention engine
+ */
+
+export type RetentionTarget =
+    | 'driver_location_history'
+    | 'delivery_photos'
+    | 'delivery_signatures'
+    | 'otp_records'
+    | 'notifications'
+    | 'emergency_locations'
+    | 'audit_log';
+
+interface TargetSpec {
+    table: string;
+    idColumn: string;
+    timestampColumn: string;
+    condition?: string;
+    // Rows whose delivery is under an active legal hold are never purged
+    deliveryColumn?: string;
+}
+
+// Table and column names are fixed here, never taken from input
+const TARGETS: Record<RetentionTarget, TargetSpec> = {
+    driver_location_history: {
+        table: 'driver_location_history',
+        idColumn: 'id',
+        timestampColumn: 'recorded_at',
+        deliveryColumn: 'delivery_id',
+    },
+    delivery_photos: { table: 'delivery_photos', idColumn: 'id', timestampColumn: 'captured_at', deliveryColumn: 'delivery_id' },
+    delivery_signatures: { table: 'delivery_signatures', idColumn: 'id', timestampColumn: 'captured_at', deliveryColumn: 'delivery_id' },
+    otp_records: { table: 'otp_records', idColumn: 'id', timestampColumn: 'created_at', deliveryColumn: 'delivery_id' },
+    notifications: { table: 'notifications', idColumn: 'id', timestampColumn: 'scheduled_at' },
+    audit_log: { table: 'audit_log', idColumn: 'sequence', timestampColumn: 'timestamp' },
+    emergency_locations: {
+        table: 'emergencies',
+        idColumn: 'id',
+        timestampColumn: 'triggered_at',
+        condition: `status = 'resolved' AND location_anonymised_at IS NULL`,
+    },
+};
+
+function whereClause(spec: TargetSpec): string {
+    const conditions = [`${spec.timestampColumn} < ?`];
+    if (spec.condition) {
+        conditions.push(spec.condition);
+    }
+    if (spec.deliveryColumn) {
+        conditions.push(
+            `${spec.deliveryColumn} NOT IN (SELECT delivery_id FROM legal_holds WHERE released_at IS NULL AND delivery_id IS NOT NULL)`
+        );
+    }
+    return conditions.join(' AND ');
+}
+
+export function countExpired(target: RetentionTarget, cutoff: string): number {
+    const spec = TARGETS[target];
+    const row = getDatabase()
+        .prepare(`SELECT COUNT(*) AS count FROM ${spec.table} WHERE ${whereClause(spec)}`)
+        .get(cutoff) as { count: number };
+    return row.count;
+}
+
+export function findOldestExpired(target: RetentionTarget, cutoff: string): string | null {
+    const spec = TARGETS[target];
+    const row = getDatabase()
+        .prepare(`SELECT MIN(${spec.timestampColumn}) AS oldest FROM ${spec.table} WHERE ${whereClause(spec)}`)
+        .get(cutoff) as { oldest: string | null };
+    return row.oldest;
+}
+
+export function listExpiredIds(target: RetentionTarget, cutoff: string, limit: number): string[] {
+    const spec = TARGETS[target];
+    const rows = getDatabase()
+        .prepare(`SELECT ${spec.idColumn} AS id FROM ${spec.table} WHERE ${whereClause(spec)} ORDER BY ${spec.timestampColumn} LIMIT ?`)
+        .all(cutoff, limit) as Array<{ id: string | number }>;
+    return rows.map(row => String(row.id));
+}
+
+export function deleteExpired(target: RetentionTarget, cutoff: string): number {
+    const spec = TARGETS[target];
+    return getDatabase()
+        .prepare(`DELETE FROM ${spec.table} WHERE ${whereClause(spec)}`)
+        .run(cutoff).changes;
+}
+
+// Photos whose recipient's latest photo_proof_retention record is not a grant
+// of the given version; the version is bound as the second parameter
+const UNCONSENTED_PHOTO_CONDITION = `delivery_id NOT IN (
+    SELECT d.id FROM deliveries d
+    WHERE (
+        SELECT c.action || ':' || c.purpose_version FROM consent_records c
+        WHERE c.subject_id = d.recipient_id AND c.purpose = 'photo_proof_retention'
+        ORDER BY c.recorded_at DESC, c.rowid DESC LIMIT 1
+    ) = 'grant:' || ?
+)`;
+
+function unconsentedPhotoWhere(): string {
+    return `${whereClause(TARGETS.delivery_photos)} AND ${UNCONSENTED_PHOTO_CONDITION}`;
+}
+
+/**
+ * Delivery photos older than cutoff kept without the recipient's consent
+ * to photo retention
+ */
+export function countUnconsentedPhotos(cutoff: string, consentVersion: number): number {
+    const row = getDatabase()
+        .prepare(`SELECT COUNT(*) AS count FROM delivery_photos WHERE ${unconsentedPhotoWhere()}`)
+        .get(cutoff, consentVersion) as { count: number };
+    return row.count;
+}
+
+export function findOldestUnconsentedPhoto(cutoff: string, consentVersion: number): string | null {
+    const row = getDatabase()
+        .prepare(`SELECT MIN(captured_at) AS oldest FROM delivery_photos WHERE ${unconsentedPhotoWhere()}`)
+        .get(cutoff, consentVersion) as { oldest: string | null };
+    return row.oldest;
+}
+
+export function listUnconsentedPhotoIds(cutoff: string, consentVersion: number, limit: number): string[] {
+    const rows = getDatabase()
+        .prepare(`SELECT id FROM delivery_photos WHERE ${unconsentedPhotoWhere()} ORDER BY captured_at LIMIT ?`)
+        .all(cutoff, consentVersion, limit) as Array<{ id: string }>;
+    return rows.map(row => row.id);
+}
+
+export function deleteUnconsentedPhotos(cutoff: string, consentVersion: number): number {
+    return getDatabase()
+        .prepare(`DELETE FROM delivery_photos WHERE ${unconsentedPhotoWhere()}`)
+        .run(cutoff, consentVersion).changes;
+}
+
+export function findExpiredEmergencyLocations(cutoff: string): Array<{ id: UUID; location: RawCoordinates }> {
+    const spec = TARGETS.emergency_locations;
+    const rows = getDatabase()
+        .prepare(`SELECT id, latitude, longitude FROM emergencies WHERE ${whereClause(spec)}`)
+        .all(cutoff) as Array<{ id: string; latitude: number; longitude: number }>;
+    return rows.map(row => ({ id: row.id, location: { latitude: row.latitude, longitude: row.longitude } }));
+}
+
+export function anonymiseEmergencyLocation(emergencyId: UUID, coarseLocation: RawCoordinates): void {
+    getDatabase().prepare(
+        'UPDATE emergencies SET latitude = ?, longitude = ?, location_anonymised_at = ? WHERE id = ?'
+    ).run(coarseLocation.latitude, coarseLocation.longitude, new Date().toISOString(), emergencyId);
+}
@@ -0,0 +1,404 @@
+import type {
+    SecurityAlert,
+    AnomalyType,
+    AlertSeverity,
+    UUID,
+    H3Index,
+    TimeObfuscationUseCase
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Cargo Security Repository
+ * Alerts, driver zone history, expected routes and progress along them
+ */
+
+interface AlertRow {
+    id: string;
+    delivery_id: string;
+    driver_id: string;
+    vehicle_id: string | null;
+    anomaly_type: string;
+    severity: string;
+    zone_id: string;
+    detected_at: string;
+    description: string;
+    is_acknowledged: number;
+    acknowledged_at: string | null;
+    acknowledged_by: string | null;
+    resolution_status: string | null;
+    resolution_notes: string | null;
+    resolved_at: string | null;
+    resolved_by: string | null;
+}
+
+interface LocationHistoryRow {
+    zone_id: string;
+    recorded_at: string;
+    is_moving: number;
+    time_use_case: string | null;
+}
+
+interface RouteProgressRow {
+    delivery_id: string;
+    furthest_index: number;
+    furthest_zone: string | null;
+    backtracking: number;
+    deviation_started_at: string | null;
+    deviation_severity: string | null;
+}
+
+export interface StoredLocationHistoryEntry {
+    zoneId: H3Index;
+    timestamp: Date;
+    isMoving: boolean;
+    timeUseCase: TimeObfuscationUseCase | null;   // Null when not reported
+}
+
+export interface LocationHistoryQuery {
+    driverId?: UUID;
+    deliveryId?: UUID;
+    from: string;
+    to: string;
+}
+
+export interface LocationHistoryRecord {
+    driverId: UUID;
+    deliveryId: UUID;
+    zoneId: H3Index;
+    recordedAt: string;
+    isMoving: boolean;
+}
+
+export interface ZoneObservation {
+    driverId: UUID;
+    zoneId: H3Index;
+}
+
+export interface StoredExpectedRoute {
+    zoneSequence: H3Index[];
+    estimatedDuration: number;
+}
+
+export interface StoredRouteProgress {
+    furthestIndex: number;              // -1 until the driver is first seen on the route
+    furthestZone: H3Index | null;
+    backtracking: boolean;
+    deviationStartedAt: string | null;
+    deviationSeverity: AlertSeverity | null;  // Highest severity alerted in the open deviation
+}
+
+function toAlert(row: AlertRow): SecurityAlert {
+    const alert: SecurityAlert = {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        driverId: row.driver_id,
+        vehicleId: row.vehicle_id ?? undefined,
+        anomalyType: row.anomaly_type as AnomalyType,
+        severity: row.severity as AlertSeverity,
+        zoneId: row.zone_id,
+        detectedAt: row.detected_at,
+        description: row.description,
+        isAcknowledged: row.is_acknowledged === 1,
+        acknowledgedAt: row.acknowledged_at ?? undefined,
+        acknowledgedBy: row.acknowledged_by ?? undefined,
+    };
+
+    if (row.resolution_status && row.resolved_at && row.resolved_by) {
+        alert.resolution = {
+            status: row.resolution_status as NonNullable<SecurityAlert['resolution']>['status'],
+            notes: row.resolution_notes ?? undefined,
+            resolvedAt: row.resolved_at,
+            resolvedBy: row.resolved_by,
+        };
+    }
+
+    return alert;
+}
+
+// Alerts
+
+export function insertAlert(alert: SecurityAlert): void {
+    getDatabase().prepare(
+        `INSERT INTO security_alerts (id, delivery_id, driver_id, vehicle_id, anomaly_type, severity, zone_id, detected_at, description, is_acknowledged)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        alert.id,
+        alert.deliveryId,
+        alert.driverId,
+        alert.vehicleId ?? null,
+        alert.anomalyType,
+        alert.severity,
+        alert.zoneId,
+        alert.detectedAt,
+        alert.description,
+        alert.isAcknowledged ? 1 : 0
+    );
+}
+
+export function updateAlert(alert: SecurityAlert): void {
+    getDatabase().prepare(
+        `UPDATE security_alerts SET
+            is_acknowledged = ?, acknowledged_at = ?, acknowledged_by = ?,
+            resolution_status = ?, resolution_notes = ?, resolved_at = ?, resolved_by = ?
+         WHERE id = ?`
+    ).run(
+        alert.isAcknowledged ? 1 : 0,
+        alert.acknowledgedAt ?? null,
+        alert.acknowledgedBy ?? null,
+        alert.resolution?.status ?? null,
+        alert.resolution?.notes ?? null,
+        alert.resolution?.resolvedAt ?? null,
+        alert.resolution?.resolvedBy ?? null,
+        alert.id
+    );
+}
+
+export function findAlertById(alertId: UUID): SecurityAlert | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM security_alerts WHERE id = ?')
+        .get(alertId) as AlertRow | undefined;
+    return row ? toAlert(row) : null;
+}
+
+export function findAlertsByDelivery(deliveryId: UUID): SecurityAlert[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM security_alerts WHERE delivery_id = ? ORDER BY detected_at')
+        .all(deliveryId) as AlertRow[];
+    return rows.map(toAlert);
+}
+
+export function findUnacknowledgedAlerts(): SecurityAlert[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM security_alerts WHERE is_acknowledged = 0 ORDER BY detected_at')
+        .all() as AlertRow[];
+    return rows.map(toAlert);
+}
+
+export function findAlertsBySeverity(severity: AlertSeverity): SecurityAlert[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM security_alerts WHERE severity = ? ORDER BY detected_at')
+        .all(severity) as AlertRow[];
+    return rows.map(toAlert);
+}
+
+export function findAlertsByDriver(driverId: UUID): SecurityAlert[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM security_alerts WHERE driver_id = ? ORDER BY detected_at')
+        .all(driverId) as AlertRow[];
+    return rows.map(toAlert);
+}
+
+export function countAlertsByDriverSince(driverId: UUID, since: string): number {
+    const row = getDatabase()
+        .prepare('SELECT COUNT(*) AS count FROM security_alerts WHERE driver_id = ? AND detected_at >= ?')
+        .get(driverId, since) as { count: number };
+    return row.count;
+}
+
+export function findAllAlerts(): SecurityAlert[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM security_alerts ORDER BY detected_at')
+        .all() as AlertRow[];
+    return rows.map(toAlert);
+}
+
+// Driver zone history
+
+/**
+ * Append an entry; old entries are purged by the retention job, which
+ * respects legal holds
+ */
+export function appendLocationHistory(
+    driverId: UUID,
+    deliveryId: UUID,
+    entry: StoredLocationHistoryEntry
+): void {
+    getDatabase().prepare(
+        `INSERT INTO driver_location_history (driver_id, delivery_id, zone_id, recorded_at, is_moving, time_use_case)
+         VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(driverId, deliveryId, entry.zoneId, entry.timestamp.toISOString(), entry.isMoving ? 1 : 0, entry.timeUseCase);
+}
+
+/**
+ * The driver's most recent entries recorded up to `until`, oldest first
+ * Ordered by recorded time, so replayed traces interleave with live updates
+ */
+export function findLocationHistory(driverId: UUID, limit: number, until: Date = new Date()): StoredLocationHistoryEntry[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT zone_id, recorded_at, is_moving, time_use_case FROM (
+                SELECT id, zone_id, recorded_at, is_moving, time_use_case FROM driver_location_history
+                WHERE driver_id = ? AND recorded_at <= ? ORDER BY recorded_at DESC, id DESC LIMIT ?
+             ) ORDER BY recorded_at, id`
+        )
+        .all(driverId, until.toISOString(), limit) as LocationHistoryRow[];
+    return rows.map(row => ({
+        zoneId: row.zone_id,
+        timestamp: new Date(row.recorded_at),
+        isMoving: row.is_moving === 1,
+        timeUseCase: row.time_use_case as TimeObfuscationUseCase | null,
+    }));
+}
+
+/**
+ * Entries for a driver and/or delivery within [from, to], oldest first
+ */
+export function findLocationHistoryWindow(query: LocationHistoryQuery, limit: number): LocationHistoryRecord[] {
+    const conditions = ['recorded_at >= ?', 'recorded_at <= ?'];
+    const params: string[] = [query.from, query.to];
+
+    if (query.driverId) { conditions.push('driver_id = ?'); params.push(query.driverId); }
+    if (query.deliveryId) { conditions.push('delivery_id = ?'); params.push(query.deliveryId); }
+
+    const rows = getDatabase()
+        .prepare(
+            `SELECT driver_id, delivery_id, zone_id, recorded_at, is_moving FROM driver_location_history
+             WHERE ${conditions.join(' AND ')} ORDER BY recorded_at, id LIMIT ?`
+        )
+        .all(...params, limit) as Array<Omit<LocationHistoryRow, 'time_use_case'> & { driver_id: string; delivery_id: string }>;
+
+    return rows.map(row => ({
+        driverId: row.driver_id,
+        deliveryId: row.delivery_id,
+        zoneId: row.zone_id,
+        recordedAt: row.recorded_at,
+        isMoving: row.is_moving === 1,
+    }));
+}
+
+/**
+ * Distinct (driver, zone) pairs from zone history within [from, to]
+ */
+export function findLocationHistoryZones(from: string, to: string): ZoneObservation[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT DISTINCT driver_id, zone_id FROM driver_location_history
+             WHERE recorded_at >= ? AND recorded_at <= ?`
+        )
+        .all(from, to) as Array<{ driver_id: string; zone_id: string }>;
+    return rows.map(row => ({ driverId: row.driver_id, zoneId: row.zone_id }));
+}
+
+/**
+ * Distinct (driver, zone) pairs from alerts detected within [from, to]
+ */
+export function findAlertZones(from: string, to: string): ZoneObservation[] {
+    const rows = getDatabase()
+        .prepare(
+            `SELECT DISTINCT driver_id, zone_id FROM security_alerts
+             WHERE detected_at >= ? AND detected_at <= ?`
+        )
+        .all(from, to) as Array<{ driver_id: string; zone_id: string }>;
+    return rows.map(row => ({ driverId: row.driver_id, zoneId: row.zone_id }));
+}
+
+/**
+ * Most recent zone recorded for a delivery
+ */
+export function findLatestDeliveryZone(deliveryId: UUID): H3Index | null {
+    const row = getDatabase()
+        .prepare('SELECT zone_id FROM driver_location_history WHERE delivery_id = ? ORDER BY recorded_at DESC, id DESC LIMIT 1')
+        .get(deliveryId) as { zone_id: string } | undefined;
+    return row?.zone_id ?? null;
+}
+
+export function pseudonymiseAlertDriver(alertId: UUID, pseudonym: string): void {
+    getDatabase().prepare('UPDATE security_alerts SET driver_id = ? WHERE id = ?').run(pseudonym, alertId);
+}
+
+export function deleteLocationHistory(driverId: UUID, deliveryId: UUID): number {
+    return getDatabase()
+        .prepare('DELETE FROM driver_location_history WHERE driver_id = ? AND delivery_id = ?')
+        .run(driverId, deliveryId).changes;
+}
+
+/**
+ * Deliveries a driver has zone history for
+ */
+export function findLocationHistoryDeliveryIds(driverId: UUID): UUID[] {
+    const rows = getDatabase()
+        .prepare('SELECT DISTINCT delivery_id FROM driver_location_history WHERE driver_id = ?')
+        .all(driverId) as Array<{ delivery_id: string }>;
+    return rows.map(row => row.delivery_id);
+}
+
+// Expected routes
+
+export function saveExpectedRoute(deliveryId: UUID, route: StoredExpectedRoute): void {
+    getDatabase().prepare(
+        `INSERT INTO expected_routes (delivery_id, zone_sequence, estimated_duration)
+         VALUES (?, ?, ?)
+         ON CONFLICT (delivery_id) DO UPDATE SET
+            zone_sequence = excluded.zone_sequence,
+            estimated_duration = excluded.estimated_duration`
+    ).run(deliveryId, JSON.stringify(route.zoneSequence), route.estimatedDuration);
+}
+
+export function findExpectedRoute(deliveryId: UUID): StoredExpectedRoute | null {
+    const row = getDatabase()
+        .prepare('SELECT zone_sequence, estimated_duration FROM expected_routes WHERE delivery_id = ?')
+        .get(deliveryId) as { zone_sequence: string; estimated_duration: number } | undefined;
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        zoneSequence: JSON.parse(row.zone_sequence) as H3Index[],
+        estimatedDuration: row.estimated_duration,
+    };
+}
+
+// Route progress
+
+export function findRouteProgress(deliveryId: UUID): StoredRouteProgress | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM route_progress WHERE delivery_id = ?')
+        .get(deliveryId) as RouteProgressRow | undefined;
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        furthestIndex: row.furthest_index,
+        furthestZone: row.furthest_zone,
+        backtracking: row.backtracking === 1,
+        deviationStartedAt: row.deviation_started_at,
+        deviationSeverity: row.deviation_severity as AlertSeverity | null,
+    };
+}
+
+export function saveRouteProgress(deliveryId: UUID, progress: StoredRouteProgress): void {
+    getDatabase().prepare(
+        `INSERT INTO route_progress (delivery_id, furthest_index, furthest_zone, backtracking, deviation_started_at, deviation_severity)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (delivery_id) DO UPDATE SET
+            furthest_index = excluded.furthest_index,
+            furthest_zone = excluded.furthest_zone,
+            backtracking = excluded.backtracking,
+            deviation_started_at = excluded.deviation_started_at,
+            deviation_severity = excluded.deviation_severity`
+    ).run(
+        deliveryId,
+        progress.furthestIndex,
+        progress.furthestZone,
+        progress.backtracking ? 1 : 0,
+        progress.deviationStartedAt,
+        progress.deviationSeverity
+    );
+}
+
+export function deleteRouteProgress(deliveryId: UUID): void {
+    getDatabase().prepare('DELETE FROM route_progress WHERE delivery_id = ?').run(deliveryId);
+}
+
+export function clearSecurityTables(): void {
+    getDatabase().exec(`
+        DELETE FROM security_alerts;
+        DELETE FROM driver_location_history;
+        DELETE FROM expected_routes;
+        DELETE FROM route_progress;
+    `);
+}
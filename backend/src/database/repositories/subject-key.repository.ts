@@ -0,0 +1,92 @@
+import type { UUID } from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Subject Key Repository
+ * Wrapped per-subject data keys and subject -> owner links
+ */
+
+interface SubjectKeyRow {
+    key_id: string;
+    subject_id: string;
+    key_encrypted: string | null;
+    created_at: string;
+    shredded_at: string | null;
+}
+
+export interface StoredSubjectKey {
+    keyId: string;
+    subjectId: string;
+    keyEncrypted: string | null;
+    createdAt: string;
+    shreddedAt: string | null;
+}
+
+function toSubjectKey(row: SubjectKeyRow): StoredSubjectKey {
+    return {
+        keyId: row.key_id,
+        subjectId: row.subject_id,
+        keyEncrypted: row.key_encrypted,
+        createdAt: row.created_at,
+        shreddedAt: row.shredded_at,
+    };
+}
+
+export function insertSubjectKey(keyId: string, subjectId: string, keyEncrypted: string): void {
+    getDatabase().prepare(
+        'INSERT INTO subject_keys (key_id, subject_id, key_encrypted, created_at) VALUES (?, ?, ?, ?)'
+    ).run(keyId, subjectId, keyEncrypted, new Date().toISOString());
+}
+
+export function findSubjectKey(keyId: string): StoredSubjectKey | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM subject_keys WHERE key_id = ?')
+        .get(keyId) as SubjectKeyRow | undefined;
+    return row ? toSubjectKey(row) : null;
+}
+
+export function findActiveSubjectKey(subjectId: string): StoredSubjectKey | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM subject_keys WHERE subject_id = ? AND shredded_at IS NULL ORDER BY created_at DESC LIMIT 1')
+        .get(subjectId) as SubjectKeyRow | undefined;
+    return row ? toSubjectKey(row) : null;
+}
+
+/**
+ * Subject IDs owned by ownerId, including ownerId itself
+ */
+export function findOwnedSubjectIds(ownerId: UUID): string[] {
+    const rows = getDatabase()
+        .prepare('SELECT subject_id FROM subject_links WHERE owner_id = ?')
+        .all(ownerId) as Array<{ subject_id: string }>;
+    return [ownerId, ...rows.map(row => row.subject_id)];
+}
+
+export function saveSubjectLink(subjectId: string, ownerId: UUID): void {
+    getDatabase().prepare(
+        `INSERT INTO subject_links (subject_id, owner_id, linked_at) VALUES (?, ?, ?)
+         ON CONFLICT (subject_id) DO NOTHING`
+    ).run(subjectId, ownerId, new Date().toISOString());
+}
+
+/**
+ * Destroy the wrapped keys of the given subjects; returns the shredded key IDs
+ */
+export function shredSubjectKeys(subjectIds: string[]): string[] {
+    const db = getDatabase();
+    return db.transaction(() => {
+        const shredded: string[] = [];
+        const select = db.prepare('SELECT key_id FROM subject_keys WHERE subject_id = ? AND shredded_at IS NULL');
+        const shred = db.prepare('UPDATE subject_keys SET key_encrypted = NULL, shredded_at = ? WHERE key_id = ?');
+        const now = new Date().toISOString();
+
+        for (const subjectId of subjectIds) {
+            for (const row of select.all(subjectId) as Array<{ key_id: string }>) {
+                shred.run(now, row.key_id);
+                shredded.push(row.key_id);
+            }
+        }
+
+        return shredded;
+    })();
+}
@@ -0,0 +1,344 @@
+import type {
+    OTPRecord,
+    DeliveryPhoto,
+    DeliverySignature,
+    DeliveryVerification,
+    VerificationMethod,
+    UUID
+} from '../../types/index.js';
+import { getDatabase } from '../connection.js';
+
+/**
+ * Delivery Verification Repository
+ * OTPs, photos, signatures, verification state, TOTP secrets and geofences
+ */
+
+interface OTPRow {
+    id: string;
+    delivery_id: string;
+    recipient_id: string;
+    otp_encrypted: string;
+    expires_at: string;
+    created_at: string;
+    attempt_count: number;
+    is_verified: number;
+    verified_at: string | null;
+}
+
+interface PhotoRow {
+    id: string;
+    delivery_id: string;
+    photo_encrypted: string;
+    width: number;
+    height: number;
+    mime_type: string;
+    size_bytes: number;
+    captured_at: string;
+    zone_id: string | null;
+}
+
+interface SignatureRow {
+    id: string;
+    delivery_id: string;
+    signature_encrypted: string;
+    signature_hash: string;
+    signer_name: string | null;
+    captured_at: string;
+}
+
+interface GeofenceRow {
+    delivery_id: string;
+    name: string;
+    geometry_encrypted: string;
+    buffer_meters: number;
+    created_at: string;
+    updated_at: string;
+}
+
+// Geofence as stored: geometry stays encrypted
+export interface StoredDeliveryGeofence {
+    deliveryId: UUID;
+    name: string;
+    geometryEncrypted: string;
+    bufferMeters: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface VerificationRow {
+    id: string;
+    delivery_id: string;
+    methods_required: string;
+    methods_completed: string;
+    is_complete: number;
+    completed_at: string | null;
+}
+
+function toOTPRecord(row: OTPRow): OTPRecord {
+    return {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        recipientId: row.recipient_id,
+        otpEncrypted: row.otp_encrypted,
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+        attemptCount: row.attempt_count,
+        isVerified: row.is_verified === 1,
+        verifiedAt: row.verified_at ?? undefined,
+    };
+}
+
+function toPhoto(row: PhotoRow): DeliveryPhoto {
+    return {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        photoEncrypted: row.photo_encrypted,
+        metadata: {
+            width: row.width,
+            height: row.height,
+            mimeType: row.mime_type,
+            sizeBytes: row.size_bytes,
+        },
+        capturedAt: row.captured_at,
+        zoneId: row.zone_id ?? undefined,
+    };
+}
+
+function toSignature(row: SignatureRow): DeliverySignature {
+    return {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        signatureEncrypted: row.signature_encrypted,
+        signatureHash: row.signature_hash,
+        signerName: row.signer_name ?? undefined,
+        capturedAt: row.captured_at,
+    };
+}
+
+function toVerification(row: VerificationRow): DeliveryVerification {
+    return {
+        id: row.id,
+        deliveryId: row.delivery_id,
+        methodsRequired: JSON.parse(row.methods_required) as VerificationMethod[],
+        methodsCompleted: JSON.parse(row.methods_completed) as VerificationMethod[],
+        isComplete: row.is_complete === 1,
+        completedAt: row.completed_at ?? undefined,
+    };
+}
+
+// TOTP secrets
+
+export function saveDeliverySecret(deliveryId: UUID, secretEncrypted: string): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_secrets (delivery_id, secret_encrypted, created_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (delivery_id) DO UPDATE SET secret_encrypted = excluded.secret_encrypted`
+    ).run(deliveryId, secretEncrypted, new Date().toISOString());
+}
+
+export function findDeliverySecret(deliveryId: UUID): string | null {
+    const row = getDatabase()
+        .prepare('SELECT secret_encrypted FROM delivery_secrets WHERE delivery_id = ?')
+        .get(deliveryId) as { secret_encrypted: string } | undefined;
+    return row?.secret_encrypted ?? null;
+}
+
+// Geofences
+
+export function saveDeliveryGeofence(geofence: StoredDeliveryGeofence): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_geofences (delivery_id, name, geometry_encrypted, buffer_meters, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (delivery_id) DO UPDATE SET
+            name = excluded.name,
+            geometry_encrypted = excluded.geometry_encrypted,
+            buffer_meters = excluded.buffer_meters,
+            updated_at = excluded.updated_at`
+    ).run(
+        geofence.deliveryId,
+        geofence.name,
+        geofence.geometryEncrypted,
+        geofence.bufferMeters,
+        geofence.createdAt,
+        geofence.updatedAt
+    );
+}
+
+export function findDeliveryGeofence(deliveryId: UUID): StoredDeliveryGeofence | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM delivery_geofences WHERE delivery_id = ?')
+        .get(deliveryId) as GeofenceRow | undefined;
+    if (!row) return null;
+
+    return {
+        deliveryId: row.delivery_id,
+        name: row.name,
+        geometryEncrypted: row.geometry_encrypted,
+        bufferMeters: row.buffer_meters,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+export function deleteDeliveryGeofence(deliveryId: UUID): boolean {
+    return getDatabase()
+        .prepare('DELETE FROM delivery_geofences WHERE delivery_id = ?')
+        .run(deliveryId).changes > 0;
+}
+
+// OTP records
+
+export function insertOTPRecord(record: OTPRecord): void {
+    getDatabase().prepare(
+        `INSERT INTO otp_records (id, delivery_id, recipient_id, otp_encrypted, expires_at, created_at, attempt_count, is_verified, verified_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        record.id,
+        record.deliveryId,
+        record.recipientId,
+        record.otpEncrypted,
+        record.expiresAt,
+        record.createdAt,
+        record.attemptCount,
+        record.isVerified ? 1 : 0,
+        record.verifiedAt ?? null
+    );
+}
+
+export function updateOTPRecord(record: OTPRecord): void {
+    getDatabase().prepare(
+        'UPDATE otp_records SET attempt_count = ?, is_verified = ?, verified_at = ? WHERE id = ?'
+    ).run(record.attemptCount, record.isVerified ? 1 : 0, record.verifiedAt ?? null, record.id);
+}
+
+export function findOTPRecordsByRecipient(recipientId: UUID): OTPRecord[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM otp_records WHERE recipient_id = ? ORDER BY created_at')
+        .all(recipientId) as OTPRow[];
+    return rows.map(toOTPRecord);
+}
+
+export function findPendingOTPRecord(deliveryId: UUID): OTPRecord | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM otp_records WHERE delivery_id = ? AND is_verified = 0 ORDER BY rowid LIMIT 1')
+        .get(deliveryId) as OTPRow | undefined;
+    return row ? toOTPRecord(row) : null;
+}
+
+// Photos
+
+export function insertPhoto(photo: DeliveryPhoto): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_photos (id, delivery_id, photo_encrypted, width, height, mime_type, size_bytes, captured_at, zone_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        photo.id,
+        photo.deliveryId,
+        photo.photoEncrypted,
+        photo.metadata.width,
+        photo.metadata.height,
+        photo.metadata.mimeType,
+        photo.metadata.sizeBytes,
+        photo.capturedAt,
+        photo.zoneId ?? null
+    );
+}
+
+export function findPhotoById(photoId: UUID): DeliveryPhoto | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM delivery_photos WHERE id = ?')
+        .get(photoId) as PhotoRow | undefined;
+    return row ? toPhoto(row) : null;
+}
+
+export function findPhotosByDelivery(deliveryId: UUID): DeliveryPhoto[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM delivery_photos WHERE delivery_id = ? ORDER BY captured_at')
+        .all(deliveryId) as PhotoRow[];
+    return rows.map(toPhoto);
+}
+
+// Signatures
+
+export function insertSignature(signature: DeliverySignature): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_signatures (id, delivery_id, signature_encrypted, signature_hash, signer_name, captured_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(
+        signature.id,
+        signature.deliveryId,
+        signature.signatureEncrypted,
+        signature.signatureHash,
+        signature.signerName ?? null,
+        signature.capturedAt
+    );
+}
+
+export function findSignatureById(signatureId: UUID): DeliverySignature | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM delivery_signatures WHERE id = ?')
+        .get(signatureId) as SignatureRow | undefined;
+    return row ? toSignature(row) : null;
+}
+
+export function findSignaturesByDelivery(deliveryId: UUID): DeliverySignature[] {
+    const rows = getDatabase()
+        .prepare('SELECT * FROM delivery_signatures WHERE delivery_id = ? ORDER BY captured_at')
+        .all(deliveryId) as SignatureRow[];
+    return rows.map(toSignature);
+}
+
+// Verification state
+
+export function saveVerification(verification: DeliveryVerification): void {
+    getDatabase().prepare(
+        `INSERT INTO delivery_verifications (id, delivery_id, methods_required, methods_completed, is_complete, completed_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (delivery_id) DO UPDATE SET
+            id = excluded.id,
+            methods_required = excluded.methods_required,
+            methods_completed = excluded.methods_completed,
+            is_complete = excluded.is_complete,
+            completed_at = excluded.completed_at`
+    ).run(
+        verification.id,
+        verification.deliveryId,
+        JSON.stringify(verification.methodsRequired),
+        JSON.stringify(verification.methodsCompleted),
+        verification.isComplete ? 1 : 0,
+        verification.completedAt ?? null
+    );
+}
+
+export function findVerificationByDelivery(deliveryId: UUID): DeliveryVerification | null {
+    const row = getDatabase()
+        .prepare('SELECT * FROM delivery_verifications WHERE delivery_id = ?')
+        .get(deliveryId) as VerificationRow | undefined;
+    return row ? toVerification(row) : null;
+}
+
+/**
+ * Delete the personal artefacts of a delivery (OTPs, photos, signatures, TOTP secret)
+ * The verification status itself is kept
+ */
+export function deleteDeliveryArtefacts(deliveryId: UUID): Record<string, number> {
+    const db = getDatabase();
+    return db.transaction(() => ({
+        otpRecords: db.prepare('DELETE FROM otp_records WHERE delivery_id = ?').run(deliveryId).changes,
+        deliveryPhotos: db.prepare('DELETE FROM delivery_photos WHERE delivery_id = ?').run(deliveryId).changes,
+        deliverySignatures: db.prepare('DELETE FROM delivery_signatures WHERE delivery_id = ?').run(deliveryId).changes,
+        deliverySecrets: db.prepare('DELETE FROM delivery_secrets WHERE delivery_id = ?').run(deliveryId).changes,
+        deliveryGeofences: db.prepare('DELETE FROM delivery_geofences WHERE delivery_id = ?').run(deliveryId).changes,
+    }))();
+}
+
+export function clearVerificationTables(): void {
+    getDatabase().exec(`
+        DELETE FROM otp_records;
+        DELETE FROM delivery_photos;
+        DELETE FROM delivery_signatures;
+        DELETE FROM delivery_verifications;
+        DELETE FROM delivery_secrets;
+        DELETE FROM delivery_geofences;
+    `);
+}
@@ -0,0 +1,233 @@
+import h3 from 'h3-js';
+import type { DeliveryParty, ParcelDetails, RawCoordinates, UUID, VehicleType, VerificationMethod } from '../types/index.js';
+import { initializeDatabase, closeDatabase } from './connection.js';
+import { obfuscateLocation } from '../services/location-obfuscation/obfuscator.js';
+import { setExpectedRoute, processLocationUpdate, getAlertsForDelivery } from '../services/cargo-security/monitor.js';
+import { initializeVerification, getVerificationStatus } from '../services/delivery-verification/verifier.js';
+import { setEmergencyContacts } from '../services/emergency-response/orchestrator.js';
+import { setUserPreferences } from '../services/notification-delivery/notifier.js';
+import { createDelivery, transitionDelivery } from '../services/delivery-management/lifecycle.js';
+import { registerDriver, registerVehicle, setDriverShift } from '../services/fleet-registry/registry.js';
+
+/**
+ * Demo Data Seeder
+ * Creates drivers, deliveries, expected routes and alerts for the dispatcher views.
+ * Fixed IDs make the seed idempotent: a second run is a no-op.
+ */
+
+const ROUTE_RESOLUTION = 8;
+const SEED_ACTOR = { id: 'system', role: 'system' as const };
+
+interface DemoDriver {
+    id: UUID;
+    name: string;
+    phone: string;
+    licenceNumber: string;
+    psvBadgeNumber: string;
+    documentsValidDays: number;
+    contact: { name: string; phone: string; relationship: string };
+    vehicle: { id: UUID; plate: string; type: VehicleType; capacityKg: number };
+}
+
+interface DemoDelivery {
+    id: UUID;
+    driverId: UUID;
+    senderId: UUID;
+    recipientId: UUID;
+    sender: DeliveryParty;
+    recipient: DeliveryParty;
+    parcel: ParcelDetails;
+    origin: RawCoordinates;
+    destination: RawCoordinates;
+    estimatedDuration: number; // minutes
+    requiredMethods: VerificationMethod[];
+    scenario: 'on_route' | 'deviation' | 'long_stop';
+}
+
+const DRIVERS: DemoDriver[] = [
+    {
+        id: 'd0000000-0000-4000-8000-000000000001',
+        name: 'Otieno Ouma',
+        phone: '+254711000001',
+        licenceNumber: 'DL-0412345',
+        psvBadgeNumber: 'PSV-118201',
+        documentsValidDays: 400,
+        contact: { name: 'Akinyi Ouma', phone: '+254722000001', relationship: 'spouse' },
+        vehicle: { id: 'b0000000-0000-4000-8000-000000000001', plate: 'KCA 123A', type: 'van', capacityKg: 800 },
+    },
+    {
+        id: 'd0000000-0000-4000-8000-000000000002',
+        name: 'Wanjiku Kamau',
+        phone: '+254711000002',
+        licenceNumber: 'DL-0523456',
+        psvBadgeNumber: 'PSV-118202',
+        documentsValidDays: 20,
+        contact: { name: 'Njeri Kamau', phone: '+254722000002', relationship: 'sister' },
+        vehicle: { id: 'b0000000-0000-4000-8000-000000000002', plate: 'KMDB 456C', type: 'motorcycle', capacityKg: 30 },
+    },
+    {
+        id: 'd0000000-0000-4000-8000-000000000003',
+        name: 'Hassan Mwinyi',
+        phone: '+254711000003',
+        licenceNumber: 'DL-0634567',
+        psvBadgeNumber: 'PSV-118203',
+        documentsValidDays: 200,
+        contact: { name: 'Fatma Mwinyi', phone: '+254722000003', relationship: 'mother' },
+        vehicle: { id: 'b0000000-0000-4000-8000-000000000003', plate: 'KDD 789B', type: 'pickup', capacityKg: 1000 },
+    },
+];
+
+const DELIVERIES: DemoDelivery[] = [
+    {
+        // Nairobi CBD -> Westlands
+        id: 'a0000000-0000-4000-8000-000000000001',
+        driverId: 'd0000000-0000-4000-8000-000000000001',
+        senderId: 'e0000000-0000-4000-8000-000000000001',
+        recipientId: 'c0000000-0000-4000-8000-000000000001',
+        sender: { name: 'Duka Bora Ltd', phone: '+254733000001', address: 'Moi Avenue, Nairobi CBD' },
+        recipient: { name: 'Mary Wambui', phone: '+254700000001', address: 'Woodvale Grove, Westlands' },
+        parcel: { description: 'Laptop', weightKg: 3.2, lengthCm: 45, widthCm: 35, heightCm: 10, declaredValueKes: 95000, fragile: true },
+        origin: { latitude: -1.2864, longitude: 36.8172 },
+        destination: { latitude: -1.2676, longitude: 36.8108 },
+        estimatedDuration: 25,
+        requiredMethods: ['otp', 'photo'],
+        scenario: 'on_route',
+    },
+    {
+        // Mombasa Island -> Nyali
+        id: 'a0000000-0000-4000-8000-000000000002',
+        driverId: 'd0000000-0000-4000-8000-000000000003',
+        senderId: 'e0000000-0000-4000-8000-000000000002',
+        recipientId: 'c0000000-0000-4000-8000-000000000002',
+        sender: { name: 'Pwani Traders', phone: '+254733000002', address: 'Digo Road, Mombasa Island' },
+        recipient: { name: 'Ali Salim', phone: '+254700000002', address: 'Links Road, Nyali' },
+        parcel: { description: 'Kitchen appliances', weightKg: 12.5, lengthCm: 60, widthCm: 40, heightCm: 40, declaredValueKes: 28000 },
+        origin: { latitude: -4.0435, longitude: 39.6682 },
+        destination: { latitude: -4.0226, longitude: 39.7190 },
+        estimatedDuration: 30,
+        requiredMethods: ['otp', 'signature'],
+        scenario: 'deviation',
+    },
+    {
+        // Kisumu CBD -> Milimani
+        id: 'a0000000-0000-4000-8000-000000000003',
+        driverId: 'd0000000-0000-4000-8000-000000000002',
+        senderId: 'e0000000-0000-4000-8000-000000000003',
+        recipientId: 'c0000000-0000-4000-8000-000000000003',
+        sender: { name: 'Lakeside Pharmacy', phone: '+254733000003', address: 'Oginga Odinga Street, Kisumu' },
+        recipient: { name: 'Grace Achieng', phone: '+254700000003', address: 'Aga Khan Road, Milimani' },
+        parcel: { description: 'Medical supplies', weightKg: 1.5, declaredValueKes: 12000 },
+        origin: { latitude: -0.0917, longitude: 34.7680 },
+        destination: { latitude: -0.1003, longitude: 34.7530 },
+        estimatedDuration: 20,
+        requiredMethods: ['code', 'geofence'],
+        scenario: 'long_stop',
+    },
+];
+
+function buildZoneSequence(origin: RawCoordinates, destination: RawCoordinates): string[] {
+    const start = h3.latLngToCell(origin.latitude, origin.longitude, ROUTE_RESOLUTION);
+    const end = h3.latLngToCell(destination.latitude, destination.longitude, ROUTE_RESOLUTION);
+    return h3.gridPathCells(start, end);
+}
+
+function simulateTrip(delivery: DemoDelivery, zoneSequence: string[]): void {
+    const startTime = Date.now() - delivery.estimatedDuration * 60 * 1000;
+    const stepMs = (delivery.estimatedDuration * 60 * 1000) / Math.max(zoneSequence.length, 1);
+
+    zoneSequence.forEach((zoneId, index) => {
+        processLocationUpdate(delivery.id, delivery.driverId, {
+            zoneId,
+            approximateTime: new Date(startTime + index * stepMs).toISOString(),
+            movementState: 'moving',
+            resolution: ROUTE_RESOLUTION,
+        });
+    });
+
+    const lastZone = zoneSequence[zoneSequence.length - 1];
+    if (!lastZone) return;
+
+    if (delivery.scenario === 'deviation') {
+        // Detour about 3 km clear of the planned corridor, beyond the deviation tolerance
+        const detour = h3.gridRing(lastZone, 4)
+            .find(cell => h3.gridDisk(cell, 3).every(near => !zoneSequence.includes(near)));
+        if (detour) {
+            processLocationUpdate(delivery.id, delivery.driverId, {
+                ...obfuscateLocation(toCoordinates(detour), ROUTE_RESOLUTION, { useCase: 'security_monitoring' }),
+                movementState: 'moving',
+            });
+        }
+    }
+
+    if (delivery.scenario === 'long_stop') {
+        // Four stationary fixes spread over 20 minutes
+        const stopStart = Date.now() - 20 * 60 * 1000;
+        for (let i = 0; i < 4; i++) {
+            processLocationUpdate(delivery.id, delivery.driverId, {
+                zoneId: lastZone,
+                approximateTime: new Date(stopStart + i * 20 / 3 * 60 * 1000).toISOString(),
+                movementState: 'stationary',
+                resolution: ROUTE_RESOLUTION,
+            });
+        }
+    }
+}
+
+function toCoordinates(zoneId: string): RawCoordinates {
+    const [latitude, longitude] = h3.cellToLatLng(zoneId);
+    return { latitude, longitude };
+}
+
+function seed(): void {
+    initializeDatabase();
+
+    const firstDelivery = DELIVERIES[0];
+    if (firstDelivery && getVerificationStatus(firstDelivery.id)) {
+        console.log('Demo data already present, skipping');
+        return;
+    }
+
+    for (const driver of DRIVERS) {
+        const expiresAt = new Date(Date.now() + driver.documentsValidDays * 24 * 60 * 60 * 1000).toISOString();
+        registerDriver({
+            name: driver.name,
+            phone: driver.phone,
+            licenceNumber: driver.licenceNumber,
+            psvBadgeNumber: driver.psvBadgeNumber,
+            licenceExpiresAt: expiresAt,
+            psvBadgeExpiresAt: expiresAt,
+        }, SEED_ACTOR, driver.id);
+        registerVehicle({ ...driver.vehicle, insuranceExpiresAt: expiresAt }, SEED_ACTOR, driver.vehicle.id);
+        setDriverShift(driver.id, 'on_shift', driver.vehicle.id, SEED_ACTOR);
+        setEmergencyContacts(driver.id, [driver.contact]);
+        setUserPreferences(driver.id, ['push', 'sms']);
+    }
+
+    for (const delivery of DELIVERIES) {
+        const zoneSequence = buildZoneSequence(delivery.origin, delivery.destination);
+
+        const vehicleId = DRIVERS.find(driver => driver.id === delivery.driverId)?.vehicle.id;
+        createDelivery({ ...delivery, vehicleId }, SEED_ACTOR, delivery.id);
+        transitionDelivery(delivery.id, 'picked_up', SEED_ACTOR);
+        transitionDelivery(delivery.id, 'in_transit', SEED_ACTOR);
+        setExpectedRoute(delivery.id, zoneSequence, delivery.estimatedDuration);
+        initializeVerification(delivery.id, delivery.requiredMethods);
+        setUserPreferences(delivery.recipientId, ['sms', 'whatsapp']);
+
+        simulateTrip(delivery, zoneSequence);
+
+        const alerts = getAlertsForDelivery(delivery.id);
+        console.log(`Seeded delivery ${delivery.id}: ${zoneSequence.length} zones, ${alerts.length} alert(s)`);
+    }
+
+    console.log(`Seeded ${DRIVERS.length} drivers and ${DELIVERIES.length} deliveries`);
+}
+
+try {
+    seed();
+} catch (error) {
+    console.error(`❌ Seed failed: ${(error as Error).message}`);
+    process.exitCode = 1;
+} finally {
+    closeDatabase();
+}
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { createAuditEntry } from '../services/privacy-access-control/access-control.js';
-import { sha256 } from '../crypto/hashing.js';
+import { logger } from '../utils/logger.js';
 
 /**
  * Audit Middleware - Log all API access for compliance
@@ -14,19 +14,26 @@ export function auditMiddleware(req: Request, res: Response, next: NextFunction)
     res.send = function (body) {
         const duration = Date.now() - startTime;
 
-        createAuditEntry({
-            actorId: req.user?.id ?? 'anonymous',
-            actorRole: req.user?.role ?? 'customer',
-            action: `${req.method} ${req.path}`,
-            resourceType: req.path.split('/')[2] ?? 'unknown',
-            resourceId: req.params['id'] ?? req.params['deliveryId'],
-            metadata: {
-                ipAddress: req.ip,
-                userAgent: req.headers['user-agent'],
-                requestId: req.requestId,
-            },
-            result: res.statusCode < 400 ? 'success' : res.statusCode === 403 ? 'denied' : 'failure',
-        });
+        try {
+            createAuditEntry({
+                actorId: req.user?.id ?? 'anonymous',
+                actorRole: req.user?.role ?? 'customer',
+                action: `${req.method} ${req.path}`,
+                resourceType: req.path.split('/')[2] ?? 'unknown',
+                resourceId: req.params['id'] ?? req.params['deliveryId'],
+                metadata: {
+                    ipAddress: req.ip,
+                    userAgent: req.headers['user-agent'],
+                    requestId: req.requestId,
+                    statusCode: res.statusCode,
+                    durationMs: duration,
+                },
+                result: res.statusCode < 400 ? 'success' : res.statusCode === 403 ? 'denied' : 'failure',
+            });
+        } catch (error) {
+            // Never fail the response because the audit write failed
+            logger.error('Audit entry write failed', { error: (error as Error).message, requestId: req.requestId });
+        }
 
         return originalSend.call(this, body);
     };
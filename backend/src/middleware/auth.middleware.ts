@@ -4,7 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { UUID, UserRole, Permission } from '../types/index.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { getUserPermissions } from '../services/privacy-access-control/access-control.js';
+import { getUserPermissions, hasPermission } from '../services/privacy-access-control/access-control.js';
 
 /**
  * Authentication Middleware
@@ -77,7 +77,7 @@ export function requireRole(...roles: UserRole[]): (req: Request, res: Response,
 
 export function requirePermission(permission: Permission): (req: Request, res: Response, next: NextFunction) => void {
     return (req: Request, res: Response, next: NextFunction): void => {
-        if (!req.user || !req.user.permissions.includes(permission)) {
+        if (!req.user || !hasPermission(req.user.role, permission)) {
             res.status(403).json({
                 success: false,
                 error: { code: 'FORBIDDEN', message: 'Permission denied' },
@@ -0,0 +1,46 @@
+import type { Request, Response, NextFunction } from 'express';
+import { deliveryExists } from '../database/repositories/delivery.repository.js';
+
+/**
+ * Known-Delivery Middleware
+ * Rejects requests naming a delivery that does not exist, so services never
+ * create state for made-up delivery IDs. Malformed IDs are left to each
+ * route's own validation.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUnknownDelivery(value: unknown): boolean {
+    return typeof value === 'string' && UUID_PATTERN.test(value) && !deliveryExists(value);
+}
+
+function rejectUnknown(res: Response): void {
+    res.status(404).json({
+        success: false,
+        error: { code: 'DELIVERY_NOT_FOUND', message: 'Unknown delivery' },
+    });
+}
+
+/**
+ * Checks `deliveryId` in the JSON body and the query string
+ */
+export function requireKnownDelivery(req: Request, res: Response, next: NextFunction): void {
+    const body = req.body as { deliveryId?: unknown } | undefined;
+
+    if (isUnknownDelivery(body?.deliveryId) || isUnknownDelivery(req.query['deliveryId'])) {
+        rejectUnknown(res);
+        return;
+    }
+    next();
+}
+
+/**
+ * For `router.param('deliveryId', ...)`
+ */
+export function requireKnownDeliveryParam(req: Request, res: Response, next: NextFunction, deliveryId: string): void {
+    if (isUnknownDelivery(deliveryId)) {
+        rejectUnknown(res);
+        return;
+    }
+    next();
+}
@@ -53,3 +53,15 @@ export const verificationLimiter = rateLimit({
     standardHeaders: true,
     legacyHeaders: false,
 });
+
+// Public tracking lookups, keyed by IP to slow tracking-number guessing
+export const trackingLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 30,
+    message: {
+        success: false,
+        error: { code: 'RATE_LIMITED', message: 'Too many tracking lookups' },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
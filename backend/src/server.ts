@@ -5,6 +5,7 @@ import compression from 'compression';
 import { createServer } from 'http';
 import { config, validateConfig } from './config/index.js';
 import { logger } from './utils/logger.js';
+import { initializeDatabase, closeDatabase } from './database/connection.js';
 
 // Middleware
 import { authMiddleware } from './middleware/auth.middleware.js';
@@ -12,14 +13,21 @@ import { apiLimiter } from './middleware/rate-limiter.middleware.js';
 import { auditMiddleware } from './middleware/audit.middleware.js';
 
 // Service routers
+import { deliveryRouter, trackingRouter } from './services/delivery-management/index.js';
 import { locationRouter } from './services/location-obfuscation/index.js';
 import { codeRouter } from './services/code-generation/index.js';
 import { verificationRouter } from './services/delivery-verification/index.js';
 import { securityRouter } from './services/cargo-security/index.js';
 import { emergencyRouter } from './services/emergency-response/index.js';
 import { privacyRouter } from './services/privacy-access-control/index.js';
+import { quoteRouter } from './services/pricing/index.js';
+import { fleetRouter } from './services/fleet-registry/index.js';
+import { dispatchRouter } from './services/dispatch/index.js';
+import { routePlanningRouter } from './services/route-planning/index.js';
 import { notificationRouter } from './services/notification-delivery/index.js';
 import { realtimeRouter, initializeWebSocket } from './services/realtime-broadcast/index.js';
+import { startRetentionJob, stopRetentionJob } from './services/privacy-access-control/retention.js';
+import { startReencryptionJob, stopReencryptionJob } from './services/privacy-access-control/key-rotation.js';
 
 /**
  * KenyaShip Privacy-Enhanced Security Backend
@@ -29,6 +37,9 @@ import { realtimeRouter, initializeWebSocket } from './services/realtime-broadca
 // Validate configuration on startup
 validateConfig();
 
+// Open the database and apply pending migrations before accepting traffic
+initializeDatabase();
+
 const app = express();
 const httpServer = createServer(app);
 
@@ -63,12 +74,18 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
+app.use('/api/deliveries', deliveryRouter);
+app.use('/api/track', trackingRouter);
 app.use('/api/location', locationRouter);
 app.use('/api/codes', codeRouter);
 app.use('/api/verification', verificationRouter);
 app.use('/api/security', securityRouter);
 app.use('/api/emergency', emergencyRouter);
 app.use('/api/privacy', privacyRouter);
+app.use('/api/quotes', quoteRouter);
+app.use('/api/fleet', fleetRouter);
+app.use('/api/dispatch', dispatchRouter);
+app.use('/api/routes', routePlanningRouter);
 app.use('/api/notifications', notificationRouter);
 app.use('/api/realtime', realtimeRouter);
 
@@ -92,6 +109,12 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 // Initialize WebSocket
 initializeWebSocket(httpServer);
 
+// Schedule Kenya DPA retention purge
+startRetentionJob();
+
+// Move ciphertexts onto the active encryption key
+startReencryptionJob();
+
 // Start server
 httpServer.listen(config.port, () => {
     logger.info(`KenyaShip Security Server started`, {
@@ -106,6 +129,11 @@ httpServer.listen(config.port, () => {
             'privacy-access-control',
             'notification-delivery',
             'realtime-broadcast',
+            'delivery-management',
+            'pricing',
+            'fleet-registry',
+            'dispatch',
+            'route-planning',
         ],
     });
 });
@@ -113,7 +141,10 @@ httpServer.listen(config.port, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
     logger.info('SIGTERM received, shutting down...');
+    stopRetentionJob();
+    stopReencryptionJob();
     httpServer.close(() => {
+        closeDatabase();
         logger.info('Server closed');
         process.exit(0);
     });
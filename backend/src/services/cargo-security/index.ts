@@ -12,8 +12,14 @@ import {
     getSecurityStats,
     checkCommunicationLoss,
 } from './monitor.js';
+import { ingestTrace, type TraceIngestionSummary } from './trace-ingestion.js';
+import { InvalidTraceError } from './trace-parsers.js';
+import { broadcastLocationUpdate } from '../realtime-broadcast/broadcaster.js';
 import { logger, createRequestLogger } from '../../utils/logger.js';
 import { uuidSchema, formatValidationError } from '../../utils/validators.js';
+import { requireKnownDelivery, requireKnownDeliveryParam } from '../../middleware/delivery.middleware.js';
+import { hasPermission } from '../privacy-access-control/access-control.js';
+import { withFleetContext } from '../fleet-registry/registry.js';
 
 /**
  * Cargo Security Monitoring - API Routes
@@ -21,6 +27,10 @@ import { uuidSchema, formatValidationError } from '../../utils/validators.js';
 
 const router = Router();
 
+// Reject requests for deliveries that do not exist
+router.use(requireKnownDelivery);
+router.param('deliveryId', requireKnownDeliveryParam);
+
 /**
  * POST /api/security/location-update
  * Process location update and check for anomalies
@@ -38,6 +48,7 @@ router.post('/location-update', (req, res) => {
                 resolution: z.number().int(),
                 zoneDescription: z.string(),
                 approximateTime: z.string().datetime(),
+                timeUseCase: z.enum(['customer_tracking', 'dispatch', 'security_monitoring', 'analytics']).optional(),
                 movementState: z.enum(['stationary', 'moving', 'unknown']),
             }),
         });
@@ -60,6 +71,7 @@ router.post('/location-update', (req, res) => {
         const { deliveryId, driverId, vehicleId, location } = result.data;
 
         const alerts = processLocationUpdate(deliveryId, driverId, location, vehicleId);
+        broadcastLocationUpdate(deliveryId, driverId, location);
 
         const response: ApiResponse<{
             alertsGenerated: number;
@@ -106,6 +118,86 @@ router.post('/location-update', (req, res) => {
     }
 });
 
+/**
+ * POST /api/security/location-trace
+ * Replay a whole GPX / NMEA 0183 / GeoJSON trip trace through anomaly detection
+ */
+router.post('/location-trace', (req, res) => {
+    const reqLogger = createRequestLogger(req.requestId);
+
+    const schema = z.object({
+        deliveryId: uuidSchema,
+        driverId: uuidSchema,
+        vehicleId: uuidSchema.optional(),
+        format: z.enum(['gpx', 'nmea', 'geojson']),
+        data: z.union([z.string().min(1), z.record(z.unknown())]),
+        resolution: z.number().int().min(7).max(9).optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+
+    if (!result.success) {
+        const response: ApiResponse<null> = {
+            success: false,
+            error: formatValidationError(result.error),
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.status(400).json(response);
+        return;
+    }
+
+    try {
+        const summary = ingestTrace(result.data);
+
+        const response: ApiResponse<TraceIngestionSummary> = {
+            success: true,
+            data: summary,
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.json(response);
+
+    } catch (error) {
+        if (error instanceof InvalidTraceError) {
+            reqLogger.warn('Location trace rejected', { error: error.message });
+
+            const response: ApiResponse<null> = {
+                success: false,
+                error: {
+                    code: 'INVALID_TRACE',
+                    message: error.message,
+                },
+                meta: {
+                    requestId: req.requestId,
+                    timestamp: new Date().toISOString(),
+                },
+            };
+            res.status(400).json(response);
+            return;
+        }
+
+        reqLogger.error('Location trace ingestion failed', { error: (error as Error).message });
+
+        const response: ApiResponse<null> = {
+            success: false,
+            error: {
+                code: 'INTERNAL_ERROR',
+                message: 'Failed to ingest location trace',
+            },
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.status(500).json(response);
+    }
+});
+
 /**
  * POST /api/security/expected-route
  * Set expected route for a delivery
@@ -205,6 +297,11 @@ router.get('/alerts', (req, res) => {
             alerts = getUnacknowledgedAlerts(); // Default to unacknowledged
         }
 
+        // Officers and dispatchers see driver and vehicle details
+        if (req.user && hasPermission(req.user.role, 'read:fleet')) {
+            alerts = alerts.map(alert => withFleetContext(alert));
+        }
+
         const response: ApiResponse<{ alerts: SecurityAlert[] }> = {
             success: true,
             data: { alerts },
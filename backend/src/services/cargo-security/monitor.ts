@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import h3 from 'h3-js';
 import type {
     SecurityAlert,
     AnomalyType,
@@ -9,6 +10,30 @@ import type {
 } from '../../types/index.js';
 import { logger, logSecurityEvent } from '../../utils/logger.js';
 import { calculateDistance, calculateBearing } from '../../utils/geo-utils.js';
+import {
+    insertAlert,
+    updateAlert,
+    findAlertById,
+    findAlertsByDelivery,
+    findUnacknowledgedAlerts,
+    findAlertsBySeverity,
+    findAllAlerts,
+    appendLocationHistory,
+    findLocationHistory,
+    saveExpectedRoute,
+    findExpectedRoute,
+    findRouteProgress,
+    saveRouteProgress,
+    deleteRouteProgress,
+    clearSecurityTables,
+    type StoredLocationHistoryEntry,
+    type StoredRouteProgress,
+} from '../../database/repositories/security.repository.js';
+import { findVehicleById } from '../../database/repositories/fleet.repository.js';
+import { findDeliveryById } from '../../database/repositories/delivery.repository.js';
+import { privacyZoneOwners, zoneOverlapsPrivacyZone } from '../location-obfuscation/privacy-zones.js';
+import { isHighwayZone } from '../route-planning/road-graph.js';
+import { detectSpeedAnomaly, getSpeedLimits, type SpeedLimits } from './speed.js';
 
 /**
  * Cargo Security Monitoring System
@@ -35,69 +60,85 @@ const THRESHOLDS = {
     rapidZoneChanges: 5,               // Max zone changes in 5 min
 };
 
-// In-memory stores
-const alertStore = new Map<UUID, SecurityAlert>();
-const deliveryAlerts = new Map<UUID, UUID[]>(); // deliveryId -> alertIds
-const driverHistory = new Map<UUID, LocationHistoryEntry[]>();
+// Route deviation severity: distance off the corridor (in multiples of
+// routeDeviationMeters) and how long the deviation has lasted
+const ROUTE_DEVIATION = {
+    mediumDistanceFactor: 2,
+    highDistanceFactor: 4,
+    mediumMinutes: 10,
+    highMinutes: 30,
+    backtrackMeters: 1000,             // Behind the furthest point reached on the route
+};
 
-interface LocationHistoryEntry {
-    zoneId: H3Index;
-    timestamp: Date;
-    isMoving: boolean;
-}
+const SEVERITY_RANK: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// Recent zone history entries the detectors look at
+const DETECTION_HISTORY_ENTRIES = 20;
+
+// Speed windows span up to SPEED_DETECTION.crawlWindowMinutes of updates
+const SPEED_HISTORY_ENTRIES = 120;
+
+type LocationHistoryEntry = StoredLocationHistoryEntry;
 
-interface ExpectedRoute {
-    zoneSequence: H3Index[];
-    estimatedDuration: number; // minutes
+/**
+ * State for replaying past fixes (bulk trace ingestion). Route progress is
+ * kept here rather than on the delivery, so a replay cannot disturb live
+ * tracking, and alerts are dated at the fix instead of at ingestion.
+ */
+export interface ReplayState {
+    routeProgress: StoredRouteProgress | null;
 }
 
-const expectedRoutes = new Map<UUID, ExpectedRoute>();
+export function createReplayState(): ReplayState {
+    return { routeProgress: null };
+}
 
 /**
  * Process location update and detect anomalies
+ * Detectors only look at history up to the update's own time
  */
 export function processLocationUpdate(
     deliveryId: UUID,
     driverId: UUID,
     location: ObfuscatedLocation,
-    vehicleId?: UUID
+    vehicleId?: UUID,
+    replay?: ReplayState
 ): SecurityAlert[] {
     const alerts: SecurityAlert[] = [];
+    const fixTime = new Date(location.approximateTime);
+    const detectedAt = replay ? fixTime : new Date();
 
-    // Get driver history
-    const history = driverHistory.get(driverId) || [];
-
-    // Add current location to history
+    // Add current location to history (purged by the retention job)
     const entry: LocationHistoryEntry = {
         zoneId: location.zoneId,
-        timestamp: new Date(location.approximateTime),
+        timestamp: fixTime,
         isMoving: location.movementState === 'moving',
+        timeUseCase: location.timeUseCase ?? null,
     };
-    history.push(entry);
+    appendLocationHistory(driverId, deliveryId, entry);
 
-    // Keep only last 100 entries
-    if (history.length > 100) {
-        history.shift();
-    }
-    driverHistory.set(driverId, history);
+    const history = findLocationHistory(driverId, DETECTION_HISTORY_ENTRIES, fixTime);
 
     // Run anomaly checks
-    const routeAlert = checkRouteDeviation(deliveryId, driverId, location, vehicleId);
+    const routeAlert = checkRouteDeviation(deliveryId, driverId, location, detectedAt, vehicleId, replay);
     if (routeAlert) alerts.push(routeAlert);
 
-    const stopAlert = checkUnusualStop(deliveryId, driverId, history, vehicleId);
-    if (stopAlert) alerts.push(stopAlert);
+    // Stops inside the driver's or recipient's privacy zone (home, clinic) are
+    // expected and not reported; decided here, never taken from the client
+    if (!zoneOverlapsPrivacyZone(location.zoneId, privacyZoneOwners(driverId, deliveryId))) {
+        const stopAlert = checkUnusualStop(deliveryId, driverId, history, detectedAt, vehicleId);
+        if (stopAlert) alerts.push(stopAlert);
+    }
 
-    const rapidChangeAlert = checkRapidZoneChanges(deliveryId, driverId, history, vehicleId);
+    const rapidChangeAlert = checkRapidZoneChanges(deliveryId, driverId, history, detectedAt, vehicleId);
     if (rapidChangeAlert) alerts.push(rapidChangeAlert);
 
+    const speedAlert = checkSpeedAnomaly(deliveryId, driverId, fixTime, detectedAt, vehicleId);
+    if (speedAlert) alerts.push(speedAlert);
+
     // Store alerts
     for (const alert of alerts) {
-        alertStore.set(alert.id, alert);
-
-        const deliveryAlertIds = deliveryAlerts.get(deliveryId) || [];
-        deliveryAlertIds.push(alert.id);
-        deliveryAlerts.set(deliveryId, deliveryAlertIds);
+        insertAlert(alert);
 
         // Log security event
         logSecurityEvent({
@@ -124,39 +165,169 @@ export function processLocationUpdate(
     return alerts;
 }
 
+interface RoutePosition {
+    index: number;                  // Position in the zone sequence, -1 when off the corridor
+    nearestZone: H3Index;           // Closest corridor cell
+    gridDistance: number | null;    // Cells to it; null when H3 cannot measure it
+    distanceMeters: number;         // Between zone centres
+}
+
+function zoneDistanceMeters(a: H3Index, b: H3Index): number {
+    const [latitude1, longitude1] = h3.cellToLatLng(a);
+    const [latitude2, longitude2] = h3.cellToLatLng(b);
+    return calculateDistance(
+        { latitude: latitude1, longitude: longitude1 },
+        { latitude: latitude2, longitude: longitude2 }
+    );
+}
+
 /**
- * Check for route deviation
+ * Where a zone lies relative to the expected corridor. Zones and route cells
+ * are compared at the coarser of their resolutions, so obfuscated zones
+ * still match.
+ */
+function locateOnRoute(zoneId: H3Index, zoneSequence: H3Index[]): RoutePosition | null {
+    const routeZones = zoneSequence.filter(cell => h3.isValidCell(cell));
+    if (!h3.isValidCell(zoneId) || routeZones.length === 0) {
+        return null;
+    }
+
+    const resolution = Math.min(h3.getResolution(zoneId), ...routeZones.map(cell => h3.getResolution(cell)));
+    const zone = h3.cellToParent(zoneId, resolution);
+    const corridor = routeZones.map(cell => h3.cellToParent(cell, resolution));
+
+    const index = corridor.indexOf(zone);
+    if (index !== -1) {
+        return { index, nearestZone: zone, gridDistance: 0, distanceMeters: 0 };
+    }
+
+    let nearestZone = zone;
+    let distanceMeters = Infinity;
+    for (const cell of new Set(corridor)) {
+        const meters = zoneDistanceMeters(zone, cell);
+        if (meters < distanceMeters) {
+            nearestZone = cell;
+            distanceMeters = meters;
+        }
+    }
+
+    let gridDistance: number | null = null;
+    try {
+        gridDistance = h3.gridDistance(zone, nearestZone);
+    } catch {
+        // Too far apart or across a pentagon
+    }
+
+    return { index: -1, nearestZone, gridDistance, distanceMeters };
+}
+
+function deviationSeverity(distanceMeters: number, minutes: number): AlertSeverity {
+    const far = distanceMeters >= THRESHOLDS.routeDeviationMeters * ROUTE_DEVIATION.highDistanceFactor;
+    const prolonged = minutes >= ROUTE_DEVIATION.highMinutes;
+
+    if (far && prolonged) return 'critical';
+    if (far || prolonged) return 'high';
+    if (distanceMeters >= THRESHOLDS.routeDeviationMeters * ROUTE_DEVIATION.mediumDistanceFactor ||
+        minutes >= ROUTE_DEVIATION.mediumMinutes) {
+        return 'medium';
+    }
+    return 'low';
+}
+
+/**
+ * Check for route deviation and backtracking
+ *
+ * Zones within routeDeviationMeters of the corridor are tolerated, so cell
+ * boundary jitter does not alert. Beyond that, a deviation alert is raised
+ * when it starts and again each time its severity escalates. On the
+ * corridor, progress is tracked as the furthest position in the sequence;
+ * falling backtrackMeters behind it is flagged once until progress resumes.
  */
 function checkRouteDeviation(
     deliveryId: UUID,
     driverId: UUID,
     location: ObfuscatedLocation,
-    vehicleId?: UUID
+    detectedAt: Date,
+    vehicleId?: UUID,
+    replay?: ReplayState
 ): SecurityAlert | null {
-    const expectedRoute = expectedRoutes.get(deliveryId);
+    const expectedRoute = findExpectedRoute(deliveryId);
 
     if (!expectedRoute) {
         return null; // No expected route set
     }
 
-    // Check if current zone is in expected sequence
-    const currentIndex = expectedRoute.zoneSequence.indexOf(location.zoneId);
+    const position = locateOnRoute(location.zoneId, expectedRoute.zoneSequence);
+    if (!position) {
+        return null;
+    }
 
-    if (currentIndex === -1) {
-        // Not in expected route - check if within tolerance
-        // For now, generate medium severity alert
-        return createAlert(
-            deliveryId,
-            driverId,
-            vehicleId,
-            'route_deviation',
-            'medium',
-            location.zoneId,
-            `Vehicle deviated from expected route. Current zone not in planned sequence.`
-        );
+    const progress: StoredRouteProgress = (replay ? replay.routeProgress : findRouteProgress(deliveryId)) ?? {
+        furthestIndex: -1,
+        furthestZone: null,
+        backtracking: false,
+        deviationStartedAt: null,
+        deviationSeverity: null,
+    };
+
+    let alert: SecurityAlert | null = null;
+
+    if (position.distanceMeters > THRESHOLDS.routeDeviationMeters) {
+        progress.deviationStartedAt ??= location.approximateTime;
+        const minutes = (new Date(location.approximateTime).getTime() -
+            new Date(progress.deviationStartedAt).getTime()) / (1000 * 60);
+        const severity = deviationSeverity(position.distanceMeters, minutes);
+
+        if (!progress.deviationSeverity || SEVERITY_RANK[severity] > SEVERITY_RANK[progress.deviationSeverity]) {
+            progress.deviationSeverity = severity;
+            const cells = position.gridDistance !== null ? ` (${position.gridDistance} zones)` : '';
+            alert = createAlert(
+                deliveryId,
+                driverId,
+                vehicleId,
+                'route_deviation',
+                severity,
+                location.zoneId,
+                detectedAt,
+                `Vehicle ${(position.distanceMeters / 1000).toFixed(1)} km${cells} off the expected route ` +
+                `for ${Math.round(minutes)} minutes.`
+            );
+        }
+    } else {
+        progress.deviationStartedAt = null;
+        progress.deviationSeverity = null;
+
+        if (position.index === -1) {
+            // Near the corridor but not on it: no progress to record
+        } else if (position.index >= progress.furthestIndex) {
+            progress.furthestIndex = position.index;
+            progress.furthestZone = position.nearestZone;
+            progress.backtracking = false;
+        } else if (!progress.backtracking && progress.furthestZone) {
+            const behindMeters = zoneDistanceMeters(position.nearestZone, progress.furthestZone);
+            if (behindMeters >= ROUTE_DEVIATION.backtrackMeters) {
+                progress.backtracking = true;
+                alert = createAlert(
+                    deliveryId,
+                    driverId,
+                    vehicleId,
+                    'route_deviation',
+                    'medium',
+                    location.zoneId,
+                    detectedAt,
+                    `Vehicle heading back along the expected route, ` +
+                    `${(behindMeters / 1000).toFixed(1)} km behind the furthest point reached.`
+                );
+            }
+        }
     }
 
-    return null;
+    if (replay) {
+        replay.routeProgress = progress;
+    } else {
+        saveRouteProgress(deliveryId, progress);
+    }
+    return alert;
 }
 
 /**
@@ -166,6 +337,7 @@ function checkUnusualStop(
     deliveryId: UUID,
     driverId: UUID,
     history: LocationHistoryEntry[],
+    detectedAt: Date,
     vehicleId?: UUID
 ): SecurityAlert | null {
     if (history.length < 3) {
@@ -184,11 +356,11 @@ function checkUnusualStop(
             const stationaryDuration = (lastStationary.timestamp.getTime() - firstStationary.timestamp.getTime()) / (1000 * 60);
 
             if (stationaryDuration >= THRESHOLDS.unusualStopMinutes) {
-                // Check if already alerted for this stop
+                // Check if already alerted for this stop (replayed alerts are dated at the fix)
                 const existingAlerts = getAlertsForDelivery(deliveryId);
                 const hasRecentStopAlert = existingAlerts.some(
                     a => a.anomalyType === 'unusual_stop' &&
-                        new Date(a.detectedAt).getTime() > Date.now() - 30 * 60 * 1000
+                        Math.abs(new Date(a.detectedAt).getTime() - detectedAt.getTime()) < 30 * 60 * 1000
                 );
 
                 if (!hasRecentStopAlert) {
@@ -199,6 +371,7 @@ function checkUnusualStop(
                         'unusual_stop',
                         'low',
                         lastStationary.zoneId,
+                        detectedAt,
                         `Vehicle stationary for ${Math.round(stationaryDuration)} minutes in unscheduled location.`
                     );
                 }
@@ -209,6 +382,41 @@ function checkUnusualStop(
     return null;
 }
 
+/**
+ * Check for speed anomalies, against the limits for the vehicle's type
+ * (the delivery's vehicle if none is given; THRESHOLDS if it is unknown)
+ */
+function checkSpeedAnomaly(
+    deliveryId: UUID,
+    driverId: UUID,
+    fixTime: Date,
+    detectedAt: Date,
+    vehicleId?: UUID
+): SecurityAlert | null {
+    const knownVehicleId = vehicleId ?? findDeliveryById(deliveryId)?.vehicleId;
+    const vehicle = knownVehicleId ? findVehicleById(knownVehicleId) : null;
+    const limits: SpeedLimits = vehicle
+        ? getSpeedLimits(vehicle.type)
+        : { minSpeedKmh: THRESHOLDS.minSpeedKmh, maxSpeedKmh: THRESHOLDS.maxSpeedKmh };
+
+    const history = findLocationHistory(driverId, SPEED_HISTORY_ENTRIES, fixTime);
+    const anomaly = detectSpeedAnomaly(history, limits, isHighwayZone);
+    if (!anomaly) {
+        return null;
+    }
+
+    return createAlert(
+        deliveryId,
+        driverId,
+        vehicleId,
+        'speed_anomaly',
+        anomaly.severity,
+        anomaly.zoneId,
+        detectedAt,
+        anomaly.description
+    );
+}
+
 /**
  * Check for rapid zone changes (potential tampering/spoofing)
  */
@@ -216,6 +424,7 @@ function checkRapidZoneChanges(
     deliveryId: UUID,
     driverId: UUID,
     history: LocationHistoryEntry[],
+    detectedAt: Date,
     vehicleId?: UUID
 ): SecurityAlert | null {
     if (history.length < THRESHOLDS.rapidZoneChanges) {
@@ -245,6 +454,7 @@ function checkRapidZoneChanges(
                 'tampering_detected',
                 'high',
                 lastEntry.zoneId,
+                detectedAt,
                 `Suspicious location pattern: ${uniqueZones.size} zone changes in ${Math.round(timeDiff / 1000)} seconds.`
             );
         }
@@ -280,14 +490,11 @@ export function checkCommunicationLoss(
                 'communication_lost',
                 silentMinutes > 30 ? 'high' : 'medium',
                 '', // Unknown zone
+                new Date(),
                 `No communication for ${Math.round(silentMinutes)} minutes.`
             );
 
-            alertStore.set(alert.id, alert);
-
-            const deliveryAlertIds = deliveryAlerts.get(deliveryId) || [];
-            deliveryAlertIds.push(alert.id);
-            deliveryAlerts.set(deliveryId, deliveryAlertIds);
+            insertAlert(alert);
 
             return alert;
         }
@@ -306,6 +513,7 @@ function createAlert(
     anomalyType: AnomalyType,
     severity: AlertSeverity,
     zoneId: H3Index,
+    detectedAt: Date,
     description: string
 ): SecurityAlert {
     return {
@@ -316,7 +524,7 @@ function createAlert(
         anomalyType,
         severity,
         zoneId,
-        detectedAt: new Date().toISOString(),
+        detectedAt: detectedAt.toISOString(),
         description,
         isAcknowledged: false,
     };
@@ -330,7 +538,8 @@ export function setExpectedRoute(
     zoneSequence: H3Index[],
     estimatedDuration: number
 ): void {
-    expectedRoutes.set(deliveryId, { zoneSequence, estimatedDuration });
+    saveExpectedRoute(deliveryId, { zoneSequence, estimatedDuration });
+    deleteRouteProgress(deliveryId);
     logger.debug('Expected route set', { deliveryId, zones: zoneSequence.length });
 }
 
@@ -338,24 +547,21 @@ export function setExpectedRoute(
  * Get alerts for a delivery
  */
 export function getAlertsForDelivery(deliveryId: UUID): SecurityAlert[] {
-    const alertIds = deliveryAlerts.get(deliveryId) || [];
-    return alertIds
-        .map(id => alertStore.get(id))
-        .filter((a): a is SecurityAlert => a !== undefined);
+    return findAlertsByDelivery(deliveryId);
 }
 
 /**
  * Get unacknowledged alerts
  */
 export function getUnacknowledgedAlerts(): SecurityAlert[] {
-    return Array.from(alertStore.values()).filter(a => !a.isAcknowledged);
+    return findUnacknowledgedAlerts();
 }
 
 /**
  * Get alerts by severity
  */
 export function getAlertsBySeverity(severity: AlertSeverity): SecurityAlert[] {
-    return Array.from(alertStore.values()).filter(a => a.severity === severity);
+    return findAlertsBySeverity(severity);
 }
 
 /**
@@ -365,7 +571,7 @@ export function acknowledgeAlert(
     alertId: UUID,
     acknowledgedBy: UUID
 ): boolean {
-    const alert = alertStore.get(alertId);
+    const alert = findAlertById(alertId);
 
     if (!alert) {
         return false;
@@ -374,6 +580,7 @@ export function acknowledgeAlert(
     alert.isAcknowledged = true;
     alert.acknowledgedAt = new Date().toISOString();
     alert.acknowledgedBy = acknowledgedBy;
+    updateAlert(alert);
 
     logSecurityEvent({
         type: 'alert_acknowledged',
@@ -398,7 +605,7 @@ export function resolveAlert(
     status: 'false_positive' | 'investigated' | 'escalated' | 'resolved',
     notes?: string
 ): boolean {
-    const alert = alertStore.get(alertId);
+    const alert = findAlertById(alertId);
 
     if (!alert) {
         return false;
@@ -410,6 +617,7 @@ export function resolveAlert(
         resolvedAt: new Date().toISOString(),
         resolvedBy,
     };
+    updateAlert(alert);
 
     logSecurityEvent({
         type: 'alert_resolved',
@@ -435,7 +643,7 @@ export function getSecurityStats(): {
     bySeverity: Record<AlertSeverity, number>;
     byType: Record<AnomalyType, number>;
 } {
-    const alerts = Array.from(alertStore.values());
+    const alerts = findAllAlerts();
 
     const bySeverity: Record<AlertSeverity, number> = {
         low: 0,
@@ -471,9 +679,6 @@ export function getSecurityStats(): {
  * Clear all security data (testing)
  */
 export function clearSecurityData(): void {
-    alertStore.clear();
-    deliveryAlerts.clear();
-    driverHistory.clear();
-    expectedRoutes.clear();
+    clearSecurityTables();
     logger.info('Security data cleared');
 }
@@ -0,0 +1,208 @@
+import h3 from 'h3-js';
+import type { AlertSeverity, H3Index, VehicleType } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+import { getTimePolicy, getWidestTimePolicy, type TimeObfuscationPolicy } from '../location-obfuscation/temporal.js';
+import type { StoredLocationHistoryEntry } from '../../database/repositories/security.repository.js';
+
+/**
+ * Speed Anomaly Detection
+ *
+ * Drivers only report H3 zones and coarsened times, so the speed between two
+ * fixes is a range: each true position can be up to a cell's radius from its
+ * centroid, and each time off by its own policy's bucket, jitter and dwell
+ * (the widest policy when the entry does not say). Over-speeding is
+ * judged on the low end of the range and crawling on the high end, so the
+ * driver always gets the benefit of the doubt.
+ *
+ * - Impossible jump: one step faster than any road vehicle
+ * - Over-speeding: above the vehicle's limit across a sustained window
+ * - Crawling: below the minimum moving speed across a window of highway zones
+ *
+ * Windows are judged as they end on each update; an anomaly is reported when
+ * its window first qualifies, not again while it keeps qualifying.
+ */
+
+export interface SpeedLimits {
+    minSpeedKmh: number;
+    maxSpeedKmh: number;
+}
+
+export interface SpeedRange {
+    distanceMeters: number;     // Between zone centres
+    minKmh: number;
+    maxKmh: number;             // Infinity when the times are too close to tell
+}
+
+export interface SpeedAnomaly {
+    severity: AlertSeverity;
+    zoneId: H3Index;
+    description: string;
+}
+
+// Overridable with SPEED_LIMITS_KMH (validated in config)
+const DEFAULT_SPEED_LIMITS: Record<VehicleType, SpeedLimits> = {
+    motorcycle: { minSpeedKmh: 5, maxSpeedKmh: 100 },
+    tuk_tuk: { minSpeedKmh: 5, maxSpeedKmh: 60 },
+    car: { minSpeedKmh: 5, maxSpeedKmh: 120 },
+    van: { minSpeedKmh: 5, maxSpeedKmh: 110 },
+    pickup: { minSpeedKmh: 5, maxSpeedKmh: 110 },
+    truck: { minSpeedKmh: 5, maxSpeedKmh: 90 },
+};
+
+export const SPEED_DETECTION = {
+    impossibleSpeedKmh: 250,
+    overSpeedWindowMinutes: 10,     // Long enough for the time margin to matter little
+    crawlWindowMinutes: 20,
+    maxGapMinutes: 10,          // Windows with longer gaps between fixes are not judged
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const speedLimits: Record<VehicleType, SpeedLimits> = { ...DEFAULT_SPEED_LIMITS, ...config.speedLimitsKmh };
+
+export function getSpeedLimits(vehicleType: VehicleType): SpeedLimits {
+    return speedLimits[vehicleType];
+}
+
+function timePolicyOf(entry: StoredLocationHistoryEntry): TimeObfuscationPolicy {
+    return entry.timeUseCase ? getTimePolicy(entry.timeUseCase) : getWidestTimePolicy();
+}
+
+/**
+ * Most a reported time can run behind the true one (floored to a bucket after
+ * jitter, then held for the dwell gap) and ahead of it (jitter), in seconds
+ */
+function timeErrorSeconds(policy: TimeObfuscationPolicy): { behind: number; ahead: number } {
+    return {
+        behind: policy.bucketSeconds + policy.jitterSeconds + policy.minDwellSeconds,
+        ahead: policy.jitterSeconds,
+    };
+}
+
+/**
+ * Speed range between two fixes
+ */
+export function estimateSpeed(from: StoredLocationHistoryEntry, to: StoredLocationHistoryEntry): SpeedRange {
+    const [latitude1, longitude1] = h3.cellToLatLng(from.zoneId);
+    const [latitude2, longitude2] = h3.cellToLatLng(to.zoneId);
+    const distanceMeters = calculateDistance(
+        { latitude: latitude1, longitude: longitude1 },
+        { latitude: latitude2, longitude: longitude2 }
+    );
+
+    const positionMargin = h3.getHexagonEdgeLengthAvg(h3.getResolution(from.zoneId), h3.UNITS.m) +
+        h3.getHexagonEdgeLengthAvg(h3.getResolution(to.zoneId), h3.UNITS.m);
+    const fromError = timeErrorSeconds(timePolicyOf(from));
+    const toError = timeErrorSeconds(timePolicyOf(to));
+    const timeMarginSeconds = Math.max(fromError.behind + toError.ahead, toError.behind + fromError.ahead);
+    const seconds = Math.abs(to.timestamp.getTime() - from.timestamp.getTime()) / 1000;
+
+    const toKmh = (meters: number, s: number) => (meters / 1000) / (s / 3600);
+
+    return {
+        distanceMeters,
+        minKmh: toKmh(Math.max(0, distanceMeters - positionMargin), seconds + timeMarginSeconds),
+        maxKmh: seconds > timeMarginSeconds
+            ? toKmh(distanceMeters + positionMargin, seconds - timeMarginSeconds)
+            : Infinity,
+    };
+}
+
+/**
+ * Index of the latest fix at least `minutes` before history[end], provided no
+ * gap in between exceeds maxGapMinutes
+ */
+function windowStart(history: StoredLocationHistoryEntry[], end: number, minutes: number): number | null {
+    const endTime = history[end]?.timestamp.getTime() ?? 0;
+
+    for (let i = end - 1; i >= 0; i--) {
+        const entry = history[i];
+        const next = history[i + 1];
+        if (!entry || !next) return null;
+        if (next.timestamp.getTime() - entry.timestamp.getTime() > SPEED_DETECTION.maxGapMinutes * MINUTE_MS) {
+            return null;
+        }
+        if (endTime - entry.timestamp.getTime() >= minutes * MINUTE_MS) {
+            return i;
+        }
+    }
+    return null;
+}
+
+function overSpeedAt(history: StoredLocationHistoryEntry[], end: number, limits: SpeedLimits): SpeedRange | null {
+    const start = windowStart(history, end, SPEED_DETECTION.overSpeedWindowMinutes);
+    const from = start !== null ? history[start] : undefined;
+    const to = history[end];
+    if (!from || !to) return null;
+
+    const speed = estimateSpeed(from, to);
+    return speed.minKmh > limits.maxSpeedKmh ? speed : null;
+}
+
+function crawlingAt(
+    history: StoredLocationHistoryEntry[],
+    end: number,
+    limits: SpeedLimits,
+    isHighwayZone: (zoneId: H3Index) => boolean
+): SpeedRange | null {
+    const start = windowStart(history, end, SPEED_DETECTION.crawlWindowMinutes);
+    const from = start !== null ? history[start] : undefined;
+    const to = history[end];
+    if (start === null || !from || !to) return null;
+
+    const window = history.slice(start, end + 1);
+    if (!window.every(entry => entry.isMoving && isHighwayZone(entry.zoneId))) return null;
+
+    const speed = estimateSpeed(from, to);
+    return speed.maxKmh < limits.minSpeedKmh ? speed : null;
+}
+
+/**
+ * Judge the newest fix in a driver's zone history (oldest first)
+ */
+export function detectSpeedAnomaly(
+    zoneHistory: StoredLocationHistoryEntry[],
+    limits: SpeedLimits,
+    isHighwayZone: (zoneId: H3Index) => boolean
+): SpeedAnomaly | null {
+    const history = zoneHistory.filter(entry => h3.isValidCell(entry.zoneId));
+    const end = history.length - 1;
+    const last = history[end];
+    const previous = history[end - 1];
+    if (!last || !previous) {
+        return null;
+    }
+
+    const step = estimateSpeed(previous, last);
+    if (step.minKmh > SPEED_DETECTION.impossibleSpeedKmh) {
+        return {
+            severity: 'high',
+            zoneId: last.zoneId,
+            description: `Impossible jump of ${(step.distanceMeters / 1000).toFixed(1)} km between updates ` +
+                `(at least ${Math.round(step.minKmh)} km/h). Possible location spoofing.`,
+        };
+    }
+
+    const overSpeed = overSpeedAt(history, end, limits);
+    if (overSpeed && !overSpeedAt(history, end - 1, limits)) {
+        return {
+            severity: 'medium',
+            zoneId: last.zoneId,
+            description: `Sustained speed of at least ${Math.round(overSpeed.minKmh)} km/h ` +
+                `over ${SPEED_DETECTION.overSpeedWindowMinutes}+ minutes (limit ${limits.maxSpeedKmh} km/h).`,
+        };
+    }
+
+    const crawling = crawlingAt(history, end, limits, isHighwayZone);
+    if (crawling && !crawlingAt(history, end - 1, limits, isHighwayZone)) {
+        return {
+            severity: 'low',
+            zoneId: last.zoneId,
+            description: `Moving at under ${limits.minSpeedKmh} km/h on a highway ` +
+                `for ${SPEED_DETECTION.crawlWindowMinutes}+ minutes.`,
+        };
+    }
+
+    return null;
+}
@@ -0,0 +1,184 @@
+import type {
+    AlertSeverity,
+    AnomalyType,
+    ObfuscatedLocation,
+    SecurityAlert,
+    UUID
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { obfuscateLocation } from '../location-obfuscation/obfuscator.js';
+import { privacyZoneOwners } from '../location-obfuscation/privacy-zones.js';
+import { classifyMovement, MOVEMENT } from '../location-obfuscation/movement.js';
+import { processLocationUpdate, createReplayState } from './monitor.js';
+import { parseTrace, InvalidTraceError, type TraceFix, type TraceFormat } from './trace-parsers.js';
+
+/**
+ * Bulk Trace Ingestion
+ *
+ * Replays a whole trip trace from a telematics partner through the same
+ * pipeline as live updates: each fix is obfuscated, then fed to the monitor
+ * in time order. Movement is classified from the trace itself rather than the
+ * live per-driver window, route progress is kept in a replay state rather
+ * than on the delivery, and detectors judge each fix against the history up
+ * to its own time, so a replayed trip cannot disturb live tracking. Alerts
+ * are dated at the fix that raised them.
+ *
+ * Traces may go back as far as the location retention window; older ones
+ * are rejected as a whole rather than replayed in part, since the retention
+ * job would purge their history straight away.
+ */
+
+export const MAX_TRACE_FIXES = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TraceIngestionRequest {
+    deliveryId: UUID;
+    driverId: UUID;
+    vehicleId?: UUID;
+    format: TraceFormat;
+    data: string | object;
+    resolution?: number;
+}
+
+export interface TraceIngestionSummary {
+    fixesParsed: number;
+    fixesSkipped: number;
+    updatesProcessed: number;
+    window: { from: string; to: string } | null;
+    // Fix times accepted; later fixes are skipped, earlier ones reject the trace
+    acceptedWindow: { from: string; to: string };
+    alertsGenerated: number;
+    alertsByType: Partial<Record<AnomalyType, number>>;
+    alertsBySeverity: Partial<Record<AlertSeverity, number>>;
+    alerts: Array<{
+        id: string;
+        anomalyType: AnomalyType;
+        severity: AlertSeverity;
+        zoneId: string;
+        detectedAt: string;
+        description: string;
+    }>;
+}
+
+/**
+ * Movement state at each fix, from the earliest fix in the window before it
+ */
+function movementStates(fixes: TraceFix[]): ObfuscatedLocation['movementState'][] {
+    const states: ObfuscatedLocation['movementState'][] = [];
+    let windowStart = 0;
+    let previous: ObfuscatedLocation['movementState'] = 'unknown';
+
+    fixes.forEach((fix, index) => {
+        const now = fix.timestamp.getTime();
+        while (windowStart < index && now - (fixes[windowStart]?.timestamp.getTime() ?? now) > MOVEMENT.maxFixAgeSeconds * 1000) {
+            windowStart++;
+        }
+
+        const first = fixes[windowStart];
+        if (first && now - first.timestamp.getTime() >= MOVEMENT.minWindowSeconds * 1000) {
+            previous = classifyMovement(
+                { coords: first.coords, timestamp: first.timestamp.getTime() },
+                { coords: fix.coords, timestamp: now }
+            );
+            windowStart = index;
+        }
+        states.push(previous);
+    });
+
+    return states;
+}
+
+function countBy<K extends string>(alerts: SecurityAlert[], key: (alert: SecurityAlert) => K): Partial<Record<K, number>> {
+    const counts: Partial<Record<K, number>> = {};
+    for (const alert of alerts) {
+        const value = key(alert);
+        counts[value] = (counts[value] ?? 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * Parse, obfuscate and replay a trace
+ * Throws InvalidTraceError when the trace cannot be parsed, is larger than
+ * MAX_TRACE_FIXES or has fixes older than the retention window
+ */
+export function ingestTrace(request: TraceIngestionRequest, now: Date = new Date()): TraceIngestionSummary {
+    const parsed = parseTrace(request.format, request.data);
+    if (parsed.length > MAX_TRACE_FIXES) {
+        throw new InvalidTraceError(`Trace has more than ${MAX_TRACE_FIXES} fixes`);
+    }
+
+    const earliest = now.getTime() - config.retentionDaysLocation * DAY_MS;
+    if (parsed.some(fix => fix.timestamp.getTime() < earliest)) {
+        throw new InvalidTraceError(
+            `Trace has fixes older than ${config.retentionDaysLocation} days, the location retention window`
+        );
+    }
+
+    // Future fixes are bogus
+    const fixes = parsed
+        .filter(fix => fix.timestamp.getTime() <= now.getTime())
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const states = movementStates(fixes);
+    const zoneOwners = privacyZoneOwners(request.driverId, request.deliveryId);
+    const replay = createReplayState();
+    const alerts: SecurityAlert[] = [];
+    let updatesProcessed = 0;
+    let last: ObfuscatedLocation | null = null;
+
+    fixes.forEach((fix, index) => {
+        const location: ObfuscatedLocation = {
+            ...obfuscateLocation(fix.coords, request.resolution, {
+                useCase: 'security_monitoring',
+                timestamp: fix.timestamp,
+                privacyZoneOwners: zoneOwners,
+            }),
+            movementState: states[index] ?? 'unknown',
+        };
+
+        // Dense traces repeat the same zone within a time bucket; one update is enough
+        if (last && last.zoneId === location.zoneId && last.approximateTime === location.approximateTime
+            && last.movementState === location.movementState) {
+            return;
+        }
+        last = location;
+
+        alerts.push(...processLocationUpdate(request.deliveryId, request.driverId, location, request.vehicleId, replay));
+        updatesProcessed++;
+    });
+
+    const firstFix = fixes[0];
+    const lastFix = fixes[fixes.length - 1];
+
+    logger.info('Location trace ingested', {
+        deliveryId: request.deliveryId,
+        format: request.format,
+        fixes: fixes.length,
+        updatesProcessed,
+        alerts: alerts.length,
+    });
+
+    return {
+        fixesParsed: parsed.length,
+        fixesSkipped: parsed.length - fixes.length,
+        updatesProcessed,
+        window: firstFix && lastFix
+            ? { from: firstFix.timestamp.toISOString(), to: lastFix.timestamp.toISOString() }
+            : null,
+        acceptedWindow: { from: new Date(earliest).toISOString(), to: now.toISOString() },
+        alertsGenerated: alerts.length,
+        alertsByType: countBy(alerts, alert => alert.anomalyType),
+        alertsBySeverity: countBy(alerts, alert => alert.severity),
+        alerts: alerts.map(alert => ({
+            id: alert.id,
+            anomalyType: alert.anomalyType,
+            severity: alert.severity,
+            zoneId: alert.zoneId,
+            detectedAt: alert.detectedAt,
+            description: alert.description,
+        })),
+    };
+}
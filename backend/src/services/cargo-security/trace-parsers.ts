@@ -0,0 +1,207 @@
+import type { RawCoordinates } from '../../types/index.js';
+
+/**
+ * GPS Trace Parsers
+ * GPX tracks, NMEA 0183 (RMC/GGA) and GeoJSON LineStrings into timestamped fixes.
+ * Points without a usable time are dropped, since fixes must be replayed in order.
+ */
+
+export type TraceFormat = 'gpx' | 'nmea' | 'geojson';
+
+/**
+ * A trace that cannot be accepted as sent; safe to report to the uploader
+ */
+export class InvalidTraceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidTraceError';
+    }
+}
+
+export interface TraceFix {
+    coords: RawCoordinates;
+    timestamp: Date;
+}
+
+function isValidCoordinate(latitude: number, longitude: number): boolean {
+    return Number.isFinite(latitude) && Number.isFinite(longitude)
+        && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+function toFix(latitude: number, longitude: number, time: string | number | undefined): TraceFix | null {
+    if (time === undefined || !isValidCoordinate(latitude, longitude)) return null;
+    const timestamp = new Date(time);
+    return Number.isNaN(timestamp.getTime()) ? null : { coords: { latitude, longitude }, timestamp };
+}
+
+// GPX
+
+function attribute(attributes: string, name: string): number {
+    const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`).exec(attributes);
+    return match?.[1] !== undefined ? Number(match[1]) : NaN;
+}
+
+export function parseGpx(document: string): TraceFix[] {
+    if (!/<gpx[\s>]/.test(document)) {
+        throw new InvalidTraceError('Not a GPX document');
+    }
+
+    const fixes: TraceFix[] = [];
+    for (const match of document.matchAll(/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g)) {
+        const attributes = match[1] ?? '';
+        const time = /<time>\s*([^<]+?)\s*<\/time>/.exec(match[2] ?? '')?.[1];
+        const fix = toFix(attribute(attributes, 'lat'), attribute(attributes, 'lon'), time);
+        if (fix) fixes.push(fix);
+    }
+    return fixes;
+}
+
+// NMEA 0183
+
+function hasValidChecksum(sentence: string): boolean {
+    const star = sentence.lastIndexOf('*');
+    if (star === -1) return true; // Checksum is optional
+
+    let checksum = 0;
+    for (let i = 1; i < star; i++) {
+        checksum ^= sentence.charCodeAt(i);
+    }
+    return checksum === parseInt(sentence.slice(star + 1, star + 3), 16);
+}
+
+/**
+ * ddmm.mmmm / dddmm.mmmm with hemisphere to decimal degrees
+ */
+function nmeaDegrees(value: string | undefined, hemisphere: string | undefined, degreeDigits: number): number {
+    if (!value || !hemisphere) return NaN;
+    const degrees = Number(value.slice(0, degreeDigits));
+    const minutes = Number(value.slice(degreeDigits));
+    const decimal = degrees + minutes / 60;
+    return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+}
+
+/**
+ * hhmmss.ss on ddmmyy (UTC) to ISO-8601
+ */
+function nmeaTime(time: string | undefined, date: string | undefined): string | undefined {
+    if (!time || time.length < 6 || !date || date.length !== 6) return undefined;
+    const [dd, mm, yy] = [date.slice(0, 2), date.slice(2, 4), date.slice(4, 6)];
+    const seconds = time.slice(4);
+    return `20${yy}-${mm}-${dd}T${time.slice(0, 2)}:${time.slice(2, 4)}:${seconds.padStart(2, '0')}Z`;
+}
+
+/**
+ * RMC carries date and time; GGA only time, so it uses the date of the latest RMC
+ */
+export function parseNmea(log: string): TraceFix[] {
+    const fixes: TraceFix[] = [];
+    let currentDate: string | undefined;
+
+    for (const line of log.split(/\r?\n/)) {
+        const sentence = line.trim();
+        if (!sentence.startsWith('$') || !hasValidChecksum(sentence)) continue;
+
+        const fields = sentence.split('*')[0]?.split(',') ?? [];
+        const type = fields[0]?.slice(3);
+
+        if (type === 'RMC') {
+            currentDate = fields[9];
+            if (fields[2] !== 'A') continue; // Void fix
+            const fix = toFix(
+                nmeaDegrees(fields[3], fields[4], 2),
+                nmeaDegrees(fields[5], fields[6], 3),
+                nmeaTime(fields[1], fields[9])
+            );
+            if (fix) fixes.push(fix);
+        } else if (type === 'GGA') {
+            if (fields[6] === '0') continue; // No fix
+            const fix = toFix(
+                nmeaDegrees(fields[2], fields[3], 2),
+                nmeaDegrees(fields[4], fields[5], 3),
+                nmeaTime(fields[1], currentDate)
+            );
+            if (fix) fixes.push(fix);
+        }
+    }
+
+    // RMC and GGA usually report the same instant; keep one fix per timestamp
+    const seen = new Set<number>();
+    return fixes.filter(fix => {
+        const key = fix.timestamp.getTime();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// GeoJSON
+
+interface GeoJsonObject {
+    type?: string;
+    geometry?: GeoJsonObject | null;
+    features?: GeoJsonObject[];
+    coordinates?: unknown;
+    properties?: {
+        coordTimes?: unknown;
+        coordinateProperties?: { times?: unknown };
+    } | null;
+}
+
+function lineStringFixes(geometry: GeoJsonObject, times: unknown): TraceFix[] {
+    if (geometry.type !== 'LineString' || !Array.isArray(geometry.coordinates)) return [];
+    const coordinates = geometry.coordinates as unknown[];
+    const timeList = Array.isArray(times) ? times as unknown[] : [];
+
+    const fixes: TraceFix[] = [];
+    coordinates.forEach((position, index) => {
+        if (!Array.isArray(position)) return;
+        const [longitude, latitude] = position as unknown[];
+        const time = timeList[index];
+        const fix = toFix(
+            Number(latitude),
+            Number(longitude),
+            typeof time === 'string' || typeof time === 'number' ? time : undefined
+        );
+        if (fix) fixes.push(fix);
+    });
+    return fixes;
+}
+
+/**
+ * LineString features (or a collection of them) with per-point times in
+ * `properties.coordTimes` or `properties.coordinateProperties.times`
+ */
+export function parseGeoJson(input: string | object): TraceFix[] {
+    let root: GeoJsonObject;
+    try {
+        root = (typeof input === 'string' ? JSON.parse(input) : input) as GeoJsonObject;
+    } catch {
+        throw new InvalidTraceError('GeoJSON trace is not valid JSON');
+    }
+
+    const features = root?.type === 'FeatureCollection' ? root.features ?? []
+        : root?.type === 'Feature' ? [root]
+        : [];
+
+    if (features.length === 0) {
+        throw new InvalidTraceError('GeoJSON must be a Feature or FeatureCollection with LineString geometry');
+    }
+
+    return features.flatMap(feature => feature.geometry
+        ? lineStringFixes(
+            feature.geometry,
+            feature.properties?.coordTimes ?? feature.properties?.coordinateProperties?.times
+        )
+        : []);
+}
+
+export function parseTrace(format: TraceFormat, data: string | object): TraceFix[] {
+    switch (format) {
+        case 'gpx':
+            return parseGpx(String(data));
+        case 'nmea':
+            return parseNmea(String(data));
+        case 'geojson':
+            return parseGeoJson(data);
+    }
+}
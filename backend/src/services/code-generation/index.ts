@@ -2,9 +2,13 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { generateDeliveryCode } from './generator.js';
 import { uuidSchema, formatValidationError } from '../../utils/validators.js';
+import { requireKnownDelivery } from '../../middleware/delivery.middleware.js';
 
 const router = Router();
 
+// Reject requests for deliveries that do not exist
+router.use(requireKnownDelivery);
+
 router.post('/generate', (req, res) => {
     const schema = z.object({
         deliveryId: uuidSchema,
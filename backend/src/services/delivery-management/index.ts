@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { coordinatesSchema, uuidSchema, formatValidationError } from '../../utils/validators.js';
+import { requireAuth, requirePermission } from '../../middleware/auth.middleware.js';
+import { trackingLimiter } from '../../middleware/rate-limiter.middleware.js';
+import {
+    createDelivery,
+    getDelivery,
+    listDeliveries,
+    getDeliveryTimeline,
+    getAllowedTransitions,
+    canAccessDelivery,
+    assignDelivery,
+    transitionDelivery,
+    type TransitionError,
+} from './lifecycle.js';
+import { getPublicTracking } from './tracking.js';
+
+/**
+ * Delivery Management - API Routes
+ */
+
+const router = Router();
+const trackingRouter = Router();
+
+const DELIVERY_STATUSES = [
+    'created',
+    'picked_up',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'failed',
+    'returned',
+] as const;
+
+const TRANSITION_ERROR_STATUS: Record<TransitionError, number> = {
+    not_found: 404,
+    invalid_transition: 409,
+    not_verified: 409,
+    driver_required: 409,
+    conflict: 409,
+};
+
+const partySchema = z.object({
+    name: z.string().min(1).max(100),
+    phone: z.string().min(7).max(20),
+    address: z.string().min(1).max(300),
+    location: coordinatesSchema.optional(),
+});
+
+const parcelSchema = z.object({
+    description: z.string().min(1).max(200),
+    weightKg: z.number().positive().max(1000),
+    lengthCm: z.number().positive().max(500).optional(),
+    widthCm: z.number().positive().max(500).optional(),
+    heightCm: z.number().positive().max(500).optional(),
+    declaredValueKes: z.number().nonnegative().optional(),
+    fragile: z.boolean().optional(),
+});
+
+/**
+ * POST /api/deliveries
+ */
+router.post('/', requirePermission('write:delivery_assignment'), (req, res) => {
+    const schema = z.object({
+        senderId: uuidSchema,
+        recipientId: uuidSchema,
+        sender: partySchema,
+        recipient: partySchema,
+        parcel: parcelSchema,
+        driverId: uuidSchema.optional(),
+        vehicleId: uuidSchema.optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const delivery = createDelivery(result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    res.status(201).json({ success: true, data: delivery });
+});
+
+/**
+ * GET /api/deliveries
+ */
+router.get('/', requirePermission('read:all_delivery'), (req, res) => {
+    const schema = z.object({
+        status: z.enum(DELIVERY_STATUSES).optional(),
+        driverId: uuidSchema.optional(),
+    });
+
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    res.json({ success: true, data: { deliveries: listDeliveries(result.data) } });
+});
+
+/**
+ * GET /api/deliveries/:deliveryId
+ */
+router.get('/:deliveryId', requireAuth, (req, res) => {
+    const delivery = getDelivery(req.params['deliveryId'] ?? '');
+    if (!delivery) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery not found' } });
+        return;
+    }
+
+    if (!req.user || !canAccessDelivery(delivery, req.user)) {
+        res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Not your delivery' } });
+        return;
+    }
+
+    res.json({
+        success: true,
+        data: { ...delivery, allowedTransitions: getAllowedTransitions(delivery.status) },
+    });
+});
+
+/**
+ * GET /api/deliveries/:deliveryId/timeline
+ */
+router.get('/:deliveryId/timeline', requireAuth, (req, res) => {
+    const delivery = getDelivery(req.params['deliveryId'] ?? '');
+    if (!delivery) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery not found' } });
+        return;
+    }
+
+    if (!req.user || !canAccessDelivery(delivery, req.user)) {
+        res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Not your delivery' } });
+        return;
+    }
+
+    res.json({ success: true, data: { events: getDeliveryTimeline(delivery.id) } });
+});
+
+/**
+ * PUT /api/deliveries/:deliveryId/assignment
+ * Assign or clear driver and vehicle before pickup
+ */
+router.put('/:deliveryId/assignment', requirePermission('write:delivery_assignment'), (req, res) => {
+    const schema = z.object({
+        driverId: uuidSchema.nullable(),
+        vehicleId: uuidSchema.nullable().optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const delivery = assignDelivery(
+        req.params['deliveryId'] ?? '',
+        result.data.driverId,
+        result.data.vehicleId ?? null,
+        { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' }
+    );
+    if (!delivery) {
+        res.status(409).json({
+            success: false,
+            error: { code: 'ASSIGNMENT_LOCKED', message: 'Delivery not found or already picked up' },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: delivery });
+});
+
+/**
+ * POST /api/deliveries/:deliveryId/transitions
+ * Move the delivery to its next status; drivers only for deliveries assigned to them
+ */
+router.post('/:deliveryId/transitions', requirePermission('write:delivery_status'), (req, res) => {
+    const schema = z.object({
+        status: z.enum(DELIVERY_STATUSES),
+        reason: z.string().max(500).optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const deliveryId = req.params['deliveryId'] ?? '';
+    if (req.user?.role === 'driver' && getDelivery(deliveryId)?.driverId !== req.user.id) {
+        res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Not assigned to this delivery' } });
+        return;
+    }
+
+    const transition = transitionDelivery(
+        deliveryId,
+        result.data.status,
+        { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' },
+        result.data.reason
+    );
+    if (!transition.ok) {
+        res.status(TRANSITION_ERROR_STATUS[transition.error]).json({
+            success: false,
+            error: { code: transition.error.toUpperCase(), message: transition.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: transition.delivery });
+});
+
+/**
+ * GET /api/track/:trackingNumber
+ * Public, unauthenticated: status, county-level area and ETA only
+ */
+trackingRouter.get('/:trackingNumber', trackingLimiter, (req, res) => {
+    const tracking = getPublicTracking(req.params['trackingNumber'] ?? '');
+    if (!tracking) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Tracking number not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: tracking });
+});
+
+export { router as deliveryRouter, trackingRouter };
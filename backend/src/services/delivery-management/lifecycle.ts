@@ -0,0 +1,279 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    Delivery,
+    DeliveryParty,
+    DeliveryStatus,
+    DeliveryStatusEvent,
+    ParcelDetails,
+    UserRole,
+    UUID
+} from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { encrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import { linkSubject } from '../../crypto/subject-keys.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import { isDeliveryVerified } from '../delivery-verification/verifier.js';
+import { broadcastDeliveryUpdate } from '../realtime-broadcast/broadcaster.js';
+import { describeZone } from '../location-obfuscation/gazetteer.js';
+import { findLatestDeliveryZone } from '../../database/repositories/security.repository.js';
+import { generateTrackingNumber } from './tracking-number.js';
+import {
+    insertDelivery,
+    findDeliveryById,
+    findDeliveries,
+    updateDeliveryStatus,
+    updateDeliveryAssignment,
+    findStatusEvents,
+    type DeliveryFilter,
+    type StoredDelivery,
+} from '../../database/repositories/delivery.repository.js';
+
+/**
+ * Delivery Lifecycle
+ *
+ * created → picked_up → in_transit → out_for_delivery → delivered / failed / returned
+ *
+ * Only the transitions below are allowed. A delivery can only be marked
+ * delivered once its verification is complete, and every transition is
+ * recorded on the timeline, audited and broadcast to the delivery's room.
+ */
+
+interface Actor {
+    id: string;
+    role: UserRole;
+}
+
+interface DeliveryParties {
+    sender: DeliveryParty;
+    recipient: DeliveryParty;
+}
+
+const TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+    created: ['picked_up', 'failed'],
+    picked_up: ['in_transit', 'failed'],
+    in_transit: ['out_for_delivery', 'failed'],
+    out_for_delivery: ['delivered', 'failed', 'returned'],
+    failed: ['returned'],
+    delivered: [],
+    returned: [],
+};
+
+const MAX_LIST_RESULTS = 200;
+
+export type TransitionError = 'not_found' | 'invalid_transition' | 'not_verified' | 'driver_required' | 'conflict';
+
+export type TransitionResult =
+    | { ok: true; delivery: Delivery }
+    | { ok: false; error: TransitionError; message: string };
+
+export interface NewDelivery {
+    senderId: UUID;
+    recipientId: UUID;
+    sender: DeliveryParty;
+    recipient: DeliveryParty;
+    parcel: ParcelDetails;
+    driverId?: UUID;
+    vehicleId?: UUID;
+}
+
+export function getAllowedTransitions(status: DeliveryStatus): DeliveryStatus[] {
+    return TRANSITIONS[status];
+}
+
+export function isTerminalStatus(status: DeliveryStatus): boolean {
+    return TRANSITIONS[status].length === 0;
+}
+
+function toDelivery(stored: StoredDelivery): Delivery {
+    const result = decryptWithStatus(stored.partiesEncrypted, stored.id);
+    const parties = result.status === 'ok' ? JSON.parse(result.plaintext) as DeliveryParties : null;
+
+    return {
+        id: stored.id,
+        trackingNumber: stored.trackingNumber,
+        senderId: stored.senderId,
+        recipientId: stored.recipientId,
+        sender: parties?.sender ?? null,
+        recipient: parties?.recipient ?? null,
+        parcel: stored.parcel,
+        driverId: stored.driverId,
+        vehicleId: stored.vehicleId,
+        status: stored.status,
+        createdAt: stored.createdAt,
+        updatedAt: stored.updatedAt,
+    };
+}
+
+export function createDelivery(input: NewDelivery, actor: Actor, deliveryId: UUID = uuidv4()): Delivery {
+    // Delivery artefacts belong to the recipient for erasure purposes
+    linkSubject(deliveryId, input.recipientId);
+
+    const now = new Date().toISOString();
+    const parties: DeliveryParties = { sender: input.sender, recipient: input.recipient };
+    const stored: StoredDelivery = {
+        id: deliveryId,
+        trackingNumber: generateTrackingNumber(),
+        senderId: input.senderId,
+        recipientId: input.recipientId,
+        partiesEncrypted: encrypt(JSON.stringify(parties), deliveryId),
+        parcel: input.parcel,
+        driverId: input.driverId,
+        vehicleId: input.vehicleId,
+        status: 'created',
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    insertDelivery(stored, {
+        id: uuidv4(),
+        deliveryId,
+        fromStatus: null,
+        toStatus: 'created',
+        actorId: actor.id,
+        occurredAt: now,
+    });
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'delivery_created',
+        resourceType: 'delivery',
+        resourceId: deliveryId,
+        result: 'success',
+    });
+
+    logger.info('Delivery created', { deliveryId, trackingNumber: stored.trackingNumber });
+    broadcastDeliveryUpdate(deliveryId, 'created');
+
+    return toDelivery(stored);
+}
+
+export function getDelivery(deliveryId: UUID): Delivery | null {
+    const stored = findDeliveryById(deliveryId);
+    return stored ? toDelivery(stored) : null;
+}
+
+export function listDeliveries(filter: DeliveryFilter = {}): Delivery[] {
+    return findDeliveries(filter, MAX_LIST_RESULTS).map(toDelivery);
+}
+
+export function getDeliveryTimeline(deliveryId: UUID): DeliveryStatusEvent[] {
+    return findStatusEvents(deliveryId);
+}
+
+/**
+ * Whether a user may see a delivery: staff always, drivers when assigned,
+ * customers when they sent or receive it
+ */
+export function canAccessDelivery(delivery: Delivery, user: { id: UUID; role: UserRole }): boolean {
+    switch (user.role) {
+        case 'admin':
+        case 'system':
+        case 'dispatcher':
+        case 'security_officer':
+            return true;
+        case 'driver':
+            return delivery.driverId === user.id;
+        case 'customer':
+            return delivery.senderId === user.id || delivery.recipientId === user.id;
+    }
+}
+
+/**
+ * Assign (or clear) the driver and vehicle; only before the parcel is picked up
+ * Returns null if the delivery does not exist or is already under way
+ */
+export function assignDelivery(
+    deliveryId: UUID,
+    driverId: UUID | null,
+    vehicleId: UUID | null,
+    actor: Actor
+): Delivery | null {
+    const stored = findDeliveryById(deliveryId);
+    if (!stored || stored.status !== 'created') {
+        return null;
+    }
+
+    const now = new Date().toISOString();
+    updateDeliveryAssignment(deliveryId, driverId, vehicleId, now);
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'delivery_assigned',
+        resourceType: 'delivery',
+        resourceId: deliveryId,
+        metadata: { driverId, vehicleId },
+        result: 'success',
+    });
+
+    return toDelivery({
+        ...stored,
+        driverId: driverId ?? undefined,
+        vehicleId: vehicleId ?? undefined,
+        updatedAt: now,
+    });
+}
+
+export function transitionDelivery(
+    deliveryId: UUID,
+    toStatus: DeliveryStatus,
+    actor: Actor,
+    reason?: string
+): TransitionResult {
+    const stored = findDeliveryById(deliveryId);
+    if (!stored) {
+        return { ok: false, error: 'not_found', message: 'Delivery not found' };
+    }
+
+    const fromStatus = stored.status;
+    if (!TRANSITIONS[fromStatus].includes(toStatus)) {
+        return {
+            ok: false,
+            error: 'invalid_transition',
+            message: `Cannot move a delivery from ${fromStatus} to ${toStatus}`,
+        };
+    }
+
+    if (toStatus === 'picked_up' && !stored.driverId) {
+        return { ok: false, error: 'driver_required', message: 'Assign a driver before pickup' };
+    }
+
+    if (toStatus === 'delivered' && !isDeliveryVerified(deliveryId)) {
+        return { ok: false, error: 'not_verified', message: 'Delivery verification is not complete' };
+    }
+
+    const event: DeliveryStatusEvent & { fromStatus: DeliveryStatus } = {
+        id: uuidv4(),
+        deliveryId,
+        fromStatus,
+        toStatus,
+        actorId: actor.id,
+        reason,
+        occurredAt: new Date().toISOString(),
+    };
+
+    if (!updateDeliveryStatus(event)) {
+        return { ok: false, error: 'conflict', message: 'Delivery status changed concurrently' };
+    }
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'delivery_status_changed',
+        resourceType: 'delivery',
+        resourceId: deliveryId,
+        metadata: { fromStatus, toStatus, reason },
+        result: 'success',
+    });
+
+    logger.info('Delivery status changed', { deliveryId, fromStatus, toStatus });
+
+    const lastZone = findLatestDeliveryZone(deliveryId);
+    broadcastDeliveryUpdate(deliveryId, toStatus, lastZone ? describeZone(lastZone) : undefined);
+
+    return {
+        ok: true,
+        delivery: toDelivery({ ...stored, status: toStatus, updatedAt: event.occurredAt }),
+    };
+}
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+/**
+ * Tracking Numbers
+ *
+ * Format: KS-XXXXX-XXXXX (prefix + 9 random symbols + 1 check symbol)
+ * The alphabet drops 0/O, 1/I/L so numbers survive being read out over the
+ * phone; the check symbol catches most typos before any database lookup.
+ */
+
+const PREFIX = 'KS';
+const ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const RANDOM_LENGTH = 9;
+
+function checkSymbol(body: string): string {
+    let sum = 0;
+    for (let i = 0; i < body.length; i++) {
+        sum += ALPHABET.indexOf(body.charAt(i)) * (i + 1);
+    }
+    return ALPHABET.charAt(sum % ALPHABET.length);
+}
+
+function format(body: string): string {
+    return `${PREFIX}-${body.slice(0, 5)}-${body.slice(5)}`;
+}
+
+export function generateTrackingNumber(): string {
+    let body = '';
+    for (let i = 0; i < RANDOM_LENGTH; i++) {
+        body += ALPHABET.charAt(crypto.randomInt(ALPHABET.length));
+    }
+    return format(body + checkSymbol(body));
+}
+
+/**
+ * Canonical form of user input (case, spaces and dashes ignored)
+ * Returns null if it is not a well-formed tracking number
+ */
+export function normalizeTrackingNumber(input: string): string | null {
+    const compact = input.toUpperCase().replace(/[\s-]/g, '');
+    if (!compact.startsWith(PREFIX)) return null;
+
+    const body = compact.slice(PREFIX.length);
+    if (body.length !== RANDOM_LENGTH + 1) return null;
+    if ([...body].some(symbol => !ALPHABET.includes(symbol))) return null;
+    if (checkSymbol(body.slice(0, RANDOM_LENGTH)) !== body.slice(RANDOM_LENGTH)) return null;
+
+    return format(body);
+}
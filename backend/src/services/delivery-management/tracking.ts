@@ -0,0 +1,114 @@
+import h3 from 'h3-js';
+import type { DateTimeString, DeliveryStatus, H3Index } from '../../types/index.js';
+import { describeZone } from '../location-obfuscation/gazetteer.js';
+import { normalizeTrackingNumber } from './tracking-number.js';
+import {
+    findDeliveryByTrackingNumber,
+    findStatusEvents,
+} from '../../database/repositories/delivery.repository.js';
+import {
+    findExpectedRoute,
+    findLatestDeliveryZone,
+} from '../../database/repositories/security.repository.js';
+
+/**
+ * Public Tracking
+ *
+ * What anyone holding a tracking number may see: status history, the county
+ * the parcel is in and a rounded ETA. No driver, vehicle, contact details or
+ * anything finer than county level; times are rounded to a 15-minute step.
+ */
+
+const TRACKING = {
+    areaResolution: 6,          // County-level description
+    roundingMinutes: 15,
+};
+
+// Statuses during which the parcel is with a driver
+const EN_ROUTE: DeliveryStatus[] = ['picked_up', 'in_transit', 'out_for_delivery'];
+
+export interface PublicTrackingEvent {
+    status: DeliveryStatus;
+    occurredAt: DateTimeString;
+}
+
+export interface PublicTracking {
+    trackingNumber: string;
+    status: DeliveryStatus;
+    currentArea: string | null;
+    estimatedDelivery: DateTimeString | null;
+    timeline: PublicTrackingEvent[];
+}
+
+function coarseArea(zoneId: H3Index): string {
+    const resolution = h3.getResolution(zoneId);
+    const area = resolution > TRACKING.areaResolution
+        ? h3.cellToParent(zoneId, TRACKING.areaResolution)
+        : zoneId;
+    return describeZone(area);
+}
+
+/**
+ * Remaining share of the expected route, from where the parcel was last seen
+ */
+function remainingRouteFraction(routeZones: H3Index[], lastZone: H3Index | null): number | null {
+    if (!lastZone || routeZones.length < 2) return null;
+
+    const routeResolution = h3.getResolution(routeZones[0] ?? '');
+    if (h3.getResolution(lastZone) < routeResolution) return null;
+
+    const index = routeZones.indexOf(h3.cellToParent(lastZone, routeResolution));
+    return index === -1 ? null : (routeZones.length - 1 - index) / (routeZones.length - 1);
+}
+
+function estimateDelivery(
+    deliveryId: string,
+    pickedUpAt: DateTimeString | undefined,
+    lastZone: H3Index | null,
+    now: Date
+): DateTimeString | null {
+    const route = findExpectedRoute(deliveryId);
+    if (!route || !pickedUpAt) return null;
+
+    const durationMs = route.estimatedDuration * 60 * 1000;
+    const fraction = remainingRouteFraction(route.zoneSequence, lastZone);
+    const eta = fraction !== null
+        ? now.getTime() + fraction * durationMs
+        : Math.max(new Date(pickedUpAt).getTime() + durationMs, now.getTime());
+
+    // Rounded up so the ETA does not reveal progress to the minute
+    const step = TRACKING.roundingMinutes * 60 * 1000;
+    return new Date(Math.ceil(eta / step) * step).toISOString();
+}
+
+/**
+ * Rounded down so the timeline does not reveal when the recipient took delivery
+ */
+function roundEventTime(occurredAt: DateTimeString): DateTimeString {
+    const step = TRACKING.roundingMinutes * 60 * 1000;
+    return new Date(Math.floor(new Date(occurredAt).getTime() / step) * step).toISOString();
+}
+
+/**
+ * Returns null for malformed or unknown tracking numbers alike
+ */
+export function getPublicTracking(trackingNumber: string, now: Date = new Date()): PublicTracking | null {
+    const normalized = normalizeTrackingNumber(trackingNumber);
+    if (!normalized) return null;
+
+    const delivery = findDeliveryByTrackingNumber(normalized);
+    if (!delivery) return null;
+
+    const events = findStatusEvents(delivery.id);
+    const enRoute = EN_ROUTE.includes(delivery.status);
+    const lastZone = enRoute ? findLatestDeliveryZone(delivery.id) : null;
+    const pickedUpAt = events.find(event => event.toStatus === 'picked_up')?.occurredAt;
+
+    return {
+        trackingNumber: normalized,
+        status: delivery.status,
+        currentArea: lastZone ? coarseArea(lastZone) : null,
+        estimatedDelivery: enRoute ? estimateDelivery(delivery.id, pickedUpAt, lastZone, now) : null,
+        timeline: events.map(event => ({ status: event.toStatus, occurredAt: roundEventTime(event.occurredAt) })),
+    };
+}
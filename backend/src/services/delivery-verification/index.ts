@@ -7,6 +7,9 @@ import {
     storeDeliveryPhoto,
     storeSignature,
     verifyGeofence,
+    setDeliveryGeofence,
+    getDeliveryGeofence,
+    removeDeliveryGeofence,
     initializeVerification,
     getVerificationStatus,
     getPendingMethods,
@@ -14,6 +17,8 @@ import {
 } from './verifier.js';
 import { logger, createRequestLogger } from '../../utils/logger.js';
 import { uuidSchema, coordinatesSchema, formatValidationError } from '../../utils/validators.js';
+import { requirePermission } from '../../middleware/auth.middleware.js';
+import { requireKnownDelivery, requireKnownDeliveryParam } from '../../middleware/delivery.middleware.js';
 
 /**
  * Delivery Verification Service - API Routes
@@ -21,6 +26,10 @@ import { uuidSchema, coordinatesSchema, formatValidationError } from '../../util
 
 const router = Router();
 
+// Reject requests for deliveries that do not exist
+router.use(requireKnownDelivery);
+router.param('deliveryId', requireKnownDeliveryParam);
+
 /**
  * POST /api/verification/initialize
  * Initialize verification requirements for a delivery
@@ -358,7 +367,7 @@ router.post('/signature', (req, res) => {
 
 /**
  * POST /api/verification/geofence
- * Verify driver is within delivery geofence
+ * Verify driver is within the delivery's polygon geofence, or a radius around deliveryLocation
  */
 router.post('/geofence', (req, res) => {
     try {
@@ -368,8 +377,9 @@ router.post('/geofence', (req, res) => {
             deliveryLocation: z.object({
                 latitude: z.number().min(-90).max(90),
                 longitude: z.number().min(-180).max(180),
-            }),
+            }).optional(),
             radiusMeters: z.number().int().min(10).max(1000).optional(),
+            accuracyMeters: z.number().min(0).max(10000).optional(),
         });
 
         const result = schema.safeParse(req.body);
@@ -387,8 +397,24 @@ router.post('/geofence', (req, res) => {
             return;
         }
 
-        const { deliveryId, driverLocation, deliveryLocation, radiusMeters } = result.data;
-        const geofenceResult = verifyGeofence(deliveryId, driverLocation, deliveryLocation, radiusMeters);
+        const { deliveryId, driverLocation, deliveryLocation, radiusMeters, accuracyMeters } = result.data;
+        const geofenceResult = verifyGeofence(deliveryId, driverLocation, deliveryLocation, radiusMeters, accuracyMeters);
+
+        if (!geofenceResult) {
+            const response: ApiResponse<null> = {
+                success: false,
+                error: {
+                    code: 'GEOFENCE_NOT_FOUND',
+                    message: 'No geofence set for this delivery and no deliveryLocation given',
+                },
+                meta: {
+                    requestId: req.requestId,
+                    timestamp: new Date().toISOString(),
+                },
+            };
+            res.status(404).json(response);
+            return;
+        }
 
         const response: ApiResponse<typeof geofenceResult> = {
             success: true,
@@ -417,6 +443,120 @@ router.post('/geofence', (req, res) => {
     }
 });
 
+// GeoJSON positions are [longitude, latitude]; rings are closed (first == last)
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+const ringSchema = z.array(positionSchema).min(4).refine(
+    ring => ring[0]?.[0] === ring[ring.length - 1]?.[0] && ring[0]?.[1] === ring[ring.length - 1]?.[1],
+    { message: 'Polygon rings must be closed' }
+);
+const polygonSchema = z.array(ringSchema).min(1);
+const geofenceGeometrySchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('Polygon'), coordinates: polygonSchema }),
+    z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonSchema).min(1) }),
+]);
+
+/**
+ * PUT /api/verification/geofence/:deliveryId
+ * Set the named polygon / multipolygon geofence for a delivery address
+ */
+router.put('/geofence/:deliveryId', requirePermission('write:delivery_assignment'), (req, res) => {
+    const schema = z.object({
+        deliveryId: uuidSchema,
+        name: z.string().min(1).max(100),
+        geometry: geofenceGeometrySchema,
+        bufferMeters: z.number().int().min(0).max(500).optional(),
+    });
+
+    const result = schema.safeParse({ ...req.body, deliveryId: req.params['deliveryId'] });
+
+    if (!result.success) {
+        const response: ApiResponse<null> = {
+            success: false,
+            error: formatValidationError(result.error),
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.status(400).json(response);
+        return;
+    }
+
+    const { deliveryId, name, geometry, bufferMeters } = result.data;
+    const geofence = setDeliveryGeofence(deliveryId, name, geometry, bufferMeters);
+
+    const response: ApiResponse<typeof geofence> = {
+        success: true,
+        data: geofence,
+        meta: {
+            requestId: req.requestId,
+            timestamp: new Date().toISOString(),
+        },
+    };
+    res.json(response);
+});
+
+/**
+ * GET /api/verification/geofence/:deliveryId
+ */
+router.get('/geofence/:deliveryId', requirePermission('read:all_delivery'), (req, res) => {
+    const geofence = getDeliveryGeofence(req.params['deliveryId'] ?? '');
+
+    if (!geofence) {
+        const response: ApiResponse<null> = {
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'No geofence set for this delivery' },
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.status(404).json(response);
+        return;
+    }
+
+    const response: ApiResponse<typeof geofence> = {
+        success: true,
+        data: geofence,
+        meta: {
+            requestId: req.requestId,
+            timestamp: new Date().toISOString(),
+        },
+    };
+    res.json(response);
+});
+
+/**
+ * DELETE /api/verification/geofence/:deliveryId
+ * Remove the polygon geofence; verification falls back to radius mode
+ */
+router.delete('/geofence/:deliveryId', requirePermission('write:delivery_assignment'), (req, res) => {
+    const deleted = removeDeliveryGeofence(req.params['deliveryId'] ?? '');
+
+    if (!deleted) {
+        const response: ApiResponse<null> = {
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'No geofence set for this delivery' },
+            meta: {
+                requestId: req.requestId,
+                timestamp: new Date().toISOString(),
+            },
+        };
+        res.status(404).json(response);
+        return;
+    }
+
+    const response: ApiResponse<{ deleted: boolean }> = {
+        success: true,
+        data: { deleted: true },
+        meta: {
+            requestId: req.requestId,
+            timestamp: new Date().toISOString(),
+        },
+    };
+    res.json(response);
+});
+
 /**
  * GET /api/verification/status/:deliveryId
  * Get verification status for a delivery
@@ -6,14 +6,34 @@ import type {
     DeliverySignature,
     DeliveryVerification,
     VerificationMethod,
+    DeliveryGeofence,
+    GeofenceGeometry,
     UUID,
     RawCoordinates
 } from '../../types/index.js';
 import { config } from '../../config/index.js';
 import { logger, logSecurityEvent } from '../../utils/logger.js';
-import { encrypt, decrypt } from '../../crypto/encryption.js';
+import { encrypt, decrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import { linkSubject } from '../../crypto/subject-keys.js';
 import { sha256, hmacSha256 } from '../../crypto/hashing.js';
-import { calculateDistance } from '../../utils/geo-utils.js';
+import { calculateDistance, signedDistanceToGeometry } from '../../utils/geo-utils.js';
+import {
+    saveDeliverySecret,
+    findDeliverySecret,
+    insertOTPRecord,
+    updateOTPRecord,
+    findPendingOTPRecord,
+    insertPhoto,
+    findPhotoById,
+    insertSignature,
+    findSignatureById,
+    saveVerification,
+    findVerificationByDelivery,
+    saveDeliveryGeofence,
+    findDeliveryGeofence,
+    deleteDeliveryGeofence,
+    clearVerificationTables,
+} from '../../database/repositories/verification.repository.js';
 
 /**
  * Multi-Factor Delivery Verification System
@@ -33,27 +53,37 @@ totp.options = {
     window: 1, // Allow 1 step tolerance
 };
 
-// In-memory stores (replace with database)
-const otpStore = new Map<UUID, OTPRecord>();
-const photoStore = new Map<UUID, DeliveryPhoto>();
-const signatureStore = new Map<UUID, DeliverySignature>();
-const verificationStore = new Map<UUID, DeliveryVerification>();
-const deliverySecrets = new Map<UUID, string>(); // Per-delivery TOTP secrets
-
 // Default geofence radius
 const DEFAULT_GEOFENCE_RADIUS = 100; // meters
 
+// Fixes less precise than this cannot prove presence at the address
+const MAX_GPS_ACCURACY_METERS = 100;
+
 /**
  * Generate TOTP secret for a delivery
  */
 export function generateDeliverySecret(deliveryId: UUID): string {
     const secret = authenticator.generateSecret();
-    deliverySecrets.set(deliveryId, secret);
+    saveDeliverySecret(deliveryId, encrypt(secret, deliveryId));
 
     logger.debug('TOTP secret generated', { deliveryId });
     return secret;
 }
 
+/**
+ * Load and decrypt the stored TOTP secret for a delivery
+ * An erased delivery has no usable secret
+ */
+function getDeliverySecret(deliveryId: UUID): string | null {
+    const secretEncrypted = findDeliverySecret(deliveryId);
+    if (!secretEncrypted) {
+        return null;
+    }
+
+    const result = decryptWithStatus(secretEncrypted, deliveryId);
+    return result.status === 'ok' ? result.plaintext : null;
+}
+
 /**
  * Generate OTP for delivery verification
  */
@@ -61,8 +91,11 @@ export function generateOTP(
     deliveryId: UUID,
     recipientId: UUID
 ): { otp: string; expiresAt: string } {
+    // Delivery artefacts belong to the recipient for erasure purposes
+    linkSubject(deliveryId, recipientId);
+
     // Get or create secret for this delivery
-    let secret = deliverySecrets.get(deliveryId);
+    let secret = getDeliverySecret(deliveryId);
     if (!secret) {
         secret = generateDeliverySecret(deliveryId);
     }
@@ -87,7 +120,7 @@ export function generateOTP(
         isVerified: false,
     };
 
-    otpStore.set(record.id, record);
+    insertOTPRecord(record);
 
     logger.info('OTP generated', {
         deliveryId,
@@ -105,7 +138,7 @@ export function verifyOTP(
     deliveryId: UUID,
     providedOTP: string
 ): { isValid: boolean; reason?: string; remainingAttempts?: number } {
-    const secret = deliverySecrets.get(deliveryId);
+    const secret = getDeliverySecret(deliveryId);
 
     if (!secret) {
         logSecurityEvent({
@@ -121,13 +154,7 @@ export function verifyOTP(
     }
 
     // Find OTP record
-    let otpRecord: OTPRecord | undefined;
-    for (const record of otpStore.values()) {
-        if (record.deliveryId === deliveryId && !record.isVerified) {
-            otpRecord = record;
-            break;
-        }
-    }
+    const otpRecord = findPendingOTPRecord(deliveryId);
 
     if (!otpRecord) {
         return { isValid: false, reason: 'no_pending_otp' };
@@ -169,6 +196,7 @@ export function verifyOTP(
     if (isValid) {
         otpRecord.isVerified = true;
         otpRecord.verifiedAt = new Date().toISOString();
+        updateOTPRecord(otpRecord);
 
         logSecurityEvent({
             type: 'otp_verification',
@@ -186,6 +214,8 @@ export function verifyOTP(
         return { isValid: true };
     }
 
+    updateOTPRecord(otpRecord);
+
     logSecurityEvent({
         type: 'otp_verification',
         action: 'verify',
@@ -231,7 +261,7 @@ export function storeDeliveryPhoto(
         zoneId: location ? undefined : undefined, // Would need obfuscation service
     };
 
-    photoStore.set(photo.id, photo);
+    insertPhoto(photo);
 
     logger.info('Delivery photo stored', {
         deliveryId,
@@ -252,15 +282,21 @@ export function getDeliveryPhoto(
     photoId: UUID,
     deliveryId: UUID
 ): { data: Buffer; metadata: DeliveryPhoto['metadata'] } | null {
-    const photo = photoStore.get(photoId);
+    const photo = findPhotoById(photoId);
 
     if (!photo || photo.deliveryId !== deliveryId) {
         return null;
     }
 
     try {
-        const decrypted = decrypt(photo.photoEncrypted, deliveryId);
-        const data = Buffer.from(decrypted, 'base64');
+        const result = decryptWithStatus(photo.photoEncrypted, deliveryId);
+
+        if (result.status === 'erased') {
+            logger.info('Photo belongs to an erased data subject', { photoId });
+            return null;
+        }
+
+        const data = Buffer.from(result.plaintext, 'base64');
 
         return { data, metadata: photo.metadata };
     } catch (error) {
@@ -292,7 +328,7 @@ export function storeSignature(
         signerName: signerName ? encrypt(signerName, deliveryId) : undefined,
     };
 
-    signatureStore.set(signature.id, signature);
+    insertSignature(signature);
 
     logger.info('Digital signature stored', {
         deliveryId,
@@ -312,7 +348,7 @@ export function verifySignatureIntegrity(
     signatureId: UUID,
     deliveryId: UUID
 ): boolean {
-    const signature = signatureStore.get(signatureId);
+    const signature = findSignatureById(signatureId);
 
     if (!signature || signature.deliveryId !== deliveryId) {
         return false;
@@ -328,32 +364,142 @@ export function verifySignatureIntegrity(
     }
 }
 
+/**
+ * Store (or replace) the named polygon geofence for a delivery address
+ * Geometry is encrypted under the delivery's key, like other delivery artefacts
+ */
+export function setDeliveryGeofence(
+    deliveryId: UUID,
+    name: string,
+    geometry: GeofenceGeometry,
+    bufferMeters: number = 0
+): DeliveryGeofence {
+    const now = new Date().toISOString();
+    const createdAt = findDeliveryGeofence(deliveryId)?.createdAt ?? now;
+
+    saveDeliveryGeofence({
+        deliveryId,
+        name,
+        geometryEncrypted: encrypt(JSON.stringify(geometry), deliveryId),
+        bufferMeters,
+        createdAt,
+        updatedAt: now,
+    });
+
+    logger.info('Delivery geofence set', { deliveryId, type: geometry.type, bufferMeters });
+    return { deliveryId, name, geometry, bufferMeters, createdAt, updatedAt: now };
+}
+
+/**
+ * The delivery's polygon geofence, or null if none is set (or it was erased)
+ */
+export function getDeliveryGeofence(deliveryId: UUID): DeliveryGeofence | null {
+    const stored = findDeliveryGeofence(deliveryId);
+    if (!stored) {
+        return null;
+    }
+
+    const result = decryptWithStatus(stored.geometryEncrypted, deliveryId);
+    if (result.status === 'erased') {
+        return null;
+    }
+
+    return {
+        deliveryId,
+        name: stored.name,
+        geometry: JSON.parse(result.plaintext) as GeofenceGeometry,
+        bufferMeters: stored.bufferMeters,
+        createdAt: stored.createdAt,
+        updatedAt: stored.updatedAt,
+    };
+}
+
+export function removeDeliveryGeofence(deliveryId: UUID): boolean {
+    return deleteDeliveryGeofence(deliveryId);
+}
+
+export interface GeofenceResult {
+    isWithinGeofence: boolean;
+    // Radius mode: metres from the delivery point; polygon mode: metres outside the polygon (0 inside)
+    distance: number;
+    mode: 'polygon' | 'radius';
+    geofenceName?: string;
+    accuracyMeters: number;     // As reported, or the worst accepted when not given
+    // 'high' when the whole accuracy circle lies within the fence
+    confidence: 'high' | 'low';
+    reason?: 'outside_geofence' | 'accuracy_too_low';
+}
+
 /**
  * Verify delivery is within geofence
+ * Uses the delivery's polygon geofence when one is set, otherwise a circle
+ * around deliveryLocation. Returns null when neither is available.
+ * Confidence is only high when the whole accuracy circle of the fix lies
+ * inside the fence; without a reported accuracy the worst accepted one is assumed.
  */
 export function verifyGeofence(
     deliveryId: UUID,
     driverLocation: RawCoordinates,
-    deliveryLocation: { latitude: number; longitude: number },
-    radiusMeters: number = DEFAULT_GEOFENCE_RADIUS
-): { isWithinGeofence: boolean; distance: number } {
-    const distance = calculateDistance(driverLocation, deliveryLocation);
-    const isWithinGeofence = distance <= radiusMeters;
+    deliveryLocation?: RawCoordinates,
+    radiusMeters: number = DEFAULT_GEOFENCE_RADIUS,
+    accuracyMeters: number = MAX_GPS_ACCURACY_METERS
+): GeofenceResult | null {
+    const geofence = getDeliveryGeofence(deliveryId);
+    if (!geofence && !deliveryLocation) {
+        return null;
+    }
+
+    let result: GeofenceResult;
+
+    if (geofence) {
+        const signedDistance = signedDistanceToGeometry(driverLocation, geofence.geometry);
+        result = {
+            isWithinGeofence: signedDistance <= geofence.bufferMeters,
+            distance: Math.max(0, Math.round(signedDistance)),
+            mode: 'polygon',
+            geofenceName: geofence.name,
+            accuracyMeters,
+            confidence: signedDistance + accuracyMeters <= geofence.bufferMeters ? 'high' : 'low',
+        };
+    } else {
+        const distance = calculateDistance(driverLocation, deliveryLocation as RawCoordinates);
+        result = {
+            isWithinGeofence: distance <= radiusMeters,
+            distance,
+            mode: 'radius',
+            accuracyMeters,
+            confidence: distance + accuracyMeters <= radiusMeters ? 'high' : 'low',
+        };
+    }
+
+    if (accuracyMeters > MAX_GPS_ACCURACY_METERS) {
+        result.isWithinGeofence = false;
+        result.reason = 'accuracy_too_low';
+    } else if (!result.isWithinGeofence) {
+        result.reason = 'outside_geofence';
+    }
 
     logSecurityEvent({
         type: 'geofence_verification',
         action: 'verify',
         resourceType: 'delivery',
         resourceId: deliveryId,
-        result: isWithinGeofence ? 'success' : 'failure',
-        details: { distance, radius: radiusMeters },
+        result: result.isWithinGeofence ? 'success' : 'failure',
+        details: {
+            mode: result.mode,
+            distance: result.distance,
+            radius: result.mode === 'radius' ? radiusMeters : undefined,
+            bufferMeters: geofence?.bufferMeters,
+            accuracyMeters,
+            reason: result.reason,
+        },
     });
 
-    if (isWithinGeofence) {
+    if (result.isWithinGeofence) {
         updateVerification(deliveryId, 'geofence');
     }
 
-    return { isWithinGeofence, distance };
+    return result;
 }
 
 /**
@@ -371,7 +517,7 @@ export function initializeVerification(
         isComplete: false,
     };
 
-    verificationStore.set(deliveryId, verification);
+    saveVerification(verification);
 
     logger.info('Verification initialized', {
         deliveryId,
@@ -385,7 +531,7 @@ export function initializeVerification(
  * Update verification status
  */
 function updateVerification(deliveryId: UUID, method: VerificationMethod): void {
-    const verification = verificationStore.get(deliveryId);
+    const verification = findVerificationByDelivery(deliveryId);
 
     if (!verification) {
         logger.warn('No verification record found', { deliveryId, method });
@@ -416,20 +562,22 @@ function updateVerification(deliveryId: UUID, method: VerificationMethod): void
             details: { methods: verification.methodsCompleted },
         });
     }
+
+    saveVerification(verification);
 }
 
 /**
  * Get verification status
  */
 export function getVerificationStatus(deliveryId: UUID): DeliveryVerification | null {
-    return verificationStore.get(deliveryId) ?? null;
+    return findVerificationByDelivery(deliveryId);
 }
 
 /**
  * Check if delivery is fully verified
  */
 export function isDeliveryVerified(deliveryId: UUID): boolean {
-    const verification = verificationStore.get(deliveryId);
+    const verification = findVerificationByDelivery(deliveryId);
     return verification?.isComplete ?? false;
 }
 
@@ -437,7 +585,7 @@ export function isDeliveryVerified(deliveryId: UUID): boolean {
  * Get pending verification methods
  */
 export function getPendingMethods(deliveryId: UUID): VerificationMethod[] {
-    const verification = verificationStore.get(deliveryId);
+    const verification = findVerificationByDelivery(deliveryId);
 
     if (!verification) {
         return [];
@@ -462,11 +610,12 @@ export function createFallbackVerification(
 
     if (isValid) {
         // Mark as verified using fallback
-        const verification = verificationStore.get(deliveryId);
+        const verification = findVerificationByDelivery(deliveryId);
         if (verification) {
             verification.isComplete = true;
             verification.completedAt = new Date().toISOString();
             verification.methodsCompleted = ['code'] as VerificationMethod[];
+            saveVerification(verification);
         }
 
         logSecurityEvent({
@@ -485,10 +634,6 @@ export function createFallbackVerification(
  * Clear verification data (for testing)
  */
 export function clearVerificationData(): void {
-    otpStore.clear();
-    photoStore.clear();
-    signatureStore.clear();
-    verificationStore.clear();
-    deliverySecrets.clear();
+    clearVerificationTables();
     logger.info('Verification data cleared');
 }
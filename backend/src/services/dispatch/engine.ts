@@ -0,0 +1,342 @@
+import h3 from 'h3-js';
+import type { Delivery, H3Index, ShiftStatus, UserRole, UUID, VerificationMethod } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import { getDelivery, assignDelivery } from '../delivery-management/lifecycle.js';
+import {
+    getDriver,
+    getVehicle,
+    getDriverShift,
+    listWorkingShifts,
+    isDriverCompliant,
+    isVehicleCompliant,
+} from '../fleet-registry/registry.js';
+import { initializeVerification, getVerificationStatus } from '../delivery-verification/verifier.js';
+import { sendNotification, getUserPreferences } from '../notification-delivery/notifier.js';
+import { describeZone } from '../location-obfuscation/gazetteer.js';
+import { planDeliveryRoute } from '../route-planning/planner.js';
+import {
+    findLocationHistory,
+    countAlertsByDriverSince,
+    findExpectedRoute,
+} from '../../database/repositories/security.repository.js';
+import {
+    findUnassignedDeliveries,
+    findOpenDeliveriesByDriver,
+    countDeliveriesByDriverSince,
+} from '../../database/repositories/delivery.repository.js';
+
+/**
+ * Dispatch Assignment Engine
+ *
+ * Candidates are compliant drivers on a working shift whose vehicle can take
+ * the parcel on top of what they already carry. They are ranked by:
+ * - H3 grid distance from the driver's last zone to the pickup
+ * - spare vehicle capacity
+ * - alerts per delivery over the recent past
+ * Drivers on a break are still proposed, behind those on shift.
+ */
+
+interface Actor {
+    id: string;
+    role: UserRole;
+}
+
+export const DISPATCH = {
+    maxCandidates: 5,
+    gridResolution: 7,              // ~1.2 km cells
+    proximityHalfScoreCells: 8,     // Proximity score halves at this many cells away
+    alertHistoryDays: 90,
+    breakPenalty: 0.5,
+    batchLoadPenalty: 0.2,          // Per delivery already given to a driver in the same batch
+    maxBatchSize: 200,
+    weights: { proximity: 0.55, capacity: 0.15, safety: 0.3 },
+};
+
+// High-value parcels also need the recipient's signature
+const DEFAULT_VERIFICATION: VerificationMethod[] = ['otp', 'photo'];
+const SIGNATURE_THRESHOLD_KES = 50_000;
+
+export interface DispatchCandidate {
+    driverId: UUID;
+    driverName: string | null;
+    vehicleId: UUID;
+    plate: string;
+    shiftStatus: ShiftStatus;
+    gridDistance: number | null;
+    spareCapacityKg: number;
+    alertRate: number;
+    score: number;
+}
+
+export type DispatchError = 'not_found' | 'not_assignable' | 'not_eligible' | 'assignment_failed';
+
+export type DispatchResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: DispatchError; message: string };
+
+export interface AssignmentRequest {
+    driverId: UUID;
+    vehicleId?: UUID;
+    // Manual override: skip ranking and eligibility, reason required
+    override?: { reason: string };
+}
+
+export interface BatchRequest {
+    // Defaults to every unassigned delivery awaiting pickup
+    deliveryIds?: UUID[];
+    // Manual override: also reassign deliveries that already have a driver, reason required
+    override?: { reason: string };
+}
+
+export interface BatchOutcome {
+    assigned: Array<{ deliveryId: UUID; candidate: DispatchCandidate }>;
+    unassigned: Array<{ deliveryId: UUID; reason: string }>;
+}
+
+// Deliveries given to each driver earlier in the same batch run
+type BatchCounts = Map<UUID, number>;
+
+function pickupCell(delivery: Delivery): H3Index | null {
+    const location = delivery.sender?.location;
+    return location ? h3.latLngToCell(location.latitude, location.longitude, DISPATCH.gridResolution) : null;
+}
+
+function gridDistanceTo(pickup: H3Index | null, driverId: UUID): number | null {
+    const lastZone = findLocationHistory(driverId, 1)[0]?.zoneId;
+    if (!pickup || !lastZone || h3.getResolution(lastZone) < DISPATCH.gridResolution) return null;
+
+    try {
+        return h3.gridDistance(h3.cellToParent(lastZone, DISPATCH.gridResolution), pickup);
+    } catch {
+        // No grid path (e.g. across a pentagon); treat as unknown
+        return null;
+    }
+}
+
+function alertRate(driverId: UUID, now: Date): number {
+    const since = new Date(now.getTime() - DISPATCH.alertHistoryDays * 24 * 60 * 60 * 1000).toISOString();
+    const deliveries = countDeliveriesByDriverSince(driverId, since);
+    return countAlertsByDriverSince(driverId, since) / Math.max(deliveries, 1);
+}
+
+function rankCandidates(delivery: Delivery, now: Date, batchCounts?: BatchCounts): DispatchCandidate[] {
+    const pickup = pickupCell(delivery);
+    const candidates: DispatchCandidate[] = [];
+
+    for (const shift of listWorkingShifts()) {
+        const driver = getDriver(shift.driverId);
+        const vehicle = shift.vehicleId ? getVehicle(shift.vehicleId) : null;
+        if (!driver || !vehicle || !isDriverCompliant(driver, now) || !isVehicleCompliant(vehicle, now)) continue;
+
+        const currentLoad = findOpenDeliveriesByDriver(driver.id)
+            .reduce((total, open) => total + open.parcel.weightKg, 0);
+        const spareCapacityKg = vehicle.capacityKg - currentLoad;
+        if (spareCapacityKg < delivery.parcel.weightKg) continue;
+
+        const gridDistance = gridDistanceTo(pickup, driver.id);
+        const rate = alertRate(driver.id, now);
+
+        const proximity = gridDistance === null
+            ? 0
+            : DISPATCH.proximityHalfScoreCells / (DISPATCH.proximityHalfScoreCells + gridDistance);
+        const capacity = (spareCapacityKg - delivery.parcel.weightKg) / vehicle.capacityKg;
+        const safety = 1 / (1 + rate);
+
+        let score = DISPATCH.weights.proximity * proximity
+            + DISPATCH.weights.capacity * capacity
+            + DISPATCH.weights.safety * safety;
+        if (shift.status === 'on_break') score *= DISPATCH.breakPenalty;
+        score /= 1 + DISPATCH.batchLoadPenalty * (batchCounts?.get(driver.id) ?? 0);
+
+        candidates.push({
+            driverId: driver.id,
+            driverName: driver.details?.name ?? null,
+            vehicleId: vehicle.id,
+            plate: vehicle.plate,
+            shiftStatus: shift.status,
+            gridDistance,
+            spareCapacityKg: Math.round(spareCapacityKg * 10) / 10,
+            alertRate: Math.round(rate * 100) / 100,
+            score: Math.round(score * 1000) / 1000,
+        });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+}
+
+function assignableDelivery(deliveryId: UUID): DispatchResult<Delivery> {
+    const delivery = getDelivery(deliveryId);
+    if (!delivery) {
+        return { ok: false, error: 'not_found', message: 'Delivery not found' };
+    }
+    if (delivery.status !== 'created') {
+        return { ok: false, error: 'not_assignable', message: `Delivery is already ${delivery.status}` };
+    }
+    return { ok: true, value: delivery };
+}
+
+/**
+ * Tell the driver about the job; never fails the assignment
+ */
+async function notifyDriver(delivery: Delivery, driverId: UUID): Promise<void> {
+    const channel = getUserPreferences(driverId).channels[0] ?? 'push';
+    const pickup = pickupCell(delivery);
+    const where = pickup ? ` Pickup: ${describeZone(pickup)}.` : '';
+
+    try {
+        await sendNotification(
+            driverId,
+            channel,
+            'delivery_assigned',
+            `New delivery ${delivery.trackingNumber ?? delivery.id} assigned to you.${where}`,
+            'high'
+        );
+    } catch (error) {
+        logger.error('Driver assignment notification failed', {
+            deliveryId: delivery.id,
+            error: (error as Error).message,
+        });
+    }
+}
+
+function completeAssignment(delivery: Delivery, driverId: UUID, vehicleId: UUID | null, actor: Actor): DispatchResult<Delivery> {
+    const assigned = assignDelivery(delivery.id, driverId, vehicleId, actor);
+    if (!assigned) {
+        return { ok: false, error: 'assignment_failed', message: 'Delivery could not be assigned' };
+    }
+
+    if (!getVerificationStatus(delivery.id)) {
+        const highValue = (delivery.parcel.declaredValueKes ?? 0) >= SIGNATURE_THRESHOLD_KES;
+        initializeVerification(delivery.id, highValue ? [...DEFAULT_VERIFICATION, 'signature'] : DEFAULT_VERIFICATION);
+    }
+
+    // Monitor the driver against the sender → recipient corridor unless a route was planned already
+    if (!findExpectedRoute(delivery.id)) {
+        const planned = planDeliveryRoute(delivery.id, {}, actor);
+        if (!planned.ok) {
+            logger.debug('No expected route planned on assignment', { deliveryId: delivery.id, reason: planned.error });
+        }
+    }
+
+    void notifyDriver(assigned, driverId);
+
+    return { ok: true, value: assigned };
+}
+
+/**
+ * Ranked driver proposals for a delivery awaiting pickup
+ */
+export function proposeCandidates(deliveryId: UUID, now: Date = new Date()): DispatchResult<DispatchCandidate[]> {
+    const delivery = assignableDelivery(deliveryId);
+    if (!delivery.ok) return delivery;
+
+    return { ok: true, value: rankCandidates(delivery.value, now).slice(0, DISPATCH.maxCandidates) };
+}
+
+/**
+ * Accept a proposed driver, or assign anyone with a manual override
+ */
+export function assignDriver(
+    deliveryId: UUID,
+    request: AssignmentRequest,
+    actor: Actor,
+    now: Date = new Date()
+): DispatchResult<Delivery> {
+    const delivery = assignableDelivery(deliveryId);
+    if (!delivery.ok) return delivery;
+
+    if (request.override) {
+        if (!getDriver(request.driverId)) {
+            return { ok: false, error: 'not_found', message: 'Driver not found' };
+        }
+
+        const vehicleId = request.vehicleId ?? getDriverShift(request.driverId)?.vehicleId ?? null;
+        createAuditEntry({
+            actorId: actor.id,
+            actorRole: actor.role,
+            action: 'dispatch_override',
+            resourceType: 'delivery',
+            resourceId: deliveryId,
+            metadata: { driverId: request.driverId, vehicleId, reason: request.override.reason },
+            result: 'success',
+        });
+        return completeAssignment(delivery.value, request.driverId, vehicleId, actor);
+    }
+
+    const candidate = rankCandidates(delivery.value, now).find(c => c.driverId === request.driverId);
+    if (!candidate) {
+        return {
+            ok: false,
+            error: 'not_eligible',
+            message: 'Driver is not an eligible candidate; use an override to assign anyway',
+        };
+    }
+
+    return completeAssignment(delivery.value, candidate.driverId, candidate.vehicleId, actor);
+}
+
+/**
+ * Assign the top candidate to each delivery, oldest first, spreading load
+ * across drivers. Deliveries that already have a driver are reported and left
+ * alone unless the request carries an override.
+ */
+export function batchAssign(request: BatchRequest, actor: Actor, now: Date = new Date()): BatchOutcome {
+    const ids = request.deliveryIds ?? findUnassignedDeliveries(DISPATCH.maxBatchSize).map(stored => stored.id);
+
+    const batchCounts: BatchCounts = new Map();
+    const outcome: BatchOutcome = { assigned: [], unassigned: [] };
+    const deliveries: Delivery[] = [];
+
+    for (const deliveryId of new Set(ids)) {
+        const delivery = assignableDelivery(deliveryId);
+        if (!delivery.ok) {
+            outcome.unassigned.push({ deliveryId, reason: delivery.message });
+            continue;
+        }
+        if (delivery.value.driverId && !request.override) {
+            outcome.unassigned.push({ deliveryId, reason: 'Delivery already has a driver; use an override to reassign' });
+            continue;
+        }
+        deliveries.push(delivery.value);
+    }
+
+    deliveries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const delivery of deliveries) {
+        const deliveryId = delivery.id;
+        const best = rankCandidates(delivery, now, batchCounts)[0];
+        if (!best) {
+            outcome.unassigned.push({ deliveryId, reason: 'No eligible driver' });
+            continue;
+        }
+
+        if (delivery.driverId && request.override) {
+            createAuditEntry({
+                actorId: actor.id,
+                actorRole: actor.role,
+                action: 'dispatch_override',
+                resourceType: 'delivery',
+                resourceId: deliveryId,
+                metadata: { driverId: best.driverId, previousDriverId: delivery.driverId, reason: request.override.reason },
+                result: 'success',
+            });
+        }
+
+        const assigned = completeAssignment(delivery, best.driverId, best.vehicleId, actor);
+        if (!assigned.ok) {
+            outcome.unassigned.push({ deliveryId, reason: assigned.message });
+            continue;
+        }
+
+        batchCounts.set(best.driverId, (batchCounts.get(best.driverId) ?? 0) + 1);
+        outcome.assigned.push({ deliveryId, candidate: best });
+    }
+
+    logger.info('Batch dispatch completed', {
+        assigned: outcome.assigned.length,
+        unassigned: outcome.unassigned.length,
+    });
+
+    return outcome;
+}
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { uuidSchema, formatValidationError } from '../../utils/validators.js';
+import { requirePermission } from '../../middleware/auth.middleware.js';
+import { requireKnownDeliveryParam } from '../../middleware/delivery.middleware.js';
+import {
+    proposeCandidates,
+    assignDriver,
+    batchAssign,
+    DISPATCH,
+    type DispatchError,
+} from './engine.js';
+
+/**
+ * Dispatch - API Routes
+ * All routes need write:delivery_assignment
+ */
+
+const router = Router();
+
+router.use(requirePermission('write:delivery_assignment'));
+router.param('deliveryId', requireKnownDeliveryParam);
+
+const DISPATCH_ERROR_STATUS: Record<DispatchError, number> = {
+    not_found: 404,
+    not_assignable: 409,
+    not_eligible: 422,
+    assignment_failed: 409,
+};
+
+/**
+ * GET /api/dispatch/deliveries/:deliveryId/proposals
+ * Ranked driver candidates
+ */
+router.get('/deliveries/:deliveryId/proposals', (req, res) => {
+    const proposals = proposeCandidates(req.params['deliveryId'] ?? '');
+    if (!proposals.ok) {
+        res.status(DISPATCH_ERROR_STATUS[proposals.error]).json({
+            success: false,
+            error: { code: proposals.error.toUpperCase(), message: proposals.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: { candidates: proposals.value } });
+});
+
+/**
+ * POST /api/dispatch/deliveries/:deliveryId/assignment
+ * Accept a proposed driver, or override with any registered driver
+ */
+router.post('/deliveries/:deliveryId/assignment', (req, res) => {
+    const schema = z.object({
+        driverId: uuidSchema,
+        vehicleId: uuidSchema.optional(),
+        override: z.object({ reason: z.string().min(3).max(500) }).optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const assigned = assignDriver(req.params['deliveryId'] ?? '', result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    if (!assigned.ok) {
+        res.status(DISPATCH_ERROR_STATUS[assigned.error]).json({
+            success: false,
+            error: { code: assigned.error.toUpperCase(), message: assigned.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: assigned.value });
+});
+
+/**
+ * POST /api/dispatch/batch
+ * Assign the best candidate to each delivery; all unassigned ones if no IDs are given
+ * Deliveries that already have a driver are only reassigned with an override
+ */
+router.post('/batch', (req, res) => {
+    const schema = z.object({
+        deliveryIds: z.array(uuidSchema).min(1).max(DISPATCH.maxBatchSize).optional(),
+        override: z.object({ reason: z.string().min(3).max(500) }).optional(),
+    });
+
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const outcome = batchAssign(result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    res.json({ success: true, data: outcome });
+});
+
+export { router as dispatchRouter };
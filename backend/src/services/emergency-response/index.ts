@@ -1,6 +1,6 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import { z } from 'zod';
-import type { ApiResponse } from '../../types/index.js';
+import type { ApiResponse, EmergencyRecord } from '../../types/index.js';
 import {
     triggerPanicButton,
     processAccelerometerData,
@@ -14,9 +14,16 @@ import {
 } from './orchestrator.js';
 import { uuidSchema, coordinatesSchema, formatValidationError } from '../../utils/validators.js';
 import { createRequestLogger } from '../../utils/logger.js';
+import { hasPermission } from '../privacy-access-control/access-control.js';
+import { withFleetContext } from '../fleet-registry/registry.js';
 
 const router = Router();
 
+// Staff with fleet access also get the driver's and vehicle's details
+function present(req: Request, emergency: EmergencyRecord): EmergencyRecord {
+    return req.user && hasPermission(req.user.role, 'read:fleet') ? withFleetContext(emergency) : emergency;
+}
+
 router.post('/panic', async (req, res) => {
     const reqLogger = createRequestLogger(req.requestId);
     try {
@@ -65,16 +72,16 @@ router.get('/:emergencyId', (req, res) => {
         res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Emergency not found' } });
         return;
     }
-    res.json({ success: true, data: emergency });
+    res.json({ success: true, data: present(req, emergency) });
 });
 
 router.get('/active/:driverId', (req, res) => {
     const emergency = getActiveEmergency(req.params['driverId'] ?? '');
-    res.json({ success: true, data: { hasActiveEmergency: !!emergency, emergency } });
+    res.json({ success: true, data: { hasActiveEmergency: !!emergency, emergency: emergency && present(req, emergency) } });
 });
 
 router.get('/', (req, res) => {
-    res.json({ success: true, data: { emergencies: getAllActiveEmergencies() } });
+    res.json({ success: true, data: { emergencies: getAllActiveEmergencies().map(emergency => present(req, emergency)) } });
 });
 
 router.post('/:emergencyId/acknowledge', (req, res) => {
@@ -7,6 +7,17 @@ import type {
 } from '../../types/index.js';
 import { logger, logSecurityEvent } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
+import { encrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import {
+    insertEmergency,
+    updateEmergency,
+    findEmergencyById,
+    findActiveEmergencyByDriver,
+    findUnresolvedEmergencies,
+    saveEmergencyContacts,
+    findEmergencyContacts,
+    clearEmergencyTables,
+} from '../../database/repositories/emergency.repository.js';
 
 /**
  * Emergency Response Orchestrator
@@ -19,9 +30,9 @@ const THRESHOLDS = {
     consecutiveSamples: 3,
 };
 
-const emergencyContacts = new Map<UUID, Array<{ name: string; phone: string; relationship: string }>>();
-const emergencyStore = new Map<UUID, EmergencyRecord>();
-const activeEmergencies = new Map<UUID, UUID>();
+export type EmergencyContact = { name: string; phone: string; relationship: string };
+
+// Sensor window stays in memory; it is only useful while the driver is connected
 const accelerometerHistory = new Map<UUID, Array<{ x: number; y: number; z: number; timestamp: Date }>>();
 
 export async function triggerPanicButton(
@@ -31,12 +42,9 @@ export async function triggerPanicButton(
 ): Promise<EmergencyRecord> {
     logger.warn('PANIC BUTTON ACTIVATED', { driverId });
 
-    const existingId = activeEmergencies.get(driverId);
-    if (existingId) {
-        const existing = emergencyStore.get(existingId);
-        if (existing?.status === 'triggered') {
-            return existing;
-        }
+    const existing = findActiveEmergencyByDriver(driverId);
+    if (existing?.status === 'triggered') {
+        return existing;
     }
 
     const emergency = createEmergencyRecord(driverId, 'panic_button', location, deliveryId);
@@ -57,7 +65,7 @@ export async function processAccelerometerData(
 
     const gForce = Math.sqrt(reading.x ** 2 + reading.y ** 2 + reading.z ** 2);
 
-    if (gForce >= THRESHOLDS.impactGForce && !activeEmergencies.has(driverId)) {
+    if (gForce >= THRESHOLDS.impactGForce && !findActiveEmergencyByDriver(driverId)) {
         const emergency = createEmergencyRecord(driverId, 'accident_detected', location, deliveryId);
         await initiateEmergencyResponse(emergency);
         return emergency;
@@ -82,8 +90,7 @@ function createEmergencyRecord(
         notificationsent: [],
     };
 
-    emergencyStore.set(emergency.id, emergency);
-    activeEmergencies.set(driverId, emergency.id);
+    insertEmergency(emergency);
 
     logSecurityEvent({
         type: 'emergency',
@@ -101,49 +108,55 @@ function createEmergencyRecord(
 async function initiateEmergencyResponse(emergency: EmergencyRecord): Promise<void> {
     logger.info('Initiating emergency response', { emergencyId: emergency.id });
     emergency.status = 'responding';
+    updateEmergency(emergency);
 }
 
 export function getEmergency(emergencyId: UUID): EmergencyRecord | null {
-    return emergencyStore.get(emergencyId) ?? null;
+    return findEmergencyById(emergencyId);
 }
 
 export function getActiveEmergency(driverId: UUID): EmergencyRecord | null {
-    const id = activeEmergencies.get(driverId);
-    return id ? emergencyStore.get(id) ?? null : null;
+    return findActiveEmergencyByDriver(driverId);
 }
 
 export function acknowledgeEmergency(emergencyId: UUID, acknowledgedBy: UUID): boolean {
-    const emergency = emergencyStore.get(emergencyId);
+    const emergency = findEmergencyById(emergencyId);
     if (!emergency) return false;
     emergency.status = 'acknowledged';
+    updateEmergency(emergency);
     return true;
 }
 
 export function resolveEmergency(emergencyId: UUID, resolvedBy: UUID): boolean {
-    const emergency = emergencyStore.get(emergencyId);
+    const emergency = findEmergencyById(emergencyId);
     if (!emergency) return false;
     emergency.status = 'resolved';
-    activeEmergencies.delete(emergency.driverId);
+    updateEmergency(emergency);
     return true;
 }
 
 export function getAllActiveEmergencies(): EmergencyRecord[] {
-    return Array.from(emergencyStore.values()).filter(e => e.status !== 'resolved');
+    return findUnresolvedEmergencies();
 }
 
 export function setEmergencyContacts(
     driverId: UUID,
-    contacts: Array<{ name: string; phone: string; relationship: string }>
+    contacts: EmergencyContact[]
 ): void {
-    emergencyContacts.set(driverId, contacts);
+    saveEmergencyContacts(driverId, encrypt(JSON.stringify(contacts), driverId));
 }
 
-export function getEmergencyContacts(driverId: UUID) {
-    return emergencyContacts.get(driverId) || [];
+export function getEmergencyContacts(driverId: UUID): EmergencyContact[] {
+    const contactsEncrypted = findEmergencyContacts(driverId);
+    if (!contactsEncrypted) {
+        return [];
+    }
+
+    const result = decryptWithStatus(contactsEncrypted, driverId);
+    return result.status === 'ok' ? JSON.parse(result.plaintext) as EmergencyContact[] : [];
 }
 
 export function clearEmergencyData(): void {
-    emergencyStore.clear();
-    activeEmergencies.clear();
+    clearEmergencyTables();
     accelerometerHistory.clear();
 }
@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { uuidSchema, formatValidationError } from '../../utils/validators.js';
+import { requireAuth, requirePermission } from '../../middleware/auth.middleware.js';
+import { hasPermission } from '../privacy-access-control/access-control.js';
+import {
+    registerDriver,
+    getDriver,
+    listDrivers,
+    updateDriver,
+    removeDriver,
+    registerVehicle,
+    getVehicle,
+    listVehicles,
+    updateVehicle,
+    removeVehicle,
+    checkDriverDocuments,
+    checkVehicleDocuments,
+    getComplianceIssues,
+    setDriverShift,
+    getDriverShift,
+    type FleetError,
+} from './registry.js';
+
+/**
+ * Fleet Registry - API Routes
+ */
+
+const router = Router();
+
+const FLEET_ERROR_STATUS: Record<FleetError, number> = {
+    not_found: 404,
+    already_registered: 409,
+    duplicate_plate: 409,
+    invalid_plate: 400,
+    details_erased: 422,
+    vehicle_unavailable: 409,
+};
+
+const DRIVER_STATUSES = ['active', 'suspended', 'inactive'] as const;
+const VEHICLE_STATUSES = ['active', 'maintenance', 'retired'] as const;
+const VEHICLE_TYPES = ['motorcycle', 'tuk_tuk', 'car', 'van', 'pickup', 'truck'] as const;
+
+const driverSchema = z.object({
+    name: z.string().min(1).max(100),
+    phone: z.string().min(7).max(20),
+    licenceNumber: z.string().min(3).max(30),
+    psvBadgeNumber: z.string().min(3).max(30),
+    licenceExpiresAt: z.string().datetime(),
+    psvBadgeExpiresAt: z.string().datetime(),
+    status: z.enum(DRIVER_STATUSES).optional(),
+});
+
+const vehicleSchema = z.object({
+    plate: z.string().min(6).max(12),
+    type: z.enum(VEHICLE_TYPES),
+    capacityKg: z.number().positive().max(40000),
+    insuranceExpiresAt: z.string().datetime(),
+    status: z.enum(VEHICLE_STATUSES).optional(),
+});
+
+/**
+ * GET /api/fleet/compliance
+ * Drivers and vehicles with expired or soon-to-expire documents
+ */
+router.get('/compliance', requirePermission('read:fleet'), (req, res) => {
+    res.json({ success: true, data: { issues: getComplianceIssues() } });
+});
+
+// Drivers
+
+/**
+ * POST /api/fleet/drivers
+ * `id` is the driver's user ID when they already have an account
+ */
+router.post('/drivers', requirePermission('write:fleet'), (req, res) => {
+    const result = driverSchema.extend({ id: uuidSchema.optional() }).safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const { id, ...input } = result.data;
+    const registered = registerDriver(input, { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' }, id);
+    if (!registered.ok) {
+        res.status(FLEET_ERROR_STATUS[registered.error]).json({
+            success: false,
+            error: { code: registered.error.toUpperCase(), message: registered.message },
+        });
+        return;
+    }
+
+    res.status(201).json({ success: true, data: registered.value });
+});
+
+router.get('/drivers', requirePermission('read:fleet'), (req, res) => {
+    const result = z.object({ status: z.enum(DRIVER_STATUSES).optional() }).safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    res.json({ success: true, data: { drivers: listDrivers(result.data.status) } });
+});
+
+router.get('/drivers/:driverId', requirePermission('read:fleet'), (req, res) => {
+    const driver = getDriver(req.params['driverId'] ?? '');
+    if (!driver) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Driver not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: { ...driver, documents: checkDriverDocuments(driver) } });
+});
+
+router.patch('/drivers/:driverId', requirePermission('write:fleet'), (req, res) => {
+    const result = driverSchema.partial().safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const updated = updateDriver(req.params['driverId'] ?? '', result.data, { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' });
+    if (!updated.ok) {
+        res.status(FLEET_ERROR_STATUS[updated.error]).json({
+            success: false,
+            error: { code: updated.error.toUpperCase(), message: updated.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: updated.value });
+});
+
+router.delete('/drivers/:driverId', requirePermission('write:fleet'), (req, res) => {
+    if (!removeDriver(req.params['driverId'] ?? '', { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' })) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Driver not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: { removed: true } });
+});
+
+/**
+ * PUT /api/fleet/drivers/:driverId/shift
+ * Drivers clock themselves on and off; dispatchers may do it for them
+ */
+router.put('/drivers/:driverId/shift', requireAuth, (req, res) => {
+    const driverId = req.params['driverId'] ?? '';
+    if (req.user?.id !== driverId && !(req.user && hasPermission(req.user.role, 'write:fleet'))) {
+        res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Cannot change another driver\'s shift' } });
+        return;
+    }
+
+    const schema = z.object({
+        status: z.enum(['on_shift', 'on_break', 'off_shift']),
+        vehicleId: uuidSchema.optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const shift = setDriverShift(
+        driverId,
+        result.data.status,
+        result.data.vehicleId ?? getDriverShift(driverId)?.vehicleId,
+        { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' }
+    );
+    if (!shift.ok) {
+        res.status(FLEET_ERROR_STATUS[shift.error]).json({
+            success: false,
+            error: { code: shift.error.toUpperCase(), message: shift.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: shift.value });
+});
+
+// Vehicles
+
+router.post('/vehicles', requirePermission('write:fleet'), (req, res) => {
+    const result = vehicleSchema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const registered = registerVehicle(result.data, { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' });
+    if (!registered.ok) {
+        res.status(FLEET_ERROR_STATUS[registered.error]).json({
+            success: false,
+            error: { code: registered.error.toUpperCase(), message: registered.message },
+        });
+        return;
+    }
+
+    res.status(201).json({ success: true, data: registered.value });
+});
+
+router.get('/vehicles', requirePermission('read:fleet'), (req, res) => {
+    const result = z.object({ status: z.enum(VEHICLE_STATUSES).optional() }).safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    res.json({ success: true, data: { vehicles: listVehicles(result.data.status) } });
+});
+
+router.get('/vehicles/:vehicleId', requirePermission('read:fleet'), (req, res) => {
+    const vehicle = getVehicle(req.params['vehicleId'] ?? '');
+    if (!vehicle) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Vehicle not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: { ...vehicle, documents: checkVehicleDocuments(vehicle) } });
+});
+
+router.patch('/vehicles/:vehicleId', requirePermission('write:fleet'), (req, res) => {
+    const result = vehicleSchema.partial().safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const updated = updateVehicle(req.params['vehicleId'] ?? '', result.data, { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' });
+    if (!updated.ok) {
+        res.status(FLEET_ERROR_STATUS[updated.error]).json({
+            success: false,
+            error: { code: updated.error.toUpperCase(), message: updated.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: updated.value });
+});
+
+router.delete('/vehicles/:vehicleId', requirePermission('write:fleet'), (req, res) => {
+    if (!removeVehicle(req.params['vehicleId'] ?? '', { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' })) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Vehicle not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: { removed: true } });
+});
+
+export { router as fleetRouter };
@@ -0,0 +1,432 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    DocumentCheck,
+    Driver,
+    DriverDetails,
+    DriverShift,
+    DriverStatus,
+    FleetDocument,
+    ShiftStatus,
+    UserRole,
+    UUID,
+    Vehicle,
+    VehicleStatus,
+    VehicleType
+} from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { encrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import {
+    saveDriver,
+    findDriverById,
+    findDrivers,
+    deleteDriver,
+    saveVehicle,
+    findVehicleById,
+    findVehicleByPlate,
+    findVehicles,
+    deleteVehicle,
+    saveShift,
+    findShift,
+    findWorkingShifts,
+    type StoredDriver,
+} from '../../database/repositories/fleet.repository.js';
+import { findDeliveryById } from '../../database/repositories/delivery.repository.js';
+
+/**
+ * Driver and Vehicle Registry
+ *
+ * Drivers are registered under their user ID so alerts, emergencies and
+ * deliveries that already carry it resolve to a record. Documents (driving
+ * licence, NTSA PSV badge, vehicle insurance) are checked for expiry; a driver
+ * or vehicle with an expired document is not compliant.
+ */
+
+interface Actor {
+    id: string;
+    role: UserRole;
+}
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+// Kenyan plates: KAA 123A, and KMxx 123A for motorcycles
+const PLATE_PATTERN = /^(K[A-Z]{2,3})\s?(\d{3})([A-Z]?)$/;
+
+export type FleetError =
+    | 'not_found'
+    | 'already_registered'
+    | 'duplicate_plate'
+    | 'invalid_plate'
+    | 'details_erased'
+    | 'vehicle_unavailable';
+
+export type FleetResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: FleetError; message: string };
+
+export interface NewDriver extends DriverDetails {
+    licenceExpiresAt: string;
+    psvBadgeExpiresAt: string;
+    status?: DriverStatus;
+}
+
+export interface NewVehicle {
+    plate: string;
+    type: VehicleType;
+    capacityKg: number;
+    insuranceExpiresAt: string;
+    status?: VehicleStatus;
+}
+
+export interface DriverSummary {
+    id: UUID;
+    name: string | null;
+    phone: string | null;
+    status: DriverStatus;
+    compliant: boolean;
+}
+
+export interface VehicleSummary {
+    id: UUID;
+    plate: string;
+    type: VehicleType;
+    status: VehicleStatus;
+    compliant: boolean;
+}
+
+export interface FleetContext {
+    driver: DriverSummary | null;
+    vehicle: VehicleSummary | null;
+}
+
+export interface ComplianceIssue {
+    kind: 'driver' | 'vehicle';
+    id: UUID;
+    label: string;
+    documents: DocumentCheck[];
+}
+
+/**
+ * Canonical plate ("KCA 123A"), or null if it is not a Kenyan plate
+ */
+export function normalizePlate(input: string): string | null {
+    const match = PLATE_PATTERN.exec(input.trim().toUpperCase().replace(/\s+/g, ' '));
+    return match ? `${match[1]} ${match[2]}${match[3]}` : null;
+}
+
+function checkDocument(document: FleetDocument, expiresAt: string, now: Date): DocumentCheck {
+    const remainingMs = new Date(expiresAt).getTime() - now.getTime();
+    const status = remainingMs <= 0
+        ? 'expired'
+        : remainingMs <= EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000 ? 'expiring_soon' : 'valid';
+    return { document, expiresAt, status };
+}
+
+export function checkDriverDocuments(driver: Pick<Driver, 'licenceExpiresAt' | 'psvBadgeExpiresAt'>, now: Date = new Date()): DocumentCheck[] {
+    return [
+        checkDocument('driving_licence', driver.licenceExpiresAt, now),
+        checkDocument('psv_badge', driver.psvBadgeExpiresAt, now),
+    ];
+}
+
+export function checkVehicleDocuments(vehicle: Pick<Vehicle, 'insuranceExpiresAt'>, now: Date = new Date()): DocumentCheck[] {
+    return [checkDocument('insurance', vehicle.insuranceExpiresAt, now)];
+}
+
+export function isDriverCompliant(driver: Driver, now: Date = new Date()): boolean {
+    return driver.status === 'active' && checkDriverDocuments(driver, now).every(check => check.status !== 'expired');
+}
+
+export function isVehicleCompliant(vehicle: Vehicle, now: Date = new Date()): boolean {
+    return vehicle.status === 'active' && checkVehicleDocuments(vehicle, now).every(check => check.status !== 'expired');
+}
+
+function toDriver(stored: StoredDriver): Driver {
+    const result = decryptWithStatus(stored.detailsEncrypted, stored.id);
+
+    return {
+        id: stored.id,
+        details: result.status === 'ok' ? JSON.parse(result.plaintext) as DriverDetails : null,
+        licenceExpiresAt: stored.licenceExpiresAt,
+        psvBadgeExpiresAt: stored.psvBadgeExpiresAt,
+        status: stored.status,
+        createdAt: stored.createdAt,
+        updatedAt: stored.updatedAt,
+    };
+}
+
+function auditFleet(actor: Actor, action: string, resourceType: 'driver' | 'vehicle', resourceId: UUID, metadata?: Record<string, unknown>): void {
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action,
+        resourceType,
+        resourceId,
+        metadata,
+        result: 'success',
+    });
+}
+
+// Drivers
+
+export function registerDriver(input: NewDriver, actor: Actor, driverId: UUID = uuidv4()): FleetResult<Driver> {
+    if (findDriverById(driverId)) {
+        return { ok: false, error: 'already_registered', message: 'Driver is already registered' };
+    }
+
+    const now = new Date().toISOString();
+    const details: DriverDetails = {
+        name: input.name,
+        phone: input.phone,
+        licenceNumber: input.licenceNumber,
+        psvBadgeNumber: input.psvBadgeNumber,
+    };
+    const stored: StoredDriver = {
+        id: driverId,
+        detailsEncrypted: encrypt(JSON.stringify(details), driverId),
+        licenceExpiresAt: input.licenceExpiresAt,
+        psvBadgeExpiresAt: input.psvBadgeExpiresAt,
+        status: input.status ?? 'active',
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    saveDriver(stored);
+    auditFleet(actor, 'driver_registered', 'driver', driverId);
+    logger.info('Driver registered', { driverId });
+
+    return { ok: true, value: toDriver(stored) };
+}
+
+export function getDriver(driverId: UUID): Driver | null {
+    const stored = findDriverById(driverId);
+    return stored ? toDriver(stored) : null;
+}
+
+export function listDrivers(status?: DriverStatus): Driver[] {
+    return findDrivers(status).map(toDriver);
+}
+
+export function updateDriver(driverId: UUID, changes: Partial<NewDriver>, actor: Actor): FleetResult<Driver> {
+    const existing = getDriver(driverId);
+    if (!existing) {
+        return { ok: false, error: 'not_found', message: 'Driver not found' };
+    }
+
+    // Details of an erased driver cannot be merged; a full set re-registers them
+    const details: Partial<DriverDetails> = { ...existing.details };
+    for (const key of ['name', 'phone', 'licenceNumber', 'psvBadgeNumber'] as const) {
+        const value = changes[key];
+        if (value !== undefined) details[key] = value;
+    }
+    if (!details.name || !details.phone || !details.licenceNumber || !details.psvBadgeNumber) {
+        return { ok: false, error: 'details_erased', message: 'Driver details were erased; provide all of them' };
+    }
+
+    const stored: StoredDriver = {
+        id: driverId,
+        detailsEncrypted: encrypt(JSON.stringify(details), driverId),
+        licenceExpiresAt: changes.licenceExpiresAt ?? existing.licenceExpiresAt,
+        psvBadgeExpiresAt: changes.psvBadgeExpiresAt ?? existing.psvBadgeExpiresAt,
+        status: changes.status ?? existing.status,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+    };
+
+    saveDriver(stored);
+    auditFleet(actor, 'driver_updated', 'driver', driverId, { fields: Object.keys(changes) });
+
+    return { ok: true, value: toDriver(stored) };
+}
+
+export function removeDriver(driverId: UUID, actor: Actor): boolean {
+    const removed = deleteDriver(driverId);
+    if (removed) auditFleet(actor, 'driver_removed', 'driver', driverId);
+    return removed;
+}
+
+// Vehicles
+
+export function registerVehicle(input: NewVehicle, actor: Actor, vehicleId: UUID = uuidv4()): FleetResult<Vehicle> {
+    const plate = normalizePlate(input.plate);
+    if (!plate) {
+        return { ok: false, error: 'invalid_plate', message: 'Not a Kenyan number plate' };
+    }
+    if (findVehicleByPlate(plate)) {
+        return { ok: false, error: 'duplicate_plate', message: `${plate} is already registered` };
+    }
+
+    const now = new Date().toISOString();
+    const vehicle: Vehicle = {
+        id: vehicleId,
+        plate,
+        type: input.type,
+        capacityKg: input.capacityKg,
+        insuranceExpiresAt: input.insuranceExpiresAt,
+        status: input.status ?? 'active',
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    saveVehicle(vehicle);
+    auditFleet(actor, 'vehicle_registered', 'vehicle', vehicle.id, { plate });
+
+    return { ok: true, value: vehicle };
+}
+
+export function getVehicle(vehicleId: UUID): Vehicle | null {
+    return findVehicleById(vehicleId);
+}
+
+export function listVehicles(status?: VehicleStatus): Vehicle[] {
+    return findVehicles(status);
+}
+
+export function updateVehicle(vehicleId: UUID, changes: Partial<NewVehicle>, actor: Actor): FleetResult<Vehicle> {
+    const existing = findVehicleById(vehicleId);
+    if (!existing) {
+        return { ok: false, error: 'not_found', message: 'Vehicle not found' };
+    }
+
+    let plate = existing.plate;
+    if (changes.plate !== undefined) {
+        const normalized = normalizePlate(changes.plate);
+        if (!normalized) {
+            return { ok: false, error: 'invalid_plate', message: 'Not a Kenyan number plate' };
+        }
+        const holder = findVehicleByPlate(normalized);
+        if (holder && holder.id !== vehicleId) {
+            return { ok: false, error: 'duplicate_plate', message: `${normalized} is already registered` };
+        }
+        plate = normalized;
+    }
+
+    const vehicle: Vehicle = {
+        ...existing,
+        plate,
+        type: changes.type ?? existing.type,
+        capacityKg: changes.capacityKg ?? existing.capacityKg,
+        insuranceExpiresAt: changes.insuranceExpiresAt ?? existing.insuranceExpiresAt,
+        status: changes.status ?? existing.status,
+        updatedAt: new Date().toISOString(),
+    };
+
+    saveVehicle(vehicle);
+    auditFleet(actor, 'vehicle_updated', 'vehicle', vehicleId, { fields: Object.keys(changes) });
+
+    return { ok: true, value: vehicle };
+}
+
+export function removeVehicle(vehicleId: UUID, actor: Actor): boolean {
+    const removed = deleteVehicle(vehicleId);
+    if (removed) auditFleet(actor, 'vehicle_removed', 'vehicle', vehicleId);
+    return removed;
+}
+
+// Shifts
+
+/**
+ * Clock a driver on or off; working shifts need an active vehicle
+ */
+export function setDriverShift(
+    driverId: UUID,
+    status: ShiftStatus,
+    vehicleId: UUID | undefined,
+    actor: Actor
+): FleetResult<DriverShift> {
+    if (!findDriverById(driverId)) {
+        return { ok: false, error: 'not_found', message: 'Driver not found' };
+    }
+
+    if (status !== 'off_shift') {
+        const vehicle = vehicleId ? findVehicleById(vehicleId) : null;
+        if (!vehicle || vehicle.status !== 'active') {
+            return { ok: false, error: 'vehicle_unavailable', message: 'An active vehicle is required to work a shift' };
+        }
+    }
+
+    const shift: DriverShift = {
+        driverId,
+        status,
+        vehicleId: status === 'off_shift' ? undefined : vehicleId,
+        updatedAt: new Date().toISOString(),
+    };
+
+    saveShift(shift);
+    auditFleet(actor, 'driver_shift_changed', 'driver', driverId, { status, vehicleId: shift.vehicleId });
+
+    return { ok: true, value: shift };
+}
+
+export function getDriverShift(driverId: UUID): DriverShift | null {
+    return findShift(driverId);
+}
+
+export function listWorkingShifts(): DriverShift[] {
+    return findWorkingShifts();
+}
+
+// Compliance and enrichment
+
+/**
+ * Every driver and vehicle with a document expired or expiring soon
+ */
+export function getComplianceIssues(now: Date = new Date()): ComplianceIssue[] {
+    const issues: ComplianceIssue[] = [];
+
+    for (const driver of listDrivers()) {
+        if (driver.status === 'inactive') continue;
+        const documents = checkDriverDocuments(driver, now).filter(check => check.status !== 'valid');
+        if (documents.length > 0) {
+            issues.push({ kind: 'driver', id: driver.id, label: driver.details?.name ?? driver.id, documents });
+        }
+    }
+
+    for (const vehicle of listVehicles()) {
+        if (vehicle.status === 'retired') continue;
+        const documents = checkVehicleDocuments(vehicle, now).filter(check => check.status !== 'valid');
+        if (documents.length > 0) {
+            issues.push({ kind: 'vehicle', id: vehicle.id, label: vehicle.plate, documents });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Driver and vehicle details to show alongside an alert or emergency
+ */
+export function getFleetContext(driverId: UUID, vehicleId?: UUID, now: Date = new Date()): FleetContext {
+    const driver = getDriver(driverId);
+    const vehicle = vehicleId ? getVehicle(vehicleId) : null;
+
+    return {
+        driver: driver && {
+            id: driver.id,
+            name: driver.details?.name ?? null,
+            phone: driver.details?.phone ?? null,
+            status: driver.status,
+            compliant: isDriverCompliant(driver, now),
+        },
+        vehicle: vehicle && {
+            id: vehicle.id,
+            plate: vehicle.plate,
+            type: vehicle.type,
+            status: vehicle.status,
+            compliant: isVehicleCompliant(vehicle, now),
+        },
+    };
+}
+
+/**
+ * Attach driver and vehicle details to an alert or emergency; the vehicle
+ * falls back to the one assigned to the record's delivery
+ */
+export function withFleetContext<T extends { driverId: UUID; vehicleId?: UUID; deliveryId?: UUID }>(
+    record: T,
+    now: Date = new Date()
+): T & FleetContext {
+    const vehicleId = record.vehicleId
+        ?? (record.deliveryId ? findDeliveryById(record.deliveryId)?.vehicleId : undefined);
+    return { ...record, ...getFleetContext(record.driverId, vehicleId, now) };
+}
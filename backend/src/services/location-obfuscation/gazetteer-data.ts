@@ -0,0 +1,698 @@
+/**
+ * Offline Kenyan Gazetteer Dataset
+ *
+ * All 47 counties (IEBC codes) with approximate centroids and areas, their
+ * sub-counties as representative points, and ward points for the main urban
+ * areas. Coordinates are approximate centroids, good enough to name an
+ * obfuscated zone; they are not boundary data.
+ *
+ * Ward coverage is deliberately limited to Nairobi, Mombasa, Kisumu and a
+ * few coastal towns, where wards are small enough for a centroid to name a
+ * zone reliably. Rural wards are many times larger than a resolution 8-9
+ * zone and a nearest-centroid guess would often name the wrong one, so
+ * zones outside these areas (or over 4 km from any ward point) are named
+ * down to the sub-county only.
+ */
+
+export interface GazetteerPoint {
+    name: string;
+    latitude: number;
+    longitude: number;
+}
+
+export interface GazetteerSubCounty extends GazetteerPoint {
+    wards: GazetteerPoint[];
+}
+
+export interface GazetteerCounty extends GazetteerPoint {
+    code: number;
+    headquarters: string;
+    areaKm2: number;
+    subCounties: GazetteerSubCounty[];
+}
+
+export type LandmarkType = 'airport' | 'hospital' | 'park' | 'port' | 'transport' | 'border' | 'landmark';
+
+export interface GazetteerLandmark extends GazetteerPoint {
+    type: LandmarkType;
+}
+
+function point(name: string, latitude: number, longitude: number): GazetteerPoint {
+    return { name, latitude, longitude };
+}
+
+function subCounty(name: string, latitude: number, longitude: number, wards: GazetteerPoint[] = []): GazetteerSubCounty {
+    return { name, latitude, longitude, wards };
+}
+
+export const KENYA_COUNTIES: GazetteerCounty[] = [
+    {
+        code: 1, name: 'Mombasa', headquarters: 'Mombasa', latitude: -4.04, longitude: 39.66, areaKm2: 219,
+        subCounties: [
+            subCounty('Mvita', -4.06, 39.67, [
+                point('Mji wa Kale/Makadara', -4.062, 39.676),
+                point('Tudor', -4.045, 39.667),
+                point('Tononoka', -4.052, 39.662),
+                point('Shimanzi/Ganjoni', -4.07, 39.66),
+                point('Majengo', -4.048, 39.673),
+            ]),
+            subCounty('Nyali', -4.02, 39.71, [
+                point('Frere Town', -4.035, 39.69),
+                point('Ziwa la Ng\'ombe', -4.015, 39.695),
+                point('Mkomani', -4.02, 39.715),
+                point('Kongowea', -4.03, 39.7),
+                point('Kadzandani', -4.0, 39.7),
+            ]),
+            subCounty('Kisauni', -3.99, 39.71, [
+                point('Bamburi', -3.99, 39.72),
+                point('Shanzu', -3.955, 39.74),
+                point('Mtopanga', -3.995, 39.7),
+            ]),
+            subCounty('Likoni', -4.09, 39.65, [
+                point('Likoni', -4.09, 39.66),
+                point('Shika Adabu', -4.1, 39.64),
+                point('Timbwani', -4.085, 39.655),
+                point('Mtongwe', -4.1, 39.62),
+            ]),
+            subCounty('Changamwe', -4.02, 39.63, [
+                point('Port Reitz', -4.03, 39.62),
+                point('Kipevu', -4.04, 39.64),
+                point('Airport', -4.035, 39.6),
+                point('Changamwe', -4.02, 39.63),
+                point('Chaani', -4.05, 39.61),
+            ]),
+            subCounty('Jomvu', -3.99, 39.6, [
+                point('Miritini', -3.98, 39.59),
+                point('Mikindani', -4.0, 39.62),
+            ]),
+        ],
+    },
+    {
+        code: 2, name: 'Kwale', headquarters: 'Kwale', latitude: -4.33, longitude: 39.1, areaKm2: 8270,
+        subCounties: [
+            subCounty('Matuga', -4.17, 39.45),
+            subCounty('Msambweni', -4.47, 39.48, [
+                point('Ukunda', -4.28, 39.57),
+            ]),
+            subCounty('Lunga Lunga', -4.55, 39.12),
+            subCounty('Kinango', -4.13, 39.32),
+        ],
+    },
+    {
+        code: 3, name: 'Kilifi', headquarters: 'Kilifi', latitude: -3.1, longitude: 39.5, areaKm2: 12246,
+        subCounties: [
+            subCounty('Kilifi North', -3.63, 39.85),
+            subCounty('Kilifi South', -3.75, 39.78),
+            subCounty('Malindi', -3.22, 40.12, [
+                point('Shella', -3.22, 40.12),
+                point('Watamu', -3.35, 40.02),
+            ]),
+            subCounty('Magarini', -3.05, 40.05),
+            subCounty('Ganze', -3.5, 39.6),
+            subCounty('Kaloleni', -3.8, 39.63),
+            subCounty('Rabai', -3.93, 39.57),
+        ],
+    },
+    {
+        code: 4, name: 'Tana River', headquarters: 'Hola', latitude: -1.6, longitude: 39.6, areaKm2: 35376,
+        subCounties: [
+            subCounty('Garsen', -2.27, 40.12),
+            subCounty('Galole', -1.5, 40.03),
+            subCounty('Bura', -1.1, 39.95),
+        ],
+    },
+    {
+        code: 5, name: 'Lamu', headquarters: 'Lamu', latitude: -2.1, longitude: 40.7, areaKm2: 6273,
+        subCounties: [
+            subCounty('Lamu West', -2.3, 40.8),
+            subCounty('Lamu East', -1.95, 41.1),
+        ],
+    },
+    {
+        code: 6, name: 'Taita-Taveta', headquarters: 'Mwatate', latitude: -3.4, longitude: 38.4, areaKm2: 17084,
+        subCounties: [
+            subCounty('Voi', -3.39, 38.56),
+            subCounty('Mwatate', -3.5, 38.38),
+            subCounty('Wundanyi', -3.4, 38.36),
+            subCounty('Taveta', -3.4, 37.68),
+        ],
+    },
+    {
+        code: 7, name: 'Garissa', headquarters: 'Garissa', latitude: -0.6, longitude: 40.3, areaKm2: 44175,
+        subCounties: [
+            subCounty('Garissa Township', -0.45, 39.65),
+            subCounty('Dadaab', 0.05, 40.3),
+            subCounty('Fafi', -1.0, 40.2),
+            subCounty('Ijara', -1.6, 40.5),
+            subCounty('Balambala', -0.05, 39.9),
+            subCounty('Lagdera', 0.25, 39.9),
+        ],
+    },
+    {
+        code: 8, name: 'Wajir', headquarters: 'Wajir', latitude: 1.75, longitude: 40.06, areaKm2: 56686,
+        subCounties: [
+            subCounty('Wajir East', 1.75, 40.06),
+            subCounty('Wajir South', 1.01, 39.49),
+            subCounty('Tarbaj', 2.2, 40.1),
+            subCounty('Wajir North', 2.9, 39.8),
+            subCounty('Wajir West', 1.8, 39.6),
+            subCounty('Eldas', 2.5, 39.6),
+        ],
+    },
+    {
+        code: 9, name: 'Mandera', headquarters: 'Mandera', latitude: 3.6, longitude: 40.8, areaKm2: 25797,
+        subCounties: [
+            subCounty('Mandera East', 3.93, 41.86),
+            subCounty('Mandera North', 3.93, 41.22),
+            subCounty('Mandera West', 3.4, 40.23),
+            subCounty('Banissa', 3.92, 40.32),
+            subCounty('Lafey', 3.15, 41.18),
+            subCounty('Mandera South', 2.8, 40.93),
+        ],
+    },
+    {
+        code: 10, name: 'Marsabit', headquarters: 'Marsabit', latitude: 3.0, longitude: 37.6, areaKm2: 70961,
+        subCounties: [
+            subCounty('Saku', 2.33, 37.99),
+            subCounty('Laisamis', 1.6, 37.8),
+            subCounty('Moyale', 3.52, 39.05),
+            subCounty('North Horr', 3.32, 37.07),
+        ],
+    },
+    {
+        code: 11, name: 'Isiolo', headquarters: 'Isiolo', latitude: 1.0, longitude: 38.6, areaKm2: 25336,
+        subCounties: [
+            subCounty('Isiolo North', 0.35, 37.58),
+            subCounty('Isiolo South', 0.53, 38.5),
+        ],
+    },
+    {
+        code: 12, name: 'Meru', headquarters: 'Meru', latitude: 0.1, longitude: 37.7, areaKm2: 6936,
+        subCounties: [
+            subCounty('North Imenti', 0.05, 37.65),
+            subCounty('South Imenti', -0.07, 37.67),
+            subCounty('Igembe South', 0.23, 37.94),
+            subCounty('Buuri', 0.08, 37.24),
+            subCounty('Tigania West', 0.2, 37.75),
+        ],
+    },
+    {
+        code: 13, name: 'Tharaka-Nithi', headquarters: 'Kathwana', latitude: -0.3, longitude: 37.85, areaKm2: 2609,
+        subCounties: [
+            subCounty('Chuka/Igambang\'ombe', -0.33, 37.65),
+            subCounty('Maara', -0.2, 37.65),
+            subCounty('Tharaka', -0.05, 38.0),
+        ],
+    },
+    {
+        code: 14, name: 'Embu', headquarters: 'Embu', latitude: -0.55, longitude: 37.6, areaKm2: 2818,
+        subCounties: [
+            subCounty('Manyatta', -0.52, 37.45),
+            subCounty('Runyenjes', -0.42, 37.57),
+            subCounty('Mbeere South', -0.68, 37.65),
+            subCounty('Mbeere North', -0.58, 37.63),
+        ],
+    },
+    {
+        code: 15, name: 'Kitui', headquarters: 'Kitui', latitude: -1.4, longitude: 38.3, areaKm2: 30497,
+        subCounties: [
+            subCounty('Kitui Central', -1.37, 38.01),
+            subCounty('Mwingi Central', -0.93, 38.06),
+            subCounty('Kitui South', -1.85, 38.2),
+            subCounty('Kitui East', -1.5, 38.3),
+        ],
+    },
+    {
+        code: 16, name: 'Machakos', headquarters: 'Machakos', latitude: -1.3, longitude: 37.4, areaKm2: 6208,
+        subCounties: [
+            subCounty('Machakos Town', -1.52, 37.26),
+            subCounty('Mavoko', -1.45, 36.98),
+            subCounty('Kangundo', -1.3, 37.35),
+            subCounty('Matungulu', -1.27, 37.27),
+            subCounty('Yatta', -1.18, 37.48),
+            subCounty('Masinga', -1.0, 37.6),
+        ],
+    },
+    {
+        code: 17, name: 'Makueni', headquarters: 'Wote', latitude: -2.0, longitude: 37.8, areaKm2: 8009,
+        subCounties: [
+            subCounty('Makueni', -1.78, 37.63),
+            subCounty('Kibwezi West', -2.28, 37.82),
+            subCounty('Kibwezi East', -2.42, 38.0),
+            subCounty('Kilome', -1.88, 37.25),
+            subCounty('Kaiti', -1.8, 37.35),
+            subCounty('Mbooni', -1.64, 37.45),
+        ],
+    },
+    {
+        code: 18, name: 'Nyandarua', headquarters: 'Ol Kalou', latitude: -0.35, longitude: 36.45, areaKm2: 3108,
+        subCounties: [
+            subCounty('Ol Kalou', -0.27, 36.38),
+            subCounty('Kinangop', -0.62, 36.59),
+            subCounty('Ol Joro Orok', -0.03, 36.37),
+            subCounty('Ndaragwa', 0.05, 36.5),
+            subCounty('Kipipiri', -0.45, 36.5),
+        ],
+    },
+    {
+        code: 19, name: 'Nyeri', headquarters: 'Nyeri', latitude: -0.4, longitude: 36.95, areaKm2: 3337,
+        subCounties: [
+            subCounty('Nyeri Town', -0.42, 36.95),
+            subCounty('Othaya', -0.55, 36.94),
+            subCounty('Mathira', -0.48, 37.13),
+            subCounty('Kieni', -0.2, 36.95),
+            subCounty('Tetu', -0.45, 36.9),
+            subCounty('Mukurweini', -0.56, 37.05),
+        ],
+    },
+    {
+        code: 20, name: 'Kirinyaga', headquarters: 'Kerugoya', latitude: -0.55, longitude: 37.3, areaKm2: 1478,
+        subCounties: [
+            subCounty('Kirinyaga Central', -0.5, 37.28),
+            subCounty('Mwea', -0.68, 37.36),
+            subCounty('Gichugu', -0.48, 37.35),
+            subCounty('Ndia', -0.6, 37.2),
+        ],
+    },
+    {
+        code: 21, name: 'Murang\'a', headquarters: 'Murang\'a', latitude: -0.8, longitude: 37.0, areaKm2: 2559,
+        subCounties: [
+            subCounty('Kiharu', -0.72, 37.15),
+            subCounty('Kandara', -0.9, 37.0),
+            subCounty('Gatanga', -0.95, 36.9),
+            subCounty('Kigumo', -0.78, 37.0),
+            subCounty('Mathioya', -0.62, 36.98),
+            subCounty('Kangema', -0.68, 36.97),
+            subCounty('Maragwa', -0.8, 37.13),
+        ],
+    },
+    {
+        code: 22, name: 'Kiambu', headquarters: 'Kiambu', latitude: -1.0, longitude: 36.75, areaKm2: 2543,
+        subCounties: [
+            subCounty('Kiambu', -1.17, 36.83),
+            subCounty('Thika Town', -1.04, 37.08),
+            subCounty('Ruiru', -1.15, 36.96),
+            subCounty('Juja', -1.1, 37.01),
+            subCounty('Githunguri', -1.05, 36.78),
+            subCounty('Limuru', -1.11, 36.64),
+            subCounty('Kikuyu', -1.25, 36.67),
+            subCounty('Kabete', -1.24, 36.73),
+            subCounty('Kiambaa', -1.18, 36.77),
+            subCounty('Lari', -0.98, 36.65),
+            subCounty('Gatundu South', -1.0, 36.9),
+            subCounty('Gatundu North', -0.95, 36.95),
+        ],
+    },
+    {
+        code: 23, name: 'Turkana', headquarters: 'Lodwar', latitude: 3.3, longitude: 35.6, areaKm2: 68680,
+        subCounties: [
+            subCounty('Turkana Central', 3.12, 35.6),
+            subCounty('Turkana West', 3.72, 34.86),
+            subCounty('Turkana South', 2.38, 35.65),
+            subCounty('Turkana North', 4.26, 35.76),
+            subCounty('Loima', 2.9, 35.2),
+            subCounty('Turkana East', 1.95, 36.02),
+        ],
+    },
+    {
+        code: 24, name: 'West Pokot', headquarters: 'Kapenguria', latitude: 1.6, longitude: 35.3, areaKm2: 9169,
+        subCounties: [
+            subCounty('Kapenguria', 1.24, 35.11),
+            subCounty('Kacheliba', 1.49, 35.01),
+            subCounty('Sigor', 1.48, 35.47),
+            subCounty('Pokot South', 1.3, 35.3),
+        ],
+    },
+    {
+        code: 25, name: 'Samburu', headquarters: 'Maralal', latitude: 1.3, longitude: 37.0, areaKm2: 20182,
+        subCounties: [
+            subCounty('Samburu West', 1.1, 36.7),
+            subCounty('Samburu North', 1.78, 36.79),
+            subCounty('Samburu East', 0.98, 37.32),
+        ],
+    },
+    {
+        code: 26, name: 'Trans Nzoia', headquarters: 'Kitale', latitude: 1.05, longitude: 34.95, areaKm2: 2496,
+        subCounties: [
+            subCounty('Kiminini', 0.9, 34.92),
+            subCounty('Saboti', 1.02, 35.0),
+            subCounty('Kwanza', 1.16, 34.95),
+            subCounty('Endebess', 1.08, 34.85),
+            subCounty('Cherangany', 1.0, 35.15),
+        ],
+    },
+    {
+        code: 27, name: 'Uasin Gishu', headquarters: 'Eldoret', latitude: 0.55, longitude: 35.3, areaKm2: 3345,
+        subCounties: [
+            subCounty('Ainabkoi', 0.45, 35.45),
+            subCounty('Kapseret', 0.48, 35.25),
+            subCounty('Kesses', 0.35, 35.35),
+            subCounty('Moiben', 0.8, 35.38),
+            subCounty('Soy', 0.68, 35.15),
+            subCounty('Turbo', 0.63, 35.05),
+        ],
+    },
+    {
+        code: 28, name: 'Elgeyo-Marakwet', headquarters: 'Iten', latitude: 0.8, longitude: 35.55, areaKm2: 3049,
+        subCounties: [
+            subCounty('Keiyo North', 0.67, 35.51),
+            subCounty('Keiyo South', 0.4, 35.55),
+            subCounty('Marakwet East', 1.1, 35.6),
+            subCounty('Marakwet West', 0.98, 35.56),
+        ],
+    },
+    {
+        code: 29, name: 'Nandi', headquarters: 'Kapsabet', latitude: 0.2, longitude: 35.1, areaKm2: 2884,
+        subCounties: [
+            subCounty('Emgwen', 0.2, 35.1),
+            subCounty('Aldai', 0.05, 34.95),
+            subCounty('Chesumei', 0.25, 35.0),
+            subCounty('Mosop', 0.45, 35.15),
+            subCounty('Nandi Hills', 0.1, 35.18),
+            subCounty('Tinderet', -0.05, 35.35),
+        ],
+    },
+    {
+        code: 30, name: 'Baringo', headquarters: 'Kabarnet', latitude: 0.7, longitude: 35.95, areaKm2: 11015,
+        subCounties: [
+            subCounty('Baringo Central', 0.49, 35.74),
+            subCounty('Baringo North', 0.65, 35.8),
+            subCounty('Eldama Ravine', 0.05, 35.72),
+            subCounty('Mogotio', -0.02, 35.97),
+            subCounty('Tiaty', 0.98, 35.98),
+            subCounty('Baringo South', 0.47, 35.98),
+        ],
+    },
+    {
+        code: 31, name: 'Laikipia', headquarters: 'Rumuruti', latitude: 0.35, longitude: 36.8, areaKm2: 9462,
+        subCounties: [
+            subCounty('Laikipia East', 0.01, 37.07),
+            subCounty('Laikipia West', 0.27, 36.54),
+            subCounty('Laikipia North', 0.4, 37.17),
+        ],
+    },
+    {
+        code: 32, name: 'Nakuru', headquarters: 'Nakuru', latitude: -0.4, longitude: 36.1, areaKm2: 7509,
+        subCounties: [
+            subCounty('Nakuru Town East', -0.28, 36.08),
+            subCounty('Nakuru Town West', -0.3, 36.05),
+            subCounty('Naivasha', -0.72, 36.43),
+            subCounty('Gilgil', -0.5, 36.32),
+            subCounty('Molo', -0.25, 35.73),
+            subCounty('Njoro', -0.33, 35.94),
+            subCounty('Rongai', -0.17, 35.87),
+            subCounty('Bahati', -0.15, 36.15),
+            subCounty('Subukia', 0.0, 36.22),
+            subCounty('Kuresoi', -0.45, 35.6),
+        ],
+    },
+    {
+        code: 33, name: 'Narok', headquarters: 'Narok', latitude: -1.3, longitude: 35.6, areaKm2: 17921,
+        subCounties: [
+            subCounty('Narok North', -1.08, 35.87),
+            subCounty('Narok South', -1.0, 35.65),
+            subCounty('Narok West', -1.5, 35.15),
+            subCounty('Narok East', -1.1, 36.35),
+            subCounty('Emurua Dikirr', -0.9, 35.3),
+            subCounty('Kilgoris', -1.0, 34.88),
+        ],
+    },
+    {
+        code: 34, name: 'Kajiado', headquarters: 'Kajiado', latitude: -2.0, longitude: 36.9, areaKm2: 21901,
+        subCounties: [
+            subCounty('Kajiado North', -1.39, 36.7),
+            subCounty('Kajiado Central', -1.85, 36.78),
+            subCounty('Kajiado East', -1.47, 36.95),
+            subCounty('Kajiado West', -1.8, 36.5),
+            subCounty('Kajiado South', -2.93, 37.51),
+        ],
+    },
+    {
+        code: 35, name: 'Kericho', headquarters: 'Kericho', latitude: -0.35, longitude: 35.3, areaKm2: 2479,
+        subCounties: [
+            subCounty('Ainamoi', -0.37, 35.28),
+            subCounty('Belgut', -0.45, 35.2),
+            subCounty('Bureti', -0.58, 35.19),
+            subCounty('Kipkelion East', -0.17, 35.6),
+            subCounty('Kipkelion West', -0.2, 35.47),
+            subCounty('Sigowet/Soin', -0.45, 35.1),
+        ],
+    },
+    {
+        code: 36, name: 'Bomet', headquarters: 'Bomet', latitude: -0.75, longitude: 35.35, areaKm2: 1997,
+        subCounties: [
+            subCounty('Bomet Central', -0.78, 35.34),
+            subCounty('Bomet East', -0.8, 35.45),
+            subCounty('Chepalungu', -0.95, 35.2),
+            subCounty('Sotik', -0.68, 35.12),
+            subCounty('Konoin', -0.65, 35.3),
+        ],
+    },
+    {
+        code: 37, name: 'Kakamega', headquarters: 'Kakamega', latitude: 0.3, longitude: 34.75, areaKm2: 3051,
+        subCounties: [
+            subCounty('Lurambi', 0.28, 34.75),
+            subCounty('Mumias West', 0.34, 34.49),
+            subCounty('Butere', 0.21, 34.49),
+            subCounty('Malava', 0.45, 34.85),
+            subCounty('Lugari', 0.65, 34.9),
+            subCounty('Shinyalu', 0.2, 34.85),
+            subCounty('Ikolomani', 0.18, 34.7),
+            subCounty('Khwisero', 0.15, 34.6),
+            subCounty('Matungu', 0.4, 34.52),
+            subCounty('Navakholo', 0.42, 34.65),
+            subCounty('Likuyani', 0.7, 35.0),
+        ],
+    },
+    {
+        code: 38, name: 'Vihiga', headquarters: 'Mbale', latitude: 0.05, longitude: 34.7, areaKm2: 531,
+        subCounties: [
+            subCounty('Vihiga', 0.08, 34.72),
+            subCounty('Sabatia', 0.12, 34.75),
+            subCounty('Hamisi', 0.07, 34.8),
+            subCounty('Luanda', 0.02, 34.6),
+            subCounty('Emuhaya', 0.05, 34.62),
+        ],
+    },
+    {
+        code: 39, name: 'Bungoma', headquarters: 'Bungoma', latitude: 0.75, longitude: 34.6, areaKm2: 2207,
+        subCounties: [
+            subCounty('Kanduyi', 0.57, 34.56),
+            subCounty('Webuye East', 0.6, 34.77),
+            subCounty('Kimilili', 0.79, 34.72),
+            subCounty('Tongaren', 0.75, 34.93),
+            subCounty('Sirisia', 0.73, 34.47),
+            subCounty('Mt Elgon', 0.88, 34.6),
+        ],
+    },
+    {
+        code: 40, name: 'Busia', headquarters: 'Busia', latitude: 0.35, longitude: 34.2, areaKm2: 1695,
+        subCounties: [
+            subCounty('Matayos', 0.46, 34.11),
+            subCounty('Nambale', 0.45, 34.25),
+            subCounty('Butula', 0.34, 34.33),
+            subCounty('Funyula', 0.28, 34.1),
+            subCounty('Budalangi', 0.15, 34.0),
+            subCounty('Teso North', 0.63, 34.28),
+            subCounty('Teso South', 0.55, 34.25),
+        ],
+    },
+    {
+        code: 41, name: 'Siaya', headquarters: 'Siaya', latitude: 0.05, longitude: 34.3, areaKm2: 2530,
+        subCounties: [
+            subCounty('Alego Usonga', 0.06, 34.29),
+            subCounty('Bondo', -0.1, 34.27),
+            subCounty('Ugenya', 0.25, 34.3),
+            subCounty('Ugunja', 0.18, 34.28),
+            subCounty('Gem', 0.1, 34.53),
+            subCounty('Rarieda', -0.17, 34.35),
+        ],
+    },
+    {
+        code: 42, name: 'Kisumu', headquarters: 'Kisumu', latitude: -0.1, longitude: 34.8, areaKm2: 2086,
+        subCounties: [
+            subCounty('Kisumu Central', -0.1, 34.76, [
+                point('Market Milimani', -0.1, 34.76),
+                point('Kondele', -0.09, 34.77),
+                point('Railways', -0.105, 34.75),
+                point('Migosi', -0.1, 34.78),
+                point('Shaurimoyo Kaloleni', -0.097, 34.765),
+                point('Nyalenda B', -0.12, 34.77),
+            ]),
+            subCounty('Kisumu East', -0.08, 34.83),
+            subCounty('Kisumu West', -0.08, 34.65),
+            subCounty('Seme', -0.1, 34.5),
+            subCounty('Nyando', -0.18, 35.05),
+            subCounty('Muhoroni', -0.15, 35.2),
+            subCounty('Nyakach', -0.35, 34.95),
+        ],
+    },
+    {
+        code: 43, name: 'Homa Bay', headquarters: 'Homa Bay', latitude: -0.6, longitude: 34.45, areaKm2: 3155,
+        subCounties: [
+            subCounty('Homa Bay Town', -0.53, 34.46),
+            subCounty('Rangwe', -0.6, 34.58),
+            subCounty('Ndhiwa', -0.73, 34.37),
+            subCounty('Suba North', -0.43, 34.2),
+            subCounty('Suba South', -0.7, 34.1),
+            subCounty('Kasipul', -0.5, 34.73),
+            subCounty('Karachuonyo', -0.36, 34.64),
+            subCounty('Kabondo Kasipul', -0.45, 34.8),
+        ],
+    },
+    {
+        code: 44, name: 'Migori', headquarters: 'Migori', latitude: -1.05, longitude: 34.4, areaKm2: 2586,
+        subCounties: [
+            subCounty('Suna East', -1.06, 34.47),
+            subCounty('Suna West', -1.05, 34.35),
+            subCounty('Awendo', -0.9, 34.53),
+            subCounty('Rongo', -0.76, 34.6),
+            subCounty('Uriri', -0.95, 34.55),
+            subCounty('Kuria West', -1.2, 34.48),
+            subCounty('Kuria East', -1.25, 34.6),
+            subCounty('Nyatike', -0.95, 34.2),
+        ],
+    },
+    {
+        code: 45, name: 'Kisii', headquarters: 'Kisii', latitude: -0.75, longitude: 34.75, areaKm2: 1318,
+        subCounties: [
+            subCounty('Kitutu Chache South', -0.68, 34.77),
+            subCounty('Nyaribari Chache', -0.7, 34.8),
+            subCounty('Bobasi', -0.8, 34.85),
+            subCounty('Bomachoge Borabu', -0.8, 34.68),
+            subCounty('South Mugirango', -0.82, 34.63),
+            subCounty('Bonchari', -0.72, 34.72),
+            subCounty('Nyaribari Masaba', -0.75, 34.9),
+            subCounty('Kitutu Chache North', -0.6, 34.8),
+        ],
+    },
+    {
+        code: 46, name: 'Nyamira', headquarters: 'Nyamira', latitude: -0.6, longitude: 34.9, areaKm2: 899,
+        subCounties: [
+            subCounty('West Mugirango', -0.57, 34.93),
+            subCounty('North Mugirango', -0.5, 34.97),
+            subCounty('Borabu', -0.6, 35.05),
+            subCounty('Kitutu Masaba', -0.65, 34.88),
+        ],
+    },
+    {
+        code: 47, name: 'Nairobi', headquarters: 'Nairobi', latitude: -1.29, longitude: 36.82, areaKm2: 696,
+        subCounties: [
+            subCounty('Westlands', -1.265, 36.8, [
+                point('Kitisuru', -1.22, 36.78),
+                point('Parklands/Highridge', -1.26, 36.82),
+                point('Karura', -1.24, 36.82),
+                point('Kangemi', -1.265, 36.745),
+                point('Mountain View', -1.26, 36.76),
+            ]),
+            subCounty('Dagoretti North', -1.29, 36.77, [
+                point('Kilimani', -1.29, 36.79),
+                point('Kawangware', -1.285, 36.75),
+                point('Gatina', -1.28, 36.76),
+                point('Kileleshwa', -1.28, 36.78),
+                point('Kabiro', -1.29, 36.74),
+            ]),
+            subCounty('Dagoretti South', -1.3, 36.72, [
+                point('Riruta', -1.29, 36.73),
+                point('Waithaka', -1.28, 36.71),
+            ]),
+            subCounty('Lang\'ata', -1.34, 36.77, [
+                point('Karen', -1.32, 36.71),
+                point('Nairobi West', -1.31, 36.82),
+                point('South C', -1.32, 36.83),
+                point('Nyayo Highrise', -1.31, 36.79),
+            ]),
+            subCounty('Kibra', -1.31, 36.78, [
+                point('Woodley/Kenyatta Golf Course', -1.3, 36.79),
+            ]),
+            subCounty('Roysambu', -1.22, 36.88, [
+                point('Githurai', -1.2, 36.91),
+                point('Kahawa West', -1.18, 36.9),
+                point('Zimmerman', -1.21, 36.89),
+                point('Roysambu', -1.22, 36.87),
+                point('Kahawa', -1.18, 36.93),
+            ]),
+            subCounty('Kasarani', -1.22, 36.9, [
+                point('Mwiki', -1.21, 36.94),
+                point('Kasarani', -1.22, 36.9),
+                point('Njiru', -1.25, 36.95),
+                point('Ruai', -1.27, 37.0),
+            ]),
+            subCounty('Ruaraka', -1.24, 36.87, [
+                point('Utalii', -1.23, 36.87),
+                point('Korogocho', -1.25, 36.89),
+            ]),
+            subCounty('Embakasi South', -1.32, 36.9, [
+                point('Imara Daima', -1.32, 36.88),
+                point('Pipeline', -1.31, 36.9),
+            ]),
+            subCounty('Embakasi North', -1.26, 36.91, [
+                point('Dandora', -1.25, 36.9),
+            ]),
+            subCounty('Embakasi Central', -1.28, 36.92, [
+                point('Kayole', -1.27, 36.92),
+                point('Komarock', -1.265, 36.91),
+            ]),
+            subCounty('Embakasi East', -1.31, 36.93, [
+                point('Embakasi', -1.32, 36.92),
+                point('Utawala', -1.29, 36.97),
+            ]),
+            subCounty('Embakasi West', -1.29, 36.88, [
+                point('Umoja', -1.28, 36.89),
+                point('Kariobangi South', -1.27, 36.88),
+            ]),
+            subCounty('Makadara', -1.3, 36.86, [
+                point('Viwandani', -1.31, 36.86),
+                point('Makongeni', -1.295, 36.86),
+            ]),
+            subCounty('Kamukunji', -1.28, 36.84, [
+                point('Eastleigh North', -1.27, 36.85),
+                point('Eastleigh South', -1.28, 36.85),
+            ]),
+            subCounty('Starehe', -1.28, 36.83, [
+                point('Nairobi Central', -1.285, 36.825),
+                point('Ngara', -1.275, 36.82),
+                point('Pangani', -1.27, 36.835),
+                point('Nairobi South', -1.31, 36.84),
+            ]),
+            subCounty('Mathare', -1.26, 36.86, [
+                point('Huruma', -1.255, 36.87),
+            ]),
+        ],
+    },
+];
+
+export const KENYA_LANDMARKS: GazetteerLandmark[] = [
+    { name: 'Jomo Kenyatta International Airport', type: 'airport', latitude: -1.3192, longitude: 36.9278 },
+    { name: 'Wilson Airport', type: 'airport', latitude: -1.3217, longitude: 36.8148 },
+    { name: 'Kenyatta International Convention Centre', type: 'landmark', latitude: -1.2889, longitude: 36.8233 },
+    { name: 'Kenyatta National Hospital', type: 'hospital', latitude: -1.3007, longitude: 36.8066 },
+    { name: 'Uhuru Park', type: 'park', latitude: -1.2884, longitude: 36.8163 },
+    { name: 'Nairobi National Park', type: 'park', latitude: -1.36, longitude: 36.83 },
+    { name: 'Nairobi SGR Terminus', type: 'transport', latitude: -1.3906, longitude: 36.9364 },
+    { name: 'Moi International Airport', type: 'airport', latitude: -4.0348, longitude: 39.5942 },
+    { name: 'Fort Jesus', type: 'landmark', latitude: -4.0627, longitude: 39.6794 },
+    { name: 'Likoni Ferry', type: 'transport', latitude: -4.074, longitude: 39.665 },
+    { name: 'Port of Mombasa', type: 'port', latitude: -4.0601, longitude: 39.6426 },
+    { name: 'Malindi Airport', type: 'airport', latitude: -3.2293, longitude: 40.1017 },
+    { name: 'Manda Airport', type: 'airport', latitude: -2.2524, longitude: 40.9131 },
+    { name: 'Kisumu International Airport', type: 'airport', latitude: -0.0861, longitude: 34.7289 },
+    { name: 'Kisumu Port', type: 'port', latitude: -0.098, longitude: 34.748 },
+    { name: 'Eldoret International Airport', type: 'airport', latitude: 0.4045, longitude: 35.2389 },
+    { name: 'Moi Teaching and Referral Hospital', type: 'hospital', latitude: 0.5156, longitude: 35.2826 },
+    { name: 'Lake Nakuru National Park', type: 'park', latitude: -0.36, longitude: 36.08 },
+    { name: 'Hell\'s Gate National Park', type: 'park', latitude: -0.9146, longitude: 36.3097 },
+    { name: 'Mount Kenya', type: 'landmark', latitude: -0.1521, longitude: 37.3084 },
+    { name: 'Isiolo Airport', type: 'airport', latitude: 0.3381, longitude: 37.5917 },
+    { name: 'Wajir Airport', type: 'airport', latitude: 1.7332, longitude: 40.0916 },
+    { name: 'Lodwar Airport', type: 'airport', latitude: 3.1219, longitude: 35.6087 },
+    { name: 'Kitale Airport', type: 'airport', latitude: 0.972, longitude: 34.9586 },
+    { name: 'Maasai Mara National Reserve', type: 'park', latitude: -1.49, longitude: 35.14 },
+    { name: 'Amboseli National Park', type: 'park', latitude: -2.65, longitude: 37.26 },
+    { name: 'Tsavo East National Park', type: 'park', latitude: -2.9, longitude: 38.7 },
+    { name: 'Busia One Stop Border Post', type: 'border', latitude: 0.4608, longitude: 34.0902 },
+    { name: 'Malaba Border Post', type: 'border', latitude: 0.6335, longitude: 34.2825 },
+    { name: 'Namanga Border Post', type: 'border', latitude: -2.5483, longitude: 36.7866 },
+    { name: 'Isebania Border Post', type: 'border', latitude: -1.2333, longitude: 34.4804 },
+    { name: 'Moyale Border Post', type: 'border', latitude: 3.52, longitude: 39.05 },
+];
@@ -0,0 +1,179 @@
+import h3 from 'h3-js';
+import type { RawCoordinates } from '../../types/index.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+import {
+    KENYA_COUNTIES,
+    KENYA_LANDMARKS,
+    type GazetteerCounty,
+    type GazetteerLandmark,
+    type GazetteerPoint,
+} from './gazetteer-data.js';
+
+/**
+ * Offline Gazetteer
+ *
+ * Names an H3 cell by county, sub-county and ward using the bundled dataset,
+ * without any network lookup. Wards are only named in the urban areas the
+ * dataset covers; elsewhere names stop at the sub-county. Cells are resolved from their centre, so the
+ * name never says more about a location than the zone itself does.
+ */
+
+export interface AdminNames {
+    county: string;
+    countyCode: number;
+    subCounty: string;
+    ward: string | null;
+}
+
+export interface NearbyLandmark {
+    name: string;
+    type: GazetteerLandmark['type'];
+    distanceMeters: number;
+}
+
+export interface ZoneDetails {
+    zoneId: string;
+    resolution: number;
+    center: RawCoordinates;
+    // GeoJSON ring order: [longitude, latitude], closed
+    boundary: [number, number][];
+    neighbours: string[];
+    admin: AdminNames | null;
+    landmarks: NearbyLandmark[];
+    description: string;
+}
+
+const GAZETTEER = {
+    countyCandidates: 3,         // Counties whose sub-counties are compared
+    maxCountyDistanceRatio: 1.6, // Beyond this many county radii: outside Kenya
+    maxWardDistanceMeters: 4000, // Ward points only cover urban areas
+    landmarkRadiusMeters: 5000,
+    maxLandmarks: 3,
+};
+
+// Named cells rarely change; keep a bounded lookup cache
+const MAX_CACHED_CELLS = 5000;
+const adminCache = new Map<string, AdminNames | null>();
+
+function toCoords(point: GazetteerPoint): RawCoordinates {
+    return { latitude: point.latitude, longitude: point.longitude };
+}
+
+function nearest<T extends GazetteerPoint>(coords: RawCoordinates, points: T[]): { point: T; distance: number } | null {
+    let best: { point: T; distance: number } | null = null;
+    for (const point of points) {
+        const distance = calculateDistance(coords, toCoords(point));
+        if (!best || distance < best.distance) {
+            best = { point, distance };
+        }
+    }
+    return best;
+}
+
+/**
+ * County centroids alone misplace points near the edges of large counties, so
+ * the closest few counties (by distance relative to their size) are shortlisted
+ * and the nearest sub-county among them decides.
+ */
+function resolveAdmin(coords: RawCoordinates): AdminNames | null {
+    const ranked = KENYA_COUNTIES
+        .map(county => ({
+            county,
+            ratio: calculateDistance(coords, toCoords(county)) / (Math.sqrt(county.areaKm2 / Math.PI) * 1000),
+        }))
+        .sort((a, b) => a.ratio - b.ratio);
+
+    const closest = ranked[0];
+    if (!closest || closest.ratio > GAZETTEER.maxCountyDistanceRatio) {
+        return null;
+    }
+
+    let match: { county: GazetteerCounty; subCounty: GazetteerCounty['subCounties'][number]; distance: number } | null = null;
+    for (const { county } of ranked.slice(0, GAZETTEER.countyCandidates)) {
+        const candidate = nearest(coords, county.subCounties);
+        if (candidate && (!match || candidate.distance < match.distance)) {
+            match = { county, subCounty: candidate.point, distance: candidate.distance };
+        }
+    }
+    if (!match) {
+        return null;
+    }
+
+    const ward = nearest(coords, match.subCounty.wards);
+    return {
+        county: match.county.name,
+        countyCode: match.county.code,
+        subCounty: match.subCounty.name,
+        ward: ward && ward.distance <= GAZETTEER.maxWardDistanceMeters ? ward.point.name : null,
+    };
+}
+
+/**
+ * Admin names for the centre of an H3 cell, or null outside Kenya
+ */
+export function lookupAdminNames(zoneId: string): AdminNames | null {
+    const cached = adminCache.get(zoneId);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const [latitude, longitude] = h3.cellToLatLng(zoneId);
+    const admin = resolveAdmin({ latitude, longitude });
+
+    if (adminCache.size >= MAX_CACHED_CELLS) {
+        const oldest = adminCache.keys().next().value;
+        if (oldest !== undefined) adminCache.delete(oldest);
+    }
+    adminCache.set(zoneId, admin);
+    return admin;
+}
+
+/**
+ * Human-readable name for a zone
+ * Coarse cells (resolution 6 and below) are only named down to the county
+ */
+export function describeZone(zoneId: string): string {
+    const resolution = h3.getResolution(zoneId);
+    const admin = lookupAdminNames(zoneId);
+    if (!admin) {
+        return `Zone level ${resolution}`;
+    }
+
+    if (resolution <= 6) {
+        return `${admin.county} County`;
+    }
+    return [admin.ward, admin.subCounty, `${admin.county} County`]
+        .filter((part): part is string => part !== null)
+        .join(', ');
+}
+
+export function findNearbyLandmarks(coords: RawCoordinates): NearbyLandmark[] {
+    return KENYA_LANDMARKS
+        .map(landmark => ({
+            name: landmark.name,
+            type: landmark.type,
+            distanceMeters: Math.round(calculateDistance(coords, toCoords(landmark))),
+        }))
+        .filter(landmark => landmark.distanceMeters <= GAZETTEER.landmarkRadiusMeters)
+        .sort((a, b) => a.distanceMeters - b.distanceMeters)
+        .slice(0, GAZETTEER.maxLandmarks);
+}
+
+/**
+ * Centre, boundary, neighbouring cells and names for a valid H3 cell
+ */
+export function getZoneDetails(zoneId: string): ZoneDetails {
+    const [latitude, longitude] = h3.cellToLatLng(zoneId);
+    const center = { latitude, longitude };
+
+    return {
+        zoneId,
+        resolution: h3.getResolution(zoneId),
+        center,
+        boundary: h3.cellToBoundary(zoneId, true) as [number, number][],
+        neighbours: h3.gridDisk(zoneId, 1).filter(cell => cell !== zoneId),
+        admin: lookupAdminNames(zoneId),
+        landmarks: findNearbyLandmarks(center),
+        description: describeZone(zoneId),
+    };
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import h3 from 'h3-js';
+import type { UserRole } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import {
+    findLocationHistoryZones,
+    findAlertZones,
+    type ZoneObservation,
+} from '../../database/repositories/security.repository.js';
+
+/**
+ * Zone Heatmap
+ *
+ * Counts distinct drivers per H3 cell over a time window. Cells seen by fewer
+ * than k drivers are left out entirely, so no cell can be traced back to one
+ * driver; Laplace noise can be added on top for published views.
+ */
+
+export type HeatmapSource = 'deliveries' | 'alerts';
+
+export interface HeatmapQuery {
+    source?: HeatmapSource;
+    resolution?: number;
+    from?: string;
+    to?: string;
+    minDrivers?: number;
+    epsilon?: number;
+}
+
+interface HeatmapFeature {
+    type: 'Feature';
+    geometry: { type: 'Polygon'; coordinates: number[][][] };
+    properties: { zoneId: string; drivers: number };
+}
+
+export interface HeatmapResult {
+    type: 'FeatureCollection';
+    features: HeatmapFeature[];
+    metadata: {
+        source: HeatmapSource;
+        resolution: number;
+        from: string;
+        to: string;
+        minDrivers: number;
+        epsilon: number | null;
+        suppressedCells: number;
+    };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Stored zones are resolution 5-9; a heatmap cannot be finer than the data
+export const HEATMAP_MIN_RESOLUTION = 5;
+export const HEATMAP_MAX_RESOLUTION = 8;
+const DEFAULT_RESOLUTION = 7;
+
+/**
+ * Laplace(0, scale) sample using the inverse CDF
+ */
+function laplaceNoise(scale: number): number {
+    const u = crypto.randomInt(1, 2 ** 47) / 2 ** 47 - 0.5;
+    return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+}
+
+/**
+ * Group observations into cells at the target resolution
+ * Zones coarser than the target (e.g. private-zone parents) cannot be placed and are skipped
+ */
+function driversPerCell(observations: ZoneObservation[], resolution: number): Map<string, Set<string>> {
+    const cells = new Map<string, Set<string>>();
+    for (const { driverId, zoneId } of observations) {
+        if (!h3.isValidCell(zoneId) || h3.getResolution(zoneId) < resolution) continue;
+
+        const cell = h3.cellToParent(zoneId, resolution);
+        const drivers = cells.get(cell) ?? new Set<string>();
+        drivers.add(driverId);
+        cells.set(cell, drivers);
+    }
+    return cells;
+}
+
+export function buildHeatmap(
+    query: HeatmapQuery,
+    actor: { id: string; role: UserRole },
+    now: Date = new Date()
+): HeatmapResult {
+    const source = query.source ?? 'deliveries';
+    const resolution = query.resolution ?? DEFAULT_RESOLUTION;
+    // Callers may raise k but never go below the configured floor
+    const minDrivers = Math.max(query.minDrivers ?? config.heatmapMinDrivers, config.heatmapMinDrivers);
+
+    // Zone history is only read back for MAX_LOCATION_HISTORY_HOURS; alerts are kept longer
+    const defaultFrom = new Date(now.getTime() - config.maxLocationHistoryHours * HOUR_MS);
+    const requestedFrom = query.from ? new Date(query.from) : defaultFrom;
+    const requestedTo = query.to ? new Date(query.to) : now;
+    const from = (source === 'deliveries' && requestedFrom < defaultFrom ? defaultFrom : requestedFrom).toISOString();
+    const to = (requestedTo > now ? now : requestedTo).toISOString();
+
+    const observations = source === 'alerts' ? findAlertZones(from, to) : findLocationHistoryZones(from, to);
+    const cells = driversPerCell(observations, resolution);
+
+    const features: HeatmapFeature[] = [];
+    for (const [zoneId, drivers] of cells) {
+        if (drivers.size < minDrivers) continue;
+
+        const noisy = query.epsilon ? drivers.size + laplaceNoise(1 / query.epsilon) : drivers.size;
+        features.push({
+            type: 'Feature',
+            geometry: { type: 'Polygon', coordinates: [h3.cellToBoundary(zoneId, true)] },
+            properties: { zoneId, drivers: Math.max(0, Math.round(noisy)) },
+        });
+    }
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'location_heatmap_read',
+        resourceType: 'location_heatmap',
+        metadata: { source, resolution, from, to, minDrivers, epsilon: query.epsilon, cells: features.length },
+        result: 'success',
+    });
+
+    return {
+        type: 'FeatureCollection',
+        features,
+        metadata: {
+            source,
+            resolution,
+            from,
+            to,
+            minDrivers,
+            epsilon: query.epsilon ?? null,
+            suppressedCells: cells.size - features.length,
+        },
+    };
+}
@@ -0,0 +1,64 @@
+import type { UserRole, UUID } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import {
+    findLocationHistoryWindow,
+    type LocationHistoryRecord,
+} from '../../database/repositories/security.repository.js';
+
+/**
+ * Location History
+ * Obfuscated zone history per driver and per delivery. Rows are kept until
+ * the retention job purges them (legal holds keep them longer), but reads
+ * are clipped to the last MAX_LOCATION_HISTORY_HOURS. Every read is written
+ * to the audit log.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ENTRIES = 5000;
+
+export interface LocationHistoryResult {
+    entries: LocationHistoryRecord[];
+    window: { from: string; to: string; clipped: boolean };
+    truncated: boolean;
+}
+
+export function getLocationHistory(
+    query: { driverId?: UUID; deliveryId?: UUID; from?: string; to?: string },
+    actor: { id: string; role: UserRole },
+    now: Date = new Date()
+): LocationHistoryResult {
+    const earliest = new Date(now.getTime() - config.maxLocationHistoryHours * HOUR_MS);
+    const requestedFrom = query.from ? new Date(query.from) : earliest;
+    const requestedTo = query.to ? new Date(query.to) : now;
+
+    const from = requestedFrom < earliest ? earliest : requestedFrom;
+    const to = requestedTo > now ? now : requestedTo;
+    const clipped = from !== requestedFrom || to !== requestedTo;
+
+    const rows = findLocationHistoryWindow(
+        { driverId: query.driverId, deliveryId: query.deliveryId, from: from.toISOString(), to: to.toISOString() },
+        MAX_ENTRIES + 1
+    );
+    const truncated = rows.length > MAX_ENTRIES;
+    const entries = truncated ? rows.slice(0, MAX_ENTRIES) : rows;
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'location_history_read',
+        resourceType: 'location_history',
+        resourceId: query.driverId ?? query.deliveryId,
+        metadata: {
+            driverId: query.driverId,
+            deliveryId: query.deliveryId,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            clipped,
+            entries: entries.length,
+        },
+        result: 'success',
+    });
+
+    return { entries, window: { from: from.toISOString(), to: to.toISOString(), clipped }, truncated };
+}
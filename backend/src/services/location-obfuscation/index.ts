@@ -1,15 +1,38 @@
 import { Router } from 'express';
+import h3 from 'h3-js';
 import { z } from 'zod';
-import { coordinatesSchema, formatValidationError } from '../../utils/validators.js';
+import { coordinatesSchema, uuidSchema, formatValidationError } from '../../utils/validators.js';
 import { obfuscateLocation } from './obfuscator.js';
+import { getZoneDetails } from './gazetteer.js';
+import {
+    createPrivacyZone,
+    listPrivacyZones,
+    removePrivacyZone,
+    privacyZoneOwners,
+    MAX_ZONES_PER_OWNER,
+} from './privacy-zones.js';
+import { getLocationHistory } from './history.js';
+import { buildHeatmap, HEATMAP_MIN_RESOLUTION, HEATMAP_MAX_RESOLUTION } from './heatmap.js';
+import { resolveUseCase } from './temporal.js';
+import { requirePermission } from '../../middleware/auth.middleware.js';
+import { hasPermission } from '../privacy-access-control/access-control.js';
+import { getDelivery, canAccessDelivery } from '../delivery-management/lifecycle.js';
+import { requireKnownDelivery } from '../../middleware/delivery.middleware.js';
 
 const router = Router();
 
+// Reject requests for deliveries that do not exist
+router.use(requireKnownDelivery);
+
 router.post('/obfuscate', (req, res) => {
     const schema = z.object({
         latitude: z.number(),
         longitude: z.number(),
         resolution: z.number().int().optional(),
+        useCase: z.enum(['customer_tracking', 'dispatch', 'security_monitoring', 'analytics']).optional(),
+        timestamp: z.string().datetime().optional(),
+        deliveryId: uuidSchema.optional(),
+        driverId: uuidSchema.optional(),
     });
 
     const result = schema.safeParse(req.body);
@@ -18,21 +41,165 @@ router.post('/obfuscate', (req, res) => {
         return;
     }
 
-    const { latitude, longitude, resolution } = result.data;
-    const data = obfuscateLocation({ latitude, longitude }, resolution);
+    const { latitude, longitude, resolution, useCase, timestamp, deliveryId, driverId } = result.data;
+
+    // Tracking state and privacy zones are per driver: drivers act for
+    // themselves, only fleet staff may name another driver
+    if (driverId && req.user?.id !== driverId && !(req.user && hasPermission(req.user.role, 'write:fleet'))) {
+        res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Cannot obfuscate for another driver' } });
+        return;
+    }
+
+    // A delivery brings in its recipient's privacy zones, whose in-zone answer
+    // would locate them; only the recipient, the assigned driver and staff get it
+    if (deliveryId) {
+        const delivery = getDelivery(deliveryId);
+        const allowed = delivery && req.user && canAccessDelivery(delivery, req.user)
+            && (req.user.role !== 'customer' || delivery.recipientId === req.user.id);
+        if (!allowed) {
+            res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Not your delivery' } });
+            return;
+        }
+    }
+
+    // The dwell floor follows the tracked driver, not whoever asks
+    const subjectId = driverId ?? (req.user?.role === 'driver' ? req.user.id : undefined);
+    const data = obfuscateLocation({ latitude, longitude }, resolution, {
+        useCase: resolveUseCase(req.user?.role, useCase),
+        subjectId,
+        timestamp: timestamp ? new Date(timestamp) : undefined,
+        privacyZoneOwners: privacyZoneOwners(subjectId, deliveryId),
+    });
 
     res.json({ success: true, data });
 });
 
+/**
+ * GET /api/location/zones/:zoneId/center
+ * Centre, boundary polygon, neighbouring zones and admin names for an H3 zone
+ */
 router.get('/zones/:zoneId/center', (req, res) => {
-    // Placeholder for zone metadata lookup
-    res.json({
-        success: true,
-        data: {
-            zoneId: req.params.zoneId,
-            description: 'Zone center lookup not fully implemented'
-        }
+    const zoneId = req.params['zoneId'] ?? '';
+    if (!h3.isValidCell(zoneId)) {
+        res.status(400).json({ success: false, error: { code: 'INVALID_ZONE_ID', message: 'Not a valid H3 zone' } });
+        return;
+    }
+
+    res.json({ success: true, data: getZoneDetails(zoneId) });
+});
+
+/**
+ * GET /api/location/history
+ * Obfuscated zone history for a driver and/or delivery, clipped to MAX_LOCATION_HISTORY_HOURS
+ */
+router.get('/history', requirePermission('read:location_history'), (req, res) => {
+    const schema = z.object({
+        driverId: uuidSchema.optional(),
+        deliveryId: uuidSchema.optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+    }).refine(q => q.driverId || q.deliveryId, { message: 'driverId or deliveryId is required' });
+
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const history = getLocationHistory(result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    res.json({ success: true, data: history });
+});
+
+/**
+ * GET /api/location/heatmap
+ * GeoJSON of distinct drivers per zone; cells below k drivers are suppressed
+ */
+router.get('/heatmap', requirePermission('read:location_heatmap'), (req, res) => {
+    const schema = z.object({
+        source: z.enum(['deliveries', 'alerts']).optional(),
+        resolution: z.coerce.number().int().min(HEATMAP_MIN_RESOLUTION).max(HEATMAP_MAX_RESOLUTION).optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+        minDrivers: z.coerce.number().int().min(2).max(100).optional(),
+        epsilon: z.coerce.number().positive().max(10).optional(),
+    });
+
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const heatmap = buildHeatmap(result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    res.json({ success: true, data: heatmap });
+});
+
+/**
+ * GET /api/location/privacy-zones
+ * The caller's own privacy zones
+ */
+router.get('/privacy-zones', (req, res) => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    res.json({ success: true, data: { zones: listPrivacyZones(userId) } });
+});
+
+/**
+ * POST /api/location/privacy-zones
+ * Register a home, clinic or other site where location is suppressed
+ */
+router.post('/privacy-zones', (req, res) => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    const schema = coordinatesSchema.extend({
+        label: z.string().min(1).max(100),
+        radiusMeters: z.number().int().min(50).max(2000).optional(),
+        disclosure: z.enum(['coarse', 'hidden']).optional(),
     });
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const { label, latitude, longitude, radiusMeters, disclosure } = result.data;
+    const zone = createPrivacyZone(userId, label, { latitude, longitude }, radiusMeters, disclosure);
+    if (!zone) {
+        res.status(409).json({
+            success: false,
+            error: { code: 'ZONE_LIMIT_REACHED', message: `At most ${MAX_ZONES_PER_OWNER} privacy zones per user` },
+        });
+        return;
+    }
+
+    res.status(201).json({ success: true, data: zone });
+});
+
+/**
+ * DELETE /api/location/privacy-zones/:zoneId
+ */
+router.delete('/privacy-zones/:zoneId', (req, res) => {
+    const userId = req.user?.id;
+    if (!userId || !removePrivacyZone(userId, req.params['zoneId'] ?? '')) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Privacy zone not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: { deleted: true } });
 });
 
 export { router as locationRouter };
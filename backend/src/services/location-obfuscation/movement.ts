@@ -0,0 +1,119 @@
+import h3 from 'h3-js';
+import type { ObfuscatedLocation, RawCoordinates } from '../../types/index.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+
+/**
+ * Movement-State Inference
+ *
+ * Tells "stationary" from "moving" by speed and displacement between a
+ * driver's fixes. Raw coordinates are never kept: each driver only has an
+ * anchor, the H3 cell and time of the fix the current window started at,
+ * which is replaced as soon as it has been used for a classification.
+ * Fixes older than the driver's latest one are ignored, and drivers who stop
+ * reporting are forgotten after maxFixAgeSeconds.
+ */
+
+type MovementState = ObfuscatedLocation['movementState'];
+
+export interface RawFix {
+    coords: RawCoordinates;
+    timestamp: number;
+}
+
+export const MOVEMENT = {
+    minWindowSeconds: 20,        // Shortest span worth classifying
+    maxFixAgeSeconds: 120,       // Older anchors are discarded unused
+    minMovingSpeedKmh: 5,        // Same threshold as the cargo monitor
+    minMovingDisplacementMeters: 50, // Below this is GPS noise
+    anchorResolution: 11,        // ~25 m edge, well under the displacement threshold
+};
+
+interface MovementTrack {
+    anchorZone: string;
+    anchorAt: number;
+    latestAt: number;            // Newest fix time seen
+    state: MovementState;
+    stateAt: number;
+    touchedAt: number;           // Wall clock, for evicting idle drivers
+}
+
+// Per driver, in memory only; ordered by last update
+const tracks = new Map<string, MovementTrack>();
+
+function evictIdle(nowMs: number): void {
+    for (const [driverId, track] of tracks) {
+        if (nowMs - track.touchedAt <= MOVEMENT.maxFixAgeSeconds * 1000) break;
+        tracks.delete(driverId);
+    }
+}
+
+/**
+ * Moving or stationary between two fixes, by displacement and average speed
+ */
+export function classifyMovement(first: RawFix, last: RawFix): MovementState {
+    const displacement = calculateDistance(first.coords, last.coords);
+    const hours = (last.timestamp - first.timestamp) / (60 * 60 * 1000);
+    const speedKmh = displacement / 1000 / hours;
+
+    return displacement >= MOVEMENT.minMovingDisplacementMeters && speedKmh >= MOVEMENT.minMovingSpeedKmh
+        ? 'moving'
+        : 'stationary';
+}
+
+/**
+ * The track's state as of `at`, or unknown once it has gone stale
+ */
+function stateAt(track: MovementTrack | undefined, at: number): MovementState {
+    return track && at - track.stateAt <= MOVEMENT.maxFixAgeSeconds * 1000 ? track.state : 'unknown';
+}
+
+/**
+ * Classify a raw fix against the driver's anchor and return their current
+ * movement state; the last known state until the window spans long enough
+ */
+export function inferMovementState(driverId: string, coords: RawCoordinates, timestamp: Date): MovementState {
+    const now = timestamp.getTime();
+    const touchedAt = Date.now();
+    evictIdle(touchedAt);
+
+    const track = tracks.get(driverId);
+
+    // Out-of-order or replayed fixes cannot rewind the driver's window
+    if (track && now <= track.latestAt) {
+        return stateAt(track, track.latestAt);
+    }
+
+    const zone = h3.latLngToCell(coords.latitude, coords.longitude, MOVEMENT.anchorResolution);
+    let next: MovementTrack;
+
+    if (!track || now - track.anchorAt > MOVEMENT.maxFixAgeSeconds * 1000) {
+        // Start a new window, keeping the last state while it is still fresh
+        next = {
+            anchorZone: zone,
+            anchorAt: now,
+            latestAt: now,
+            state: stateAt(track, now),
+            stateAt: track?.stateAt ?? now,
+            touchedAt,
+        };
+    } else if (now - track.anchorAt >= MOVEMENT.minWindowSeconds * 1000) {
+        const [latitude, longitude] = h3.cellToLatLng(track.anchorZone);
+        const state = classifyMovement({ coords: { latitude, longitude }, timestamp: track.anchorAt }, { coords, timestamp: now });
+        // This fix anchors the next window
+        next = { anchorZone: zone, anchorAt: now, latestAt: now, state, stateAt: now, touchedAt };
+    } else {
+        next = { ...track, latestAt: now, touchedAt };
+    }
+
+    // Re-insert so the map stays ordered by last update
+    tracks.delete(driverId);
+    tracks.set(driverId, next);
+    return stateAt(next, now);
+}
+
+/**
+ * Forget a driver's anchor and state (e.g. on entering a privacy zone)
+ */
+export function clearMovementWindow(driverId: string): void {
+    tracks.delete(driverId);
+}
@@ -1,26 +1,67 @@
 import h3 from 'h3-js';
 import type { ObfuscatedLocation, RawCoordinates } from '../../types/index.js';
+import { findContainingPrivacyZone } from './privacy-zones.js';
+import { obfuscateTime, type TimeObfuscationUseCase } from './temporal.js';
+import { inferMovementState, clearMovementWindow } from './movement.js';
+import { describeZone } from './gazetteer.js';
 
 const MIN_RESOLUTION = 7; // ~1.2km edge
 const MAX_RESOLUTION = 9; // ~170m edge
 
+// Inside a privacy zone only a parent cell is reported
+const PRIVATE_ZONE_RESOLUTION = 6; // ~3.7km edge
+const HIDDEN_ZONE_RESOLUTION = 5; // ~9.9km edge
+
+export interface ObfuscationOptions {
+    // Who the location is for; sets time bucket size and jitter
+    useCase?: TimeObfuscationUseCase;
+    // Subject being tracked: enables the minimum dwell gap and movement inference
+    subjectId?: string;
+    // When the fix was taken (defaults to now)
+    timestamp?: Date;
+    // Whose privacy zones are honoured (see privacyZoneOwners); none by default
+    privacyZoneOwners?: string[];
+}
+
 export function obfuscateLocation(
     coords: RawCoordinates,
-    resolution: number = 8
+    resolution: number = 8,
+    options: ObfuscationOptions = {}
 ): ObfuscatedLocation {
     // Clamp resolution
     const res = Math.max(MIN_RESOLUTION, Math.min(resolution, MAX_RESOLUTION));
+    const timestamp = options.timestamp ?? new Date();
+    const timeUseCase = options.useCase ?? 'customer_tracking';
+    const approximateTime = obfuscateTime(timestamp, timeUseCase, options.subjectId);
 
     // Get H3 index
     const zoneId = h3.latLngToCell(coords.latitude, coords.longitude, res);
 
+    const privacyZone = findContainingPrivacyZone(coords, options.privacyZoneOwners ?? []);
+    if (privacyZone) {
+        // Raw fixes inside a private zone are not kept, even briefly
+        if (options.subjectId) clearMovementWindow(options.subjectId);
+
+        const parentResolution = privacyZone.disclosure === 'hidden' ? HIDDEN_ZONE_RESOLUTION : PRIVATE_ZONE_RESOLUTION;
+        const parentZoneId = h3.cellToParent(zoneId, parentResolution);
+        return {
+            zoneId: parentZoneId,
+            approximateTime,
+            timeUseCase,
+            movementState: 'unknown',
+            resolution: parentResolution,
+            zoneDescription: privacyZone.disclosure === 'hidden' ? 'In private zone' : describeZone(parentZoneId),
+            inPrivateZone: true,
+        };
+    }
+
     return {
         zoneId,
-        approximateTime: new Date().toISOString(),
-        movementState: 'unknown',
+        approximateTime,
+        timeUseCase,
+        movementState: options.subjectId ? inferMovementState(options.subjectId, coords, timestamp) : 'unknown',
         resolution: res,
-        // In a real app we might lookup a friendly name for the zone
-        zoneDescription: `Zone level ${res}`
+        zoneDescription: describeZone(zoneId),
     };
 }
 
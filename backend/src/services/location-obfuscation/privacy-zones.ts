@@ -0,0 +1,166 @@
+import h3 from 'h3-js';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    H3Index,
+    PrivacyZone,
+    PrivacyZoneDisclosure,
+    RawCoordinates,
+    UUID
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { encrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import { hmacSha256 } from '../../crypto/hashing.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+import { logger } from '../../utils/logger.js';
+import {
+    insertPrivacyZone,
+    findPrivacyZonesByOwner,
+    findPrivacyZonesByCellHash,
+    deletePrivacyZone,
+    type StoredPrivacyZone,
+} from '../../database/repositories/privacy-zone.repository.js';
+import { findDeliveryById } from '../../database/repositories/delivery.repository.js';
+
+/**
+ * Privacy Zones
+ *
+ * Homes, clinics and other sensitive sites where location must not be
+ * disclosed. Centre and label are encrypted with the owner's key; the zone
+ * is found again through HMACs of the H3 cells covering it, so the database
+ * never holds a plaintext cell for a private place.
+ *
+ * A zone only applies to tracking its owner is party to: the driver's own
+ * zones and the zones of the recipient of the delivery being tracked.
+ */
+
+// Lookup cells (~1.4km edge); zones are capped at 2km radius
+const INDEX_RESOLUTION = 7;
+
+export const MAX_ZONES_PER_OWNER = 10;
+
+interface ZoneDetails {
+    label: string;
+    center: RawCoordinates;
+}
+
+function cellHash(cell: string): string {
+    return hmacSha256(`privacy-zone:${cell}`, config.hmacSecret);
+}
+
+/**
+ * Every index cell that could overlap a circle around the centre
+ */
+function coveringCells(center: RawCoordinates, radiusMeters: number): string[] {
+    const edgeMeters = h3.getHexagonEdgeLengthAvg(INDEX_RESOLUTION, h3.UNITS.m);
+    const rings = Math.ceil(radiusMeters / edgeMeters) + 1;
+    const centerCell = h3.latLngToCell(center.latitude, center.longitude, INDEX_RESOLUTION);
+    return h3.gridDisk(centerCell, rings);
+}
+
+function decryptZone(zone: StoredPrivacyZone): PrivacyZone | null {
+    const result = decryptWithStatus(zone.detailsEncrypted, zone.ownerId);
+    if (result.status === 'erased') {
+        return null;
+    }
+
+    const details = JSON.parse(result.plaintext) as ZoneDetails;
+    return {
+        id: zone.id,
+        ownerId: zone.ownerId,
+        label: details.label,
+        center: details.center,
+        radiusMeters: zone.radiusMeters,
+        disclosure: zone.disclosure,
+        createdAt: zone.createdAt,
+    };
+}
+
+export function createPrivacyZone(
+    ownerId: UUID,
+    label: string,
+    center: RawCoordinates,
+    radiusMeters: number = config.privacyZoneDefaultRadiusMeters,
+    disclosure: PrivacyZoneDisclosure = 'coarse'
+): PrivacyZone | null {
+    if (findPrivacyZonesByOwner(ownerId).length >= MAX_ZONES_PER_OWNER) {
+        return null;
+    }
+
+    const details: ZoneDetails = { label, center };
+    const zone: StoredPrivacyZone = {
+        id: uuidv4(),
+        ownerId,
+        detailsEncrypted: encrypt(JSON.stringify(details), ownerId),
+        radiusMeters,
+        disclosure,
+        createdAt: new Date().toISOString(),
+    };
+
+    insertPrivacyZone(zone, coveringCells(center, radiusMeters).map(cellHash));
+    logger.info('Privacy zone created', { zoneId: zone.id, radiusMeters });
+
+    return { ...details, id: zone.id, ownerId, radiusMeters, disclosure, createdAt: zone.createdAt };
+}
+
+export function listPrivacyZones(ownerId: UUID): PrivacyZone[] {
+    return findPrivacyZonesByOwner(ownerId)
+        .map(decryptZone)
+        .filter((zone): zone is PrivacyZone => zone !== null);
+}
+
+export function removePrivacyZone(ownerId: UUID, zoneId: UUID): boolean {
+    return deletePrivacyZone(zoneId, ownerId);
+}
+
+/**
+ * Whose privacy zones apply when tracking a driver on a delivery
+ */
+export function privacyZoneOwners(driverId?: UUID, deliveryId?: UUID): UUID[] {
+    const owners = new Set<UUID>();
+    if (driverId) owners.add(driverId);
+
+    const recipientId = deliveryId ? findDeliveryById(deliveryId)?.recipientId : undefined;
+    if (recipientId) owners.add(recipientId);
+
+    return [...owners];
+}
+
+/**
+ * The private zone of one of `ownerIds` containing a point, if any (the most
+ * restrictive one wins)
+ */
+export function findContainingPrivacyZone(coords: RawCoordinates, ownerIds: UUID[]): PrivacyZone | null {
+    if (ownerIds.length === 0) {
+        return null;
+    }
+
+    const cell = h3.latLngToCell(coords.latitude, coords.longitude, INDEX_RESOLUTION);
+    const containing = findPrivacyZonesByCellHash(cellHash(cell))
+        .filter(zone => ownerIds.includes(zone.ownerId))
+        .map(decryptZone)
+        .filter((zone): zone is PrivacyZone =>
+            zone !== null && calculateDistance(coords, zone.center) <= zone.radiusMeters
+        );
+
+    return containing.find(zone => zone.disclosure === 'hidden') ?? containing[0] ?? null;
+}
+
+/**
+ * Whether an already obfuscated zone overlaps a private zone of one of
+ * `ownerIds`. Zones are compared by centre distance, allowing one cell edge
+ * of slack, so the coarse parent cells reported inside a zone still match.
+ */
+export function zoneOverlapsPrivacyZone(zoneId: H3Index, ownerIds: UUID[]): boolean {
+    if (ownerIds.length === 0 || !h3.isValidCell(zoneId)) {
+        return false;
+    }
+
+    const resolution = h3.getResolution(zoneId);
+    const [latitude, longitude] = h3.cellToLatLng(zoneId);
+    const edgeMeters = h3.getHexagonEdgeLengthAvg(resolution, h3.UNITS.m);
+
+    return ownerIds.some(ownerId => listPrivacyZones(ownerId).some(zone =>
+        h3.latLngToCell(zone.center.latitude, zone.center.longitude, resolution) === zoneId ||
+        calculateDistance({ latitude, longitude }, zone.center) <= zone.radiusMeters + edgeMeters
+    ));
+}
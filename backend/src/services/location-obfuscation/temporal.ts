@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import type { TimeObfuscationUseCase, UserRole } from '../../types/index.js';
+
+/**
+ * Temporal Obfuscation
+ *
+ * Times attached to obfuscated locations are jittered, then floored to a
+ * bucket whose size depends on who will see them. Per subject, reported
+ * times never go backwards and two distinct reported times are always at
+ * least `minDwellSeconds` apart, so short stops cannot be measured by
+ * comparing consecutive updates.
+ */
+
+export type { TimeObfuscationUseCase };
+
+export interface TimeObfuscationPolicy {
+    bucketSeconds: number;
+    jitterSeconds: number;
+    minDwellSeconds: number;
+}
+
+const POLICIES: Record<TimeObfuscationUseCase, TimeObfuscationPolicy> = {
+    customer_tracking: { bucketSeconds: 300, jitterSeconds: 60, minDwellSeconds: 600 },
+    dispatch: { bucketSeconds: 60, jitterSeconds: 15, minDwellSeconds: 120 },
+    security_monitoring: { bucketSeconds: 30, jitterSeconds: 5, minDwellSeconds: 60 },
+    analytics: { bucketSeconds: 900, jitterSeconds: 300, minDwellSeconds: 1800 },
+};
+
+const ROLE_USE_CASES: Record<UserRole, TimeObfuscationUseCase> = {
+    customer: 'customer_tracking',
+    driver: 'dispatch',
+    dispatcher: 'dispatch',
+    security_officer: 'security_monitoring',
+    admin: 'security_monitoring',
+    system: 'security_monitoring',
+};
+
+// Last reported time per use case and subject; short-lived, kept in memory
+const MAX_TRACKED_SUBJECTS = 10000;
+const lastReported = new Map<string, number>();
+
+export function getTimePolicy(useCase: TimeObfuscationUseCase): TimeObfuscationPolicy {
+    return POLICIES[useCase];
+}
+
+/**
+ * The coarsest policy, for times whose use case is not known
+ */
+export function getWidestTimePolicy(): TimeObfuscationPolicy {
+    return Object.values(POLICIES).reduce((widest, policy) =>
+        policy.bucketSeconds > widest.bucketSeconds ? policy : widest);
+}
+
+export function useCaseForRole(role: UserRole): TimeObfuscationUseCase {
+    return ROLE_USE_CASES[role];
+}
+
+/**
+ * The use case a caller gets: their role's (customer tracking when anonymous),
+ * or a requested one only if it is at least as coarse
+ */
+export function resolveUseCase(role: UserRole | undefined, requested?: TimeObfuscationUseCase): TimeObfuscationUseCase {
+    const allowed = role ? ROLE_USE_CASES[role] : 'customer_tracking';
+    if (requested && POLICIES[requested].bucketSeconds >= POLICIES[allowed].bucketSeconds) {
+        return requested;
+    }
+    return allowed;
+}
+
+function remember(key: string, reportedMs: number): void {
+    // Re-insert so the map stays ordered by last use
+    lastReported.delete(key);
+    if (lastReported.size >= MAX_TRACKED_SUBJECTS) {
+        const oldest = lastReported.keys().next().value;
+        if (oldest !== undefined) lastReported.delete(oldest);
+    }
+    lastReported.set(key, reportedMs);
+}
+
+/**
+ * Coarsen a timestamp for a use case
+ * Pass subjectId to enforce the minimum dwell gap across consecutive updates
+ */
+export function obfuscateTime(
+    time: Date,
+    useCase: TimeObfuscationUseCase,
+    subjectId?: string
+): string {
+    const policy = POLICIES[useCase];
+    const bucketMs = policy.bucketSeconds * 1000;
+    const jitterMs = policy.jitterSeconds > 0
+        ? crypto.randomInt(-policy.jitterSeconds * 1000, policy.jitterSeconds * 1000 + 1)
+        : 0;
+
+    let reportedMs = Math.floor((time.getTime() + jitterMs) / bucketMs) * bucketMs;
+
+    if (subjectId) {
+        const key = `${useCase}:${subjectId}`;
+        const previous = lastReported.get(key);
+
+        if (previous !== undefined && reportedMs < previous + policy.minDwellSeconds * 1000) {
+            reportedMs = previous;
+        }
+        remember(key, reportedMs);
+    }
+
+    return new Date(reportedMs).toISOString();
+}
@@ -3,24 +3,41 @@ import type {
     NotificationRecord,
     NotificationChannel,
     NotificationPriority,
+    ConsentPurpose,
     UUID
 } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
 import { encrypt, decrypt } from '../../crypto/encryption.js';
+import { hasConsent } from '../privacy-access-control/consent.js';
+import {
+    insertNotification,
+    updateNotification,
+    findNotificationById,
+    findNotificationsByRecipient,
+    savePreferences,
+    findPreferences,
+    clearNotificationTables,
+} from '../../database/repositories/notification.repository.js';
 
 /**
  * Secure Notification Delivery Service
  * Multi-channel with encryption and retry logic
  */
 
-const notificationStore = new Map<UUID, NotificationRecord>();
-const userPreferences = new Map<UUID, { channels: NotificationChannel[]; quiet: { start: string; end: string } | null }>();
+// Rate limit windows are short-lived and stay in memory
 const rateLimitStore = new Map<string, { count: number; resetAt: Date }>();
 
 // Retry configuration
 const RETRY_DELAYS = [1000, 5000, 30000, 60000, 300000]; // ms
 
+// Marketing templates need consent for the channel; channels without a purpose are never used for marketing
+const MARKETING_TEMPLATE_PREFIX = 'marketing_';
+const MARKETING_CONSENT: Partial<Record<NotificationChannel, ConsentPurpose>> = {
+    sms: 'marketing_sms',
+    whatsapp: 'marketing_whatsapp',
+};
+
 export async function sendNotification(
     recipientId: UUID,
     channel: NotificationChannel,
@@ -28,6 +45,15 @@ export async function sendNotification(
     content: string,
     priority: NotificationPriority = 'normal'
 ): Promise<NotificationRecord> {
+    // Consent
+    if (templateId.startsWith(MARKETING_TEMPLATE_PREFIX)) {
+        const purpose = MARKETING_CONSENT[channel];
+        if (!purpose || !hasConsent(recipientId, purpose)) {
+            logger.info('Marketing notification blocked without consent', { recipientId, channel, templateId });
+            throw new Error('Consent required');
+        }
+    }
+
     // Rate limiting
     const rateLimitKey = `notify:${recipientId}:${channel}`;
     const rateLimit = rateLimitStore.get(rateLimitKey);
@@ -52,7 +78,7 @@ export async function sendNotification(
         maxRetries: RETRY_DELAYS.length,
     };
 
-    notificationStore.set(notification.id, notification);
+    insertNotification(notification);
 
     // Update rate limit
     if (rateLimit) {
@@ -89,6 +115,7 @@ async function deliverNotification(notification: NotificationRecord): Promise<vo
 
         notification.sentAt = new Date().toISOString();
         notification.status = 'sent';
+        updateNotification(notification);
         logger.info('Notification sent', { id: notification.id, channel: notification.channel });
 
     } catch (error) {
@@ -138,11 +165,13 @@ async function scheduleRetry(notification: NotificationRecord): Promise<void> {
     if (notification.retryCount >= notification.maxRetries) {
         notification.status = 'failed';
         notification.failureReason = 'Max retries exceeded';
+        updateNotification(notification);
         return;
     }
 
     const delay = RETRY_DELAYS[notification.retryCount] ?? 60000;
     notification.retryCount++;
+    updateNotification(notification);
 
     setTimeout(async () => {
         await deliverNotification(notification);
@@ -152,11 +181,11 @@ async function scheduleRetry(notification: NotificationRecord): Promise<void> {
 }
 
 export function getNotification(notificationId: UUID): NotificationRecord | null {
-    return notificationStore.get(notificationId) ?? null;
+    return findNotificationById(notificationId);
 }
 
 export function getNotificationsForUser(recipientId: UUID): NotificationRecord[] {
-    return Array.from(notificationStore.values()).filter(n => n.recipientId === recipientId);
+    return findNotificationsByRecipient(recipientId);
 }
 
 export function setUserPreferences(
@@ -164,31 +193,32 @@ export function setUserPreferences(
     channels: NotificationChannel[],
     quiet?: { start: string; end: string }
 ): void {
-    userPreferences.set(userId, { channels, quiet: quiet ?? null });
+    savePreferences(userId, { channels, quiet: quiet ?? null });
 }
 
 export function getUserPreferences(userId: UUID) {
-    return userPreferences.get(userId) ?? { channels: ['sms', 'push'] as NotificationChannel[], quiet: null };
+    return findPreferences(userId) ?? { channels: ['sms', 'push'] as NotificationChannel[], quiet: null };
 }
 
 export function markAsDelivered(notificationId: UUID): boolean {
-    const notification = notificationStore.get(notificationId);
+    const notification = findNotificationById(notificationId);
     if (!notification) return false;
     notification.deliveredAt = new Date().toISOString();
     notification.status = 'delivered';
+    updateNotification(notification);
     return true;
 }
 
 export function markAsRead(notificationId: UUID): boolean {
-    const notification = notificationStore.get(notificationId);
+    const notification = findNotificationById(notificationId);
     if (!notification) return false;
     notification.readAt = new Date().toISOString();
     notification.status = 'read';
+    updateNotification(notification);
     return true;
 }
 
 export function clearNotificationData(): void {
-    notificationStore.clear();
-    userPreferences.clear();
+    clearNotificationTables();
     rateLimitStore.clear();
 }
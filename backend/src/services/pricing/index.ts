@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { formatValidationError } from '../../utils/validators.js';
+import { createQuote, verifyQuote, listCounties, resolveCounty } from './quote.js';
+import { INSURANCE } from './rates.js';
+
+/**
+ * Pricing - API Routes
+ * Public: quotes are requested from the landing page before sign-up
+ */
+
+const router = Router();
+
+const countySchema = z.string().refine(name => resolveCounty(name) !== null, { message: 'Unknown county' });
+
+/**
+ * GET /api/quotes/counties
+ */
+router.get('/counties', (req, res) => {
+    res.json({ success: true, data: { counties: listCounties() } });
+});
+
+/**
+ * POST /api/quotes
+ * Price a shipment under every plan; the quote is signed and expires
+ */
+router.post('/', (req, res) => {
+    const schema = z.object({
+        originCounty: countySchema,
+        destinationCounty: countySchema,
+        weightKg: z.number().positive().max(5000),
+        lengthCm: z.number().positive().max(1000).optional(),
+        widthCm: z.number().positive().max(1000).optional(),
+        heightCm: z.number().positive().max(1000).optional(),
+        declaredValueKes: z.number().nonnegative().max(INSURANCE.maxDeclaredValue).optional(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    res.status(201).json({ success: true, data: createQuote(result.data) });
+});
+
+/**
+ * POST /api/quotes/verify
+ * Check that a quote is unmodified and still valid
+ */
+router.post('/verify', (req, res) => {
+    const schema = z.object({
+        quote: z.object({
+            signature: z.string(),
+            expiresAt: z.string().datetime(),
+        }).passthrough(),
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const status = verifyQuote(result.data.quote);
+    res.json({ success: true, data: { valid: status === 'valid', status } });
+});
+
+export { router as quoteRouter };
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { DateTimeString, UUID } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { hmacSha256 } from '../../crypto/hashing.js';
+import {
+    COUNTY_DISTANCE_KM,
+    DISTANCE_BANDS,
+    INSURANCE,
+    PLAN_RATES,
+    VAT_RATE,
+    VOLUMETRIC_DIVISOR,
+    WEIGHT_TIERS,
+    type PricingPlan,
+} from './rates.js';
+
+/**
+ * Quote Engine
+ *
+ * Prices a shipment under every plan and signs the result, so a quote handed
+ * back later (e.g. at booking) can be checked for tampering and expiry
+ * without storing it.
+ */
+
+export interface QuoteRequest {
+    originCounty: string;
+    destinationCounty: string;
+    weightKg: number;
+    lengthCm?: number;
+    widthCm?: number;
+    heightCm?: number;
+    declaredValueKes?: number;
+}
+
+export interface PriceBreakdown {
+    distanceFee: number;
+    weightFee: number;
+    planAdjustment: number;     // Negative for discounted plans
+    vat: number;
+    insurance: number;
+    total: number;
+}
+
+export interface PlanQuote {
+    plan: PricingPlan;
+    available: boolean;
+    unavailableReason?: string;
+    breakdown: PriceBreakdown;
+    transitDays: { min: number; max: number };
+}
+
+export interface Quote {
+    id: UUID;
+    request: QuoteRequest;
+    distanceKm: number;
+    volumetricWeightKg: number | null;
+    chargeableWeightKg: number;
+    currency: 'KES';
+    plans: PlanQuote[];
+    issuedAt: DateTimeString;
+    expiresAt: DateTimeString;
+    signature: string;
+}
+
+export type QuoteVerification = 'valid' | 'expired' | 'invalid';
+
+// A quote handed back by a client: only the fields verification reads are
+// typed, every other field is covered by the signature as received
+export interface SignedQuote {
+    signature: string;
+    expiresAt: DateTimeString;
+}
+
+const COUNTY_NAMES = new Map([...COUNTY_DISTANCE_KM.keys()].map(name => [name.toLowerCase(), name]));
+
+export function listCounties(): string[] {
+    return [...COUNTY_DISTANCE_KM.keys()].sort();
+}
+
+/**
+ * Canonical county name for case-insensitive input, or null if unknown
+ */
+export function resolveCounty(name: string): string | null {
+    return COUNTY_NAMES.get(name.trim().toLowerCase()) ?? null;
+}
+
+function distanceFee(distanceKm: number): number {
+    const band = DISTANCE_BANDS.find(b => distanceKm <= b.maxKm);
+    return band?.fee ?? 0;
+}
+
+function weightFee(weightKg: number): number {
+    let fee = 0;
+    let lower = 0;
+    for (const tier of WEIGHT_TIERS) {
+        if (weightKg <= lower) break;
+        fee += (Math.min(weightKg, tier.upToKg) - lower) * tier.perKg;
+        lower = tier.upToKg;
+    }
+    return fee;
+}
+
+function volumetricWeight(request: QuoteRequest): number | null {
+    const { lengthCm, widthCm, heightCm } = request;
+    if (lengthCm === undefined || widthCm === undefined || heightCm === undefined) return null;
+    return Math.round(lengthCm * widthCm * heightCm / VOLUMETRIC_DIVISOR * 10) / 10;
+}
+
+function insurancePremium(declaredValueKes: number | undefined): number {
+    if (!declaredValueKes) return 0;
+    return Math.round(Math.max(declaredValueKes * INSURANCE.rate, INSURANCE.minimumPremium));
+}
+
+function priceFor(plan: PricingPlan, distanceKm: number, chargeableWeightKg: number, insurance: number): PlanQuote {
+    const rate = PLAN_RATES[plan];
+    const distance = distanceFee(distanceKm);
+    const weight = Math.round(weightFee(chargeableWeightKg));
+    const planAdjustment = Math.round((distance + weight) * (rate.multiplier - 1) + rate.surcharge);
+    const vat = Math.round((distance + weight + planAdjustment) * VAT_RATE);
+
+    const overweight = rate.maxWeightKg !== null && chargeableWeightKg > rate.maxWeightKg;
+
+    return {
+        plan,
+        available: !overweight,
+        unavailableReason: overweight ? `Maximum chargeable weight is ${rate.maxWeightKg} kg` : undefined,
+        breakdown: {
+            distanceFee: distance,
+            weightFee: weight,
+            planAdjustment,
+            vat,
+            insurance,
+            total: distance + weight + planAdjustment + vat + insurance,
+        },
+        transitDays: rate.transitDays,
+    };
+}
+
+/**
+ * JSON with object keys sorted, so the signature does not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function sign(unsigned: object): string {
+    return hmacSha256(`quote:${canonicalJson(unsigned)}`, config.hmacSecret);
+}
+
+/**
+ * Throws if either county is unknown
+ */
+export function createQuote(request: QuoteRequest, now: Date = new Date()): Quote {
+    const origin = resolveCounty(request.originCounty);
+    const destination = resolveCounty(request.destinationCounty);
+    if (!origin) throw new Error(`Unknown county: ${request.originCounty}`);
+    if (!destination) throw new Error(`Unknown county: ${request.destinationCounty}`);
+
+    const distanceKm = COUNTY_DISTANCE_KM.get(origin)?.get(destination) ?? 0;
+    const volumetricWeightKg = volumetricWeight(request);
+    const chargeableWeightKg = Math.max(request.weightKg, volumetricWeightKg ?? 0);
+    const insurance = insurancePremium(request.declaredValueKes);
+
+    const unsigned: Omit<Quote, 'signature'> = {
+        id: uuidv4(),
+        request: { ...request, originCounty: origin, destinationCounty: destination },
+        distanceKm,
+        volumetricWeightKg,
+        chargeableWeightKg,
+        currency: 'KES',
+        plans: (Object.keys(PLAN_RATES) as PricingPlan[]).map(plan =>
+            priceFor(plan, distanceKm, chargeableWeightKg, insurance)
+        ),
+        issuedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + config.quoteTtlMinutes * 60 * 1000).toISOString(),
+    };
+
+    return { ...unsigned, signature: sign(unsigned) };
+}
+
+/**
+ * Checks a quote handed back by a client: untouched and not yet expired
+ */
+export function verifyQuote(quote: SignedQuote, now: Date = new Date()): QuoteVerification {
+    const { signature, ...unsigned } = quote;
+    const expected = Buffer.from(sign(unsigned), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+        return 'invalid';
+    }
+    return new Date(quote.expiresAt).getTime() > now.getTime() ? 'valid' : 'expired';
+}
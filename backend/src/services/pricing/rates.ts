@@ -0,0 +1,78 @@
+import { KENYA_COUNTIES } from '../location-obfuscation/gazetteer-data.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+
+/**
+ * Pricing Rate Card (KES)
+ *
+ * Distance is road distance between county headquarters, estimated from the
+ * great-circle distance; it decides the distance band. Weight is charged on
+ * the greater of actual and volumetric weight, in marginal tiers.
+ */
+
+export type PricingPlan = 'standard' | 'express' | 'business';
+
+export interface DistanceBand {
+    maxKm: number;
+    fee: number;
+}
+
+export interface WeightTier {
+    upToKg: number;
+    perKg: number;
+}
+
+export interface PlanRate {
+    multiplier: number;         // Applied to distance + weight charges
+    surcharge: number;          // Flat, per shipment
+    maxWeightKg: number | null;
+    transitDays: { min: number; max: number };
+}
+
+// Great-circle to road distance
+const ROAD_FACTOR = 1.3;
+
+export const DISTANCE_BANDS: DistanceBand[] = [
+    { maxKm: 0, fee: 150 },             // Within the county
+    { maxKm: 100, fee: 250 },
+    { maxKm: 300, fee: 450 },
+    { maxKm: 600, fee: 700 },
+    { maxKm: Infinity, fee: 950 },
+];
+
+// First kilogram is included in the distance fee
+export const WEIGHT_TIERS: WeightTier[] = [
+    { upToKg: 1, perKg: 0 },
+    { upToKg: 5, perKg: 60 },
+    { upToKg: 20, perKg: 45 },
+    { upToKg: Infinity, perKg: 30 },
+];
+
+export const VOLUMETRIC_DIVISOR = 5000; // cm³ per kg
+
+export const PLAN_RATES: Record<PricingPlan, PlanRate> = {
+    standard: { multiplier: 1, surcharge: 0, maxWeightKg: 5, transitDays: { min: 2, max: 5 } },
+    express: { multiplier: 1.5, surcharge: 300, maxWeightKg: 20, transitDays: { min: 0, max: 1 } },
+    business: { multiplier: 0.85, surcharge: 0, maxWeightKg: null, transitDays: { min: 1, max: 3 } },
+};
+
+export const INSURANCE = {
+    rate: 0.015,
+    minimumPremium: 100,
+    maxDeclaredValue: 1_000_000,
+};
+
+// Freight is VAT-able; insurance premiums are exempt
+export const VAT_RATE = 0.16;
+
+/**
+ * County-to-county road distance in km, keyed by county name
+ */
+export const COUNTY_DISTANCE_KM: ReadonlyMap<string, ReadonlyMap<string, number>> = new Map(
+    KENYA_COUNTIES.map(origin => [
+        origin.name,
+        new Map(KENYA_COUNTIES.map(destination => [
+            destination.name,
+            origin === destination ? 0 : Math.round(calculateDistance(origin, destination) / 1000 * ROAD_FACTOR),
+        ])),
+    ])
+);
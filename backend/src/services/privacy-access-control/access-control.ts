@@ -2,15 +2,13 @@ import { UserRole, Permission } from '../../types/index.js';
 
 const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     customer: ['read:own_delivery', 'write:own_delivery_consent', 'read:own_notification'],
-    driver: ['read:assigned_delivery', 'write:delivery_status', 'read:emergency', 'write:emergency'],
-    dispatcher: ['read:all_delivery', 'write:delivery_assignment', 'read:emergency', 'read:audit'],
-    security_officer: ['read:security_alert', 'write:security_alert', 'read:emergency', 'read:audit', 'read:location_history'],
+    driver: ['read:assigned_delivery', 'write:delivery_status', 'read:emergency', 'write:emergency', 'write:own_delivery_consent'],
+    dispatcher: ['read:all_delivery', 'write:delivery_assignment', 'write:delivery_status', 'read:emergency', 'read:audit', 'read:location_heatmap', 'read:fleet', 'write:fleet'],
+    security_officer: ['read:security_alert', 'write:security_alert', 'read:emergency', 'read:audit', 'read:location_history', 'read:location_heatmap', 'read:fleet'],
     admin: ['*'],
     system: ['*']
 };
 
-import { logger } from '../../utils/logger.js';
-
 export function getUserPermissions(role: UserRole): Permission[] {
     return ROLE_PERMISSIONS[role] || [];
 }
@@ -20,6 +18,4 @@ export function hasPermission(userRole: UserRole, permission: Permission): boole
     return perms.includes('*') || perms.includes(permission);
 }
 
-export function createAuditEntry(record: Record<string, any>): void {
-    logger.info('AUDIT', record);
-}
+export { createAuditEntry } from './audit-log.js';
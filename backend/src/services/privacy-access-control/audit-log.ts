@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditEntry, AuditResult, UserRole } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { hmacSha256 } from '../../crypto/hashing.js';
+import { logger } from '../../utils/logger.js';
+import {
+    appendAuditRow,
+    findLatestAuditAnchor,
+    findAuditHead,
+    queryAuditEntries,
+    countAuditEntries,
+    findAuditEntriesForSubjects,
+    iterateAuditEntries,
+    truncateAuditEntriesBefore,
+    type StoredAuditEntry,
+    type AuditAnchor,
+    type AuditHead,
+    type AuditQuery,
+} from '../../database/repositories/audit.repository.js';
+
+/**
+ * Tamper-Evident Audit Log
+ *
+ * Each entry stores the hash of the previous one, and every hash is keyed
+ * with HMAC_SECRET, so an edited, removed or re-ordered entry breaks the chain
+ * even for someone with write access to the database file. Truncation anchors
+ * are keyed the same way, so the head of the chain cannot be cut off behind a
+ * forged anchor, and so is a record of the newest entry, so its tail cannot be
+ * cut off either.
+ */
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_REPORTED_ISSUES = 100;
+
+export interface AuditEntryInput {
+    actorId: string;
+    actorRole: UserRole;
+    action: string;
+    resourceType: string;
+    resourceId?: string;
+    metadata?: Record<string, any>;
+    result: AuditResult;
+}
+
+export interface AuditChainIssue {
+    sequence: number;
+    type: 'gap' | 'chain_break' | 'hash_mismatch' | 'anchor_mismatch' | 'head_mismatch';
+    detail: string;
+}
+
+export interface AuditVerificationResult {
+    valid: boolean;
+    checkedEntries: number;
+    anchoredAt: number | null;
+    issues: AuditChainIssue[];
+}
+
+function computeEntryHash(entry: Omit<StoredAuditEntry, 'entryHash'>): string {
+    const payload = [
+        entry.sequence,
+        entry.id,
+        entry.timestamp,
+        entry.actorId,
+        entry.actorRole,
+        entry.action,
+        entry.resourceType,
+        entry.resourceId ?? '',
+        entry.result,
+        entry.metadata,
+        entry.previousHash,
+    ].join('|');
+
+    return hmacSha256(payload, config.hmacSecret);
+}
+
+function computeAnchorHmac(anchor: Omit<AuditAnchor, 'anchorHmac'>): string {
+    return hmacSha256(['anchor', anchor.sequence, anchor.entryHash, anchor.createdAt].join('|'), config.hmacSecret);
+}
+
+function computeHeadHmac(head: Omit<AuditHead, 'headHmac'>): string {
+    return hmacSha256(['head', head.sequence, head.entryHash].join('|'), config.hmacSecret);
+}
+
+function toAuditEntry(stored: StoredAuditEntry): AuditEntry {
+    return { ...stored, metadata: JSON.parse(stored.metadata) as Record<string, any> };
+}
+
+/**
+ * Append an entry to the chain
+ */
+export function createAuditEntry(input: AuditEntryInput): AuditEntry {
+    const stored = appendAuditRow(head => {
+        const unsigned: Omit<StoredAuditEntry, 'entryHash'> = {
+            sequence: (head?.sequence ?? 0) + 1,
+            id: uuidv4(),
+            timestamp: new Date().toISOString(),
+            actorId: input.actorId,
+            actorRole: input.actorRole,
+            action: input.action,
+            resourceType: input.resourceType,
+            resourceId: input.resourceId,
+            result: input.result,
+            metadata: JSON.stringify(input.metadata ?? {}),
+            previousHash: head?.entryHash ?? GENESIS_HASH,
+        };
+        return { ...unsigned, entryHash: computeEntryHash(unsigned) };
+    }, computeHeadHmac);
+
+    logger.debug('Audit entry recorded', { sequence: stored.sequence, action: stored.action });
+
+    return toAuditEntry(stored);
+}
+
+export function queryAuditLog(
+    query: AuditQuery,
+    page: number,
+    limit: number
+): { entries: AuditEntry[]; total: number } {
+    return {
+        entries: queryAuditEntries(query, limit, (page - 1) * limit).map(toAuditEntry),
+        total: countAuditEntries(query),
+    };
+}
+
+/**
+ * Entries about or by a data subject, for access request exports
+ */
+export function getSubjectAuditTrail(subjectIds: string[], limit: number): AuditEntry[] {
+    return findAuditEntriesForSubjects(subjectIds, limit).map(toAuditEntry);
+}
+
+/**
+ * Walk the chain and report gaps, broken links, edited entries and entries
+ * missing from either end
+ */
+export function verifyAuditChain(): AuditVerificationResult {
+    const anchor = findLatestAuditAnchor();
+    const issues: AuditChainIssue[] = [];
+
+    let expectedSequence = (anchor?.sequence ?? 0) + 1;
+    let expectedPreviousHash = anchor?.entryHash ?? GENESIS_HASH;
+    let checkedEntries = 0;
+
+    const report = (issue: AuditChainIssue): void => {
+        if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue);
+    };
+
+    if (anchor && anchor.anchorHmac !== computeAnchorHmac(anchor)) {
+        report({
+            sequence: anchor.sequence,
+            type: 'anchor_mismatch',
+            detail: 'Truncation anchor was not written by the retention job',
+        });
+    }
+
+    for (const entry of iterateAuditEntries()) {
+        checkedEntries++;
+
+        if (entry.sequence !== expectedSequence) {
+            report({
+                sequence: entry.sequence,
+                type: 'gap',
+                detail: `Expected sequence ${expectedSequence}, found ${entry.sequence}`,
+            });
+        }
+
+        if (entry.previousHash !== expectedPreviousHash) {
+            report({
+                sequence: entry.sequence,
+                type: 'chain_break',
+                detail: 'Previous hash does not match the preceding entry',
+            });
+        }
+
+        const { entryHash, ...unsigned } = entry;
+        if (computeEntryHash(unsigned) !== entryHash) {
+            report({
+                sequence: entry.sequence,
+                type: 'hash_mismatch',
+                detail: 'Entry contents do not match its hash',
+            });
+        }
+
+        expectedSequence = entry.sequence + 1;
+        expectedPreviousHash = entryHash;
+    }
+
+    // The chain must end where the head record says it does
+    const head = findAuditHead();
+    const lastSequence = expectedSequence - 1;
+    if (!head) {
+        if (lastSequence > 0) {
+            report({ sequence: lastSequence, type: 'head_mismatch', detail: 'No chain head is recorded' });
+        }
+    } else if (head.headHmac !== computeHeadHmac(head)) {
+        report({ sequence: head.sequence, type: 'head_mismatch', detail: 'Chain head was not written by the audit service' });
+    } else if (head.sequence !== lastSequence || head.entryHash !== expectedPreviousHash) {
+        report({
+            sequence: head.sequence,
+            type: 'head_mismatch',
+            detail: `Chain ends at sequence ${lastSequence} but its head is ${head.sequence}`,
+        });
+    }
+
+    const valid = issues.length === 0;
+
+    if (!valid) {
+        logger.error('Audit chain verification failed', { issues: issues.length });
+    }
+
+    return { valid, checkedEntries, anchoredAt: anchor?.sequence ?? null, issues };
+}
+
+/**
+ * Retention: drop entries older than cutoff while keeping the chain verifiable
+ */
+export function truncateAuditLog(cutoff: string): number {
+    return truncateAuditEntriesBefore(cutoff, computeAnchorHmac);
+}
+
+export type { AuditQuery };
@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    ConsentPurpose,
+    ConsentRecord,
+    UserRole,
+    UUID
+} from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from './access-control.js';
+import {
+    insertConsentRecord,
+    findConsentHistory,
+    findLatestConsent,
+} from '../../database/repositories/consent.repository.js';
+
+/**
+ * Consent Management
+ *
+ * Each purpose carries a version. Bumping the version (because the wording or
+ * scope changed) makes earlier grants "outdated", which counts as no consent
+ * until the subject grants the new version.
+ */
+
+export interface ConsentPurposeDefinition {
+    purpose: ConsentPurpose;
+    version: number;
+    description: string;
+}
+
+export type ConsentState = 'granted' | 'withdrawn' | 'outdated' | 'not_set';
+
+export interface ConsentStatus extends ConsentPurposeDefinition {
+    state: ConsentState;
+    grantedVersion?: number;
+    updatedAt?: string;
+}
+
+const CONSENT_PURPOSES: Record<ConsentPurpose, ConsentPurposeDefinition> = {
+    live_location_sharing: {
+        purpose: 'live_location_sharing',
+        version: 1,
+        description: 'Share my approximate live location with the people following a delivery',
+    },
+    marketing_sms: {
+        purpose: 'marketing_sms',
+        version: 1,
+        description: 'Receive offers and service news by SMS',
+    },
+    marketing_whatsapp: {
+        purpose: 'marketing_whatsapp',
+        version: 1,
+        description: 'Receive offers and service news on WhatsApp',
+    },
+    photo_proof_retention: {
+        purpose: 'photo_proof_retention',
+        version: 1,
+        description: 'Keep proof-of-delivery photos for the full retention period',
+    },
+};
+
+export function getConsentPurposes(): ConsentPurposeDefinition[] {
+    return Object.values(CONSENT_PURPOSES);
+}
+
+function stateOf(purpose: ConsentPurpose, latest: ConsentRecord | null): ConsentState {
+    if (!latest) return 'not_set';
+    if (latest.action === 'withdraw') return 'withdrawn';
+    return latest.purposeVersion === CONSENT_PURPOSES[purpose].version ? 'granted' : 'outdated';
+}
+
+export function getConsentStatus(subjectId: UUID): ConsentStatus[] {
+    return getConsentPurposes().map(definition => {
+        const latest = findLatestConsent(subjectId, definition.purpose);
+        return {
+            ...definition,
+            state: stateOf(definition.purpose, latest),
+            grantedVersion: latest?.action === 'grant' ? latest.purposeVersion : undefined,
+            updatedAt: latest?.recordedAt,
+        };
+    });
+}
+
+export function getConsentHistory(subjectId: UUID): ConsentRecord[] {
+    return findConsentHistory(subjectId);
+}
+
+/**
+ * True only for a grant of the current purpose version
+ */
+export function hasConsent(subjectId: UUID, purpose: ConsentPurpose): boolean {
+    return stateOf(purpose, findLatestConsent(subjectId, purpose)) === 'granted';
+}
+
+/**
+ * Record a grant or withdrawal of the current purpose version
+ * Returns null when the state does not change (nothing is recorded)
+ */
+export function recordConsent(
+    subjectId: UUID,
+    purpose: ConsentPurpose,
+    granted: boolean,
+    actor: { id: string; role: UserRole }
+): ConsentRecord | null {
+    const current = stateOf(purpose, findLatestConsent(subjectId, purpose));
+    if ((granted && current === 'granted') || (!granted && (current === 'withdrawn' || current === 'not_set'))) {
+        return null;
+    }
+
+    const record: ConsentRecord = {
+        id: uuidv4(),
+        subjectId,
+        purpose,
+        purposeVersion: CONSENT_PURPOSES[purpose].version,
+        action: granted ? 'grant' : 'withdraw',
+        recordedAt: new Date().toISOString(),
+        recordedBy: actor.id,
+    };
+
+    insertConsentRecord(record);
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: granted ? 'consent_granted' : 'consent_withdrawn',
+        resourceType: 'consent',
+        resourceId: subjectId,
+        metadata: { purpose, purposeVersion: record.purposeVersion },
+        result: 'success',
+    });
+
+    logger.info('Consent recorded', { purpose, action: record.action, purposeVersion: record.purposeVersion });
+    return record;
+}
+
+export function getCurrentPurposeVersion(purpose: ConsentPurpose): number {
+    return CONSENT_PURPOSES[purpose].version;
+}
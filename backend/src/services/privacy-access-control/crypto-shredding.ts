@@ -0,0 +1,43 @@
+import type { UserRole, UUID } from '../../types/index.js';
+import { shredSubject } from '../../crypto/subject-keys.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from './access-control.js';
+
+/**
+ * Crypto-Shredding
+ * Destroys a data subject's keys so every copy of their encrypted data,
+ * including copies in backups, becomes unreadable
+ */
+
+export interface ShredResult {
+    subjectId: UUID;
+    subjectIds: string[];
+    shreddedKeys: number;
+    shreddedAt: string;
+}
+
+export function shredDataSubject(
+    subjectId: UUID,
+    actor: { id: string; role: UserRole }
+): ShredResult {
+    const { subjectIds, shreddedKeyIds } = shredSubject(subjectId);
+    const shreddedAt = new Date().toISOString();
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'subject_keys_shredded',
+        resourceType: 'data_subject',
+        resourceId: subjectId,
+        metadata: { subjectIds, shreddedKeys: shreddedKeyIds.length },
+        result: 'success',
+    });
+
+    logger.info('Data subject keys shredded', {
+        subjectId,
+        linkedSubjects: subjectIds.length - 1,
+        shreddedKeys: shreddedKeyIds.length,
+    });
+
+    return { subjectId, subjectIds, shreddedKeys: shreddedKeyIds.length, shreddedAt };
+}
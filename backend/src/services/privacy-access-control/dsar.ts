@@ -0,0 +1,324 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    AuditEntry,
+    ConsentRecord,
+    DeliveryParty,
+    DeliveryVerification,
+    DriverDetails,
+    DriverShift,
+    DriverStatus,
+    EmergencyRecord,
+    NotificationChannel,
+    NotificationRecord,
+    PrivacyZoneDisclosure,
+    RawCoordinates,
+    SecurityAlert,
+    UserRole,
+    UUID
+} from '../../types/index.js';
+import { decryptWithStatus } from '../../crypto/encryption.js';
+import type { EmergencyContact } from '../emergency-response/orchestrator.js';
+import { createAuditEntry } from './access-control.js';
+import { getSubjectAuditTrail } from './audit-log.js';
+import { findSubjectDeliveries, type SubjectRelationship } from './subject-data.js';
+import {
+    findOTPRecordsByRecipient,
+    findPhotosByDelivery,
+    findSignaturesByDelivery,
+    findVerificationByDelivery,
+} from '../../database/repositories/verification.repository.js';
+import {
+    findNotificationsByRecipient,
+    findPreferences,
+} from '../../database/repositories/notification.repository.js';
+import {
+    findEmergenciesByDriver,
+    findEmergencyContacts,
+} from '../../database/repositories/emergency.repository.js';
+import { findAlertsByDriver } from '../../database/repositories/security.repository.js';
+import { findConsentHistory } from '../../database/repositories/consent.repository.js';
+import { findPrivacyZonesByOwner } from '../../database/repositories/privacy-zone.repository.js';
+import { findDeliveryById } from '../../database/repositories/delivery.repository.js';
+import { findDriverById, findShift } from '../../database/repositories/fleet.repository.js';
+
+/**
+ * Data Subject Access Requests
+ * Collects everything held about one person into a portable bundle.
+ * Encrypted fields are only decrypted when the subject exports their own data.
+ */
+
+const MAX_AUDIT_ENTRIES = 5000;
+
+export type ExportedField<T> =
+    | { status: 'decrypted'; value: T }
+    | { status: 'withheld' }
+    // Another person's data, never exported
+    | { status: 'redacted' }
+    | { status: 'erased'; erasedAt: string | null };
+
+export interface DsarDelivery {
+    deliveryId: UUID;
+    relationship: SubjectRelationship[];
+    // The subject's own contact details as sender and/or recipient
+    parties: ExportedField<Partial<Record<'sender' | 'recipient', DeliveryParty>>> | null;
+    verification: DeliveryVerification | null;
+    otps: Array<{
+        id: UUID;
+        createdAt: string;
+        expiresAt: string;
+        attemptCount: number;
+        isVerified: boolean;
+        verifiedAt?: string;
+    }>;
+    photos: Array<{
+        id: UUID;
+        capturedAt: string;
+        zoneId?: string;
+        mimeType: string;
+        sizeBytes: number;
+    }>;
+    signatures: Array<{
+        id: UUID;
+        capturedAt: string;
+        signerName: ExportedField<string> | null;
+    }>;
+    securityAlerts: SecurityAlert[];
+}
+
+export interface DsarBundle {
+    exportId: UUID;
+    subjectId: UUID;
+    generatedAt: string;
+    requestedBy: { id: string; role: UserRole };
+    decrypted: boolean;
+    deliveries: DsarDelivery[];
+    notifications: Array<Omit<NotificationRecord, 'contentEncrypted'> & { content: ExportedField<string> }>;
+    preferences: { channels: NotificationChannel[]; quiet: { start: string; end: string } | null } | null;
+    emergencyContacts: ExportedField<EmergencyContact[]> | null;
+    emergencies: EmergencyRecord[];
+    consents: ConsentRecord[];
+    privacyZones: Array<{
+        id: UUID;
+        radiusMeters: number;
+        disclosure: PrivacyZoneDisclosure;
+        createdAt: string;
+        details: ExportedField<{ label: string; center: RawCoordinates }>;
+    }>;
+    // Shift changes are also in auditEntries (driver_shift_changed)
+    driverProfile: {
+        status: DriverStatus;
+        licenceExpiresAt: string;
+        psvBadgeExpiresAt: string;
+        createdAt: string;
+        updatedAt: string;
+        details: ExportedField<DriverDetails>;
+        currentShift: DriverShift | null;
+    } | null;
+    auditEntries: AuditEntry[];
+}
+
+export interface DsarExport {
+    bundle: DsarBundle;
+    summary: string;
+}
+
+function exportField<T>(
+    encrypted: string,
+    contextId: string,
+    decrypt: boolean,
+    parse: (plaintext: string) => T
+): ExportedField<T> {
+    if (!decrypt) {
+        return { status: 'withheld' };
+    }
+
+    const result = decryptWithStatus(encrypted, contextId);
+    return result.status === 'ok'
+        ? { status: 'decrypted', value: parse(result.plaintext) }
+        : { status: 'erased', erasedAt: result.erasedAt };
+}
+
+function exportParties(deliveryId: UUID, subjectId: UUID, decrypt: boolean): DsarDelivery['parties'] {
+    const delivery = findDeliveryById(deliveryId);
+    if (!delivery || (delivery.senderId !== subjectId && delivery.recipientId !== subjectId)) {
+        return null;
+    }
+
+    return exportField(delivery.partiesEncrypted, deliveryId, decrypt, json => {
+        const parties = JSON.parse(json) as Record<'sender' | 'recipient', DeliveryParty>;
+        return {
+            ...(delivery.senderId === subjectId ? { sender: parties.sender } : {}),
+            ...(delivery.recipientId === subjectId ? { recipient: parties.recipient } : {}),
+        };
+    });
+}
+
+function exportDriverProfile(subjectId: UUID, decrypt: boolean): DsarBundle['driverProfile'] {
+    const driver = findDriverById(subjectId);
+    if (!driver) {
+        return null;
+    }
+
+    return {
+        status: driver.status,
+        licenceExpiresAt: driver.licenceExpiresAt,
+        psvBadgeExpiresAt: driver.psvBadgeExpiresAt,
+        createdAt: driver.createdAt,
+        updatedAt: driver.updatedAt,
+        details: exportField(driver.detailsEncrypted, subjectId, decrypt, json => JSON.parse(json) as DriverDetails),
+        currentShift: findShift(subjectId),
+    };
+}
+
+function collectDeliveries(subjectId: UUID, decrypt: boolean): DsarDelivery[] {
+    const otps = findOTPRecordsByRecipient(subjectId);
+    const alerts = findAlertsByDriver(subjectId);
+
+    return Array.from(findSubjectDeliveries(subjectId), ([deliveryId, relationship]) => ({
+        deliveryId,
+        relationship: Array.from(relationship),
+        parties: exportParties(deliveryId, subjectId, decrypt),
+        verification: findVerificationByDelivery(deliveryId),
+        otps: otps
+            .filter(otp => otp.deliveryId === deliveryId)
+            .map(otp => ({
+                id: otp.id,
+                createdAt: otp.createdAt,
+                expiresAt: otp.expiresAt,
+                attemptCount: otp.attemptCount,
+                isVerified: otp.isVerified,
+                verifiedAt: otp.verifiedAt,
+            })),
+        photos: findPhotosByDelivery(deliveryId).map(photo => ({
+            id: photo.id,
+            capturedAt: photo.capturedAt,
+            zoneId: photo.zoneId,
+            mimeType: photo.metadata.mimeType,
+            sizeBytes: photo.metadata.sizeBytes,
+        })),
+        signatures: findSignaturesByDelivery(deliveryId).map(signature => ({
+            id: signature.id,
+            capturedAt: signature.capturedAt,
+            // Who signed is the recipient's data; drivers and senders only see that a signature exists
+            signerName: !signature.signerName
+                ? null
+                : relationship.has('recipient')
+                    ? exportField(signature.signerName, deliveryId, decrypt, name => name)
+                    : { status: 'redacted' as const },
+        })),
+        securityAlerts: alerts.filter(alert => alert.deliveryId === deliveryId),
+    }));
+}
+
+function describeField(label: string, field: ExportedField<unknown> | null): string {
+    if (!field) return `${label}: none on file`;
+    if (field.status === 'withheld') return `${label}: held encrypted, only readable by the data subject`;
+    if (field.status === 'erased') return `${label}: erased`;
+    if (field.status === 'redacted') return `${label}: redacted (another person's data)`;
+    return `${label}: included`;
+}
+
+function buildSummary(bundle: DsarBundle): string {
+    const lines = [
+        `Data export ${bundle.exportId} for subject ${bundle.subjectId}`,
+        `Generated ${bundle.generatedAt} at the request of ${bundle.requestedBy.role} ${bundle.requestedBy.id}`,
+        '',
+        `Deliveries: ${bundle.deliveries.length}`,
+    ];
+
+    for (const delivery of bundle.deliveries) {
+        const status = delivery.verification?.isComplete ? 'verified' : 'not verified';
+        lines.push(
+            `  - ${delivery.deliveryId} (${delivery.relationship.join(', ')}, ${status}): ` +
+            `${delivery.otps.length} OTPs, ${delivery.photos.length} photos, ` +
+            `${delivery.signatures.length} signatures, ${delivery.securityAlerts.length} security alerts`
+        );
+    }
+
+    const erasedNotifications = bundle.notifications.filter(n => n.content.status === 'erased').length;
+    lines.push(
+        `Notifications: ${bundle.notifications.length}` +
+        (erasedNotifications > 0 ? ` (${erasedNotifications} with erased content)` : ''),
+        bundle.preferences
+            ? `Notification preferences: ${bundle.preferences.channels.join(', ')}` +
+              (bundle.preferences.quiet ? `, quiet hours ${bundle.preferences.quiet.start}-${bundle.preferences.quiet.end}` : '')
+            : 'Notification preferences: defaults',
+        describeField('Emergency contacts', bundle.emergencyContacts),
+        `Emergencies: ${bundle.emergencies.length}`,
+        `Consent changes: ${bundle.consents.length}`,
+        `Privacy zones: ${bundle.privacyZones.length}`,
+        bundle.driverProfile
+            ? describeField('Driver profile (name, phone, licence and PSV badge numbers)', bundle.driverProfile.details)
+            : 'Driver profile: none',
+        `Audit log entries: ${bundle.auditEntries.length}`
+    );
+
+    if (!bundle.decrypted) {
+        lines.push('', 'Encrypted fields were not decrypted because the export was requested on behalf of the subject.');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Build the access request export for a subject
+ * Decrypts only when the requester is the subject; every export is audited
+ */
+export function exportSubjectData(
+    subjectId: UUID,
+    requester: { id: string; role: UserRole }
+): DsarExport {
+    const decrypt = requester.id === subjectId;
+    const deliveries = collectDeliveries(subjectId, decrypt);
+    const contactsEncrypted = findEmergencyContacts(subjectId);
+
+    const bundle: DsarBundle = {
+        exportId: uuidv4(),
+        subjectId,
+        generatedAt: new Date().toISOString(),
+        requestedBy: requester,
+        decrypted: decrypt,
+        deliveries,
+        notifications: findNotificationsByRecipient(subjectId).map(({ contentEncrypted, ...notification }) => ({
+            ...notification,
+            content: exportField(contentEncrypted, subjectId, decrypt, content => content),
+        })),
+        preferences: findPreferences(subjectId),
+        emergencyContacts: contactsEncrypted
+            ? exportField(contactsEncrypted, subjectId, decrypt, json => JSON.parse(json) as EmergencyContact[])
+            : null,
+        emergencies: findEmergenciesByDriver(subjectId),
+        consents: findConsentHistory(subjectId),
+        privacyZones: findPrivacyZonesByOwner(subjectId).map(zone => ({
+            id: zone.id,
+            radiusMeters: zone.radiusMeters,
+            disclosure: zone.disclosure,
+            createdAt: zone.createdAt,
+            details: exportField(zone.detailsEncrypted, subjectId, decrypt, json => JSON.parse(json) as { label: string; center: RawCoordinates }),
+        })),
+        driverProfile: exportDriverProfile(subjectId, decrypt),
+        auditEntries: getSubjectAuditTrail(
+            [subjectId, ...deliveries.map(d => d.deliveryId)],
+            MAX_AUDIT_ENTRIES
+        ),
+    };
+
+    createAuditEntry({
+        actorId: requester.id,
+        actorRole: requester.role,
+        action: 'dsar_export',
+        resourceType: 'data_subject',
+        resourceId: subjectId,
+        metadata: {
+            exportId: bundle.exportId,
+            decrypted: decrypt,
+            deliveries: bundle.deliveries.length,
+            notifications: bundle.notifications.length,
+            emergencies: bundle.emergencies.length,
+            auditEntries: bundle.auditEntries.length,
+        },
+        result: 'success',
+    });
+
+    return { bundle, summary: buildSummary(bundle) };
+}
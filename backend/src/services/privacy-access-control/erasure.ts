@@ -0,0 +1,428 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    DeliveryParty,
+    ErasureOutcome,
+    ErasureRequest,
+    ErasureRequestStatus,
+    LegalHold,
+    SecurityAlert,
+    UserRole,
+    UUID
+} from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { hmacSha256 } from '../../crypto/hashing.js';
+import { encrypt, decryptWithStatus } from '../../crypto/encryption.js';
+import { shredSubject } from '../../crypto/subject-keys.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from './access-control.js';
+import { coarsenEmergencyLocation } from './retention.js';
+import { findSubjectDeliveries } from './subject-data.js';
+import { sendNotification, getUserPreferences } from '../notification-delivery/notifier.js';
+import {
+    insertErasureRequest,
+    updateErasureRequest,
+    findErasureRequestById,
+    findErasureRequests,
+    findOpenErasureRequest,
+    insertLegalHold,
+    findActiveLegalHolds,
+    releaseLegalHold,
+} from '../../database/repositories/erasure.repository.js';
+import { deleteDeliveryArtefacts } from '../../database/repositories/verification.repository.js';
+import { deleteNotificationData } from '../../database/repositories/notification.repository.js';
+import { deleteOfflineEvents } from '../../database/repositories/realtime.repository.js';
+import { deleteConsentHistory } from '../../database/repositories/consent.repository.js';
+import { deletePrivacyZonesByOwner } from '../../database/repositories/privacy-zone.repository.js';
+import {
+    findDeliveryById,
+    updateDeliveryParties,
+} from '../../database/repositories/delivery.repository.js';
+import {
+    findEmergenciesByDriver,
+    deleteEmergencyContacts,
+    pseudonymiseEmergency,
+} from '../../database/repositories/emergency.repository.js';
+import {
+    findAlertsByDriver,
+    findAlertsByDelivery,
+    pseudonymiseAlertDriver,
+    deleteLocationHistory,
+} from '../../database/repositories/security.repository.js';
+
+/**
+ * Right-to-Erasure Workflow
+ *
+ * Requests are reviewed by an admin before anything is touched. Approved
+ * requests delete personal data, pseudonymise records that must stay for
+ * statistics, and crypto-shred the subject's keys. Records tied to open
+ * security alerts or unresolved emergencies are kept under a legal hold
+ * until the request is resumed after they close.
+ */
+
+type HoldCandidate = Pick<LegalHold, 'resourceType' | 'resourceId' | 'deliveryId' | 'reason'>;
+
+interface Actor {
+    id: string;
+    role: UserRole;
+}
+
+/**
+ * Stable pseudonym so alert and emergency statistics survive erasure
+ */
+function pseudonymFor(subjectId: UUID): string {
+    return `erased-${hmacSha256(subjectId, config.hmacSecret).slice(0, 16)}`;
+}
+
+function addCounts(target: Record<string, number>, counts: Record<string, number>): void {
+    for (const [key, count] of Object.entries(counts)) {
+        target[key] = (target[key] ?? 0) + count;
+    }
+}
+
+/**
+ * Replace the subject's name, phone and address on a delivery with the
+ * pseudonym; the other party's details are left as they are
+ */
+function pseudonymiseDeliveryParties(deliveryId: UUID, subjectId: UUID, pseudonym: string): number {
+    const delivery = findDeliveryById(deliveryId);
+    if (!delivery) return 0;
+
+    const result = decryptWithStatus(delivery.partiesEncrypted, deliveryId);
+    if (result.status === 'erased') return 0;
+
+    const parties = JSON.parse(result.plaintext) as Record<'sender' | 'recipient', DeliveryParty>;
+    const erasedParty: DeliveryParty = { name: pseudonym, phone: '', address: '' };
+    let replaced = 0;
+
+    if (delivery.senderId === subjectId) { parties.sender = erasedParty; replaced++; }
+    if (delivery.recipientId === subjectId) { parties.recipient = erasedParty; replaced++; }
+
+    if (replaced > 0) {
+        updateDeliveryParties(deliveryId, encrypt(JSON.stringify(parties), deliveryId), new Date().toISOString());
+    }
+    return replaced;
+}
+
+function findHoldCandidates(subjectId: UUID, deliveryIds: UUID[]): HoldCandidate[] {
+    const alerts = new Map<UUID, SecurityAlert>();
+    for (const alert of findAlertsByDriver(subjectId)) alerts.set(alert.id, alert);
+    for (const deliveryId of deliveryIds) {
+        for (const alert of findAlertsByDelivery(deliveryId)) alerts.set(alert.id, alert);
+    }
+
+    const candidates: HoldCandidate[] = [];
+
+    for (const alert of alerts.values()) {
+        if (!alert.resolution) {
+            candidates.push({
+                resourceType: 'security_alert',
+                resourceId: alert.id,
+                deliveryId: alert.deliveryId,
+                reason: `Open ${alert.severity} security alert (${alert.anomalyType}) on delivery ${alert.deliveryId}`,
+            });
+        }
+    }
+
+    for (const emergency of findEmergenciesByDriver(subjectId)) {
+        if (emergency.status !== 'resolved') {
+            candidates.push({
+                resourceType: 'emergency',
+                resourceId: emergency.id,
+                deliveryId: emergency.deliveryId,
+                reason: `Unresolved ${emergency.emergencyType} emergency (${emergency.status})`,
+            });
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Bring the request's legal holds in line with what is still open:
+ * release holds whose alert or emergency has closed, add new ones
+ */
+function syncLegalHolds(request: ErasureRequest, candidates: HoldCandidate[]): LegalHold[] {
+    const sameResource = (a: HoldCandidate, b: HoldCandidate): boolean =>
+        a.resourceType === b.resourceType && a.resourceId === b.resourceId;
+
+    const existing = findActiveLegalHolds(request.id);
+    const active: LegalHold[] = [];
+
+    for (const hold of existing) {
+        if (candidates.some(candidate => sameResource(candidate, hold))) {
+            active.push(hold);
+        } else {
+            releaseLegalHold(hold.id);
+        }
+    }
+
+    for (const candidate of candidates) {
+        if (!existing.some(hold => sameResource(candidate, hold))) {
+            const hold: LegalHold = {
+                id: uuidv4(),
+                requestId: request.id,
+                subjectId: request.subjectId,
+                ...candidate,
+                createdAt: new Date().toISOString(),
+            };
+            insertLegalHold(hold);
+            active.push(hold);
+        }
+    }
+
+    return active;
+}
+
+/**
+ * Erase everything not under a legal hold
+ */
+function executeErasure(request: ErasureRequest): ErasureOutcome {
+    const subjectId = request.subjectId;
+    const deliveries = findSubjectDeliveries(subjectId);
+    const legalHolds = syncLegalHolds(request, findHoldCandidates(subjectId, Array.from(deliveries.keys())));
+
+    const heldDeliveries = new Set(legalHolds.flatMap(hold => hold.deliveryId ? [hold.deliveryId] : []));
+    const emergencyHeld = legalHolds.some(hold => hold.resourceType === 'emergency');
+    const pseudonym = pseudonymFor(subjectId);
+
+    const erased: Record<string, number> = {};
+    const anonymised: Record<string, number> = { securityAlerts: 0, emergencies: 0, deliveryParties: 0 };
+
+    // Delivery, verification and security stores, per delivery
+    for (const [deliveryId, relationships] of deliveries) {
+        if (heldDeliveries.has(deliveryId)) continue;
+
+        if (relationships.has('sender') || relationships.has('recipient')) {
+            anonymised['deliveryParties']! += pseudonymiseDeliveryParties(deliveryId, subjectId, pseudonym);
+        }
+        // Only the recipient owns OTPs, proof-of-delivery photos, signatures and the geofence
+        if (relationships.has('recipient')) {
+            addCounts(erased, deleteDeliveryArtefacts(deliveryId));
+        }
+        if (relationships.has('driver')) {
+            addCounts(erased, { locationHistory: deleteLocationHistory(subjectId, deliveryId) });
+        }
+    }
+
+    for (const alert of findAlertsByDriver(subjectId)) {
+        if (alert.resolution && !heldDeliveries.has(alert.deliveryId)) {
+            pseudonymiseAlertDriver(alert.id, pseudonym);
+            anonymised['securityAlerts']!++;
+        }
+    }
+
+    // Emergency store: contacts stay while an emergency is still open
+    for (const emergency of findEmergenciesByDriver(subjectId)) {
+        if (emergency.status === 'resolved') {
+            pseudonymiseEmergency(emergency.id, pseudonym, coarsenEmergencyLocation(emergency.location));
+            anonymised['emergencies']!++;
+        }
+    }
+    if (!emergencyHeld) {
+        addCounts(erased, { emergencyContacts: deleteEmergencyContacts(subjectId) });
+    }
+
+    // Notification, real-time, consent and privacy zone stores
+    addCounts(erased, deleteNotificationData(subjectId));
+    addCounts(erased, { offlineEvents: deleteOfflineEvents(subjectId) });
+    addCounts(erased, { consentRecords: deleteConsentHistory(subjectId) });
+    addCounts(erased, { privacyZones: deletePrivacyZonesByOwner(subjectId) });
+
+    // Anything left behind (including backups) becomes unreadable
+    const retain = Array.from(heldDeliveries);
+    if (emergencyHeld) retain.push(subjectId);
+    const { shreddedKeyIds } = shredSubject(subjectId, retain);
+
+    return { erased, anonymised, shreddedKeys: shreddedKeyIds.length, legalHolds };
+}
+
+function mergeOutcomes(previous: ErasureOutcome | undefined, next: ErasureOutcome): ErasureOutcome {
+    if (!previous) return next;
+
+    const erased = { ...previous.erased };
+    const anonymised = { ...previous.anonymised };
+    addCounts(erased, next.erased);
+    addCounts(anonymised, next.anonymised);
+
+    return {
+        erased,
+        anonymised,
+        shreddedKeys: previous.shreddedKeys + next.shreddedKeys,
+        legalHolds: next.legalHolds,
+    };
+}
+
+function describeOutcome(request: ErasureRequest): string {
+    if (request.status === 'rejected') {
+        return `Your erasure request ${request.id} was declined.` +
+            (request.reviewNotes ? ` Reason: ${request.reviewNotes}` : '');
+    }
+
+    const outcome = request.outcome;
+    const erasedCount = outcome ? Object.values(outcome.erased).reduce((sum, n) => sum + n, 0) : 0;
+    const anonymisedCount = outcome ? Object.values(outcome.anonymised).reduce((sum, n) => sum + n, 0) : 0;
+    const summary = `Your erasure request ${request.id} was carried out: ${erasedCount} records erased, ` +
+        `${anonymisedCount} anonymised.`;
+
+    if (!outcome || outcome.legalHolds.length === 0) {
+        return summary;
+    }
+
+    const reasons = outcome.legalHolds.map(hold => hold.reason).join('; ');
+    return `${summary} Some records are kept under a legal hold and will be erased once closed: ${reasons}`;
+}
+
+/**
+ * Report the outcome to whoever filed the request; never fails the workflow
+ */
+async function notifyRequester(request: ErasureRequest): Promise<void> {
+    const channel = getUserPreferences(request.requestedBy).channels[0] ?? 'sms';
+
+    try {
+        await sendNotification(request.requestedBy, channel, 'erasure_request_outcome', describeOutcome(request), 'normal');
+    } catch (error) {
+        logger.error('Erasure outcome notification failed', {
+            requestId: request.id,
+            error: (error as Error).message,
+        });
+    }
+}
+
+function statusAfterErasure(outcome: ErasureOutcome): ErasureRequestStatus {
+    return outcome.legalHolds.length > 0 ? 'partially_completed' : 'completed';
+}
+
+function runErasure(request: ErasureRequest, actor: Actor): ErasureRequest {
+    const outcome = executeErasure(request);
+
+    request.outcome = mergeOutcomes(request.outcome, outcome);
+    request.status = statusAfterErasure(outcome);
+    request.completedAt = request.status === 'completed' ? new Date().toISOString() : undefined;
+    updateErasureRequest(request);
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'erasure_executed',
+        resourceType: 'data_subject',
+        resourceId: request.subjectId,
+        metadata: {
+            requestId: request.id,
+            status: request.status,
+            erased: outcome.erased,
+            anonymised: outcome.anonymised,
+            shreddedKeys: outcome.shreddedKeys,
+            legalHolds: outcome.legalHolds.map(hold => ({
+                resourceType: hold.resourceType,
+                resourceId: hold.resourceId,
+                reason: hold.reason,
+            })),
+        },
+        result: 'success',
+    });
+
+    logger.info('Erasure request executed', {
+        requestId: request.id,
+        status: request.status,
+        legalHolds: outcome.legalHolds.length,
+    });
+
+    return request;
+}
+
+export function getOpenErasureRequest(subjectId: UUID): ErasureRequest | null {
+    return findOpenErasureRequest(subjectId);
+}
+
+export function createErasureRequest(subjectId: UUID, requester: Actor, reason?: string): ErasureRequest {
+    const request: ErasureRequest = {
+        id: uuidv4(),
+        subjectId,
+        requestedBy: requester.id,
+        requestedByRole: requester.role,
+        reason,
+        status: 'pending',
+        requestedAt: new Date().toISOString(),
+    };
+
+    insertErasureRequest(request);
+
+    createAuditEntry({
+        actorId: requester.id,
+        actorRole: requester.role,
+        action: 'erasure_requested',
+        resourceType: 'data_subject',
+        resourceId: subjectId,
+        metadata: { requestId: request.id },
+        result: 'success',
+    });
+
+    logger.info('Erasure requested', { requestId: request.id });
+    return request;
+}
+
+export function getErasureRequest(requestId: UUID): ErasureRequest | null {
+    return findErasureRequestById(requestId);
+}
+
+export function listErasureRequests(status?: ErasureRequestStatus): ErasureRequest[] {
+    return findErasureRequests(status);
+}
+
+/**
+ * Approve (and execute) or reject a pending request
+ * Returns null if the request does not exist or was already reviewed
+ */
+export async function reviewErasureRequest(
+    requestId: UUID,
+    reviewer: Actor,
+    decision: 'approve' | 'reject',
+    notes?: string
+): Promise<ErasureRequest | null> {
+    const request = findErasureRequestById(requestId);
+    if (!request || request.status !== 'pending') {
+        return null;
+    }
+
+    request.reviewedBy = reviewer.id;
+    request.reviewedAt = new Date().toISOString();
+    request.reviewNotes = notes;
+
+    createAuditEntry({
+        actorId: reviewer.id,
+        actorRole: reviewer.role,
+        action: decision === 'approve' ? 'erasure_approved' : 'erasure_rejected',
+        resourceType: 'data_subject',
+        resourceId: request.subjectId,
+        metadata: { requestId, notes },
+        result: 'success',
+    });
+
+    if (decision === 'reject') {
+        request.status = 'rejected';
+        updateErasureRequest(request);
+    } else {
+        runErasure(request, reviewer);
+    }
+
+    await notifyRequester(request);
+    return request;
+}
+
+/**
+ * Re-run a partially completed request once held records may have closed
+ * Returns null if the request does not exist or has no outstanding holds
+ */
+export async function resumeErasureRequest(requestId: UUID, actor: Actor): Promise<ErasureRequest | null> {
+    const request = findErasureRequestById(requestId);
+    if (!request || request.status !== 'partially_completed') {
+        return null;
+    }
+
+    const updated = runErasure(request, actor);
+
+    if (updated.status === 'completed') {
+        await notifyRequester(updated);
+    }
+    return updated;
+}
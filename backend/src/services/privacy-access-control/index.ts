@@ -1,7 +1,28 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { getUserPermissions } from './access-control.js';
-import { UserRole } from '../../types/index.js';
+import { generateRetentionReport } from './retention.js';
+import { queryAuditLog, verifyAuditChain } from './audit-log.js';
+import { getReencryptionStatus, runReencryption } from './key-rotation.js';
+import { shredDataSubject } from './crypto-shredding.js';
+import { exportSubjectData } from './dsar.js';
+import {
+    createErasureRequest,
+    getOpenErasureRequest,
+    getErasureRequest,
+    listErasureRequests,
+    reviewErasureRequest,
+    resumeErasureRequest,
+} from './erasure.js';
+import {
+    getConsentStatus,
+    getConsentHistory,
+    getCurrentPurposeVersion,
+    recordConsent,
+} from './consent.js';
+import type { ApiResponse, AuditEntry, UserRole } from '../../types/index.js';
+import { requireRole, requirePermission } from '../../middleware/auth.middleware.js';
+import { formatValidationError } from '../../utils/validators.js';
 
 const router = Router();
 
@@ -16,4 +37,335 @@ router.get('/permissions', (req, res) => {
     res.json({ success: true, data: { role, permissions } });
 });
 
+/**
+ * GET /api/privacy/retention/report
+ * Dry run of the retention purge: what would be deleted or anonymised now
+ */
+router.get('/retention/report', requireRole('admin'), (req, res) => {
+    const schema = z.object({
+        sampleLimit: z.coerce.number().int().min(0).max(500).optional(),
+    });
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const entries = generateRetentionReport(result.data.sampleLimit);
+    res.json({
+        success: true,
+        data: {
+            dryRun: true,
+            totalEligible: entries.reduce((sum, e) => sum + e.eligibleRecords, 0),
+            entries,
+        },
+    });
+});
+
+/**
+ * GET /api/privacy/audit
+ * Query the audit log by actor, resource, action, result and time range
+ */
+router.get('/audit', requirePermission('read:audit'), (req, res) => {
+    const schema = z.object({
+        actorId: z.string().min(1).optional(),
+        actorRole: z.enum(['customer', 'driver', 'dispatcher', 'security_officer', 'admin', 'system']).optional(),
+        action: z.string().min(1).max(200).optional(),
+        resourceType: z.string().min(1).optional(),
+        resourceId: z.string().min(1).optional(),
+        result: z.enum(['success', 'failure', 'denied']).optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(500).default(50),
+    });
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const { page, limit, ...query } = result.data;
+    const { entries, total } = queryAuditLog(query, page, limit);
+
+    const response: ApiResponse<{ entries: AuditEntry[] }> = {
+        success: true,
+        data: { entries },
+        meta: {
+            requestId: req.requestId,
+            timestamp: new Date().toISOString(),
+            pagination: { page, limit, total },
+        },
+    };
+    res.json(response);
+});
+
+/**
+ * GET /api/privacy/audit/verify
+ * Verify the audit hash chain for gaps and edits
+ */
+router.get('/audit/verify', requirePermission('read:audit'), (req, res) => {
+    const verification = verifyAuditChain();
+    res.json({ success: true, data: verification });
+});
+
+/**
+ * GET /api/privacy/keys/status
+ * Keyring versions and ciphertexts still waiting for re-encryption
+ */
+router.get('/keys/status', requireRole('admin'), (req, res) => {
+    res.json({ success: true, data: getReencryptionStatus() });
+});
+
+/**
+ * POST /api/privacy/keys/reencrypt
+ * Run the re-encryption job now instead of waiting for the next tick
+ */
+router.post('/keys/reencrypt', requireRole('admin'), (req, res) => {
+    res.json({ success: true, data: runReencryption() });
+});
+
+/**
+ * POST /api/privacy/dsar
+ * Export everything held about the requester, or about any subject for admins
+ */
+router.post('/dsar', (req, res) => {
+    const user = req.user;
+    if (!user) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    const schema = z.object({
+        subjectId: z.string().uuid().optional(),
+    });
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const subjectId = result.data.subjectId ?? user.id;
+    if (subjectId !== user.id && user.role !== 'admin') {
+        res.status(403).json({
+            success: false,
+            error: { code: 'FORBIDDEN', message: 'Only admins can export data for another subject' },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: exportSubjectData(subjectId, { id: user.id, role: user.role }) });
+});
+
+/**
+ * POST /api/privacy/erasure
+ * File an erasure request for yourself, or for any subject as an admin
+ */
+router.post('/erasure', (req, res) => {
+    const user = req.user;
+    if (!user) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    const schema = z.object({
+        subjectId: z.string().uuid().optional(),
+        reason: z.string().min(1).max(1000).optional(),
+    });
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const subjectId = result.data.subjectId ?? user.id;
+    if (subjectId !== user.id && user.role !== 'admin') {
+        res.status(403).json({
+            success: false,
+            error: { code: 'FORBIDDEN', message: 'Only admins can request erasure for another subject' },
+        });
+        return;
+    }
+
+    const existing = getOpenErasureRequest(subjectId);
+    if (existing) {
+        res.status(409).json({
+            success: false,
+            error: { code: 'ERASURE_IN_PROGRESS', message: `Erasure request ${existing.id} is already open` },
+        });
+        return;
+    }
+
+    const request = createErasureRequest(subjectId, { id: user.id, role: user.role }, result.data.reason);
+    res.status(201).json({ success: true, data: request });
+});
+
+/**
+ * GET /api/privacy/erasure
+ * Review queue for admins
+ */
+router.get('/erasure', requireRole('admin'), (req, res) => {
+    const schema = z.object({
+        status: z.enum(['pending', 'rejected', 'partially_completed', 'completed']).optional(),
+    });
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    res.json({ success: true, data: { requests: listErasureRequests(result.data.status) } });
+});
+
+/**
+ * GET /api/privacy/erasure/:requestId
+ * Request status, visible to the requester, the subject and admins
+ */
+router.get('/erasure/:requestId', (req, res) => {
+    const request = getErasureRequest(req.params['requestId'] ?? '');
+    const user = req.user;
+
+    if (!request || !user || (user.role !== 'admin' && user.id !== request.requestedBy && user.id !== request.subjectId)) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Erasure request not found' } });
+        return;
+    }
+
+    res.json({ success: true, data: request });
+});
+
+/**
+ * POST /api/privacy/erasure/:requestId/review
+ * Approve (and carry out) or reject a pending request
+ */
+router.post('/erasure/:requestId/review', requireRole('admin'), async (req, res) => {
+    const schema = z.object({
+        decision: z.enum(['approve', 'reject']),
+        notes: z.string().min(1).max(1000).optional(),
+    });
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    try {
+        const request = await reviewErasureRequest(
+            req.params['requestId'] ?? '',
+            { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' },
+            result.data.decision,
+            result.data.notes
+        );
+
+        if (!request) {
+            res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'No pending erasure request with this ID' } });
+            return;
+        }
+
+        res.json({ success: true, data: request });
+    } catch (error) {
+        res.status(500).json({ success: false, error: { code: 'ERASURE_FAILED', message: (error as Error).message } });
+    }
+});
+
+/**
+ * POST /api/privacy/erasure/:requestId/resume
+ * Retry a partially completed request after held records have closed
+ */
+router.post('/erasure/:requestId/resume', requireRole('admin'), async (req, res) => {
+    try {
+        const request = await resumeErasureRequest(
+            req.params['requestId'] ?? '',
+            { id: req.user?.id ?? 'system', role: req.user?.role ?? 'system' }
+        );
+
+        if (!request) {
+            res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'No partially completed erasure request with this ID' } });
+            return;
+        }
+
+        res.json({ success: true, data: request });
+    } catch (error) {
+        res.status(500).json({ success: false, error: { code: 'ERASURE_FAILED', message: (error as Error).message } });
+    }
+});
+
+/**
+ * GET /api/privacy/consents
+ * Current consent state per purpose and the full grant/withdraw history
+ */
+router.get('/consents', (req, res) => {
+    const userId = req.user?.id;
+    if (!userId) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    res.json({
+        success: true,
+        data: { consents: getConsentStatus(userId), history: getConsentHistory(userId) },
+    });
+});
+
+/**
+ * PUT /api/privacy/consents
+ * Grant or withdraw consent for one or more purposes
+ */
+router.put('/consents', requirePermission('write:own_delivery_consent'), (req, res) => {
+    const user = req.user;
+    if (!user) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Auth required' } });
+        return;
+    }
+
+    const schema = z.object({
+        consents: z.array(z.object({
+            purpose: z.enum(['live_location_sharing', 'marketing_sms', 'marketing_whatsapp', 'photo_proof_retention']),
+            granted: z.boolean(),
+            // Version of the purpose text the user was shown
+            version: z.number().int().min(1).optional(),
+        })).min(1),
+    });
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const stale = result.data.consents.find(c => c.version !== undefined && c.version !== getCurrentPurposeVersion(c.purpose));
+    if (stale) {
+        res.status(409).json({
+            success: false,
+            error: {
+                code: 'PURPOSE_VERSION_MISMATCH',
+                message: `Consent text for ${stale.purpose} has changed; current version is ${getCurrentPurposeVersion(stale.purpose)}`,
+            },
+        });
+        return;
+    }
+
+    const recorded = result.data.consents
+        .map(c => recordConsent(user.id, c.purpose, c.granted, { id: user.id, role: user.role }))
+        .filter(record => record !== null);
+
+    res.json({ success: true, data: { consents: getConsentStatus(user.id), recorded } });
+});
+
+/**
+ * DELETE /api/privacy/subjects/:subjectId/keys
+ * Crypto-shred a data subject and every subject linked to them
+ */
+router.delete('/subjects/:subjectId/keys', requireRole('admin'), (req, res) => {
+    const result = z.string().uuid().safeParse(req.params['subjectId']);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const shred = shredDataSubject(result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    res.json({ success: true, data: shred });
+});
+
 export { router as privacyRouter };
@@ -0,0 +1,148 @@
+import { reencrypt } from '../../crypto/encryption.js';
+import { rewrapWithMasterKey } from '../../crypto/master-key.js';
+import { getActiveKeyVersion, getKeyVersions } from '../../crypto/keyring.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from './access-control.js';
+import {
+    ENCRYPTED_COLUMNS,
+    findStaleCiphertexts,
+    countStaleCiphertexts,
+    replaceCiphertext,
+} from '../../database/repositories/reencryption.repository.js';
+
+/**
+ * Encryption Key Rotation
+ * Background job that rewraps subject keys under the active master key and
+ * moves data written before subject keys existed onto subject keys
+ */
+
+const BATCH_SIZE = 200;
+const MAX_BATCHES_PER_RUN = 25;
+const JOB_INTERVAL_MINUTES = 10;
+
+export interface ReencryptionStatus {
+    activeKeyVersion: number;
+    keyVersions: number[];
+    pending: Array<{ table: string; column: string; count: number }>;
+    totalPending: number;
+}
+
+export interface ReencryptionResult {
+    reencrypted: number;
+    failed: number;
+    remaining: number;
+}
+
+let reencryptionTimer: NodeJS.Timeout | null = null;
+
+export function getReencryptionStatus(): ReencryptionStatus {
+    const activeKeyVersion = getActiveKeyVersion();
+    const pending = ENCRYPTED_COLUMNS.map(target => ({
+        table: target.table,
+        column: target.column,
+        count: countStaleCiphertexts(target, activeKeyVersion),
+    }));
+
+    return {
+        activeKeyVersion,
+        keyVersions: getKeyVersions(),
+        pending,
+        totalPending: pending.reduce((sum, p) => sum + p.count, 0),
+    };
+}
+
+/**
+ * Re-encrypt one batch per encrypted column
+ * Rows that fail to decrypt are added to `skip` so later batches move past them
+ */
+function runBatch(activeKeyVersion: number, skip: Set<string>): { reencrypted: number; failed: number } {
+    let reencrypted = 0;
+    let failed = 0;
+
+    for (const target of ENCRYPTED_COLUMNS) {
+        const rows = findStaleCiphertexts(target, activeKeyVersion, BATCH_SIZE + skip.size)
+            .filter(row => !skip.has(`${target.table}.${target.column}:${row.id}`))
+            .slice(0, BATCH_SIZE);
+
+        for (const row of rows) {
+            try {
+                const next = target.scheme === 'master'
+                    ? rewrapWithMasterKey(row.value, row.contextId)
+                    : reencrypt(row.value, row.contextId);
+
+                if (next && replaceCiphertext(target, row.id, row.value, next)) {
+                    reencrypted++;
+                }
+            } catch (error) {
+                failed++;
+                skip.add(`${target.table}.${target.column}:${row.id}`);
+                logger.error('Re-encryption failed', {
+                    table: target.table,
+                    column: target.column,
+                    id: row.id,
+                    error: (error as Error).message,
+                });
+            }
+        }
+    }
+
+    return { reencrypted, failed };
+}
+
+/**
+ * Re-encrypt stale ciphertexts until none remain or the per-run cap is hit
+ */
+export function runReencryption(): ReencryptionResult {
+    const activeKeyVersion = getActiveKeyVersion();
+    const skip = new Set<string>();
+    let reencrypted = 0;
+    let failed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const result = runBatch(activeKeyVersion, skip);
+        reencrypted += result.reencrypted;
+        failed += result.failed;
+        if (result.reencrypted === 0) break;
+    }
+
+    const remaining = getReencryptionStatus().totalPending;
+
+    if (reencrypted > 0 || failed > 0) {
+        createAuditEntry({
+            actorId: 'system',
+            actorRole: 'system',
+            action: 'key_rotation_reencrypt',
+            resourceType: 'encryption_key',
+            resourceId: String(activeKeyVersion),
+            metadata: { reencrypted, failed, remaining },
+            result: failed > 0 ? 'failure' : 'success',
+        });
+
+        logger.info('Re-encryption run completed', { activeKeyVersion, reencrypted, failed, remaining });
+    }
+
+    return { reencrypted, failed, remaining };
+}
+
+export function startReencryptionJob(intervalMinutes: number = JOB_INTERVAL_MINUTES): void {
+    if (reencryptionTimer) return;
+
+    const run = (): void => {
+        try {
+            runReencryption();
+        } catch (error) {
+            logger.error('Re-encryption job failed', { error: (error as Error).message });
+        }
+    };
+
+    run();
+    reencryptionTimer = setInterval(run, intervalMinutes * 60 * 1000);
+    reencryptionTimer.unref();
+}
+
+export function stopReencryptionJob(): void {
+    if (reencryptionTimer) {
+        clearInterval(reencryptionTimer);
+        reencryptionTimer = null;
+    }
+}
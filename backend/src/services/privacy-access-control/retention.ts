@@ -0,0 +1,248 @@
+import h3 from 'h3-js';
+import type { RawCoordinates } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { createAuditEntry } from './access-control.js';
+import { truncateAuditLog } from './audit-log.js';
+import { getCurrentPurposeVersion } from './consent.js';
+import {
+    countExpired,
+    findOldestExpired,
+    listExpiredIds,
+    deleteExpired,
+    findExpiredEmergencyLocations,
+    anonymiseEmergencyLocation,
+    countUnconsentedPhotos,
+    findOldestUnconsentedPhoto,
+    listUnconsentedPhotoIds,
+    deleteUnconsentedPhotos,
+    type RetentionTarget,
+} from '../../database/repositories/retention.repository.js';
+
+/**
+ * Data Retention Engine (Kenya DPA)
+ *
+ * Purges or anonymises records once their retention window has passed:
+ * - Driver zone history and emergency coordinates: RETENTION_DAYS_LOCATION
+ * - Photos, signatures, OTPs and notifications: RETENTION_DAYS_DELIVERY
+ * - Photos whose recipient has not consented to photo proof retention:
+ *   RETENTION_DAYS_PHOTO_WITHOUT_CONSENT
+ * - Audit log: RETENTION_DAYS_AUDIT (truncated from the oldest end, chain anchored)
+ *
+ * Delivery data under an active legal hold is skipped. Every run is written to the audit log
+ */
+
+// Emergency coordinates are coarsened to this H3 resolution (~3km edge)
+const ANONYMISED_EMERGENCY_RESOLUTION = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RetentionAction = 'delete' | 'anonymise';
+
+// Photos kept past the short window only with the recipient's consent
+export type RetentionPolicyTarget = RetentionTarget | 'unconsented_delivery_photos';
+
+export interface RetentionPolicy {
+    target: RetentionPolicyTarget;
+    description: string;
+    retentionDays: number;
+    action: RetentionAction;
+}
+
+export interface RetentionReportEntry extends RetentionPolicy {
+    cutoff: string;
+    eligibleRecords: number;
+    oldestRecordAt: string | null;
+    sampleRecordIds: string[];
+}
+
+export interface RetentionRunEntry extends RetentionPolicy {
+    cutoff: string;
+    affectedRecords: number;
+}
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Snap emergency coordinates to the centre of a coarse H3 cell
+ */
+export function coarsenEmergencyLocation(location: RawCoordinates): RawCoordinates {
+    const cell = h3.latLngToCell(location.latitude, location.longitude, ANONYMISED_EMERGENCY_RESOLUTION);
+    const [latitude, longitude] = h3.cellToLatLng(cell);
+    return { latitude, longitude };
+}
+
+export function getRetentionPolicies(): RetentionPolicy[] {
+    return [
+        {
+            target: 'driver_location_history',
+            description: 'Driver zone history',
+            retentionDays: config.retentionDaysLocation,
+            action: 'delete',
+        },
+        {
+            target: 'emergency_locations',
+            description: 'Raw coordinates of resolved emergencies',
+            retentionDays: config.retentionDaysLocation,
+            action: 'anonymise',
+        },
+        {
+            target: 'delivery_photos',
+            description: 'Encrypted delivery photos',
+            retentionDays: config.retentionDaysDelivery,
+            action: 'delete',
+        },
+        {
+            target: 'unconsented_delivery_photos',
+            description: 'Encrypted delivery photos without photo retention consent',
+            retentionDays: config.retentionDaysPhotoWithoutConsent,
+            action: 'delete',
+        },
+        {
+            target: 'delivery_signatures',
+            description: 'Encrypted delivery signatures',
+            retentionDays: config.retentionDaysDelivery,
+            action: 'delete',
+        },
+        {
+            target: 'otp_records',
+            description: 'Delivery OTP records',
+            retentionDays: config.retentionDaysDelivery,
+            action: 'delete',
+        },
+        {
+            target: 'notifications',
+            description: 'Encrypted notifications',
+            retentionDays: config.retentionDaysDelivery,
+            action: 'delete',
+        },
+        {
+            target: 'audit_log',
+            description: 'Audit log entries',
+            retentionDays: config.retentionDaysAudit,
+            action: 'delete',
+        },
+    ];
+}
+
+function cutoffFor(policy: RetentionPolicy, now: Date): string {
+    return new Date(now.getTime() - policy.retentionDays * DAY_MS).toISOString();
+}
+
+/**
+ * Dry run: list what the next purge would remove, without changing anything
+ */
+export function generateRetentionReport(sampleLimit: number = 50, now: Date = new Date()): RetentionReportEntry[] {
+    return getRetentionPolicies().map(policy => {
+        const cutoff = cutoffFor(policy, now);
+
+        if (policy.target === 'unconsented_delivery_photos') {
+            const version = getCurrentPurposeVersion('photo_proof_retention');
+            return {
+                ...policy,
+                cutoff,
+                eligibleRecords: countUnconsentedPhotos(cutoff, version),
+                oldestRecordAt: findOldestUnconsentedPhoto(cutoff, version),
+                sampleRecordIds: listUnconsentedPhotoIds(cutoff, version, sampleLimit),
+            };
+        }
+
+        return {
+            ...policy,
+            cutoff,
+            eligibleRecords: countExpired(policy.target, cutoff),
+            oldestRecordAt: findOldestExpired(policy.target, cutoff),
+            sampleRecordIds: listExpiredIds(policy.target, cutoff, sampleLimit),
+        };
+    });
+}
+
+function applyPolicy(policy: RetentionPolicy, cutoff: string): number {
+    if (policy.target === 'audit_log') {
+        return truncateAuditLog(cutoff);
+    }
+
+    if (policy.target === 'unconsented_delivery_photos') {
+        return deleteUnconsentedPhotos(cutoff, getCurrentPurposeVersion('photo_proof_retention'));
+    }
+
+    if (policy.action === 'delete') {
+        return deleteExpired(policy.target, cutoff);
+    }
+
+    // Only emergency coordinates are anonymised
+    const expired = findExpiredEmergencyLocations(cutoff);
+    for (const { id, location } of expired) {
+        anonymiseEmergencyLocation(id, coarsenEmergencyLocation(location));
+    }
+    return expired.length;
+}
+
+/**
+ * Purge or anonymise every expired record and audit the run
+ */
+export function runRetentionPurge(now: Date = new Date()): RetentionRunEntry[] {
+    const results: RetentionRunEntry[] = [];
+
+    try {
+        for (const policy of getRetentionPolicies()) {
+            const cutoff = cutoffFor(policy, now);
+            results.push({ ...policy, cutoff, affectedRecords: applyPolicy(policy, cutoff) });
+        }
+    } catch (error) {
+        createAuditEntry({
+            actorId: 'system',
+            actorRole: 'system',
+            action: 'retention_purge',
+            resourceType: 'retention',
+            metadata: { completed: results, error: (error as Error).message },
+            result: 'failure',
+        });
+        throw error;
+    }
+
+    createAuditEntry({
+        actorId: 'system',
+        actorRole: 'system',
+        action: 'retention_purge',
+        resourceType: 'retention',
+        metadata: {
+            results: results.map(r => ({ target: r.target, action: r.action, cutoff: r.cutoff, affectedRecords: r.affectedRecords })),
+        },
+        result: 'success',
+    });
+
+    logger.info('Retention purge completed', {
+        affectedRecords: results.reduce((sum, r) => sum + r.affectedRecords, 0),
+    });
+
+    return results;
+}
+
+/**
+ * Schedule the purge job (runs once immediately)
+ */
+export function startRetentionJob(intervalMinutes: number = config.retentionPurgeIntervalMinutes): void {
+    if (retentionTimer) return;
+
+    const run = (): void => {
+        try {
+            runRetentionPurge();
+        } catch (error) {
+            logger.error('Retention purge failed', { error: (error as Error).message });
+        }
+    };
+
+    run();
+    retentionTimer = setInterval(run, intervalMinutes * 60 * 1000);
+    retentionTimer.unref();
+
+    logger.info('Retention job scheduled', { intervalMinutes });
+}
+
+export function stopRetentionJob(): void {
+    if (retentionTimer) {
+        clearInterval(retentionTimer);
+        retentionTimer = null;
+    }
+}
@@ -0,0 +1,43 @@
+import type { UUID } from '../../types/index.js';
+import { findOwnedSubjectIds } from '../../database/repositories/subject-key.repository.js';
+import { findOTPRecordsByRecipient } from '../../database/repositories/verification.repository.js';
+import { findDeliveriesByParticipant } from '../../database/repositories/delivery.repository.js';
+import {
+    findAlertsByDriver,
+    findLocationHistoryDeliveryIds,
+} from '../../database/repositories/security.repository.js';
+
+/**
+ * Subject Data Discovery
+ * Finds the deliveries a person is tied to, as sender, recipient or driver
+ */
+
+export type SubjectRelationship = 'sender' | 'recipient' | 'driver';
+
+export function findSubjectDeliveries(subjectId: UUID): Map<UUID, Set<SubjectRelationship>> {
+    const deliveries = new Map<UUID, Set<SubjectRelationship>>();
+    const relate = (deliveryId: UUID, relationship: SubjectRelationship): void => {
+        const existing = deliveries.get(deliveryId) ?? new Set();
+        existing.add(relationship);
+        deliveries.set(deliveryId, existing);
+    };
+
+    // Delivery artefacts (OTPs, proof of delivery) belong to the recipient, not the sender
+    for (const delivery of findDeliveriesByParticipant(subjectId)) {
+        if (delivery.senderId === subjectId) relate(delivery.id, 'sender');
+        if (delivery.recipientId === subjectId) relate(delivery.id, 'recipient');
+        if (delivery.driverId === subjectId) relate(delivery.id, 'driver');
+    }
+
+    // Deliveries linked to the subject as recipient
+    for (const linked of findOwnedSubjectIds(subjectId)) {
+        if (linked !== subjectId) relate(linked, 'recipient');
+    }
+    for (const otp of findOTPRecordsByRecipient(subjectId)) relate(otp.deliveryId, 'recipient');
+
+    // Deliveries the subject drove
+    for (const alert of findAlertsByDriver(subjectId)) relate(alert.deliveryId, 'driver');
+    for (const deliveryId of findLocationHistoryDeliveryIds(subjectId)) relate(deliveryId, 'driver');
+
+    return deliveries;
+}
@@ -1,6 +1,7 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import type {
+    ObfuscatedLocation,
     RealtimeEvent,
     RealtimeEventType,
     UserRole,
@@ -8,6 +9,12 @@ import type {
 } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
+import {
+    enqueueOfflineEvent,
+    drainOfflineEvents,
+} from '../../database/repositories/realtime.repository.js';
+import { hasConsent } from '../privacy-access-control/consent.js';
+import { obfuscateTime } from '../location-obfuscation/temporal.js';
 
 /**
  * Real-Time Status Broadcasting System
@@ -19,8 +26,8 @@ let io: SocketIOServer | null = null;
 // Connected clients
 const clients = new Map<string, { userId: UUID; role: UserRole; socket: Socket }>();
 
-// Offline message queue (per user)
-const offlineQueue = new Map<UUID, RealtimeEvent[]>();
+// Offline message queue limit (per user, persisted)
+const MAX_OFFLINE_EVENTS = 50;
 
 // Room management
 const deliveryRooms = new Map<UUID, Set<string>>(); // deliveryId -> socket IDs
@@ -39,10 +46,9 @@ export function initializeWebSocket(httpServer: HttpServer): SocketIOServer {
             clients.set(socket.id, { userId: data.userId, role: data.role, socket });
 
             // Send queued messages
-            const queued = offlineQueue.get(data.userId);
-            if (queued && queued.length > 0) {
+            const queued = drainOfflineEvents(data.userId);
+            if (queued.length > 0) {
                 queued.forEach(event => socket.emit('event', event));
-                offlineQueue.delete(data.userId);
                 logger.info('Delivered queued messages', { userId: data.userId, count: queued.length });
             }
 
@@ -102,10 +108,7 @@ export function broadcast(event: RealtimeEvent): void {
         audience.userIds.forEach(userId => {
             const isOnline = Array.from(clients.values()).some(c => c.userId === userId);
             if (!isOnline) {
-                const queue = offlineQueue.get(userId) || [];
-                queue.push(event);
-                if (queue.length > 50) queue.shift(); // Limit queue size
-                offlineQueue.set(userId, queue);
+                enqueueOfflineEvent(userId, event, MAX_OFFLINE_EVENTS);
             }
         });
     }
@@ -136,6 +139,36 @@ export function broadcastDeliveryUpdate(
     });
 }
 
+/**
+ * Location events are only shared while the tracked driver consents. Delivery
+ * rooms include customers, so the payload never names the driver.
+ */
+export function broadcastLocationUpdate(
+    deliveryId: UUID,
+    driverId: UUID,
+    location: ObfuscatedLocation
+): void {
+    if (!hasConsent(driverId, 'live_location_sharing')) {
+        logger.debug('Location event dropped without consent', { deliveryId });
+        return;
+    }
+
+    broadcast({
+        type: 'location:update',
+        timestamp: new Date().toISOString(),
+        audience: { deliveryId },
+        payload: {
+            deliveryId,
+            zoneId: location.zoneId,
+            zoneDescription: location.zoneDescription,
+            // Delivery rooms include customers: re-bucket to the customer policy
+            approximateTime: obfuscateTime(new Date(location.approximateTime), 'customer_tracking', driverId),
+            movementState: location.movementState,
+        },
+        eventId: `location-${deliveryId}-${Date.now()}`,
+    });
+}
+
 export function broadcastSecurityAlert(
     deliveryId: UUID,
     alertType: string,
@@ -176,7 +209,6 @@ export function closeWebSocket(): void {
         io = null;
         clients.clear();
         deliveryRooms.clear();
-        offlineQueue.clear();
         logger.info('WebSocket server closed');
     }
 }
@@ -23,4 +23,4 @@ router.get('/health', (req, res) => {
 });
 
 export { router as realtimeRouter };
-export { initializeWebSocket, broadcast, broadcastDeliveryUpdate, broadcastSecurityAlert, broadcastEmergency, closeWebSocket } from './broadcaster.js';
+export { initializeWebSocket, broadcast, broadcastDeliveryUpdate, broadcastLocationUpdate, broadcastSecurityAlert, broadcastEmergency, closeWebSocket } from './broadcaster.js';
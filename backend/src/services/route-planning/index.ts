@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { coordinatesSchema, formatValidationError } from '../../utils/validators.js';
+import { requirePermission } from '../../middleware/auth.middleware.js';
+import { requireKnownDeliveryParam } from '../../middleware/delivery.middleware.js';
+import {
+    planRoute,
+    planDeliveryRoute,
+    ROUTE_PLANNING,
+    type RoutePlanError,
+} from './planner.js';
+
+/**
+ * Route Planning - API Routes
+ * All routes need write:delivery_assignment
+ */
+
+const router = Router();
+
+router.use(requirePermission('write:delivery_assignment'));
+router.param('deliveryId', requireKnownDeliveryParam);
+
+const ROUTE_PLAN_ERROR_STATUS: Record<RoutePlanError, number> = {
+    not_found: 404,
+    missing_locations: 422,
+    route_too_long: 422,
+};
+
+const planOptionsSchema = z.object({
+    waypoints: z.array(coordinatesSchema).max(ROUTE_PLANNING.maxWaypoints).optional(),
+    resolution: z.number().int().min(ROUTE_PLANNING.minResolution).max(ROUTE_PLANNING.maxResolution).optional(),
+    corridorRings: z.number().int().min(0).max(ROUTE_PLANNING.maxCorridorRings).optional(),
+});
+
+/**
+ * POST /api/routes/plan
+ * Preview a route without registering it
+ */
+router.post('/plan', (req, res) => {
+    const schema = planOptionsSchema.extend({
+        origin: coordinatesSchema,
+        destination: coordinatesSchema,
+    });
+
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const planned = planRoute(result.data);
+    if (!planned.ok) {
+        res.status(ROUTE_PLAN_ERROR_STATUS[planned.error]).json({
+            success: false,
+            error: { code: planned.error.toUpperCase(), message: planned.message },
+        });
+        return;
+    }
+
+    res.json({ success: true, data: planned.plan });
+});
+
+/**
+ * POST /api/routes/deliveries/:deliveryId
+ * Plan and register the delivery's expected route; origin and destination
+ * default to the sender's and recipient's locations
+ */
+router.post('/deliveries/:deliveryId', (req, res) => {
+    const schema = planOptionsSchema.extend({
+        origin: coordinatesSchema.optional(),
+        destination: coordinatesSchema.optional(),
+    });
+
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+        res.status(400).json({ success: false, error: formatValidationError(result.error) });
+        return;
+    }
+
+    const planned = planDeliveryRoute(req.params['deliveryId'] ?? '', result.data, {
+        id: req.user?.id ?? 'system',
+        role: req.user?.role ?? 'system',
+    });
+    if (!planned.ok) {
+        res.status(ROUTE_PLAN_ERROR_STATUS[planned.error]).json({
+            success: false,
+            error: { code: planned.error.toUpperCase(), message: planned.message },
+        });
+        return;
+    }
+
+    res.status(201).json({ success: true, data: planned.plan });
+});
+
+export { router as routePlanningRouter };
@@ -0,0 +1,272 @@
+import h3 from 'h3-js';
+import type { H3Index, RawCoordinates, UserRole, UUID } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+import { createAuditEntry } from '../privacy-access-control/access-control.js';
+import { setExpectedRoute } from '../cargo-security/monitor.js';
+import { getDelivery } from '../delivery-management/lifecycle.js';
+import { getRoadGraph, findRoadPath, type RoadGraph } from './road-graph.js';
+
+/**
+ * Route Planner
+ *
+ * Turns origin → waypoints → destination into the expected route the cargo
+ * monitor checks drivers against:
+ * 1. Each leg follows the offline road graph when one is loaded and both
+ *    ends snap to it, otherwise the straight H3 grid path
+ * 2. The centreline cells are widened by k rings into a corridor, kept in
+ *    travel order so position in the sequence still reflects progress
+ * 3. Duration comes from road speeds, or a detour factor and average speed
+ *    for straight legs, plus a fixed stop time per waypoint
+ */
+
+interface Actor {
+    id: string;
+    role: UserRole;
+}
+
+export const ROUTE_PLANNING = {
+    defaultResolution: 8,           // Same as the monitored driver zones
+    minResolution: 6,
+    maxResolution: 10,
+    defaultCorridorRings: 1,
+    maxCorridorRings: 3,
+    maxWaypoints: 10,
+    maxCorridorCells: 20_000,
+    straightLineDetourFactor: 1.3,  // Road distance over straight-line distance
+    straightLineSpeedKmh: 35,
+    waypointStopMinutes: 10,
+};
+
+export type RouteSource = 'road_graph' | 'straight_line';
+
+export interface RoutePlanRequest {
+    origin: RawCoordinates;
+    destination: RawCoordinates;
+    waypoints?: RawCoordinates[];
+    resolution?: number;
+    corridorRings?: number;
+}
+
+export interface RouteLeg {
+    source: RouteSource;
+    distanceMeters: number;
+    durationMinutes: number;
+}
+
+export interface RoutePlan {
+    resolution: number;
+    corridorRings: number;
+    centreline: H3Index[];
+    zoneSequence: H3Index[];    // Corridor, in travel order
+    distanceMeters: number;
+    estimatedDuration: number;  // Whole minutes
+    legs: RouteLeg[];
+}
+
+export type RoutePlanError = 'not_found' | 'missing_locations' | 'route_too_long';
+
+export type RoutePlanResult =
+    | { ok: true; plan: RoutePlan }
+    | { ok: false; error: RoutePlanError; message: string };
+
+export type DeliveryRouteRequest = Partial<RoutePlanRequest>;
+
+function toCell(point: RawCoordinates, resolution: number): H3Index {
+    return h3.latLngToCell(point.latitude, point.longitude, resolution);
+}
+
+/**
+ * Append cells, bridging any gap to the previous cell with a grid path
+ */
+function appendCells(cells: H3Index[], next: H3Index[]): void {
+    for (const cell of next) {
+        const last = cells[cells.length - 1];
+        if (cell === last) continue;
+
+        if (last && !h3.areNeighborCells(last, cell)) {
+            try {
+                cells.push(...h3.gridPathCells(last, cell).slice(1, -1));
+            } catch {
+                // No grid path (e.g. across a pentagon): leave the gap
+            }
+        }
+        cells.push(cell);
+    }
+}
+
+/**
+ * Cells along a polyline, sampled at half the cell edge length
+ */
+function polylineCells(points: RawCoordinates[], resolution: number): H3Index[] {
+    const step = h3.getHexagonEdgeLengthAvg(resolution, h3.UNITS.m) / 2;
+    const cells: H3Index[] = [];
+
+    points.forEach((point, i) => {
+        const previous = points[i - 1];
+        if (!previous) {
+            appendCells(cells, [toCell(point, resolution)]);
+            return;
+        }
+
+        const samples = Math.max(1, Math.ceil(calculateDistance(previous, point) / step));
+        const segment: H3Index[] = [];
+        for (let s = 1; s <= samples; s++) {
+            segment.push(toCell({
+                latitude: previous.latitude + (point.latitude - previous.latitude) * s / samples,
+                longitude: previous.longitude + (point.longitude - previous.longitude) * s / samples,
+            }, resolution));
+        }
+        appendCells(cells, segment);
+    });
+
+    return cells;
+}
+
+function straightCells(from: RawCoordinates, to: RawCoordinates, resolution: number): H3Index[] {
+    try {
+        return h3.gridPathCells(toCell(from, resolution), toCell(to, resolution));
+    } catch {
+        return polylineCells([from, to], resolution);
+    }
+}
+
+function straightMinutes(meters: number): number {
+    return (meters / 1000) / ROUTE_PLANNING.straightLineSpeedKmh * 60;
+}
+
+function planLeg(
+    from: RawCoordinates,
+    to: RawCoordinates,
+    resolution: number,
+    graph: RoadGraph | null
+): RouteLeg & { cells: H3Index[] } {
+    const road = graph ? findRoadPath(graph, from, to) : null;
+
+    if (road) {
+        // Include the stretches between each stop and the road it snapped to
+        const first = road.points[0] ?? from;
+        const last = road.points[road.points.length - 1] ?? to;
+        const accessMeters = calculateDistance(from, first) + calculateDistance(last, to);
+
+        return {
+            source: 'road_graph',
+            cells: polylineCells([from, ...road.points, to], resolution),
+            distanceMeters: road.distanceMeters + accessMeters,
+            durationMinutes: road.durationSeconds / 60 + straightMinutes(accessMeters),
+        };
+    }
+
+    const distanceMeters = calculateDistance(from, to) * ROUTE_PLANNING.straightLineDetourFactor;
+    return {
+        source: 'straight_line',
+        cells: straightCells(from, to, resolution),
+        distanceMeters,
+        durationMinutes: straightMinutes(distanceMeters),
+    };
+}
+
+/**
+ * Plan a route without registering it
+ */
+export function planRoute(request: RoutePlanRequest): RoutePlanResult {
+    const resolution = request.resolution ?? ROUTE_PLANNING.defaultResolution;
+    const corridorRings = request.corridorRings ?? ROUTE_PLANNING.defaultCorridorRings;
+    const stops = [request.origin, ...(request.waypoints ?? []), request.destination];
+    const graph = getRoadGraph();
+
+    const centreline: H3Index[] = [];
+    const legs: RouteLeg[] = [];
+
+    stops.slice(1).forEach((to, i) => {
+        const from = stops[i];
+        if (!from) return;
+
+        const { cells, ...leg } = planLeg(from, to, resolution, graph);
+        appendCells(centreline, cells);
+        legs.push(leg);
+    });
+
+    if (centreline.length > ROUTE_PLANNING.maxCorridorCells) {
+        return { ok: false, error: 'route_too_long', message: 'Route is too long for this resolution' };
+    }
+
+    const corridor = new Set<H3Index>();
+    for (const cell of centreline) {
+        for (const neighbour of h3.gridDisk(cell, corridorRings)) {
+            corridor.add(neighbour);
+        }
+    }
+
+    if (corridor.size > ROUTE_PLANNING.maxCorridorCells) {
+        return { ok: false, error: 'route_too_long', message: 'Route is too long for this resolution' };
+    }
+
+    const travelMinutes = legs.reduce((sum, leg) => sum + leg.durationMinutes, 0);
+    const stopMinutes = (request.waypoints?.length ?? 0) * ROUTE_PLANNING.waypointStopMinutes;
+
+    return {
+        ok: true,
+        plan: {
+            resolution,
+            corridorRings,
+            centreline,
+            zoneSequence: [...corridor],
+            distanceMeters: Math.round(legs.reduce((sum, leg) => sum + leg.distanceMeters, 0)),
+            estimatedDuration: Math.max(1, Math.ceil(travelMinutes + stopMinutes)),
+            legs: legs.map(leg => ({
+                ...leg,
+                distanceMeters: Math.round(leg.distanceMeters),
+                durationMinutes: Math.round(leg.durationMinutes),
+            })),
+        },
+    };
+}
+
+/**
+ * Plan a delivery's route and register it as its expected route. Origin and
+ * destination default to the sender's and recipient's locations.
+ */
+export function planDeliveryRoute(deliveryId: UUID, request: DeliveryRouteRequest, actor: Actor): RoutePlanResult {
+    const delivery = getDelivery(deliveryId);
+    if (!delivery) {
+        return { ok: false, error: 'not_found', message: 'Delivery not found' };
+    }
+
+    const origin = request.origin ?? delivery.sender?.location;
+    const destination = request.destination ?? delivery.recipient?.location;
+    if (!origin || !destination) {
+        return { ok: false, error: 'missing_locations', message: 'Origin and destination are required' };
+    }
+
+    const result = planRoute({ ...request, origin, destination });
+    if (!result.ok) {
+        return result;
+    }
+
+    const { plan } = result;
+    setExpectedRoute(deliveryId, plan.zoneSequence, plan.estimatedDuration);
+
+    createAuditEntry({
+        actorId: actor.id,
+        actorRole: actor.role,
+        action: 'expected_route_planned',
+        resourceType: 'delivery',
+        resourceId: deliveryId,
+        metadata: {
+            resolution: plan.resolution,
+            corridorRings: plan.corridorRings,
+            zones: plan.zoneSequence.length,
+            estimatedDuration: plan.estimatedDuration,
+        },
+        result: 'success',
+    });
+
+    logger.info('Expected route planned', {
+        deliveryId,
+        zones: plan.zoneSequence.length,
+        sources: [...new Set(plan.legs.map(leg => leg.source))],
+    });
+
+    return result;
+}
@@ -0,0 +1,293 @@
+import fs from 'fs';
+import h3 from 'h3-js';
+import type { H3Index, RawCoordinates } from '../../types/index.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { calculateDistance } from '../../utils/geo-utils.js';
+
+/**
+ * Offline Road Graph
+ *
+ * Loaded once from the GeoJSON file at ROAD_GRAPH_PATH: LineString and
+ * MultiLineString features, with optional OSM-style `highway`, `maxspeed`
+ * and `oneway` properties. Line vertices become nodes, shared vertices join
+ * roads. Without a file (or with an unreadable one) there is no graph and
+ * the planner falls back to straight grid paths.
+ *
+ * Cells crossed by motorways and trunk roads are also indexed, so the cargo
+ * monitor can tell highway zones apart.
+ */
+
+interface RoadEdge {
+    to: number;
+    meters: number;
+    seconds: number;
+}
+
+export interface RoadGraph {
+    nodes: RawCoordinates[];
+    edges: RoadEdge[][];
+    // Node indices bucketed by cell, for snapping points to the network
+    index: Map<H3Index, number[]>;
+    // Cells crossed by highways
+    highways: Set<H3Index>;
+}
+
+export interface RoadPath {
+    points: RawCoordinates[];
+    distanceMeters: number;
+    durationSeconds: number;
+}
+
+interface RoadFeature {
+    geometry?: { type?: string; coordinates?: unknown } | null;
+    properties?: { highway?: unknown; maxspeed?: unknown; oneway?: unknown } | null;
+}
+
+// Typical speeds when a road has no usable maxspeed
+const ROAD_SPEEDS_KMH: Record<string, number> = {
+    motorway: 80,
+    trunk: 70,
+    primary: 60,
+    secondary: 50,
+    tertiary: 40,
+    unclassified: 30,
+    residential: 25,
+    service: 15,
+};
+const DEFAULT_ROAD_SPEED_KMH = 30;
+
+const HIGHWAY_CLASSES = new Set(['motorway', 'motorway_link', 'trunk', 'trunk_link']);
+
+const INDEX_RESOLUTION = 7;     // ~1.2 km cells
+const SNAP_RINGS = 2;           // Points further than ~3 km from any road are not snapped
+
+let cachedGraph: RoadGraph | null | undefined;
+
+function roadSpeedKmh(properties: RoadFeature['properties']): number {
+    const maxspeed = Number.parseFloat(String(properties?.maxspeed ?? ''));
+    if (Number.isFinite(maxspeed) && maxspeed > 0) {
+        return maxspeed;
+    }
+    return ROAD_SPEEDS_KMH[String(properties?.highway ?? '')] ?? DEFAULT_ROAD_SPEED_KMH;
+}
+
+function lineStrings(geometry: RoadFeature['geometry']): number[][][] {
+    if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+    if (geometry.type === 'LineString') return [geometry.coordinates as number[][]];
+    if (geometry.type === 'MultiLineString') return geometry.coordinates as number[][][];
+    return [];
+}
+
+function indexHighway(graph: RoadGraph, from: RawCoordinates, to: RawCoordinates): void {
+    const start = h3.latLngToCell(from.latitude, from.longitude, INDEX_RESOLUTION);
+    const end = h3.latLngToCell(to.latitude, to.longitude, INDEX_RESOLUTION);
+    try {
+        for (const cell of h3.gridPathCells(start, end)) graph.highways.add(cell);
+    } catch {
+        graph.highways.add(start);
+        graph.highways.add(end);
+    }
+}
+
+/**
+ * Build a graph from parsed GeoJSON
+ */
+export function buildRoadGraph(features: RoadFeature[]): RoadGraph {
+    const graph: RoadGraph = { nodes: [], edges: [], index: new Map(), highways: new Set() };
+    const nodeIds = new Map<string, number>();
+
+    const nodeFor = ([longitude, latitude]: number[]): number | null => {
+        if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+
+        const key = `${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+        const existing = nodeIds.get(key);
+        if (existing !== undefined) return existing;
+
+        const id = graph.nodes.length;
+        graph.nodes.push({ latitude, longitude });
+        graph.edges.push([]);
+        nodeIds.set(key, id);
+
+        const cell = h3.latLngToCell(latitude, longitude, INDEX_RESOLUTION);
+        graph.index.set(cell, [...(graph.index.get(cell) ?? []), id]);
+        return id;
+    };
+
+    for (const feature of features) {
+        const speedMs = roadSpeedKmh(feature.properties) / 3.6;
+        const oneway = String(feature.properties?.oneway ?? '');
+        const forward = oneway !== '-1';
+        const backward = !['yes', 'true', '1'].includes(oneway) || oneway === '-1';
+        const highway = HIGHWAY_CLASSES.has(String(feature.properties?.highway ?? ''));
+
+        for (const line of lineStrings(feature.geometry)) {
+            let previous: number | null = null;
+            for (const position of line) {
+                const current = nodeFor(position);
+                if (current === null) continue;
+
+                if (previous !== null && previous !== current) {
+                    const from = graph.nodes[previous];
+                    const to = graph.nodes[current];
+                    if (from && to) {
+                        const meters = calculateDistance(from, to);
+                        const seconds = meters / speedMs;
+                        if (forward) graph.edges[previous]?.push({ to: current, meters, seconds });
+                        if (backward) graph.edges[current]?.push({ to: previous, meters, seconds });
+                        if (highway) indexHighway(graph, from, to);
+                    }
+                }
+                previous = current;
+            }
+        }
+    }
+
+    return graph;
+}
+
+/**
+ * Read and build the graph from a GeoJSON FeatureCollection file
+ */
+export function loadRoadGraph(filePath: string): RoadGraph {
+    const geojson = JSON.parse(fs.readFileSync(filePath, 'utf8')) as { features?: RoadFeature[] };
+    return buildRoadGraph(geojson.features ?? []);
+}
+
+/**
+ * The configured road graph, or null if none is configured or it failed to load
+ */
+export function getRoadGraph(): RoadGraph | null {
+    if (cachedGraph !== undefined) {
+        return cachedGraph;
+    }
+
+    cachedGraph = null;
+    if (!config.roadGraphPath) {
+        return cachedGraph;
+    }
+
+    try {
+        cachedGraph = loadRoadGraph(config.roadGraphPath);
+        logger.info('Road graph loaded', { path: config.roadGraphPath, nodes: cachedGraph.nodes.length });
+    } catch (error) {
+        logger.warn('Road graph could not be loaded, using straight grid paths', {
+            path: config.roadGraphPath,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+    return cachedGraph;
+}
+
+/**
+ * Whether a zone lies on a highway in the configured road graph; always
+ * false without a graph or for zones coarser than the highway index
+ */
+export function isHighwayZone(zoneId: H3Index): boolean {
+    const graph = getRoadGraph();
+    if (!graph || !h3.isValidCell(zoneId) || h3.getResolution(zoneId) < INDEX_RESOLUTION) {
+        return false;
+    }
+    return graph.highways.has(h3.cellToParent(zoneId, INDEX_RESOLUTION));
+}
+
+function nearestNode(graph: RoadGraph, point: RawCoordinates): number | null {
+    const origin = h3.latLngToCell(point.latitude, point.longitude, INDEX_RESOLUTION);
+
+    for (let k = 0; k <= SNAP_RINGS; k++) {
+        let best: { id: number; meters: number } | null = null;
+        for (const cell of h3.gridDisk(origin, k)) {
+            for (const id of graph.index.get(cell) ?? []) {
+                const node = graph.nodes[id];
+                if (!node) continue;
+                const meters = calculateDistance(point, node);
+                if (!best || meters < best.meters) best = { id, meters };
+            }
+        }
+        if (best) return best.id;
+    }
+    return null;
+}
+
+/**
+ * Binary min-heap of [cost, node] pairs
+ */
+function pushHeap(heap: Array<[number, number]>, item: [number, number]): void {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent]![0] <= heap[i]![0]) break;
+        [heap[parent], heap[i]] = [heap[i]!, heap[parent]!];
+        i = parent;
+    }
+}
+
+function popHeap(heap: Array<[number, number]>): [number, number] | undefined {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < heap.length && heap[left]![0] < heap[smallest]![0]) smallest = left;
+            if (right < heap.length && heap[right]![0] < heap[smallest]![0]) smallest = right;
+            if (smallest === i) break;
+            [heap[smallest], heap[i]] = [heap[i]!, heap[smallest]!];
+            i = smallest;
+        }
+    }
+    return top;
+}
+
+/**
+ * Fastest path between the roads nearest to two points (Dijkstra on travel
+ * time). Null if either point is off the network or they are not connected.
+ */
+export function findRoadPath(graph: RoadGraph, from: RawCoordinates, to: RawCoordinates): RoadPath | null {
+    const start = nearestNode(graph, from);
+    const goal = nearestNode(graph, to);
+    if (start === null || goal === null) {
+        return null;
+    }
+
+    const seconds = new Map<number, number>([[start, 0]]);
+    const meters = new Map<number, number>([[start, 0]]);
+    const previous = new Map<number, number>();
+    const heap: Array<[number, number]> = [[0, start]];
+
+    for (let item = popHeap(heap); item; item = popHeap(heap)) {
+        const [cost, node] = item;
+        if (node === goal) break;
+        if (cost > (seconds.get(node) ?? Infinity)) continue;
+
+        for (const edge of graph.edges[node] ?? []) {
+            const next = cost + edge.seconds;
+            if (next < (seconds.get(edge.to) ?? Infinity)) {
+                seconds.set(edge.to, next);
+                meters.set(edge.to, (meters.get(node) ?? 0) + edge.meters);
+                previous.set(edge.to, node);
+                pushHeap(heap, [next, edge.to]);
+            }
+        }
+    }
+
+    if (!seconds.has(goal)) {
+        return null;
+    }
+
+    const points: RawCoordinates[] = [];
+    for (let node: number | undefined = goal; node !== undefined; node = previous.get(node)) {
+        const coordinates = graph.nodes[node];
+        if (coordinates) points.unshift(coordinates);
+    }
+
+    return {
+        points,
+        distanceMeters: meters.get(goal) ?? 0,
+        durationSeconds: seconds.get(goal) ?? 0,
+    };
+}
@@ -29,6 +29,8 @@ export interface ApiResponse<T> {
 }
 
 // Location & Privacy
+export type TimeObfuscationUseCase = 'customer_tracking' | 'dispatch' | 'security_monitoring' | 'analytics';
+
 export interface RawCoordinates {
     latitude: number;
     longitude: number;
@@ -37,9 +39,23 @@ export interface RawCoordinates {
 export interface ObfuscatedLocation {
     zoneId: H3Index;
     approximateTime: DateTimeString;
+    timeUseCase?: TimeObfuscationUseCase;    // Policy approximateTime was coarsened under
     movementState: 'stationary' | 'moving' | 'unknown';
     resolution: number;
     zoneDescription?: string;
+    inPrivateZone?: boolean;
+}
+
+export type PrivacyZoneDisclosure = 'coarse' | 'hidden';
+
+export interface PrivacyZone {
+    id: UUID;
+    ownerId: UUID;
+    label: string;
+    center: RawCoordinates;
+    radiusMeters: number;
+    disclosure: PrivacyZoneDisclosure;
+    createdAt: DateTimeString;
 }
 
 // Code Generation
@@ -54,6 +70,110 @@ export interface DeliveryCode {
     createdAt: DateTimeString;
 }
 
+// Deliveries
+export type DeliveryStatus =
+    | 'created'
+    | 'picked_up'
+    | 'in_transit'
+    | 'out_for_delivery'
+    | 'delivered'
+    | 'failed'
+    | 'returned';
+
+export interface DeliveryParty {
+    name: string;
+    phone: string;
+    address: string;
+    location?: RawCoordinates;
+}
+
+export interface ParcelDetails {
+    description: string;
+    weightKg: number;
+    lengthCm?: number;
+    widthCm?: number;
+    heightCm?: number;
+    declaredValueKes?: number;
+    fragile?: boolean;
+}
+
+export interface Delivery {
+    id: UUID;
+    // Public, human-friendly reference (KS-XXXXX-XXXXX)
+    trackingNumber?: string;
+    senderId: UUID;
+    recipientId: UUID;
+    // Contact details are encrypted at rest; null once the subject is erased
+    sender: DeliveryParty | null;
+    recipient: DeliveryParty | null;
+    parcel: ParcelDetails;
+    driverId?: UUID;
+    vehicleId?: UUID;
+    status: DeliveryStatus;
+    createdAt: DateTimeString;
+    updatedAt: DateTimeString;
+}
+
+export interface DeliveryStatusEvent {
+    id: UUID;
+    deliveryId: UUID;
+    fromStatus: DeliveryStatus | null;
+    toStatus: DeliveryStatus;
+    actorId: string;
+    reason?: string;
+    occurredAt: DateTimeString;
+}
+
+// Fleet
+export type DriverStatus = 'active' | 'suspended' | 'inactive';
+export type VehicleType = 'motorcycle' | 'tuk_tuk' | 'car' | 'van' | 'pickup' | 'truck';
+export type VehicleStatus = 'active' | 'maintenance' | 'retired';
+export type FleetDocument = 'driving_licence' | 'psv_badge' | 'insurance';
+export type ShiftStatus = 'on_shift' | 'on_break' | 'off_shift';
+
+export interface DriverDetails {
+    name: string;
+    phone: string;
+    licenceNumber: string;
+    psvBadgeNumber: string;
+}
+
+export interface Driver {
+    id: UUID;
+    // Encrypted at rest under the driver's key; null once the driver is erased
+    details: DriverDetails | null;
+    licenceExpiresAt: DateTimeString;
+    psvBadgeExpiresAt: DateTimeString;
+    status: DriverStatus;
+    createdAt: DateTimeString;
+    updatedAt: DateTimeString;
+}
+
+export interface Vehicle {
+    id: UUID;
+    plate: string;
+    type: VehicleType;
+    capacityKg: number;
+    insuranceExpiresAt: DateTimeString;
+    status: VehicleStatus;
+    createdAt: DateTimeString;
+    updatedAt: DateTimeString;
+}
+
+export interface DriverShift {
+    driverId: UUID;
+    status: ShiftStatus;
+    // Vehicle the driver is using this shift
+    vehicleId?: UUID;
+    updatedAt: DateTimeString;
+}
+
+export interface DocumentCheck {
+    document: FleetDocument;
+    expiresAt: DateTimeString;
+    status: 'valid' | 'expiring_soon' | 'expired';
+}
+
 // Verification
 export type VerificationMethod = 'otp' | 'code' | 'photo' | 'signature' | 'geofence' | 'biometric';
 
@@ -101,6 +221,20 @@ export interface DeliverySignature {
     capturedAt: DateTimeString;
 }
 
+// GeoJSON geometry, positions are [longitude, latitude]
+export type GeofenceGeometry =
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export interface DeliveryGeofence {
+    deliveryId: UUID;
+    name: string;
+    geometry: GeofenceGeometry;
+    bufferMeters: number;
+    createdAt: DateTimeString;
+    updatedAt: DateTimeString;
+}
+
 // Security & Cargo
 export type AnomalyType = 'route_deviation' | 'unusual_stop' | 'speed_anomaly' | 'time_anomaly' | 'geofence_breach' | 'tampering_detected' | 'communication_lost';
 export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
@@ -161,6 +295,75 @@ export interface NotificationRecord {
     failureReason?: string;
 }
 
+// Audit
+export type AuditResult = 'success' | 'failure' | 'denied';
+
+export interface AuditEntry {
+    id: UUID;
+    sequence: number;
+    timestamp: DateTimeString;
+    actorId: string; // user ID, 'anonymous' or 'system'
+    actorRole: UserRole;
+    action: string;
+    resourceType: string;
+    resourceId?: string;
+    result: AuditResult;
+    metadata: Record<string, any>;
+    previousHash: string;
+    entryHash: string;
+}
+
+// Erasure
+export type ErasureRequestStatus = 'pending' | 'rejected' | 'partially_completed' | 'completed';
+
+export interface LegalHold {
+    id: UUID;
+    requestId: UUID;
+    subjectId: UUID;
+    resourceType: 'security_alert' | 'emergency';
+    resourceId: UUID;
+    deliveryId?: UUID;
+    reason: string;
+    createdAt: DateTimeString;
+    releasedAt?: DateTimeString;
+}
+
+export interface ErasureOutcome {
+    erased: Record<string, number>;
+    anonymised: Record<string, number>;
+    shreddedKeys: number;
+    legalHolds: LegalHold[];
+}
+
+export interface ErasureRequest {
+    id: UUID;
+    subjectId: UUID;
+    requestedBy: string;
+    requestedByRole: UserRole;
+    reason?: string;
+    status: ErasureRequestStatus;
+    requestedAt: DateTimeString;
+    reviewedBy?: string;
+    reviewedAt?: DateTimeString;
+    reviewNotes?: string;
+    completedAt?: DateTimeString;
+    outcome?: ErasureOutcome;
+}
+
+// Consent
+export type ConsentPurpose = 'live_location_sharing' | 'marketing_sms' | 'marketing_whatsapp' | 'photo_proof_retention';
+export type ConsentAction = 'grant' | 'withdraw';
+
+export interface ConsentRecord {
+    id: UUID;
+    subjectId: UUID;
+    purpose: ConsentPurpose;
+    purposeVersion: number;
+    action: ConsentAction;
+    recordedAt: DateTimeString;
+    recordedBy: string;
+}
+
 // Real-Time
 export type RealtimeEventType = 'delivery:status_update' | 'alert:security' | 'alert:emergency' | 'location:update';
 
@@ -1,4 +1,4 @@
-import { RawCoordinates } from '../types/index.js';
+import { RawCoordinates, GeofenceGeometry } from '../types/index.js';
 
 /**
  * Calculate distance between two points in meters (Haversine formula)
@@ -35,3 +35,65 @@ export function calculateBearing(point1: RawCoordinates, point2: RawCoordinates)
     const theta = Math.atan2(y, x);
     return (theta * 180 / Math.PI + 360) % 360; // Normalize to 0-360
 }
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Distance from the origin to segment AB in a flat (x, y) metre plane
+ */
+function distanceToSegment(ax: number, ay: number, bx: number, by: number): number {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Signed distance in meters from a point to one polygon's boundary (outline
+ * plus holes), with the rings already projected around the point
+ */
+function signedDistanceToPolygon(rings: Array<Array<[number, number]>>): number {
+    let insidePolygon = false;
+    let nearest = Infinity;
+
+    rings.forEach((projected, ringIndex) => {
+        let insideRing = false;
+
+        for (let i = 0, j = projected.length - 1; i < projected.length; j = i++) {
+            const [xi, yi] = projected[i] ?? [0, 0];
+            const [xj, yj] = projected[j] ?? [0, 0];
+
+            // Ray cast along +x from the origin
+            if ((yi > 0) !== (yj > 0) && 0 < xj + (0 - yj) * (xi - xj) / (yi - yj)) {
+                insideRing = !insideRing;
+            }
+            nearest = Math.min(nearest, distanceToSegment(xj, yj, xi, yi));
+        }
+
+        // First ring is the outline, the rest are holes
+        if (ringIndex === 0) insidePolygon = insideRing;
+        else if (insideRing) insidePolygon = false;
+    });
+
+    return insidePolygon ? -nearest : nearest;
+}
+
+/**
+ * Signed distance in meters from a point to a Polygon / MultiPolygon boundary:
+ * negative inside, positive outside. Each polygon of a MultiPolygon is measured
+ * on its own and the smallest result wins, so the distance always comes from
+ * the polygon containing the point, or the nearest one. Rings are projected
+ * onto a flat plane around the point, which is accurate for fences a few
+ * kilometres across.
+ */
+export function signedDistanceToGeometry(point: RawCoordinates, geometry: GeofenceGeometry): number {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const cosLat = Math.cos(point.latitude * Math.PI / 180);
+    const project = (position: number[]): [number, number] => [
+        ((position[0] ?? 0) - point.longitude) * cosLat * METERS_PER_DEGREE,
+        ((position[1] ?? 0) - point.latitude) * METERS_PER_DEGREE,
+    ];
+
+    return Math.min(...polygons.map(rings => signedDistanceToPolygon(rings.map(ring => ring.map(project)))));
+}
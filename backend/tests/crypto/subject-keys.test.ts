@@ -0,0 +1,25 @@
+import { initializeDatabase, closeDatabase } from '../../src/database/connection.js';
+import { getActiveSubjectKey, getSubjectKey } from '../../src/crypto/subject-keys.js';
+
+describe('getSubjectKey', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('returns the cached key for its own subject', () => {
+        const { keyId, key } = getActiveSubjectKey('subject-a');
+
+        expect(getSubjectKey(keyId, 'subject-a')).toEqual({ status: 'ok', key });
+    });
+
+    it('rejects a cached key looked up for another subject', () => {
+        const { keyId } = getActiveSubjectKey('subject-a');
+
+        expect(() => getSubjectKey(keyId, 'subject-b')).toThrow(/does not belong/);
+    });
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { EmergencyRecord, OTPRecord, RealtimeEvent, SecurityAlert } from '../../src/types/index.js';
+
+type Connection = typeof import('../../src/database/connection.js');
+type SecurityRepository = typeof import('../../src/database/repositories/security.repository.js');
+type VerificationRepository = typeof import('../../src/database/repositories/verification.repository.js');
+type EmergencyRepository = typeof import('../../src/database/repositories/emergency.repository.js');
+type RealtimeRepository = typeof import('../../src/database/repositories/realtime.repository.js');
+type Orchestrator = typeof import('../../src/services/emergency-response/orchestrator.js');
+
+const DRIVER_ID = 'd0000000-0000-4000-8000-000000000001';
+const DELIVERY_ID = 'a0000000-0000-4000-8000-000000000001';
+
+// A file rather than :memory:, so closing and reopening is a real restart
+const databasePath = path.join(os.tmpdir(), `kenyaship-persistence-${process.pid}.db`);
+
+let connection: Connection;
+let security: SecurityRepository;
+let verification: VerificationRepository;
+let emergency: EmergencyRepository;
+let realtime: RealtimeRepository;
+let orchestrator: Orchestrator;
+
+function restart(): void {
+    connection.closeDatabase();
+    connection.initializeDatabase();
+}
+
+beforeAll(async () => {
+    process.env['DATABASE_URL'] = databasePath;
+    connection = await import('../../src/database/connection.js');
+    security = await import('../../src/database/repositories/security.repository.js');
+    verification = await import('../../src/database/repositories/verification.repository.js');
+    emergency = await import('../../src/database/repositories/emergency.repository.js');
+    realtime = await import('../../src/database/repositories/realtime.repository.js');
+    orchestrator = await import('../../src/services/emergency-response/orchestrator.js');
+    connection.initializeDatabase();
+});
+
+afterAll(() => {
+    connection.closeDatabase();
+    for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(databasePath + suffix, { force: true });
+    }
+});
+
+describe('SQLite persistence', () => {
+    it('applies every migration once, so reopening is a no-op', () => {
+        const versions = () => connection.getDatabase()
+            .prepare('SELECT COUNT(*) AS count FROM schema_migrations')
+            .get() as { count: number };
+        const before = versions().count;
+
+        restart();
+        expect(versions().count).toBe(before);
+    });
+
+    it('keeps alerts across a restart', () => {
+        const alert: SecurityAlert = {
+            id: 'f0000000-0000-4000-8000-000000000001',
+            deliveryId: DELIVERY_ID,
+            driverId: DRIVER_ID,
+            anomalyType: 'unusual_stop',
+            severity: 'medium',
+            zoneId: '88754e6499fffff',
+            detectedAt: '2024-03-01T08:00:00.000Z',
+            description: 'Stationary for 20 minutes',
+            isAcknowledged: false,
+        };
+        security.insertAlert(alert);
+        security.updateAlert({ ...alert, isAcknowledged: true, acknowledgedAt: '2024-03-01T08:05:00.000Z', acknowledgedBy: 'officer-1' });
+
+        restart();
+        expect(security.findAlertById(alert.id)).toMatchObject({
+            ...alert,
+            isAcknowledged: true,
+            acknowledgedBy: 'officer-1',
+        });
+        expect(security.findAlertsByDelivery(DELIVERY_ID).map(a => a.id)).toEqual([alert.id]);
+        expect(security.findUnacknowledgedAlerts()).toEqual([]);
+    });
+
+    it('keeps OTP records across a restart', () => {
+        const record: OTPRecord = {
+            id: 'f0000000-0000-4000-8000-000000000002',
+            deliveryId: DELIVERY_ID,
+            recipientId: 'c0000000-0000-4000-8000-000000000001',
+            otpEncrypted: 'ciphertext',
+            expiresAt: '2099-01-01T00:00:00.000Z',
+            createdAt: '2024-03-01T08:00:00.000Z',
+            attemptCount: 0,
+            isVerified: false,
+        };
+        verification.insertOTPRecord(record);
+        verification.updateOTPRecord({ ...record, attemptCount: 2 });
+
+        restart();
+        expect(verification.findPendingOTPRecord(DELIVERY_ID)).toMatchObject({ ...record, attemptCount: 2 });
+    });
+
+    it('keeps emergencies across a restart', () => {
+        const record: EmergencyRecord = {
+            id: 'f0000000-0000-4000-8000-000000000003',
+            driverId: DRIVER_ID,
+            deliveryId: DELIVERY_ID,
+            emergencyType: 'accident_detected',
+            location: { latitude: -1.2864, longitude: 36.8172 },
+            triggeredAt: '2024-03-01T08:00:00.000Z',
+            status: 'triggered',
+            notificationsent: ['contact-1'],
+        };
+        emergency.insertEmergency(record);
+        emergency.updateEmergency({ ...record, status: 'responding' });
+
+        restart();
+        expect(emergency.findEmergencyById(record.id)).toEqual({ ...record, status: 'responding' });
+        expect(emergency.findActiveEmergencyByDriver(DRIVER_ID)?.id).toBe(record.id);
+    });
+
+    it('keeps encrypted emergency contacts readable through the service after a restart', () => {
+        const contacts = [{ name: 'Akinyi Ouma', phone: '+254722000001', relationship: 'spouse' }];
+        orchestrator.setEmergencyContacts(DRIVER_ID, contacts);
+
+        expect(emergency.findEmergencyContacts(DRIVER_ID)).not.toContain('Akinyi');
+        restart();
+        expect(orchestrator.getEmergencyContacts(DRIVER_ID)).toEqual(contacts);
+    });
+
+    it('queues offline events in order and drains them once', () => {
+        const event = (eventId: string): RealtimeEvent => ({
+            eventId,
+            type: 'delivery_update',
+            timestamp: '2024-03-01T08:00:00.000Z',
+            audience: { userIds: [DRIVER_ID] },
+            payload: { status: 'in_transit' },
+        });
+        realtime.enqueueOfflineEvent(DRIVER_ID, event('e1'), 2);
+        realtime.enqueueOfflineEvent(DRIVER_ID, event('e2'), 2);
+        realtime.enqueueOfflineEvent(DRIVER_ID, event('e3'), 2);
+
+        restart();
+        expect(realtime.drainOfflineEvents(DRIVER_ID).map(e => e.eventId)).toEqual(['e2', 'e3']);
+        expect(realtime.drainOfflineEvents(DRIVER_ID)).toEqual([]);
+    });
+
+    it('clears emergencies and their contacts together', () => {
+        orchestrator.setEmergencyContacts(DRIVER_ID, [{ name: 'Akinyi Ouma', phone: '+254722000001', relationship: 'spouse' }]);
+        expect(emergency.findUnresolvedEmergencies()).not.toEqual([]);
+
+        orchestrator.clearEmergencyData();
+
+        expect(emergency.findUnresolvedEmergencies()).toEqual([]);
+        expect(emergency.findEmergencyContacts(DRIVER_ID)).toBeNull();
+    });
+});
@@ -0,0 +1,82 @@
+import h3 from 'h3-js';
+import type { StoredLocationHistoryEntry } from '../../../src/database/repositories/security.repository.js';
+import { detectSpeedAnomaly, type SpeedLimits } from '../../../src/services/cargo-security/speed.js';
+
+const MINUTE_MS = 60 * 1000;
+const START = new Date('2024-03-01T08:00:00Z').getTime();
+const LIMITS: SpeedLimits = { minSpeedKmh: 5, maxSpeedKmh: 120 };
+// Degrees of longitude per km near Nairobi
+const DEGREES_PER_KM = 1 / 111.17;
+
+const notHighway = () => false;
+const highway = () => true;
+
+/**
+ * One fix a minute heading east at a steady speed, times as reported under
+ * the security monitoring policy
+ */
+function trip(minutes: number, kmPerMinute: number, overrides: Partial<StoredLocationHistoryEntry> = {}): StoredLocationHistoryEntry[] {
+    return Array.from({ length: minutes + 1 }, (_, minute) => ({
+        zoneId: h3.latLngToCell(-1.3, 36.8 + minute * kmPerMinute * DEGREES_PER_KM, 9),
+        timestamp: new Date(START + minute * MINUTE_MS),
+        isMoving: true,
+        timeUseCase: 'security_monitoring',
+        ...overrides,
+    }));
+}
+
+describe('detectSpeedAnomaly', () => {
+    it('needs two fixes', () => {
+        expect(detectSpeedAnomaly([], LIMITS, notHighway)).toBeNull();
+        expect(detectSpeedAnomaly(trip(0, 1), LIMITS, notHighway)).toBeNull();
+    });
+
+    it('ignores normal driving', () => {
+        expect(detectSpeedAnomaly(trip(15, 1), LIMITS, notHighway)).toBeNull();
+    });
+
+    it('flags an impossible jump between consecutive fixes', () => {
+        const history = trip(1, 50);
+        const anomaly = detectSpeedAnomaly(history, LIMITS, notHighway);
+
+        expect(anomaly?.severity).toBe('high');
+        expect(anomaly?.zoneId).toBe(history[1]?.zoneId);
+        expect(anomaly?.description).toMatch(/Impossible jump/);
+    });
+
+    it('gives entries without a time policy the widest margin', () => {
+        expect(detectSpeedAnomaly(trip(1, 50, { timeUseCase: null }), LIMITS, notHighway)).toBeNull();
+    });
+
+    it('reports sustained over-speeding once, when the window first qualifies', () => {
+        // 200 km/h for ten minutes
+        const history = trip(11, 200 / 60);
+
+        expect(detectSpeedAnomaly(history.slice(0, 10), LIMITS, notHighway)).toBeNull();
+        expect(detectSpeedAnomaly(history.slice(0, 11), LIMITS, notHighway)?.severity).toBe('medium');
+        expect(detectSpeedAnomaly(history, LIMITS, notHighway)).toBeNull();
+    });
+
+    it('allows for dispatch times being coarser', () => {
+        // Fast enough to exceed the limit with security monitoring margins, not with dispatch ones
+        const history = trip(10, 150 / 60);
+        expect(detectSpeedAnomaly(history, LIMITS, notHighway)?.severity).toBe('medium');
+
+        const dispatch = history.map(entry => ({ ...entry, timeUseCase: 'dispatch' as const }));
+        expect(detectSpeedAnomaly(dispatch, LIMITS, notHighway)).toBeNull();
+    });
+
+    it('does not judge windows with long gaps', () => {
+        // Eleven minutes without an update in the middle of the window
+        const history = trip(13, 200 / 60).filter((_, minute) => minute < 2 || minute > 11);
+        expect(detectSpeedAnomaly(history, LIMITS, notHighway)).toBeNull();
+    });
+
+    it('flags crawling only on highway zones', () => {
+        const crawl = trip(20, 0);
+
+        expect(detectSpeedAnomaly(crawl, LIMITS, highway)?.severity).toBe('low');
+        expect(detectSpeedAnomaly(crawl, LIMITS, notHighway)).toBeNull();
+        expect(detectSpeedAnomaly(trip(20, 0, { isMoving: false }), LIMITS, highway)).toBeNull();
+    });
+});
@@ -0,0 +1,54 @@
+import { initializeDatabase, closeDatabase } from '../../../src/database/connection.js';
+import { config } from '../../../src/config/index.js';
+import { ingestTrace, type TraceIngestionRequest } from '../../../src/services/cargo-security/trace-ingestion.js';
+import { InvalidTraceError } from '../../../src/services/cargo-security/trace-parsers.js';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function gpxRequest(times: Date[]): TraceIngestionRequest {
+    const points = times.map((time, index) =>
+        `<trkpt lat="-1.2864" lon="${(36.8172 + index * 0.001).toFixed(4)}"><time>${time.toISOString()}</time></trkpt>`);
+    return {
+        deliveryId: 'a0000000-0000-4000-8000-000000000001',
+        driverId: 'd0000000-0000-4000-8000-000000000001',
+        format: 'gpx',
+        data: `<gpx><trk><trkseg>${points.join('')}</trkseg></trk></gpx>`,
+    };
+}
+
+describe('ingestTrace', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('replays trips from earlier days within the retention window', () => {
+        const start = NOW.getTime() - 3 * DAY_MS;
+        const summary = ingestTrace(gpxRequest([0, 1, 2].map(i => new Date(start + i * MINUTE_MS))), NOW);
+
+        expect(summary).toMatchObject({ fixesParsed: 3, fixesSkipped: 0 });
+        expect(summary.updatesProcessed).toBeGreaterThan(0);
+        expect(summary.acceptedWindow).toEqual({
+            from: new Date(NOW.getTime() - config.retentionDaysLocation * DAY_MS).toISOString(),
+            to: NOW.toISOString(),
+        });
+    });
+
+    it('rejects the whole trace when a fix is older than the retention window', () => {
+        const tooOld = new Date(NOW.getTime() - (config.retentionDaysLocation + 1) * DAY_MS);
+        const request = gpxRequest([tooOld, new Date(NOW.getTime() - MINUTE_MS)]);
+
+        expect(() => ingestTrace(request, NOW)).toThrow(InvalidTraceError);
+    });
+
+    it('skips fixes from the future', () => {
+        const summary = ingestTrace(gpxRequest([new Date(NOW.getTime() - MINUTE_MS), new Date(NOW.getTime() + MINUTE_MS)]), NOW);
+        expect(summary).toMatchObject({ fixesParsed: 2, fixesSkipped: 1 });
+    });
+});
@@ -0,0 +1,112 @@
+import {
+    InvalidTraceError,
+    parseGeoJson,
+    parseGpx,
+    parseNmea,
+    parseTrace,
+} from '../../../src/services/cargo-security/trace-parsers.js';
+
+describe('parseGpx', () => {
+    it('reads track points with times and drops those without', () => {
+        const fixes = parseGpx(`<?xml version="1.0"?>
+            <gpx version="1.1"><trk><trkseg>
+                <trkpt lat="-1.2864" lon="36.8172"><time>2024-03-01T08:00:00Z</time></trkpt>
+                <trkpt lon='36.8150' lat='-1.2800'><ele>1700</ele><time> 2024-03-01T08:01:00Z </time></trkpt>
+                <trkpt lat="-1.2790" lon="36.8140"/>
+            </trkseg></trk></gpx>`);
+
+        expect(fixes).toEqual([
+            { coords: { latitude: -1.2864, longitude: 36.8172 }, timestamp: new Date('2024-03-01T08:00:00Z') },
+            { coords: { latitude: -1.28, longitude: 36.815 }, timestamp: new Date('2024-03-01T08:01:00Z') },
+        ]);
+    });
+
+    it('drops points outside valid coordinate ranges', () => {
+        const fixes = parseGpx(`<gpx><trkpt lat="95" lon="36.8"><time>2024-03-01T08:00:00Z</time></trkpt></gpx>`);
+        expect(fixes).toEqual([]);
+    });
+
+    it('rejects documents that are not GPX', () => {
+        expect(() => parseGpx('<kml></kml>')).toThrow(new InvalidTraceError('Not a GPX document'));
+    });
+});
+
+describe('parseNmea', () => {
+    const rmc = '$GPRMC,080000.00,A,0117.184,S,03649.032,E,10.0,90.0,010324,,,A*44';
+    const gga = '$GPGGA,080100.00,0117.100,S,03649.000,E,1,08,0.9,1700.0,M,,M,,*5F';
+
+    it('converts RMC and GGA sentences to decimal degrees', () => {
+        const fixes = parseNmea(`${rmc}\n${gga}`);
+
+        expect(fixes).toHaveLength(2);
+        expect(fixes[0]?.coords.latitude).toBeCloseTo(-1.2864, 4);
+        expect(fixes[0]?.coords.longitude).toBeCloseTo(36.8172, 4);
+        expect(fixes[0]?.timestamp).toEqual(new Date('2024-03-01T08:00:00Z'));
+        // GGA has no date of its own; it takes the latest RMC's
+        expect(fixes[1]?.timestamp).toEqual(new Date('2024-03-01T08:01:00Z'));
+    });
+
+    it('skips sentences with a bad checksum, void fixes and no-fix GGA', () => {
+        const fixes = parseNmea([
+            '$GPRMC,080000.00,A,0117.184,S,03649.032,E,10.0,90.0,010324,,,A*00',
+            '$GPRMC,080200.00,V,0117.184,S,03649.032,E,10.0,90.0,010324,,,A',
+            '$GPGGA,080300.00,0117.100,S,03649.000,E,0,00,,,M,,M,,',
+        ].join('\r\n'));
+
+        expect(fixes).toEqual([]);
+    });
+
+    it('keeps one fix when RMC and GGA report the same instant', () => {
+        const fixes = parseNmea([
+            '$GPRMC,080000.00,A,0117.184,S,03649.032,E,10.0,90.0,010324,,,A',
+            '$GPGGA,080000.00,0117.184,S,03649.032,E,1,08,0.9,1700.0,M,,M,,',
+        ].join('\n'));
+
+        expect(fixes).toHaveLength(1);
+    });
+});
+
+describe('parseGeoJson', () => {
+    const feature = {
+        type: 'Feature',
+        properties: { coordTimes: ['2024-03-01T08:00:00Z', '2024-03-01T08:01:00Z', null] },
+        geometry: { type: 'LineString', coordinates: [[36.8172, -1.2864], [36.815, -1.28], [36.814, -1.279]] },
+    };
+
+    it('pairs LineString positions with coordTimes, longitude first', () => {
+        expect(parseGeoJson(feature)).toEqual([
+            { coords: { latitude: -1.2864, longitude: 36.8172 }, timestamp: new Date('2024-03-01T08:00:00Z') },
+            { coords: { latitude: -1.28, longitude: 36.815 }, timestamp: new Date('2024-03-01T08:01:00Z') },
+        ]);
+    });
+
+    it('reads collections and coordinateProperties.times from a string', () => {
+        const collection = {
+            type: 'FeatureCollection',
+            features: [{
+                type: 'Feature',
+                properties: { coordinateProperties: { times: [1709280000000] } },
+                geometry: { type: 'LineString', coordinates: [[36.8172, -1.2864]] },
+            }],
+        };
+
+        expect(parseGeoJson(JSON.stringify(collection))).toEqual([
+            { coords: { latitude: -1.2864, longitude: 36.8172 }, timestamp: new Date(1709280000000) },
+        ]);
+    });
+
+    it('rejects bare geometries and malformed JSON as invalid traces', () => {
+        expect(() => parseGeoJson(feature.geometry)).toThrow(InvalidTraceError);
+        expect(() => parseGeoJson('null')).toThrow(InvalidTraceError);
+        expect(() => parseGeoJson('{"type": "Feature"')).toThrow('GeoJSON trace is not valid JSON');
+    });
+});
+
+describe('parseTrace', () => {
+    it('dispatches on format', () => {
+        const gpx = '<gpx><trkpt lat="-1.2864" lon="36.8172"><time>2024-03-01T08:00:00Z</time></trkpt></gpx>';
+        expect(parseTrace('gpx', gpx)).toHaveLength(1);
+        expect(() => parseTrace('nmea', gpx)).not.toThrow();
+        expect(parseTrace('nmea', gpx)).toEqual([]);
+    });
+});
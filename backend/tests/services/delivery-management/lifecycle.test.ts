@@ -0,0 +1,90 @@
+import type { DeliveryStatus } from '../../../src/types/index.js';
+import { initializeDatabase, closeDatabase } from '../../../src/database/connection.js';
+import {
+    createDelivery,
+    getAllowedTransitions,
+    getDeliveryTimeline,
+    isTerminalStatus,
+    transitionDelivery,
+    type NewDelivery,
+} from '../../../src/services/delivery-management/lifecycle.js';
+
+const ACTOR = { id: 'dispatcher-1', role: 'dispatcher' as const };
+const STATUSES: DeliveryStatus[] = ['created', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned'];
+
+const NEW_DELIVERY: NewDelivery = {
+    senderId: 'e0000000-0000-4000-8000-000000000001',
+    recipientId: 'c0000000-0000-4000-8000-000000000001',
+    sender: { name: 'Duka Bora Ltd', phone: '+254733000001', address: 'Moi Avenue, Nairobi CBD' },
+    recipient: { name: 'Mary Wambui', phone: '+254700000001', address: 'Woodvale Grove, Westlands' },
+    parcel: { description: 'Laptop', weightKg: 3.2 },
+    driverId: 'd0000000-0000-4000-8000-000000000001',
+};
+
+describe('delivery transitions', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('only lets delivered and returned deliveries end', () => {
+        expect(STATUSES.filter(isTerminalStatus)).toEqual(['delivered', 'returned']);
+        expect(getAllowedTransitions('out_for_delivery')).toEqual(['delivered', 'failed', 'returned']);
+    });
+
+    it('never allows a delivery to go back to created', () => {
+        for (const status of STATUSES) {
+            expect(getAllowedTransitions(status)).not.toContain('created');
+        }
+    });
+
+    it('walks the happy path and records each step', () => {
+        const delivery = createDelivery(NEW_DELIVERY, ACTOR);
+
+        for (const status of ['picked_up', 'in_transit', 'out_for_delivery'] as const) {
+            const result = transitionDelivery(delivery.id, status, ACTOR);
+            expect(result.ok && result.delivery.status).toBe(status);
+        }
+
+        expect(getDeliveryTimeline(delivery.id).map(event => event.toStatus))
+            .toEqual(['created', 'picked_up', 'in_transit', 'out_for_delivery']);
+    });
+
+    it('rejects transitions outside the table without changing the delivery', () => {
+        const delivery = createDelivery(NEW_DELIVERY, ACTOR);
+
+        expect(transitionDelivery(delivery.id, 'in_transit', ACTOR)).toMatchObject({ ok: false, error: 'invalid_transition' });
+        expect(transitionDelivery(delivery.id, 'delivered', ACTOR)).toMatchObject({ ok: false, error: 'invalid_transition' });
+        expect(getDeliveryTimeline(delivery.id)).toHaveLength(1);
+    });
+
+    it('keeps terminal deliveries terminal', () => {
+        const delivery = createDelivery(NEW_DELIVERY, ACTOR);
+        expect(transitionDelivery(delivery.id, 'failed', ACTOR, 'Recipient unreachable').ok).toBe(true);
+        expect(transitionDelivery(delivery.id, 'returned', ACTOR).ok).toBe(true);
+
+        for (const status of STATUSES) {
+            expect(transitionDelivery(delivery.id, status, ACTOR)).toMatchObject({ ok: false, error: 'invalid_transition' });
+        }
+    });
+
+    it('requires a driver for pickup and verification for delivery', () => {
+        const unassigned = createDelivery({ ...NEW_DELIVERY, driverId: undefined }, ACTOR);
+        expect(transitionDelivery(unassigned.id, 'picked_up', ACTOR)).toMatchObject({ ok: false, error: 'driver_required' });
+
+        const delivery = createDelivery(NEW_DELIVERY, ACTOR);
+        for (const status of ['picked_up', 'in_transit', 'out_for_delivery'] as const) {
+            transitionDelivery(delivery.id, status, ACTOR);
+        }
+        expect(transitionDelivery(delivery.id, 'delivered', ACTOR)).toMatchObject({ ok: false, error: 'not_verified' });
+    });
+
+    it('reports unknown deliveries', () => {
+        expect(transitionDelivery('00000000-0000-4000-8000-000000000000', 'picked_up', ACTOR))
+            .toMatchObject({ ok: false, error: 'not_found' });
+    });
+});
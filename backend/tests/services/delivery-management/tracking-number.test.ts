@@ -0,0 +1,36 @@
+import {
+    generateTrackingNumber,
+    normalizeTrackingNumber,
+} from '../../../src/services/delivery-management/tracking-number.js';
+
+describe('normalizeTrackingNumber', () => {
+    it('accepts generated numbers unchanged', () => {
+        for (let i = 0; i < 20; i++) {
+            const trackingNumber = generateTrackingNumber();
+            expect(trackingNumber).toMatch(/^KS-[2-9A-HJKMNP-Z]{5}-[2-9A-HJKMNP-Z]{5}$/);
+            expect(normalizeTrackingNumber(trackingNumber)).toBe(trackingNumber);
+        }
+    });
+
+    it('ignores case, spaces and dashes', () => {
+        const trackingNumber = generateTrackingNumber();
+        const typed = ` ${trackingNumber.toLowerCase().replace(/-/g, ' ')} `;
+        expect(normalizeTrackingNumber(typed)).toBe(trackingNumber);
+        expect(normalizeTrackingNumber(trackingNumber.replace(/-/g, ''))).toBe(trackingNumber);
+    });
+
+    it('rejects a wrong check symbol', () => {
+        const trackingNumber = generateTrackingNumber();
+        const last = trackingNumber.slice(-1);
+        const wrong = last === '2' ? '3' : '2';
+        expect(normalizeTrackingNumber(trackingNumber.slice(0, -1) + wrong)).toBeNull();
+    });
+
+    it('rejects ambiguous symbols, other prefixes and wrong lengths', () => {
+        const trackingNumber = generateTrackingNumber();
+        expect(normalizeTrackingNumber(trackingNumber.replace(/^KS-./, 'KS-O'))).toBeNull();
+        expect(normalizeTrackingNumber(trackingNumber.replace(/^KS/, 'KX'))).toBeNull();
+        expect(normalizeTrackingNumber(trackingNumber.slice(0, -2))).toBeNull();
+        expect(normalizeTrackingNumber('')).toBeNull();
+    });
+});
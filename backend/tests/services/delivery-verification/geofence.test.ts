@@ -0,0 +1,69 @@
+import { initializeDatabase, closeDatabase } from '../../../src/database/connection.js';
+import { setDeliveryGeofence, verifyGeofence } from '../../../src/services/delivery-verification/verifier.js';
+
+const DELIVERY_ID = 'a0000000-0000-4000-8000-000000000001';
+const DOOR = { latitude: -1.2676, longitude: 36.8108 };
+// ~20 m north of the door
+const NEAR_DOOR = { latitude: -1.26742, longitude: 36.8108 };
+
+describe('verifyGeofence', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('keeps the (deliveryId, driverLocation, deliveryLocation, radiusMeters) call working', () => {
+        const result = verifyGeofence(DELIVERY_ID, NEAR_DOOR, DOOR, 100);
+
+        expect(result).toMatchObject({ isWithinGeofence: true, mode: 'radius' });
+        // Without a reported accuracy the worst accepted one is assumed
+        expect(result?.accuracyMeters).toBe(100);
+        expect(result?.confidence).toBe('low');
+    });
+
+    it('is confident when the reported accuracy circle fits the fence', () => {
+        expect(verifyGeofence(DELIVERY_ID, NEAR_DOOR, DOOR, 150, 10)).toMatchObject({
+            isWithinGeofence: true,
+            accuracyMeters: 10,
+            confidence: 'high',
+        });
+    });
+
+    it('rejects fixes less precise than the accepted accuracy', () => {
+        expect(verifyGeofence(DELIVERY_ID, NEAR_DOOR, DOOR, 150, 500)).toMatchObject({
+            isWithinGeofence: false,
+            reason: 'accuracy_too_low',
+        });
+    });
+
+    it('uses the polygon geofence when one is set', () => {
+        const half = 0.001;
+        setDeliveryGeofence(DELIVERY_ID, 'Woodvale Grove compound', {
+            type: 'MultiPolygon',
+            coordinates: [[[
+                [DOOR.longitude - half, DOOR.latitude - half],
+                [DOOR.longitude + half, DOOR.latitude - half],
+                [DOOR.longitude + half, DOOR.latitude + half],
+                [DOOR.longitude - half, DOOR.latitude + half],
+                [DOOR.longitude - half, DOOR.latitude - half],
+            ]]],
+        });
+
+        expect(verifyGeofence(DELIVERY_ID, NEAR_DOOR)).toMatchObject({
+            isWithinGeofence: true,
+            mode: 'polygon',
+            geofenceName: 'Woodvale Grove compound',
+            distance: 0,
+        });
+        expect(verifyGeofence(DELIVERY_ID, { latitude: DOOR.latitude, longitude: DOOR.longitude + 0.005 }))
+            .toMatchObject({ isWithinGeofence: false, reason: 'outside_geofence' });
+    });
+
+    it('needs a geofence or a delivery location', () => {
+        expect(verifyGeofence(DELIVERY_ID, NEAR_DOOR)).toBeNull();
+    });
+});
@@ -0,0 +1,61 @@
+import { initializeDatabase, closeDatabase } from '../../../src/database/connection.js';
+import { createDelivery, type NewDelivery } from '../../../src/services/delivery-management/lifecycle.js';
+import { batchAssign } from '../../../src/services/dispatch/engine.js';
+
+const ACTOR = { id: 'dispatcher-1', role: 'dispatcher' as const };
+
+const NEW_DELIVERY: NewDelivery = {
+    senderId: 'e0000000-0000-4000-8000-000000000001',
+    recipientId: 'c0000000-0000-4000-8000-000000000001',
+    sender: { name: 'Duka Bora Ltd', phone: '+254733000001', address: 'Moi Avenue, Nairobi CBD' },
+    recipient: { name: 'Mary Wambui', phone: '+254700000001', address: 'Woodvale Grove, Westlands' },
+    parcel: { description: 'Laptop', weightKg: 3.2 },
+};
+
+// Deliveries created a minute apart, oldest first; no driver is on shift
+function createDeliveries(): [oldest: string, assigned: string, newest: string] {
+    jest.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    const oldest = createDelivery(NEW_DELIVERY, ACTOR).id;
+    jest.setSystemTime(new Date('2026-03-02T08:01:00Z'));
+    const assigned = createDelivery({ ...NEW_DELIVERY, driverId: 'd0000000-0000-4000-8000-000000000001' }, ACTOR).id;
+    jest.setSystemTime(new Date('2026-03-02T08:02:00Z'));
+    const newest = createDelivery(NEW_DELIVERY, ACTOR).id;
+    return [oldest, assigned, newest];
+}
+
+describe('batchAssign', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('handles explicit deliveries oldest first and leaves assigned ones alone', () => {
+        const [oldest, assigned, newest] = createDeliveries();
+
+        const outcome = batchAssign({ deliveryIds: [newest, assigned, oldest] }, ACTOR);
+
+        expect(outcome.assigned).toEqual([]);
+        expect(outcome.unassigned).toEqual([
+            { deliveryId: assigned, reason: expect.stringMatching(/already has a driver/) },
+            { deliveryId: oldest, reason: 'No eligible driver' },
+            { deliveryId: newest, reason: 'No eligible driver' },
+        ]);
+    });
+
+    it('considers assigned deliveries with an override', () => {
+        const [oldest, assigned, newest] = createDeliveries();
+
+        const outcome = batchAssign({ deliveryIds: [newest, assigned, oldest], override: { reason: 'driver off sick' } }, ACTOR);
+
+        expect(outcome.unassigned.map(entry => entry.deliveryId)).toEqual([oldest, assigned, newest]);
+    });
+});
@@ -0,0 +1,46 @@
+import { clearMovementWindow, inferMovementState } from '../../../src/services/location-obfuscation/movement.js';
+
+const DRIVER_ID = 'd0000000-0000-4000-8000-000000000001';
+const START = new Date('2024-03-01T08:00:00Z').getTime();
+const NAIROBI = { latitude: -1.2864, longitude: 36.8172 };
+// Degrees of longitude per metre near Nairobi
+const DEGREES_PER_METER = 1 / 111170;
+
+function fixAt(seconds: number, metersEast = 0): [typeof NAIROBI, Date] {
+    return [
+        { latitude: NAIROBI.latitude, longitude: NAIROBI.longitude + metersEast * DEGREES_PER_METER },
+        new Date(START + seconds * 1000),
+    ];
+}
+
+describe('inferMovementState', () => {
+    beforeEach(() => {
+        clearMovementWindow(DRIVER_ID);
+    });
+
+    it('is unknown until the window spans long enough', () => {
+        expect(inferMovementState(DRIVER_ID, ...fixAt(0))).toBe('unknown');
+        expect(inferMovementState(DRIVER_ID, ...fixAt(10, 100))).toBe('unknown');
+    });
+
+    it('tells moving from stationary', () => {
+        inferMovementState(DRIVER_ID, ...fixAt(0));
+        expect(inferMovementState(DRIVER_ID, ...fixAt(30, 300))).toBe('moving');
+        expect(inferMovementState(DRIVER_ID, ...fixAt(60, 310))).toBe('stationary');
+    });
+
+    it('ignores fixes older than the latest one', () => {
+        inferMovementState(DRIVER_ID, ...fixAt(0));
+        inferMovementState(DRIVER_ID, ...fixAt(30, 300));
+
+        // A stale fix far away neither changes the state nor resets the window
+        expect(inferMovementState(DRIVER_ID, ...fixAt(5, 5000))).toBe('moving');
+        expect(inferMovementState(DRIVER_ID, ...fixAt(60, 600))).toBe('moving');
+    });
+
+    it('forgets the state once it is stale', () => {
+        inferMovementState(DRIVER_ID, ...fixAt(0));
+        inferMovementState(DRIVER_ID, ...fixAt(30, 300));
+        expect(inferMovementState(DRIVER_ID, ...fixAt(400, 300))).toBe('unknown');
+    });
+});
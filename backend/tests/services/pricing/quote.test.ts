@@ -0,0 +1,73 @@
+import { createQuote, verifyQuote, type Quote } from '../../../src/services/pricing/quote.js';
+import { config } from '../../../src/config/index.js';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('createQuote', () => {
+    const now = new Date('2024-03-01T08:00:00Z');
+
+    it('prices every plan and expires after the configured TTL', () => {
+        const quote = createQuote({ originCounty: 'nairobi', destinationCounty: 'Mombasa', weightKg: 2 }, now);
+
+        expect(quote.request.originCounty).toBe('Nairobi');
+        expect(quote.distanceKm).toBeGreaterThan(0);
+        expect(quote.plans.length).toBeGreaterThan(0);
+        for (const plan of quote.plans) {
+            const { distanceFee, weightFee, planAdjustment, vat, insurance, total } = plan.breakdown;
+            expect(total).toBe(distanceFee + weightFee + planAdjustment + vat + insurance);
+        }
+        expect(new Date(quote.expiresAt).getTime() - now.getTime()).toBe(config.quoteTtlMinutes * MINUTE_MS);
+    });
+
+    it('charges the volumetric weight when it exceeds the actual weight', () => {
+        const quote = createQuote({
+            originCounty: 'Nairobi', destinationCounty: 'Nairobi', weightKg: 1, lengthCm: 60, widthCm: 50, heightCm: 40,
+        }, now);
+
+        expect(quote.volumetricWeightKg).toBeGreaterThan(1);
+        expect(quote.chargeableWeightKg).toBe(quote.volumetricWeightKg);
+    });
+
+    it('throws for unknown counties', () => {
+        expect(() => createQuote({ originCounty: 'Atlantis', destinationCounty: 'Nairobi', weightKg: 1 }, now))
+            .toThrow('Unknown county: Atlantis');
+    });
+});
+
+describe('verifyQuote', () => {
+    const now = new Date('2024-03-01T08:00:00Z');
+    let quote: Quote;
+
+    beforeEach(() => {
+        quote = createQuote({ originCounty: 'Kisumu', destinationCounty: 'Nakuru', weightKg: 5, declaredValueKes: 20000 }, now);
+    });
+
+    it('accepts an untouched quote after a JSON round trip', () => {
+        const received = JSON.parse(JSON.stringify(quote)) as Quote;
+        expect(verifyQuote(received, new Date(now.getTime() + MINUTE_MS))).toBe('valid');
+    });
+
+    it('does not depend on key order', () => {
+        const { signature, ...rest } = quote;
+        const reordered = Object.fromEntries(Object.entries(rest).reverse());
+        expect(verifyQuote({ signature, ...reordered } as Quote, now)).toBe('valid');
+    });
+
+    it('rejects edited prices, expiry and signatures', () => {
+        const cheaper = structuredClone(quote);
+        const plan = cheaper.plans[0];
+        expect(plan).toBeDefined();
+        if (plan) plan.breakdown.total -= 100;
+        expect(verifyQuote(cheaper, now)).toBe('invalid');
+
+        const extended = { ...quote, expiresAt: new Date(now.getTime() + 24 * 60 * MINUTE_MS).toISOString() };
+        expect(verifyQuote(extended, now)).toBe('invalid');
+
+        expect(verifyQuote({ ...quote, signature: 'not-hex' }, now)).toBe('invalid');
+    });
+
+    it('reports expired quotes', () => {
+        const later = new Date(now.getTime() + (config.quoteTtlMinutes + 1) * MINUTE_MS);
+        expect(verifyQuote(quote, later)).toBe('expired');
+    });
+});
@@ -0,0 +1,133 @@
+import { initializeDatabase, closeDatabase, getDatabase } from '../../../src/database/connection.js';
+import {
+    createAuditEntry,
+    queryAuditLog,
+    truncateAuditLog,
+    verifyAuditChain,
+    type AuditEntryInput,
+} from '../../../src/services/privacy-access-control/audit-log.js';
+
+const ENTRY: AuditEntryInput = {
+    actorId: 'admin-1',
+    actorRole: 'admin',
+    action: 'delivery_viewed',
+    resourceType: 'delivery',
+    resourceId: 'a0000000-0000-4000-8000-000000000001',
+    metadata: { reason: 'support ticket' },
+    result: 'success',
+};
+
+function appendEntries(count: number): void {
+    for (let i = 0; i < count; i++) {
+        createAuditEntry({ ...ENTRY, metadata: { index: i } });
+    }
+}
+
+// Someone with write access to the database file can drop the triggers first
+function dropTrigger(name: string): void {
+    getDatabase().exec(`DROP TRIGGER ${name}`);
+}
+
+describe('verifyAuditChain', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('accepts an empty log and an intact chain', () => {
+        expect(verifyAuditChain()).toEqual({ valid: true, checkedEntries: 0, anchoredAt: null, issues: [] });
+
+        appendEntries(3);
+        expect(verifyAuditChain()).toMatchObject({ valid: true, checkedEntries: 3, issues: [] });
+    });
+
+    it('detects edited entries', () => {
+        appendEntries(3);
+        dropTrigger('audit_log_no_update');
+        getDatabase().prepare('UPDATE audit_log SET actor_id = ? WHERE sequence = 2').run('someone-else');
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.issues).toEqual([expect.objectContaining({ sequence: 2, type: 'hash_mismatch' })]);
+    });
+
+    it('detects removed entries', () => {
+        appendEntries(3);
+        dropTrigger('audit_log_no_delete');
+        getDatabase().prepare('DELETE FROM audit_log WHERE sequence = 2').run();
+
+        const types = verifyAuditChain().issues.map(issue => `${issue.sequence}:${issue.type}`);
+        expect(types).toEqual(['3:gap', '3:chain_break']);
+    });
+
+    it('detects entries removed from the tail', () => {
+        appendEntries(3);
+        dropTrigger('audit_log_no_delete');
+        getDatabase().prepare('DELETE FROM audit_log WHERE sequence = 3').run();
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.issues).toEqual([expect.objectContaining({ sequence: 3, type: 'head_mismatch' })]);
+    });
+
+    it('detects a head not written by the audit service', () => {
+        appendEntries(2);
+        getDatabase().prepare('UPDATE audit_log_head SET sequence = 1, head_hmac = ?').run('forged');
+
+        expect(verifyAuditChain().issues).toEqual([expect.objectContaining({ type: 'head_mismatch' })]);
+    });
+
+    it('blocks deletes outside anchored truncation', () => {
+        appendEntries(2);
+        expect(() => getDatabase().prepare('DELETE FROM audit_log WHERE sequence = 1').run()).toThrow(/anchored truncation/);
+    });
+
+    it('stays valid after truncation', () => {
+        appendEntries(3);
+        const cutoff = new Date(Date.now() + 1000).toISOString();
+        expect(truncateAuditLog(cutoff)).toBe(3);
+        appendEntries(2);
+
+        expect(verifyAuditChain()).toMatchObject({ valid: true, checkedEntries: 2, anchoredAt: 3 });
+    });
+
+    it('detects anchors not written by truncation', () => {
+        appendEntries(3);
+        const head = getDatabase()
+            .prepare('SELECT sequence, entry_hash FROM audit_log ORDER BY sequence DESC LIMIT 1')
+            .get() as { sequence: number; entry_hash: string };
+        getDatabase()
+            .prepare('INSERT INTO audit_log_anchors (sequence, entry_hash, created_at, anchor_hmac) VALUES (?, ?, ?, ?)')
+            .run(head.sequence, head.entry_hash, new Date().toISOString(), 'forged');
+        getDatabase().prepare('DELETE FROM audit_log').run();
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.issues).toEqual([expect.objectContaining({ sequence: 3, type: 'anchor_mismatch' })]);
+    });
+});
+
+describe('queryAuditLog', () => {
+    beforeEach(() => {
+        closeDatabase();
+        initializeDatabase();
+    });
+
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('matches LIKE wildcards in the action filter literally', () => {
+        createAuditEntry(ENTRY);
+        createAuditEntry({ ...ENTRY, action: 'export_100%' });
+
+        expect(queryAuditLog({ action: '%' }, 1, 10).total).toBe(1);
+        expect(queryAuditLog({ action: 'delivery_' }, 1, 10).total).toBe(1);
+        expect(queryAuditLog({ action: '_' }, 1, 10).total).toBe(2);
+        expect(queryAuditLog({ action: 'delivery%viewed' }, 1, 10).total).toBe(0);
+    });
+});
@@ -0,0 +1,4 @@
+// Each test file gets its own in-memory database and quiet logs
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_URL'] = ':memory:';
+process.env['LOG_LEVEL'] = 'error';
@@ -0,0 +1,51 @@
+import type { GeofenceGeometry } from '../../src/types/index.js';
+import { signedDistanceToGeometry } from '../../src/utils/geo-utils.js';
+
+// Square ring of side 2 * half degrees around (latitude, longitude), [longitude, latitude] order
+function square(latitude: number, longitude: number, half: number): number[][] {
+    return [
+        [longitude - half, latitude - half],
+        [longitude + half, latitude - half],
+        [longitude + half, latitude + half],
+        [longitude - half, latitude + half],
+        [longitude - half, latitude - half],
+    ];
+}
+
+// ~111 m per 0.001 degree of latitude; longitude shrinks by cos(latitude), negligible at -1.3
+const NEAR_EQUATOR_METERS = 111;
+
+describe('signedDistanceToGeometry', () => {
+    const centre = { latitude: -1.3, longitude: 36.8 };
+    const polygon: GeofenceGeometry = { type: 'Polygon', coordinates: [square(-1.3, 36.8, 0.001)] };
+
+    it('is negative inside a polygon, by the distance to the nearest edge', () => {
+        expect(signedDistanceToGeometry(centre, polygon)).toBeCloseTo(-NEAR_EQUATOR_METERS, -1);
+    });
+
+    it('is positive outside a polygon', () => {
+        const outside = { latitude: -1.3, longitude: 36.803 };
+        expect(signedDistanceToGeometry(outside, polygon)).toBeCloseTo(2 * NEAR_EQUATOR_METERS, -1);
+    });
+
+    it('treats points inside a hole as outside', () => {
+        const withHole: GeofenceGeometry = {
+            type: 'Polygon',
+            coordinates: [square(-1.3, 36.8, 0.003), square(-1.3, 36.8, 0.001)],
+        };
+        expect(signedDistanceToGeometry(centre, withHole)).toBeCloseTo(NEAR_EQUATOR_METERS, -1);
+    });
+
+    it('measures each polygon of a MultiPolygon on its own', () => {
+        const multi: GeofenceGeometry = {
+            type: 'MultiPolygon',
+            coordinates: [[square(-1.3, 36.79, 0.001)], [square(-1.3, 36.8, 0.001)]],
+        };
+
+        // Inside the second polygon, even though the first one's edge is further away
+        expect(signedDistanceToGeometry(centre, multi)).toBeCloseTo(-NEAR_EQUATOR_METERS, -1);
+        // Between the two, the nearest polygon wins
+        const between = { latitude: -1.3, longitude: 36.7955 };
+        expect(signedDistanceToGeometry(between, multi)).toBeCloseTo(3.5 * NEAR_EQUATOR_METERS, -1);
+    });
+});
@@ -1,19 +1,30 @@
+import { Route, Routes } from 'react-router-dom'
 import Navbar from './components/navbar'
 import HeroSection from './components/herosection'
 import ServicesSection from './components/servicessection'
 import PricingSection from './components/pricingsection'
 import CTASection from './components/CTAsection'
 import Footer from './components/footer'
+import TrackingPage from './components/trackingpage'
+
+const Home = () => (
+    <>
+        <HeroSection />
+        <ServicesSection />
+        <PricingSection />
+        <CTASection />
+    </>
+)
 
 function App() {
     return (
         <div className="min-h-screen">
             <Navbar />
             <main>
-                <HeroSection />
-                <ServicesSection />
-                <PricingSection />
-                <CTASection />
+                <Routes>
+                    <Route path="/" element={<Home />} />
+                    <Route path="/track/:trackingNumber" element={<TrackingPage />} />
+                </Routes>
             </main>
             <Footer />
         </div>
@@ -1,10 +1,18 @@
-import { useState } from "react";
+import { useState, type FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, ArrowRight, Truck, Shield, Clock, MapPin } from "lucide-react";
 
 const HeroSection = () => {
     const [trackingNumber, setTrackingNumber] = useState("");
+    const navigate = useNavigate();
+
+    const handleTrack = (e: FormEvent) => {
+        e.preventDefault();
+        const value = trackingNumber.trim();
+        if (value) navigate(`/track/${encodeURIComponent(value)}`);
+    };
 
     const features = [
         { icon: Clock, text: "24/7 Support" },
@@ -41,7 +49,7 @@ const HeroSection = () => {
                         </p>
 
                         {/* Tracking Input */}
-                        <div className="flex flex-col sm:flex-row gap-3 max-w-lg" id="track">
+                        <form onSubmit={handleTrack} className="flex flex-col sm:flex-row gap-3 max-w-lg" id="track">
                             <div className="relative flex-1">
                                 <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                                 <Input
@@ -53,12 +61,13 @@ const HeroSection = () => {
                                 />
                             </div>
                             <Button
+                                type="submit"
                                 size="lg"
                                 className="h-14 px-8 bg-gradient-hero hover:opacity-90 transition-opacity shadow-glow font-semibold"
                             >
                                 Track <ArrowRight className="ml-2 w-4 h-4" />
                             </Button>
-                        </div>
+                        </form>
 
                         {/* Feature Pills */}
                         <div className="flex flex-wrap gap-4 pt-4">
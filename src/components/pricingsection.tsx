@@ -1,28 +1,69 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calculator, ArrowRight, Check } from "lucide-react";
+import { ApiError, fetchCounties, requestQuote, type PricingPlan, type Quote } from "@/lib/api";
 
-const counties = [
-    "Nairobi", "Mombasa", "Kisumu", "Nakuru", "Eldoret",
-    "Thika", "Malindi", "Kitale", "Garissa", "Nyeri"
+// Shown until the server's county list arrives
+const popularCounties = [
+    "Nairobi", "Mombasa", "Kisumu", "Nakuru", "Uasin Gishu",
+    "Kiambu", "Kilifi", "Trans Nzoia", "Garissa", "Nyeri"
 ];
 
+const planNames: Record<PricingPlan, string> = {
+    standard: "Standard",
+    express: "Express",
+    business: "Business",
+};
+
+const formatKes = (amount: number) => `KES ${amount.toLocaleString()}`;
+
+const transitLabel = ({ min, max }: { min: number; max: number }) =>
+    max === 0 ? "Same day" : min === 0 ? `Same day - ${max} day${max > 1 ? "s" : ""}` : `${min}-${max} days`;
+
+const optionalNumber = (value: string) => (value ? parseFloat(value) : undefined);
+
 const PricingSection = () => {
+    const [counties, setCounties] = useState(popularCounties);
     const [weight, setWeight] = useState("");
+    const [length, setLength] = useState("");
+    const [width, setWidth] = useState("");
+    const [height, setHeight] = useState("");
+    const [declaredValue, setDeclaredValue] = useState("");
     const [from, setFrom] = useState("");
     const [to, setTo] = useState("");
-    const [calculatedPrice, setCalculatedPrice] = useState<number | null>(null);
-
-    const calculatePrice = () => {
-        const basePrice = 200;
-        const pricePerKg = 50;
-        const distanceMultiplier = from === to ? 0.5 : 1;
-        const price = basePrice + (parseFloat(weight) || 0) * pricePerKg * distanceMultiplier;
-        setCalculatedPrice(Math.round(price));
+    const [quote, setQuote] = useState<Quote | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        fetchCounties().then(setCounties).catch(() => undefined);
+    }, []);
+
+    const calculatePrice = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setQuote(await requestQuote({
+                originCounty: from,
+                destinationCounty: to,
+                weightKg: parseFloat(weight),
+                lengthCm: optionalNumber(length),
+                widthCm: optionalNumber(width),
+                heightCm: optionalNumber(height),
+                declaredValueKes: optionalNumber(declaredValue),
+            }));
+        } catch (err) {
+            setQuote(null);
+            setError(err instanceof ApiError && err.status === 400
+                ? "Please check the shipment details and try again."
+                : "Pricing is temporarily unavailable. Please try again later.");
+        } finally {
+            setLoading(false);
+        }
     };
 
     const pricingPlans = [
@@ -150,24 +191,86 @@ const PricingSection = () => {
                                         step="0.1"
                                     />
                                 </div>
+
+                                <div className="space-y-2">
+                                    <Label>Dimensions (cm, optional)</Label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <Input type="number" placeholder="Length" value={length} onChange={(e) => setLength(e.target.value)} min="0" />
+                                        <Input type="number" placeholder="Width" value={width} onChange={(e) => setWidth(e.target.value)} min="0" />
+                                        <Input type="number" placeholder="Height" value={height} onChange={(e) => setHeight(e.target.value)} min="0" />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="declared-value">Declared Value for Insurance (KES, optional)</Label>
+                                    <Input
+                                        id="declared-value"
+                                        type="number"
+                                        placeholder="Leave empty for no insurance"
+                                        value={declaredValue}
+                                        onChange={(e) => setDeclaredValue(e.target.value)}
+                                        min="0"
+                                    />
+                                </div>
                             </div>
 
                             <Button
                                 onClick={calculatePrice}
                                 className="w-full bg-gradient-hero hover:opacity-90 transition-opacity shadow-glow"
-                                disabled={!from || !to || !weight}
+                                disabled={!from || !to || !weight || loading}
                             >
-                                Calculate Price <ArrowRight className="ml-2 w-4 h-4" />
+                                {loading ? "Calculating..." : "Calculate Price"} <ArrowRight className="ml-2 w-4 h-4" />
                             </Button>
 
-                            {calculatedPrice !== null && (
-                                <div className="p-6 rounded-2xl bg-accent text-center animate-scale-in">
-                                    <p className="text-sm text-muted-foreground mb-2">Estimated Price</p>
-                                    <p className="font-display text-4xl font-bold text-primary">
-                                        KES {calculatedPrice.toLocaleString()}
+                            {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+                            {quote && (
+                                <div className="space-y-4 animate-scale-in">
+                                    <p className="text-sm text-muted-foreground text-center">
+                                        {quote.distanceKm > 0 ? `About ${quote.distanceKm.toLocaleString()} km by road` : "Within the county"}
+                                        {" · "}charged on {quote.chargeableWeightKg} kg
+                                        {quote.volumetricWeightKg !== null && quote.volumetricWeightKg > quote.request.weightKg && " (volumetric)"}
                                     </p>
-                                    <p className="text-xs text-muted-foreground mt-2">
-                                        *Final price may vary based on package dimensions
+                                    {quote.plans.map((plan) => (
+                                        <div
+                                            key={plan.plan}
+                                            className={`p-4 rounded-2xl bg-accent ${plan.available ? "" : "opacity-60"}`}
+                                        >
+                                            <div className="flex items-baseline justify-between mb-2">
+                                                <span className="font-display font-bold text-foreground">
+                                                    {planNames[plan.plan]}
+                                                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                                        {transitLabel(plan.transitDays)}
+                                                    </span>
+                                                </span>
+                                                <span className="font-display text-2xl font-bold text-primary">
+                                                    {formatKes(plan.breakdown.total)}
+                                                </span>
+                                            </div>
+                                            {plan.available ? (
+                                                <dl className="grid grid-cols-2 gap-x-4 text-xs text-muted-foreground">
+                                                    <dt>Distance</dt><dd className="text-right">{formatKes(plan.breakdown.distanceFee)}</dd>
+                                                    <dt>Weight</dt><dd className="text-right">{formatKes(plan.breakdown.weightFee)}</dd>
+                                                    {plan.breakdown.planAdjustment !== 0 && (
+                                                        <>
+                                                            <dt>{plan.breakdown.planAdjustment > 0 ? "Plan surcharge" : "Plan discount"}</dt>
+                                                            <dd className="text-right">{formatKes(plan.breakdown.planAdjustment)}</dd>
+                                                        </>
+                                                    )}
+                                                    <dt>VAT (16%)</dt><dd className="text-right">{formatKes(plan.breakdown.vat)}</dd>
+                                                    {plan.breakdown.insurance > 0 && (
+                                                        <>
+                                                            <dt>Insurance</dt><dd className="text-right">{formatKes(plan.breakdown.insurance)}</dd>
+                                                        </>
+                                                    )}
+                                                </dl>
+                                            ) : (
+                                                <p className="text-xs text-muted-foreground">{plan.unavailableReason}</p>
+                                            )}
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-muted-foreground text-center">
+                                        Quote valid until {new Date(quote.expiresAt).toLocaleTimeString("en-KE", { timeStyle: "short" })}
                                     </p>
                                 </div>
                             )}
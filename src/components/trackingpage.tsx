@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, CheckCircle2, Circle, Clock, MapPin, Package, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ApiError, trackShipment, type DeliveryStatus, type TrackingResult } from "@/lib/api";
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+    created: "Shipment created",
+    picked_up: "Picked up",
+    in_transit: "In transit",
+    out_for_delivery: "Out for delivery",
+    delivered: "Delivered",
+    failed: "Delivery attempt failed",
+    returned: "Returned to sender",
+};
+
+const PROGRESS: DeliveryStatus[] = ["created", "picked_up", "in_transit", "out_for_delivery", "delivered"];
+
+const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString("en-KE", { dateStyle: "medium", timeStyle: "short" });
+
+const TrackingPage = () => {
+    const { trackingNumber = "" } = useParams();
+    const [result, setResult] = useState<TrackingResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+
+        trackShipment(trackingNumber)
+            .then((data) => !cancelled && setResult(data))
+            .catch((err: unknown) => {
+                if (cancelled) return;
+                setResult(null);
+                if (err instanceof ApiError && err.status === 404) {
+                    setError("We couldn't find a shipment with that tracking number. Please check it and try again.");
+                } else if (err instanceof ApiError && err.status === 429) {
+                    setError("Too many lookups. Please wait a few minutes and try again.");
+                } else {
+                    setError("Tracking is temporarily unavailable. Please try again later.");
+                }
+            })
+            .finally(() => !cancelled && setLoading(false));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [trackingNumber]);
+
+    const reached = result ? PROGRESS.indexOf(result.status) : -1;
+    const unsuccessful = result?.status === "failed" || result?.status === "returned";
+
+    return (
+        <section className="min-h-screen pt-28 pb-16 bg-gradient-to-br from-accent via-background to-background">
+            <div className="container mx-auto px-4 max-w-3xl space-y-6">
+                <Link
+                    to="/"
+                    className="inline-flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+                >
+                    <ArrowLeft className="w-4 h-4" /> Back to home
+                </Link>
+
+                <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground">
+                    Tracking <span className="text-gradient-primary">{result?.trackingNumber ?? trackingNumber}</span>
+                </h1>
+
+                {loading && <p className="text-muted-foreground">Looking up your shipment...</p>}
+
+                {!loading && error && (
+                    <Card className="shadow-card">
+                        <CardContent className="p-6 flex items-start gap-3">
+                            <XCircle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+                            <p className="text-muted-foreground">{error}</p>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {!loading && result && (
+                    <>
+                        <Card className="shadow-elevated">
+                            <CardContent className="p-6 grid sm:grid-cols-3 gap-6">
+                                <div className="flex items-start gap-3">
+                                    <Package className="w-5 h-5 text-primary mt-0.5" />
+                                    <div>
+                                        <div className="text-sm text-muted-foreground">Status</div>
+                                        <div className="font-semibold text-foreground">{STATUS_LABELS[result.status]}</div>
+                                    </div>
+                                </div>
+                                <div className="flex items-start gap-3">
+                                    <MapPin className="w-5 h-5 text-primary mt-0.5" />
+                                    <div>
+                                        <div className="text-sm text-muted-foreground">Current area</div>
+                                        <div className="font-semibold text-foreground">{result.currentArea ?? "—"}</div>
+                                    </div>
+                                </div>
+                                <div className="flex items-start gap-3">
+                                    <Clock className="w-5 h-5 text-primary mt-0.5" />
+                                    <div>
+                                        <div className="text-sm text-muted-foreground">Estimated delivery</div>
+                                        <div className="font-semibold text-foreground">
+                                            {result.estimatedDelivery ? formatTime(result.estimatedDelivery) : "—"}
+                                        </div>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        {!unsuccessful && (
+                            <div className="flex items-center gap-2">
+                                {PROGRESS.map((status, index) => (
+                                    <div
+                                        key={status}
+                                        className={`h-2 flex-1 rounded-full ${index <= reached ? "bg-gradient-hero" : "bg-muted"}`}
+                                        title={STATUS_LABELS[status]}
+                                    />
+                                ))}
+                            </div>
+                        )}
+
+                        <Card className="shadow-card">
+                            <CardHeader>
+                                <CardTitle className="font-display text-xl">Shipment history</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <ol className="space-y-4">
+                                    {[...result.timeline].reverse().map((event, index) => (
+                                        <li key={`${event.status}-${event.occurredAt}`} className="flex items-start gap-3">
+                                            {index === 0 ? (
+                                                <CheckCircle2 className="w-5 h-5 text-primary shrink-0" />
+                                            ) : (
+                                                <Circle className="w-5 h-5 text-muted-foreground shrink-0" />
+                                            )}
+                                            <div>
+                                                <div className="font-medium text-foreground">{STATUS_LABELS[event.status]}</div>
+                                                <div className="text-sm text-muted-foreground">{formatTime(event.occurredAt)}</div>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </CardContent>
+                        </Card>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default TrackingPage;
@@ -0,0 +1,100 @@
+const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3001";
+
+export type DeliveryStatus =
+    | "created"
+    | "picked_up"
+    | "in_transit"
+    | "out_for_delivery"
+    | "delivered"
+    | "failed"
+    | "returned";
+
+export interface TrackingResult {
+    trackingNumber: string;
+    status: DeliveryStatus;
+    currentArea: string | null;
+    estimatedDelivery: string | null;
+    timeline: { status: DeliveryStatus; occurredAt: string }[];
+}
+
+interface ApiEnvelope<T> {
+    success: boolean;
+    data?: T;
+    error?: { code: string; message: string };
+}
+
+export class ApiError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+    }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${API_URL}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+    const body = (await response.json()) as ApiEnvelope<T>;
+
+    if (!response.ok || !body.success || body.data === undefined) {
+        throw new ApiError(
+            response.status,
+            body.error?.code ?? "UNKNOWN",
+            body.error?.message ?? "Request failed"
+        );
+    }
+    return body.data;
+}
+
+export function trackShipment(trackingNumber: string): Promise<TrackingResult> {
+    return request<TrackingResult>(`/api/track/${encodeURIComponent(trackingNumber)}`);
+}
+
+export type PricingPlan = "standard" | "express" | "business";
+
+export interface QuoteRequest {
+    originCounty: string;
+    destinationCounty: string;
+    weightKg: number;
+    lengthCm?: number;
+    widthCm?: number;
+    heightCm?: number;
+    declaredValueKes?: number;
+}
+
+export interface PlanQuote {
+    plan: PricingPlan;
+    available: boolean;
+    unavailableReason?: string;
+    breakdown: {
+        distanceFee: number;
+        weightFee: number;
+        planAdjustment: number;
+        vat: number;
+        insurance: number;
+        total: number;
+    };
+    transitDays: { min: number; max: number };
+}
+
+export interface Quote {
+    id: string;
+    request: QuoteRequest;
+    distanceKm: number;
+    volumetricWeightKg: number | null;
+    chargeableWeightKg: number;
+    currency: "KES";
+    plans: PlanQuote[];
+    issuedAt: string;
+    expiresAt: string;
+    signature: string;
+}
+
+export async function fetchCounties(): Promise<string[]> {
+    const data = await request<{ counties: string[] }>("/api/quotes/counties");
+    return data.counties;
+}
+
+export function requestQuote(quote: QuoteRequest): Promise<Quote> {
+    return request<Quote>("/api/quotes", { method: "POST", body: JSON.stringify(quote) });
+}